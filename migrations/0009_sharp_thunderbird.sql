@@ -0,0 +1,19 @@
+CREATE TABLE "review_states" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"interval_days" integer DEFAULT 0 NOT NULL,
+	"ease_factor" real DEFAULT 2.5 NOT NULL,
+	"review_count" integer DEFAULT 0 NOT NULL,
+	"last_score" integer,
+	"last_reviewed_at" timestamp,
+	"due_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_states" ADD CONSTRAINT "review_states_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_states" ADD CONSTRAINT "review_states_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "review_states_user_exercise_unique_idx" ON "review_states" USING btree ("user_id","exercise_id");--> statement-breakpoint
+CREATE INDEX "review_states_user_due_idx" ON "review_states" USING btree ("user_id","due_at");
\ No newline at end of file
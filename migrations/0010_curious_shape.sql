@@ -0,0 +1,4 @@
+-- The chunk_embeddings pgvector table is no longer created by migrations, so
+-- databases without the vector extension can still be migrated. It is created
+-- by `npm run pgvector:init` (run after db:migrate) when VECTOR_STORE=pgvector.
+SELECT 1;
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."ingestion_job_status" AS ENUM('pending', 'processing', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "ingestion_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"status" "ingestion_job_status" DEFAULT 'pending' NOT NULL,
+	"content_type" "content_type" NOT NULL,
+	"title" text,
+	"source_url" text,
+	"original_filename" text,
+	"staging_key" text,
+	"text_content" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	CONSTRAINT "ingestion_jobs_document_id_unique" UNIQUE("document_id")
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingestion_jobs_pending_created_idx" ON "ingestion_jobs" USING btree ("created_at") WHERE "ingestion_jobs"."status" = 'pending';--> statement-breakpoint
+CREATE INDEX "ingestion_jobs_processing_started_idx" ON "ingestion_jobs" USING btree ("started_at") WHERE "ingestion_jobs"."status" = 'processing';
\ No newline at end of file
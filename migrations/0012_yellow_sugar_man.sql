@@ -0,0 +1,4 @@
+ALTER TYPE "public"."content_type" ADD VALUE 'docx';--> statement-breakpoint
+ALTER TYPE "public"."content_type" ADD VALUE 'epub';--> statement-breakpoint
+ALTER TYPE "public"."content_type" ADD VALUE 'markdown';--> statement-breakpoint
+ALTER TYPE "public"."content_type" ADD VALUE 'html';
\ No newline at end of file
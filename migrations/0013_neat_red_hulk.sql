@@ -0,0 +1,4 @@
+ALTER TYPE "public"."content_type" ADD VALUE 'srt';--> statement-breakpoint
+ALTER TYPE "public"."content_type" ADD VALUE 'vtt';--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "start_ms" integer;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "end_ms" integer;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "chunks" ADD COLUMN "start_char" integer;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "end_char" integer;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "start_page" integer;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "end_page" integer;
\ No newline at end of file
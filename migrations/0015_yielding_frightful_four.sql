@@ -0,0 +1 @@
+ALTER TABLE "generation_jobs" ADD COLUMN "passage" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generation_jobs" ALTER COLUMN "exercise_type" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "type_progress" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'word_order';
\ No newline at end of file
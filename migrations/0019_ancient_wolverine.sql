@@ -0,0 +1 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'error_correction';
\ No newline at end of file
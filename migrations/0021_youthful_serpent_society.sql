@@ -0,0 +1,2 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'reading_comprehension';--> statement-breakpoint
+ALTER TABLE "responses" ADD COLUMN "item_results" jsonb;
\ No newline at end of file
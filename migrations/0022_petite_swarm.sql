@@ -0,0 +1 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'cloze';
\ No newline at end of file
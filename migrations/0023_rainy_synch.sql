@@ -0,0 +1 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'conjugation';
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."dialogue_session_status" AS ENUM('active', 'completed');--> statement-breakpoint
+ALTER TYPE "public"."exercise_type" ADD VALUE 'dialogue';--> statement-breakpoint
+CREATE TABLE "dialogue_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"status" "dialogue_session_status" DEFAULT 'active' NOT NULL,
+	"turns" jsonb NOT NULL,
+	"response_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "dialogue_sessions" ADD CONSTRAINT "dialogue_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dialogue_sessions" ADD CONSTRAINT "dialogue_sessions_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dialogue_sessions" ADD CONSTRAINT "dialogue_sessions_response_id_responses_id_fk" FOREIGN KEY ("response_id") REFERENCES "public"."responses"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "dialogue_sessions_active_unique_idx" ON "dialogue_sessions" USING btree ("user_id","exercise_id") WHERE "dialogue_sessions"."status" = 'active';
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."exercise_type" ADD VALUE 'writing';--> statement-breakpoint
+ALTER TABLE "responses" ADD COLUMN "annotated_text" jsonb;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."part_of_speech" AS ENUM('noun', 'verb', 'adjective', 'adverb', 'expression', 'other');--> statement-breakpoint
+CREATE TYPE "public"."vocabulary_item_status" AS ENUM('listed', 'starred', 'suppressed');--> statement-breakpoint
+ALTER TYPE "public"."exercise_type" ADD VALUE 'vocabulary';--> statement-breakpoint
+CREATE TABLE "vocabulary_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"chunk_id" uuid NOT NULL,
+	"lemma" text NOT NULL,
+	"part_of_speech" "part_of_speech" NOT NULL,
+	"example_sentence" text NOT NULL,
+	"gloss" text NOT NULL,
+	"status" "vocabulary_item_status" DEFAULT 'listed' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vocabulary_items" ADD CONSTRAINT "vocabulary_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vocabulary_items" ADD CONSTRAINT "vocabulary_items_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vocabulary_items" ADD CONSTRAINT "vocabulary_items_chunk_id_chunks_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."chunks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "vocabulary_items_user_lemma_unique_idx" ON "vocabulary_items" USING btree ("user_id","lemma","part_of_speech");--> statement-breakpoint
+CREATE INDEX "vocabulary_items_document_id_idx" ON "vocabulary_items" USING btree ("document_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."grammar_topic" AS ENUM('articoli', 'genere_e_numero', 'accordo_aggettivi', 'presente_indicativo', 'preposizioni_semplici', 'possessivi', 'preposizioni_articolate', 'verbi_riflessivi', 'passato_prossimo', 'imperfetto', 'futuro_semplice', 'pronomi_diretti', 'pronomi_indiretti', 'comparativi_e_superlativi', 'particelle_ci_e_ne', 'imperativo', 'condizionale_presente', 'congiuntivo_presente', 'pronomi_combinati', 'pronomi_relativi', 'trapassato_prossimo', 'congiuntivo_imperfetto', 'congiuntivo_passato', 'periodo_ipotetico', 'passato_remoto', 'forma_passiva', 'discorso_indiretto', 'concordanza_dei_tempi', 'gerundio_e_participio');--> statement-breakpoint
+CREATE TABLE "topic_mastery" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"topic" "grammar_topic" NOT NULL,
+	"mastery" integer NOT NULL,
+	"attempt_count" integer DEFAULT 0 NOT NULL,
+	"last_score" integer NOT NULL,
+	"last_practiced_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "grammar_topic" "grammar_topic";--> statement-breakpoint
+ALTER TABLE "topic_mastery" ADD CONSTRAINT "topic_mastery_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "topic_mastery_user_topic_unique_idx" ON "topic_mastery" USING btree ("user_id","topic");
\ No newline at end of file
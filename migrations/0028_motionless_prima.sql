@@ -0,0 +1,18 @@
+CREATE TYPE "public"."cefr_level" AS ENUM('A1', 'A2', 'B1', 'B2', 'C1');--> statement-breakpoint
+CREATE TYPE "public"."placement_test_status" AS ENUM('active', 'completed');--> statement-breakpoint
+CREATE TABLE "placement_tests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"status" "placement_test_status" DEFAULT 'active' NOT NULL,
+	"answers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"ability" real,
+	"standard_error" real,
+	"cefr_level" "cefr_level",
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "placement_tests" ADD CONSTRAINT "placement_tests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "placement_tests_active_unique_idx" ON "placement_tests" USING btree ("user_id") WHERE "placement_tests"."status" = 'active';--> statement-breakpoint
+CREATE INDEX "placement_tests_user_completed_idx" ON "placement_tests" USING btree ("user_id","completed_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generation_jobs" ADD COLUMN "mistake_focus" jsonb;--> statement-breakpoint
+ALTER TABLE "responses" ADD COLUMN "corrections" text[];
\ No newline at end of file
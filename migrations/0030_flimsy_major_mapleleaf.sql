@@ -0,0 +1,17 @@
+CREATE TYPE "public"."practice_session_status" AS ENUM('active', 'completed');--> statement-breakpoint
+CREATE TABLE "practice_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"status" "practice_session_status" DEFAULT 'active' NOT NULL,
+	"exercise_ids" uuid[] NOT NULL,
+	"time_limit_seconds" integer,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "responses" ADD COLUMN "session_id" uuid;--> statement-breakpoint
+ALTER TABLE "practice_sessions" ADD CONSTRAINT "practice_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "practice_sessions_user_started_idx" ON "practice_sessions" USING btree ("user_id","started_at" DESC NULLS LAST);--> statement-breakpoint
+ALTER TABLE "responses" ADD CONSTRAINT "responses_session_id_practice_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."practice_sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "responses_session_exercise_unique_idx" ON "responses" USING btree ("session_id","exercise_id") WHERE "responses"."session_id" is not null;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TYPE "public"."daily_goal_metric" AS ENUM('exercises', 'minutes');--> statement-breakpoint
+CREATE TABLE "daily_goals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"metric" "daily_goal_metric" DEFAULT 'exercises' NOT NULL,
+	"target" integer NOT NULL,
+	"time_zone" text DEFAULT 'UTC' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "daily_goals" ADD CONSTRAINT "daily_goals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "daily_goals_user_unique_idx" ON "daily_goals" USING btree ("user_id");
\ No newline at end of file
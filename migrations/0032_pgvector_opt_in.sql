@@ -0,0 +1,3 @@
+-- chunk_embeddings moved out of the migrated schema (see src/models/VectorStoreSchema.ts).
+-- Existing tables are kept; `npm run pgvector:init` creates or updates them when VECTOR_STORE=pgvector.
+SELECT 1;
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."vocabulary_job_status" AS ENUM('pending', 'processing', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "vocabulary_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"status" "vocabulary_job_status" DEFAULT 'pending' NOT NULL,
+	"next_chunk_position" integer DEFAULT 0 NOT NULL,
+	"stored_count" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	CONSTRAINT "vocabulary_jobs_document_id_unique" UNIQUE("document_id")
+);
+--> statement-breakpoint
+ALTER TABLE "vocabulary_jobs" ADD CONSTRAINT "vocabulary_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vocabulary_jobs" ADD CONSTRAINT "vocabulary_jobs_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vocabulary_jobs_pending_created_idx" ON "vocabulary_jobs" USING btree ("created_at") WHERE "vocabulary_jobs"."status" = 'pending';--> statement-breakpoint
+CREATE INDEX "vocabulary_jobs_processing_started_idx" ON "vocabulary_jobs" USING btree ("started_at") WHERE "vocabulary_jobs"."status" = 'processing';
\ No newline at end of file
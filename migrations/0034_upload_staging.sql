@@ -0,0 +1,5 @@
+CREATE TABLE "upload_staging" (
+	"key" text PRIMARY KEY NOT NULL,
+	"data" "bytea" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,29 @@
+/**
+ * Backfill review states for exercises answered before review scheduling
+ *
+ * Run with: npm run reviews:backfill (also runs after npm run db:migrate)
+ *
+ * Replays each user/exercise response history through the review scheduler
+ * and creates the missing review_states rows. Existing rows are left as they
+ * are, so running it again only picks up what is still missing.
+ */
+
+import { backfillReviewStates } from '../src/libs/ReviewScheduler';
+
+async function main() {
+  console.log('Backfilling review states...\n');
+
+  try {
+    const created = await backfillReviewStates();
+    console.log(`✓ Created ${created} review states`);
+    process.exit(0);
+  } catch (err) {
+    console.error('✗ Failed to backfill review states:', err);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('Backfill failed:', err);
+  process.exit(1);
+});
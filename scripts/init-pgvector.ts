@@ -0,0 +1,34 @@
+/**
+ * Initialize the pgvector store
+ *
+ * Run with: npm run pgvector:init (also runs after npm run db:migrate)
+ *
+ * Creates the vector extension and the chunk_embeddings table when
+ * VECTOR_STORE=pgvector. Other vector stores need neither, so the script
+ * exits without touching the database for them.
+ */
+
+async function main() {
+  if (process.env.VECTOR_STORE !== 'pgvector') {
+    console.log('VECTOR_STORE is not pgvector, skipping pgvector setup');
+    return;
+  }
+
+  console.log('Initializing pgvector store...\n');
+
+  const { ensurePgVectorTable } = await import('../src/libs/PgVectorStore');
+
+  try {
+    await ensurePgVectorTable();
+    console.log('✓ pgvector table \'chunk_embeddings\' is ready');
+    process.exit(0);
+  } catch (err) {
+    console.error('✗ Failed to initialize pgvector store:', err);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('Initialization failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { DocumentReader } from '@/components/documents/DocumentReader';
+
+type DocumentReaderPageProps = {
+  params: Promise<{ locale: string; id: string }>;
+};
+
+export async function generateMetadata(props: DocumentReaderPageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DocumentReaderPage',
+  });
+
+  return {
+    title: t('meta_title'),
+  };
+}
+
+export default async function DocumentReaderPage(props: DocumentReaderPageProps) {
+  const { locale, id } = await props.params;
+  setRequestLocale(locale);
+
+  return <DocumentReader documentId={id} />;
+}
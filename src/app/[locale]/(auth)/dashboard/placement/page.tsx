@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { PlacementTestRunner } from '@/components/placement/PlacementTestRunner';
+
+type DashboardPlacementPageProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata(props: DashboardPlacementPageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DashboardPlacementPage',
+  });
+
+  return {
+    title: t('meta_title'),
+  };
+}
+
+export default async function DashboardPlacementPage(props: DashboardPlacementPageProps) {
+  const { locale } = await props.params;
+  setRequestLocale(locale);
+
+  return <PlacementTestRunner />;
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { PracticeSessionPlayer } from '@/components/practice/PracticeSessionPlayer';
+
+type PracticeSessionPageProps = {
+  params: Promise<{ locale: string; id: string }>;
+};
+
+export async function generateMetadata(props: PracticeSessionPageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DashboardPracticePage',
+  });
+
+  return {
+    title: t('session_meta_title'),
+  };
+}
+
+export default async function PracticeSessionPage(props: PracticeSessionPageProps) {
+  const { locale, id } = await props.params;
+  setRequestLocale(locale);
+
+  return <PracticeSessionPlayer sessionId={id} />;
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { PracticeSessionLauncher } from '@/components/practice/PracticeSessionLauncher';
+
+type DashboardPracticePageProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata(props: DashboardPracticePageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DashboardPracticePage',
+  });
+
+  return {
+    title: t('meta_title'),
+  };
+}
+
+export default async function DashboardPracticePage(props: DashboardPracticePageProps) {
+  const { locale } = await props.params;
+  setRequestLocale(locale);
+
+  return <PracticeSessionLauncher />;
+}
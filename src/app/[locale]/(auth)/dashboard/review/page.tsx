@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { ReviewQueue } from '@/components/reviews/ReviewQueue';
+
+type DashboardReviewPageProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata(props: DashboardReviewPageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DashboardReviewPage',
+  });
+
+  return {
+    title: t('meta_title'),
+  };
+}
+
+export default async function DashboardReviewPage(props: DashboardReviewPageProps) {
+  const { locale } = await props.params;
+  setRequestLocale(locale);
+
+  return <ReviewQueue />;
+}
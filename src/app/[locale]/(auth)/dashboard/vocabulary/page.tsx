@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { GlossaryBrowser } from '@/components/vocabulary/GlossaryBrowser';
+
+type DashboardVocabularyPageProps = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata(props: DashboardVocabularyPageProps): Promise<Metadata> {
+  const { locale } = await props.params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'DashboardVocabularyPage',
+  });
+
+  return {
+    title: t('meta_title'),
+  };
+}
+
+export default async function DashboardVocabularyPage(props: DashboardVocabularyPageProps) {
+  const { locale } = await props.params;
+  setRequestLocale(locale);
+
+  return <GlossaryBrowser />;
+}
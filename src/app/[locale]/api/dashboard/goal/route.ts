@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { saveDailyGoal } from '@/libs/DailyActivity';
+import { logger } from '@/libs/Logger';
+import { DailyGoalResponseSchema, UpdateDailyGoalRequestSchema } from '@/validations/DailyGoalValidation';
+
+export const runtime = 'nodejs';
+
+/**
+ * PUT /api/dashboard/goal
+ * Sets the learner's daily goal and the time zone their days are counted in.
+ * @param request - The incoming HTTP request with the goal metric, target and time zone
+ */
+export async function PUT(request: Request) {
+  try {
+    const user = await requireUser();
+    const parsedBody = UpdateDailyGoalRequestSchema.safeParse(await request.json());
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid daily goal' },
+        { status: 422 },
+      );
+    }
+
+    const goal = await saveDailyGoal({
+      userId: user.id,
+      goal: parsedBody.data,
+    });
+
+    return NextResponse.json(DailyGoalResponseSchema.parse({ goal }));
+  } catch (error) {
+    logger.error('Failed to save daily goal', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
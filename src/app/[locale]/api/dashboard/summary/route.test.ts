@@ -3,6 +3,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockSelect = vi.fn();
 const mockExecute = vi.fn();
+const mockGetDailyActivitySummary = vi.fn();
 
 class MockAuthenticationError extends Error {}
 class MockUserNotFoundError extends Error {}
@@ -20,6 +21,10 @@ vi.mock('@/libs/DB', () => ({
   },
 }));
 
+vi.mock('@/libs/DailyActivity', () => ({
+  getDailyActivitySummary: mockGetDailyActivitySummary,
+}));
+
 vi.mock('@/libs/Logger', () => ({
   logger: {
     info: vi.fn(),
@@ -47,9 +52,28 @@ function createWhereSelectResult(result: unknown) {
   };
 }
 
+function createRequest(query = '') {
+  return new Request(`http://localhost/api/dashboard/summary${query}`);
+}
+
 describe('GET /api/dashboard/summary', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockGetDailyActivitySummary.mockResolvedValue({
+      dailyGoal: {
+        metric: 'exercises',
+        target: 5,
+        timeZone: 'Europe/Rome',
+        isCustom: false,
+        progress: 3,
+        isMet: false,
+      },
+      currentStreak: 4,
+      activityCalendar: [
+        { date: '2026-03-04', exerciseCount: 6, minutes: 12 },
+        { date: '2026-03-05', exerciseCount: 3, minutes: 5 },
+      ],
+    });
   });
 
   it('returns aggregated dashboard counts and recent average score', async () => {
@@ -64,7 +88,7 @@ describe('GET /api/dashboard/summary', () => {
     });
 
     const { GET } = await import('./route');
-    const response = await GET();
+    const response = await GET(createRequest());
     const body = await response.json();
 
     expect(response.status).toBe(200);
@@ -73,13 +97,42 @@ describe('GET /api/dashboard/summary', () => {
     expect(body.documentCounts.failed).toBe(1);
     expect(body.activeGenerationJobsCount).toBe(3);
     expect(body.recentAverageScore).toBe(88);
+    expect(body.currentStreak).toBe(4);
+    expect(body.dailyGoal.progress).toBe(3);
+    expect(body.activityCalendar).toHaveLength(2);
+  });
+
+  it('counts days in the browser time zone', async () => {
+    mockSelect
+      .mockReturnValueOnce(createGroupedSelectResult([]))
+      .mockReturnValueOnce(createWhereSelectResult([{ count: 0 }]));
+    mockExecute.mockResolvedValue({ rows: [] });
+
+    const { GET } = await import('./route');
+    const response = await GET(createRequest('?timeZone=Europe%2FRome'));
+
+    expect(response.status).toBe(200);
+    expect(mockGetDailyActivitySummary).toHaveBeenCalledWith({
+      userId: 'user-1',
+      timeZone: 'Europe/Rome',
+    });
+  });
+
+  it('returns 422 for an unknown time zone', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(createRequest('?timeZone=Mars%2FOlympus'));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockGetDailyActivitySummary).not.toHaveBeenCalled();
   });
 
   it('returns 401 when authentication fails', async () => {
     mockRequireUser.mockRejectedValueOnce(new MockAuthenticationError('missing'));
 
     const { GET } = await import('./route');
-    const response = await GET();
+    const response = await GET(createRequest());
     const body = await response.json();
 
     expect(response.status).toBe(401);
@@ -1,6 +1,7 @@
 import { and, eq, inArray, sql } from 'drizzle-orm';
 import { NextResponse } from 'next/server';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { getDailyActivitySummary } from '@/libs/DailyActivity';
 import { db } from '@/libs/DB';
 import { logger } from '@/libs/Logger';
 import {
@@ -8,15 +9,30 @@ import {
   generationJobsSchema,
   responsesSchema,
 } from '@/models/Schema';
+import { TimeZoneSchema } from '@/validations/DailyGoalValidation';
 import { DashboardSummarySchema } from '@/validations/DocumentValidation';
 
 export const runtime = 'nodejs';
 
-export async function GET() {
+/**
+ * GET /api/dashboard/summary
+ * Returns document and job counts, recent scores, daily goal progress, the streak and the activity calendar.
+ * @param request - The incoming HTTP request, with the browser's time zone as an optional `timeZone` query parameter
+ */
+export async function GET(request: Request) {
   try {
     const user = await requireUser();
+    const timeZoneParam = new URL(request.url).searchParams.get('timeZone');
+    const parsedTimeZone = timeZoneParam === null ? null : TimeZoneSchema.safeParse(timeZoneParam);
 
-    const [documentCountsRows, activeJobsCountRow, recentAverageScoreRow] = await Promise.all([
+    if (parsedTimeZone && !parsedTimeZone.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid time zone' },
+        { status: 422 },
+      );
+    }
+
+    const [documentCountsRows, activeJobsCountRow, recentAverageScoreRow, dailyActivity] = await Promise.all([
       db
         .select({
           status: documentsSchema.status,
@@ -44,6 +60,10 @@ export async function GET() {
           limit 20
         ) as recent
       `),
+      getDailyActivitySummary({
+        userId: user.id,
+        timeZone: parsedTimeZone?.data,
+      }),
     ]);
 
     const documentCounts = {
@@ -64,6 +84,7 @@ export async function GET() {
       activeGenerationJobsCount: activeJobsCountRow[0]?.count ?? 0,
       recentAverageScore:
         recentAverageScoreRow.rows[0]?.recentAverageScore ?? null,
+      ...dailyActivity,
     });
 
     return NextResponse.json(payload);
@@ -6,6 +6,7 @@ const mockEq = vi.fn((column: unknown, value: unknown) => ({ type: 'eq', column,
 const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockDeleteDocument = vi.fn();
 const mockFindFirst = vi.fn();
+const mockListDocumentPassages = vi.fn();
 
 vi.mock('drizzle-orm', () => ({
   and: mockAnd,
@@ -30,6 +31,10 @@ vi.mock('@/libs/DB', () => ({
   },
 }));
 
+vi.mock('@/libs/DocumentReader', () => ({
+  listDocumentPassages: mockListDocumentPassages,
+}));
+
 vi.mock('@/libs/Logger', () => ({
   logger: {
     info: vi.fn(),
@@ -76,5 +81,52 @@ describe('GET /api/documents/[id]', () => {
     expect(mockEq).toHaveBeenCalledWith('documents.user_id', 'user-1');
     expect(mockAnd).toHaveBeenCalledTimes(1);
     expect(mockFindFirst).toHaveBeenCalledTimes(1);
+    expect(mockListDocumentPassages).not.toHaveBeenCalled();
+  });
+
+  it('returns the document passages with their exercises', async () => {
+    const passages = [{
+      id: '550e8400-e29b-41d4-a716-446655440030',
+      position: 0,
+      content: 'Ieri sono andato al mercato.',
+      startPage: 1,
+      endPage: 1,
+      startMs: null,
+      endMs: null,
+      startChar: 0,
+      endChar: 28,
+      exercises: [{
+        id: '550e8400-e29b-41d4-a716-446655440010',
+        type: 'fill_gap',
+        question: 'Ieri ___ al mercato.',
+        timesAttempted: 1,
+        averageScore: 80,
+        latestScore: 80,
+      }],
+    }];
+    mockFindFirst.mockResolvedValue({
+      id: 'doc-1',
+      title: 'Lezione',
+      contentType: 'pdf',
+      status: 'ready',
+      chunkCount: 1,
+      errorMessage: null,
+      sourceUrl: null,
+      originalFilename: 'lezione.pdf',
+      createdAt: new Date('2026-03-05T10:00:00.000Z'),
+      processedAt: new Date('2026-03-05T10:01:00.000Z'),
+    });
+    mockListDocumentPassages.mockResolvedValue(passages);
+    const { GET } = await import('./route');
+
+    const response = await GET(new Request('http://localhost/api/documents/doc-1'), {
+      params: Promise.resolve({ id: 'doc-1' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.title).toBe('Lezione');
+    expect(body.passages).toEqual(passages);
+    expect(mockListDocumentPassages).toHaveBeenCalledWith({ documentId: 'doc-1', userId: 'user-1' });
   });
 });
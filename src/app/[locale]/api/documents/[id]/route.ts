@@ -4,6 +4,7 @@ import { NextResponse } from 'next/server';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
 import { deleteDocument } from '@/libs/ContentIngestion';
 import { db } from '@/libs/DB';
+import { listDocumentPassages } from '@/libs/DocumentReader';
 import { logger } from '@/libs/Logger';
 import { documentsSchema } from '@/models/Schema';
 
@@ -13,7 +14,8 @@ type RouteParams = {
 
 /**
  * GET /api/documents/[id]
- * Retrieves a document's status and metadata.
+ * Retrieves a document's status and metadata, plus its passages in reading
+ * order with the exercises generated from each one.
  * @param _request - The incoming HTTP request (unused)
  * @param props - Route params containing document ID
  */
@@ -37,6 +39,11 @@ export async function GET(_request: Request, props: RouteParams) {
       );
     }
 
+    const passages = await listDocumentPassages({
+      documentId: document.id,
+      userId: user.id,
+    });
+
     return NextResponse.json({
       id: document.id,
       title: document.title,
@@ -49,6 +56,7 @@ export async function GET(_request: Request, props: RouteParams) {
       originalFilename: document.originalFilename,
       createdAt: document.createdAt.toISOString(),
       processedAt: document.processedAt?.toISOString() ?? null,
+      passages,
     });
   } catch (error) {
     logger.error('Failed to get document', { error });
@@ -2,10 +2,9 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockReserveDocumentSlot = vi.fn();
-const mockIngestContent = vi.fn();
 const mockMarkDocumentAsFailed = vi.fn(async () => undefined);
-const mockProcessPdf = vi.fn();
-const mockExtractUrlContent = vi.fn();
+const mockEnqueueIngestionJob = vi.fn();
+const mockKickIngestionWorker = vi.fn();
 const mockProtect = vi.fn();
 const mockWithRule = vi.fn(() => ({
   protect: mockProtect,
@@ -39,16 +38,12 @@ vi.mock('@/libs/Env', () => ({
 
 vi.mock('@/libs/ContentIngestion', () => ({
   reserveDocumentSlot: mockReserveDocumentSlot,
-  ingestContent: mockIngestContent,
   markDocumentAsFailed: mockMarkDocumentAsFailed,
 }));
 
-vi.mock('@/libs/PdfExtractor', () => ({
-  processPdf: mockProcessPdf,
-}));
-
-vi.mock('@/libs/UrlExtractor', () => ({
-  extractUrlContent: mockExtractUrlContent,
+vi.mock('@/libs/IngestionJobs', () => ({
+  enqueueIngestionJob: mockEnqueueIngestionJob,
+  kickIngestionWorker: mockKickIngestionWorker,
 }));
 
 vi.mock('@/libs/Sanitizer', () => ({
@@ -88,12 +83,14 @@ function createUrlUploadRequest() {
   });
 }
 
-async function flushDeferredScheduler() {
-  await new Promise<void>((resolve) => {
-    setImmediate(resolve);
+function createFileUploadRequest(file: File) {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  return new Request('http://localhost/api/documents/upload', {
+    method: 'POST',
+    body: formData,
   });
-  await Promise.resolve();
-  await Promise.resolve();
 }
 
 async function loadRouteModule() {
@@ -117,22 +114,10 @@ describe('POST /api/documents/upload', () => {
       success: true,
       documentId: `doc-${++nextDocumentId}`,
     }));
-    mockIngestContent.mockImplementation(async (input: { documentId: string }) => ({
+    mockEnqueueIngestionJob.mockImplementation(async (input: { documentId: string }) => ({
       success: true,
-      documentId: input.documentId,
-      chunkCount: 1,
-      status: 'ready',
-      searchable: true,
+      jobId: `job-${input.documentId}`,
     }));
-    mockProcessPdf.mockResolvedValue({
-      success: true,
-      text: 'Extracted PDF text',
-    });
-    mockExtractUrlContent.mockResolvedValue({
-      success: true,
-      text: 'Extracted URL text',
-      title: 'Example URL',
-    });
   });
 
   it('returns one success and one quota error under concurrent near-quota requests', async () => {
@@ -167,11 +152,8 @@ describe('POST /api/documents/upload', () => {
     expect(statuses).toEqual([202, 429]);
     expect(successBody.status).toBe('uploading');
     expect(successBody.searchable).toBe(false);
-    expect(mockIngestContent).not.toHaveBeenCalled();
-
-    await flushDeferredScheduler();
-
-    expect(mockIngestContent).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueIngestionJob).toHaveBeenCalledTimes(1);
+    expect(mockKickIngestionWorker).toHaveBeenCalledTimes(1);
   });
 
   it('returns 429 with rate limit headers when upload limiter denies request', async () => {
@@ -199,7 +181,7 @@ describe('POST /api/documents/upload', () => {
     expect(mockReserveDocumentSlot).not.toHaveBeenCalled();
   });
 
-  it('returns 202 before starting URL extraction', async () => {
+  it('queues URL imports without extracting in the request', async () => {
     const { POST } = await loadRouteModule();
 
     const response = await POST(createUrlUploadRequest());
@@ -207,144 +189,98 @@ describe('POST /api/documents/upload', () => {
 
     expect(response.status).toBe(202);
     expect(body.status).toBe('uploading');
-    expect(mockExtractUrlContent).not.toHaveBeenCalled();
+    expect(mockEnqueueIngestionJob).toHaveBeenCalledWith({
+      documentId: 'doc-1',
+      userId: 'user-1',
+      title: 'Example URL',
+      contentType: 'url',
+      sourceUrl: 'https://example.com/article',
+    });
+    expect(mockKickIngestionWorker).toHaveBeenCalledWith('user-1');
+  });
+
+  it('stages PDF bytes with the queued job', async () => {
+    const { POST } = await loadRouteModule();
+
+    const response = await POST(createFileUploadRequest(
+      new File([new Uint8Array([37, 80, 68, 70])], 'lezione.pdf', { type: 'application/pdf' }),
+    ));
+
+    expect(response.status).toBe(202);
+    expect(mockEnqueueIngestionJob).toHaveBeenCalledWith(expect.objectContaining({
+      documentId: 'doc-1',
+      title: 'lezione',
+      contentType: 'pdf',
+      originalFilename: 'lezione.pdf',
+    }));
 
-    await flushDeferredScheduler();
+    const [[input]] = mockEnqueueIngestionJob.mock.calls as [[{ file: Uint8Array }]];
 
-    expect(mockExtractUrlContent).toHaveBeenCalledTimes(1);
-    expect(mockExtractUrlContent).toHaveBeenCalledWith('https://example.com/article');
+    expect([...input.file]).toEqual([37, 80, 68, 70]);
   });
 
-  it('returns 503 in production when ARCJET_KEY is missing', async () => {
-    mockEnv.ARCJET_KEY = undefined;
-    mockEnv.NODE_ENV = 'production';
+  it('queues Word documents with their own content type', async () => {
+    const { POST } = await loadRouteModule();
+
+    const response = await POST(createFileUploadRequest(
+      new File([new Uint8Array([80, 75, 3, 4])], 'Dispensa 2.docx'),
+    ));
+
+    expect(response.status).toBe(202);
+    expect(mockReserveDocumentSlot).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Dispensa 2',
+      contentType: 'docx',
+    }));
+    expect(mockEnqueueIngestionJob).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Dispensa 2',
+      contentType: 'docx',
+      originalFilename: 'Dispensa 2.docx',
+    }));
+  });
 
+  it('rejects files with unsupported extensions before reserving a slot', async () => {
     const { POST } = await loadRouteModule();
-    const response = await POST(createTextUploadRequest());
+
+    const response = await POST(createFileUploadRequest(
+      new File(['appunti'], 'appunti.txt', { type: 'text/plain' }),
+    ));
     const body = await response.json();
 
-    expect(response.status).toBe(503);
-    expect(body.error).toBe('SERVICE_UNAVAILABLE');
-    expect(mockProtect).not.toHaveBeenCalled();
+    expect(response.status).toBe(415);
+    expect(body.error).toBe('UNSUPPORTED_FILE_TYPE');
     expect(mockReserveDocumentSlot).not.toHaveBeenCalled();
-    expect(mockIngestContent).not.toHaveBeenCalled();
   });
 
-  it('drains queued uploads in FIFO order as active slots free up', async () => {
-    const startedDocumentIds: string[] = [];
-    const pendingResolutions = new Map<string, () => void>();
-    const queuedRequestCount = 13;
-
-    mockIngestContent.mockImplementation((input: { documentId: string }) => {
-      startedDocumentIds.push(input.documentId);
-
-      return new Promise((resolve) => {
-        pendingResolutions.set(input.documentId, () => {
-          resolve({
-            success: true,
-            documentId: input.documentId,
-            chunkCount: 1,
-            status: 'ready',
-            searchable: true,
-          });
-        });
-      });
+  it('fails the reserved document and returns 503 when the queue is full', async () => {
+    mockEnqueueIngestionJob.mockResolvedValue({
+      success: false,
+      errorCode: 'QUEUE_FULL',
+      error: 'Upload queue is at capacity.',
     });
 
     const { POST } = await loadRouteModule();
+    const response = await POST(createTextUploadRequest());
+    const body = await response.json();
 
-    const responses = await Promise.all(
-      Array.from({ length: queuedRequestCount }, () => POST(createTextUploadRequest())),
-    );
-
-    expect(responses.every(response => response.status === 202)).toBe(true);
-    expect(mockIngestContent).not.toHaveBeenCalled();
-
-    await flushDeferredScheduler();
-
-    expect(startedDocumentIds).toEqual([
-      'doc-1',
-      'doc-2',
-      'doc-3',
-      'doc-4',
-      'doc-5',
-      'doc-6',
-      'doc-7',
-      'doc-8',
-      'doc-9',
-      'doc-10',
-    ]);
-
-    async function completeJob(documentId: string) {
-      const resolve = pendingResolutions.get(documentId);
-
-      expect(resolve).toBeDefined();
-
-      pendingResolutions.delete(documentId);
-      resolve?.();
-      await Promise.resolve();
-      await Promise.resolve();
-      await flushDeferredScheduler();
-    }
-
-    await completeJob('doc-1');
-
-    expect(startedDocumentIds).toEqual([
-      'doc-1',
-      'doc-2',
-      'doc-3',
-      'doc-4',
-      'doc-5',
-      'doc-6',
-      'doc-7',
-      'doc-8',
-      'doc-9',
-      'doc-10',
-      'doc-11',
-    ]);
-
-    await completeJob('doc-2');
-
-    expect(startedDocumentIds).toEqual([
-      'doc-1',
-      'doc-2',
-      'doc-3',
-      'doc-4',
-      'doc-5',
-      'doc-6',
-      'doc-7',
-      'doc-8',
-      'doc-9',
-      'doc-10',
-      'doc-11',
-      'doc-12',
-    ]);
+    expect(response.status).toBe(503);
+    expect(body.error).toBe('SERVICE_OVERLOADED');
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect(mockMarkDocumentAsFailed).toHaveBeenCalledWith('doc-1', 'Upload queue is at capacity.');
+    expect(mockKickIngestionWorker).not.toHaveBeenCalled();
+  });
 
-    await completeJob('doc-3');
-
-    expect(startedDocumentIds).toEqual([
-      'doc-1',
-      'doc-2',
-      'doc-3',
-      'doc-4',
-      'doc-5',
-      'doc-6',
-      'doc-7',
-      'doc-8',
-      'doc-9',
-      'doc-10',
-      'doc-11',
-      'doc-12',
-      'doc-13',
-    ]);
+  it('returns 503 in production when ARCJET_KEY is missing', async () => {
+    mockEnv.ARCJET_KEY = undefined;
+    mockEnv.NODE_ENV = 'production';
 
-    for (const [documentId, resolve] of pendingResolutions) {
-      pendingResolutions.delete(documentId);
-      resolve();
-    }
+    const { POST } = await loadRouteModule();
+    const response = await POST(createTextUploadRequest());
+    const body = await response.json();
 
-    await Promise.resolve();
-    await Promise.resolve();
-    await flushDeferredScheduler();
+    expect(response.status).toBe(503);
+    expect(body.error).toBe('SERVICE_UNAVAILABLE');
+    expect(mockProtect).not.toHaveBeenCalled();
+    expect(mockReserveDocumentSlot).not.toHaveBeenCalled();
+    expect(mockEnqueueIngestionJob).not.toHaveBeenCalled();
   });
 });
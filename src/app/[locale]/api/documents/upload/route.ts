@@ -1,4 +1,5 @@
 import type { ArcjetDecision, ArcjetRateLimitReason } from '@arcjet/next';
+import type { DocumentFileContentType } from '@/validations/DocumentValidation';
 
 import { Buffer } from 'node:buffer';
 import { fixedWindow } from '@arcjet/next';
@@ -9,23 +10,32 @@ import arcjet from '@/libs/Arcjet';
 import { getMissingArcjetConfigResponse } from '@/libs/ArcjetConfig';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
 import {
-  ingestContent,
   markDocumentAsFailed,
   reserveDocumentSlot,
 } from '@/libs/ContentIngestion';
+import { DOCX_MAX_SIZE_BYTES } from '@/libs/DocxConfig';
 import { Env } from '@/libs/Env';
+import { EPUB_MAX_SIZE_BYTES } from '@/libs/EpubConfig';
+import { enqueueIngestionJob, kickIngestionWorker } from '@/libs/IngestionJobs';
 import { logger } from '@/libs/Logger';
-import { processPdf } from '@/libs/PdfExtractor';
+import { MARKUP_MAX_SIZE_BYTES } from '@/libs/MarkupConfig';
+import { PDF_MAX_SIZE_BYTES } from '@/libs/PdfConfig';
 import { sanitizeText } from '@/libs/Sanitizer';
-import { extractUrlContent } from '@/libs/UrlExtractor';
-import { DocumentUploadSchema } from '@/validations/DocumentValidation';
-
-const MAX_PDF_SIZE = 10 * 1024 * 1024; // 10MB
+import { SUBTITLE_MAX_SIZE_BYTES } from '@/libs/SubtitleConfig';
+import { DocumentUploadSchema, getDocumentFileContentType } from '@/validations/DocumentValidation';
+
+// Per-format upload limits; file contents are validated by the ingestion worker
+const FILE_UPLOAD_LIMITS = {
+  pdf: { label: 'PDF', maxSizeBytes: PDF_MAX_SIZE_BYTES },
+  docx: { label: 'Word document', maxSizeBytes: DOCX_MAX_SIZE_BYTES },
+  epub: { label: 'EPUB', maxSizeBytes: EPUB_MAX_SIZE_BYTES },
+  markdown: { label: 'Markdown file', maxSizeBytes: MARKUP_MAX_SIZE_BYTES },
+  html: { label: 'HTML file', maxSizeBytes: MARKUP_MAX_SIZE_BYTES },
+  srt: { label: 'Subtitle file', maxSizeBytes: SUBTITLE_MAX_SIZE_BYTES },
+  vtt: { label: 'Subtitle file', maxSizeBytes: SUBTITLE_MAX_SIZE_BYTES },
+} as const satisfies Record<DocumentFileContentType, { label: string; maxSizeBytes: number }>;
 const UPLOAD_RATE_LIMIT_MAX_REQUESTS = Env.UPLOAD_RATE_LIMIT_MAX_REQUESTS ?? 10;
 const UPLOAD_RATE_LIMIT_WINDOW_SECONDS = Env.UPLOAD_RATE_LIMIT_WINDOW_SECONDS ?? 60;
-const MAX_CONCURRENT_DEFERRED_JOBS = 10;
-const MAX_PENDING_JOBS = 50;
-const QUEUE_WARNING_THRESHOLD = 20;
 
 const uploadRateLimiter = arcjet.withRule(
   fixedWindow({
@@ -36,67 +46,6 @@ const uploadRateLimiter = arcjet.withRule(
   }),
 );
 
-type DeferredExtractionResult = {
-  success: true;
-  text: string;
-  title?: string;
-} | {
-  success: false;
-  error: string;
-};
-
-type DeferredUploadJob = {
-  documentId: string;
-  userId: string;
-  title: string;
-  contentType: 'pdf' | 'url' | 'text';
-  sourceUrl?: string;
-  originalFilename?: string;
-  extractText: () => Promise<DeferredExtractionResult>;
-};
-
-let activeJobs = 0;
-const pendingJobs = Array.from<DeferredUploadJob | undefined>({ length: MAX_PENDING_JOBS });
-let pendingHead = 0;
-let pendingTail = 0;
-let pendingCount = 0;
-
-function getPendingJobCount() {
-  return pendingCount;
-}
-
-function enqueuePendingJob(job: DeferredUploadJob) {
-  if (pendingCount >= MAX_PENDING_JOBS) {
-    return false;
-  }
-
-  pendingJobs[pendingTail] = job;
-  pendingTail = (pendingTail + 1) % MAX_PENDING_JOBS;
-  pendingCount += 1;
-  return true;
-}
-
-function dequeuePendingJob() {
-  if (pendingCount === 0) {
-    return undefined;
-  }
-
-  const job = pendingJobs[pendingHead];
-  pendingJobs[pendingHead] = undefined;
-  pendingHead = (pendingHead + 1) % MAX_PENDING_JOBS;
-  pendingCount -= 1;
-  return job;
-}
-
-function scheduleDeferredJob(callback: () => void) {
-  if (typeof globalThis.setImmediate === 'function') {
-    globalThis.setImmediate(callback);
-    return;
-  }
-
-  setTimeout(callback, 0);
-}
-
 function getRateLimitReason(decision: ArcjetDecision): ArcjetRateLimitReason | null {
   if (decision.reason.isRateLimit()) {
     return decision.reason;
@@ -145,7 +94,7 @@ function createReservationErrorResponse(input: {
 }
 
 /**
- * Builds a 503 response for when the deferred job queue is at capacity.
+ * Builds a 503 response for when the ingestion job queue is at capacity.
  * @returns API response indicating the server is temporarily overloaded
  */
 function createQueueFullResponse() {
@@ -177,120 +126,44 @@ function createAcceptedUploadResponse(documentId: string) {
  * @param message - User-facing failure message
  * @returns Promise that resolves when failure status update is attempted
  */
-async function failDeferredDocument(documentId: string, message: string) {
+async function failQueuedDocument(documentId: string, message: string) {
   try {
     await markDocumentAsFailed(documentId, message);
   } catch (error) {
-    logger.error('Failed to mark deferred document as failed', { documentId, error });
+    logger.error('Failed to mark queued document as failed', { documentId, error });
   }
 }
 
 /**
- * Processes a deferred upload job and drains the pending queue.
- * @param input - Deferred upload metadata and extraction callback
- * @returns Promise that resolves when processing completes
+ * Queues a reserved document for background ingestion.
+ * Failed enqueues release the reservation by marking the document as failed.
+ * @param input - Ingestion job payload for the reserved document
+ * @returns Accepted response, or 503 when the queue cannot take the job
  */
-async function runDeferredUpload(input: DeferredUploadJob) {
-  try {
-    const extraction = await input.extractText();
-    if (!extraction.success) {
-      await failDeferredDocument(input.documentId, extraction.error);
-      return;
-    }
+async function queueIngestion(input: Parameters<typeof enqueueIngestionJob>[0]) {
+  const result = await enqueueIngestionJob(input);
 
-    const result = await ingestContent({
-      documentId: input.documentId,
-      userId: input.userId,
-      title: extraction.title?.slice(0, 200) ?? input.title,
-      contentType: input.contentType,
-      text: extraction.text,
-      sourceUrl: input.sourceUrl,
-      originalFilename: input.originalFilename,
-    });
+  if (!result.success) {
+    await failQueuedDocument(input.documentId, result.error);
 
-    if (!result.success) {
-      await failDeferredDocument(input.documentId, result.error ?? 'Content ingestion failed.');
+    if (result.errorCode === 'QUEUE_FULL') {
+      return createQueueFullResponse();
     }
-  } catch (error) {
-    logger.error('Deferred upload processing failed', {
-      documentId: input.documentId,
-      contentType: input.contentType,
-      error,
-    });
-    await failDeferredDocument(input.documentId, 'An unexpected error occurred during processing.');
-  } finally {
-    activeJobs--;
-    logger.info('Deferred job completed', {
-      activeJobs,
-      pendingJobs: getPendingJobCount(),
-    });
-
-    const next = dequeuePendingJob();
-    if (next) {
-      startDeferredJob(next);
-    }
-  }
-}
-
-/**
- * Starts a deferred job immediately, incrementing the active count.
- * @param input - Deferred upload job payload
- */
-function startDeferredJob(input: DeferredUploadJob) {
-  activeJobs++;
-  logger.info('Deferred job started', {
-    documentId: input.documentId,
-    contentType: input.contentType,
-    activeJobs,
-    pendingJobs: getPendingJobCount(),
-  });
-
-  scheduleDeferredJob(() => {
-    void runDeferredUpload(input);
-  });
-}
-
-/**
- * Queues a deferred upload job with bounded concurrency.
- * Returns false when the pending queue is full; the caller must mark the document
- * as failed and respond with 503.
- * @param input - Deferred upload job payload
- * @returns True when the job was accepted, false when the queue is at capacity
- */
-function queueDeferredUpload(input: DeferredUploadJob): boolean {
-  if (activeJobs < MAX_CONCURRENT_DEFERRED_JOBS) {
-    startDeferredJob(input);
-    return true;
-  }
 
-  if (!enqueuePendingJob(input)) {
-    logger.warn('Deferred job queue full, rejecting job', {
-      documentId: input.documentId,
-      activeJobs,
-      pendingJobs: getPendingJobCount(),
-    });
-    return false;
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: result.error },
+      { status: 500 },
+    );
   }
 
-  logger.info('Deferred job queued', {
-    documentId: input.documentId,
-    activeJobs,
-    pendingJobs: getPendingJobCount(),
-  });
-
-  if (getPendingJobCount() >= QUEUE_WARNING_THRESHOLD) {
-    logger.warn('Deferred job queue growing large', {
-      pendingJobs: getPendingJobCount(),
-      activeJobs,
-    });
-  }
+  kickIngestionWorker(input.userId);
 
-  return true;
+  return createAcceptedUploadResponse(input.documentId);
 }
 
 /**
  * POST /api/documents/upload
- * Upload a document via FormData (PDF) or JSON (URL/text).
+ * Upload a document via FormData (PDF, DOCX, EPUB, Markdown, HTML, SRT/VTT subtitles) or JSON (URL/text).
  * @param request - The incoming HTTP request
  */
 export async function POST(request: Request) {
@@ -331,14 +204,14 @@ export async function POST(request: Request) {
     let response: NextResponse;
 
     if (contentType.includes('multipart/form-data')) {
-      // PDF upload via FormData
-      response = await handlePdfUpload(request, user.id);
+      // File upload via FormData
+      response = await handleFileUpload(request, user.id);
     } else if (contentType.includes('application/json')) {
       // URL or text upload via JSON
       response = await handleJsonUpload(request, user.id);
     } else {
       response = NextResponse.json(
-        { error: 'INVALID_CONTENT_TYPE', message: 'Use multipart/form-data for PDF or application/json for URL/text' },
+        { error: 'INVALID_CONTENT_TYPE', message: 'Use multipart/form-data for files or application/json for URL/text' },
         { status: 415 },
       );
     }
@@ -373,40 +246,53 @@ export async function POST(request: Request) {
 }
 
 /**
- * Handles PDF upload via FormData.
+ * Handles file upload via FormData.
+ * The format is chosen by file extension; magic bytes are checked at extraction.
  * @param request - The incoming HTTP request with FormData
  * @param userId - The authenticated user's ID
  */
-async function handlePdfUpload(request: Request, userId: string) {
+async function handleFileUpload(request: Request, userId: string) {
   const formData = await request.formData();
   const file = formData.get('file');
   const title = formData.get('title');
 
   if (!file || !(file instanceof File)) {
     return NextResponse.json(
-      { error: 'MISSING_FILE', message: 'No PDF file provided' },
+      { error: 'MISSING_FILE', message: 'No file provided' },
       { status: 400 },
     );
   }
 
+  const contentType = getDocumentFileContentType(file.name);
+
+  if (!contentType) {
+    return NextResponse.json(
+      { error: 'UNSUPPORTED_FILE_TYPE', message: 'Upload a PDF, Word (.docx), EPUB, Markdown, HTML or subtitle (.srt, .vtt) file' },
+      { status: 415 },
+    );
+  }
+
   // Validate file size
-  if (file.size > MAX_PDF_SIZE) {
+  const limit = FILE_UPLOAD_LIMITS[contentType];
+  if (file.size > limit.maxSizeBytes) {
     return NextResponse.json(
-      { error: 'PDF_TOO_LARGE', message: 'PDF exceeds 10MB limit' },
+      { error: 'FILE_TOO_LARGE', message: `${limit.label} exceeds ${limit.maxSizeBytes / (1024 * 1024)}MB limit` },
       { status: 413 },
     );
   }
 
   // Determine title
-  const documentTitle = typeof title === 'string' && title.length > 0
+  const explicitTitle = typeof title === 'string' && title.length > 0
     ? title.slice(0, 200)
-    : file.name.replace(/\.pdf$/i, '').slice(0, 200) || 'Untitled PDF';
+    : null;
+  const documentTitle = explicitTitle
+    ?? (file.name.replace(/\.[^.]+$/, '').slice(0, 200) || 'Untitled document');
 
   // Reserve document slot atomically (quota-safe)
   const reservation = await reserveDocumentSlot({
     userId,
     title: documentTitle,
-    contentType: 'pdf',
+    contentType,
     originalFilename: file.name,
   });
 
@@ -417,38 +303,15 @@ async function handlePdfUpload(request: Request, userId: string) {
     });
   }
 
-  const documentId = reservation.documentId;
-  let buffer: Buffer | undefined = Buffer.from(await file.arrayBuffer());
-
-  const queued = queueDeferredUpload({
-    documentId,
+  return queueIngestion({
+    documentId: reservation.documentId,
     userId,
-    title: documentTitle,
-    contentType: 'pdf',
+    // EPUB packages carry their own book title, used when none is given
+    title: contentType === 'epub' && !explicitTitle ? undefined : documentTitle,
+    contentType,
     originalFilename: file.name,
-    extractText: async () => {
-      const extraction = await processPdf(buffer!);
-      buffer = undefined;
-      if (!extraction.success) {
-        return {
-          success: false,
-          error: extraction.error ?? 'Failed to process PDF.',
-        };
-      }
-
-      return {
-        success: true,
-        text: extraction.text,
-      };
-    },
+    file: Buffer.from(await file.arrayBuffer()),
   });
-
-  if (!queued) {
-    await failDeferredDocument(documentId, 'Upload queue is at capacity.');
-    return createQueueFullResponse();
-  }
-
-  return createAcceptedUploadResponse(documentId);
 }
 
 /**
@@ -502,37 +365,13 @@ async function handleUrlUpload(
     });
   }
 
-  const documentId = reservation.documentId;
-
-  const queued = queueDeferredUpload({
-    documentId,
+  return queueIngestion({
+    documentId: reservation.documentId,
     userId,
-    title: fallbackTitle.slice(0, 200),
+    title: data.title || undefined,
     contentType: 'url',
     sourceUrl: data.url,
-    extractText: async () => {
-      const extraction = await extractUrlContent(data.url);
-      if (!extraction.success) {
-        return {
-          success: false,
-          error: extraction.error ?? 'Failed to extract URL content.',
-        };
-      }
-
-      return {
-        success: true,
-        text: extraction.text,
-        title: data.title || extraction.title || new URL(data.url).hostname,
-      };
-    },
   });
-
-  if (!queued) {
-    await failDeferredDocument(documentId, 'Upload queue is at capacity.');
-    return createQueueFullResponse();
-  }
-
-  return createAcceptedUploadResponse(documentId);
 }
 
 /**
@@ -568,23 +407,11 @@ async function handleTextUpload(
     });
   }
 
-  const documentId = reservation.documentId;
-
-  const queued = queueDeferredUpload({
-    documentId,
+  return queueIngestion({
+    documentId: reservation.documentId,
     userId,
     title: data.title.slice(0, 200),
     contentType: 'text',
-    extractText: async () => ({
-      success: true,
-      text: sanitized,
-    }),
+    text: sanitized,
   });
-
-  if (!queued) {
-    await failDeferredDocument(documentId, 'Upload queue is at capacity.');
-    return createQueueFullResponse();
-  }
-
-  return createAcceptedUploadResponse(documentId);
 }
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockEnqueueExerciseGeneration = vi.fn();
+const mockEnqueueMistakePracticeGeneration = vi.fn();
 const mockKickGenerationWorker = vi.fn();
 const mockProtect = vi.fn();
 const mockWithRule = vi.fn(() => ({
@@ -21,6 +22,7 @@ vi.mock('@/libs/Auth', () => ({
 
 vi.mock('@/libs/ExerciseGeneration', () => ({
   enqueueExerciseGeneration: mockEnqueueExerciseGeneration,
+  enqueueMistakePracticeGeneration: mockEnqueueMistakePracticeGeneration,
   kickGenerationWorker: mockKickGenerationWorker,
 }));
 
@@ -114,6 +116,73 @@ describe('POST /api/exercises/generate', () => {
     expect(body.error).toBe('DOCUMENTS_NOT_FOUND');
   });
 
+  it('returns 422 when a character span targets a document without offsets', async () => {
+    mockEnqueueExerciseGeneration.mockResolvedValue({
+      success: false,
+      errorCode: 'PASSAGE_OFFSETS_UNAVAILABLE',
+      error: 'This document has no character offsets; select passages by chunk range instead',
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      exerciseType: 'fill_gap',
+      count: 2,
+      passage: {
+        kind: 'character_span',
+        documentId: '550e8400-e29b-41d4-a716-446655440000',
+        startChar: 10,
+        endChar: 80,
+      },
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('PASSAGE_OFFSETS_UNAVAILABLE');
+  });
+
+  it('queues mistake practice for the mistakes request variant', async () => {
+    mockEnqueueMistakePracticeGeneration.mockResolvedValue({
+      success: true,
+      jobId: 'job-2',
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      mode: 'mistakes',
+      exerciseType: 'fill_gap',
+      count: 3,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(body.jobId).toBe('job-2');
+    expect(mockEnqueueMistakePracticeGeneration).toHaveBeenCalledWith({
+      userId: 'user-1',
+      request: { mode: 'mistakes', exerciseType: 'fill_gap', count: 3 },
+    });
+    expect(mockEnqueueExerciseGeneration).not.toHaveBeenCalled();
+  });
+
+  it('returns 422 when there are no mistakes to practise', async () => {
+    mockEnqueueMistakePracticeGeneration.mockResolvedValue({
+      success: false,
+      errorCode: 'NO_MISTAKES',
+      error: 'No low-scoring responses to practise',
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      mode: 'mistakes',
+      exerciseType: 'fill_gap',
+      count: 3,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('NO_MISTAKES');
+  });
+
   it('returns 500 for internal enqueue failures', async () => {
     mockEnqueueExerciseGeneration.mockResolvedValue({
       success: false,
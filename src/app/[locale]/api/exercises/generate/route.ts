@@ -6,7 +6,7 @@ import arcjet from '@/libs/Arcjet';
 import { getMissingArcjetConfigResponse } from '@/libs/ArcjetConfig';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
 import { Env } from '@/libs/Env';
-import { enqueueExerciseGeneration, kickGenerationWorker } from '@/libs/ExerciseGeneration';
+import { enqueueExerciseGeneration, enqueueMistakePracticeGeneration, kickGenerationWorker } from '@/libs/ExerciseGeneration';
 import { logger } from '@/libs/Logger';
 
 export const runtime = 'nodejs';
@@ -56,6 +56,10 @@ async function parseJsonBody(request: Request) {
   }
 }
 
+function isMistakePracticeRequest(body: unknown) {
+  return typeof body === 'object' && body !== null && 'mode' in body && body.mode === 'mistakes';
+}
+
 function getEnqueueFailureStatus(errorCode: string) {
   if (errorCode === 'DOCUMENTS_NOT_FOUND' || errorCode === 'JOB_NOT_FOUND') {
     return 404;
@@ -63,8 +67,10 @@ function getEnqueueFailureStatus(errorCode: string) {
 
   if (
     errorCode === 'DOCUMENTS_NOT_READY'
+    || errorCode === 'PASSAGE_OFFSETS_UNAVAILABLE'
     || errorCode === 'VALIDATION_FAILED'
     || errorCode === 'NO_CONTENT'
+    || errorCode === 'NO_MISTAKES'
   ) {
     return 422;
   }
@@ -118,7 +124,10 @@ export async function POST(request: Request) {
       return response;
     }
 
-    const result = await enqueueExerciseGeneration({
+    const enqueue = isMistakePracticeRequest(parsedBody.body)
+      ? enqueueMistakePracticeGeneration
+      : enqueueExerciseGeneration;
+    const result = await enqueue({
       userId: user.id,
       request: parsedBody.body,
     });
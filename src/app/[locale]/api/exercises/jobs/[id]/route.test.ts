@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockGetGenerationJobWithExercises = vi.fn();
+const mockListSourceLocationsForExercises = vi.fn();
 
 vi.mock('@/libs/Auth', () => ({
   requireUser: mockRequireUser,
@@ -9,6 +10,7 @@ vi.mock('@/libs/Auth', () => ({
 
 vi.mock('@/libs/ExerciseGeneration', () => ({
   getGenerationJobWithExercises: mockGetGenerationJobWithExercises,
+  listSourceLocationsForExercises: mockListSourceLocationsForExercises,
 }));
 
 vi.mock('@/libs/Logger', () => ({
@@ -23,6 +25,7 @@ vi.mock('@/libs/Logger', () => ({
 describe('GET /api/exercises/jobs/[id]', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockListSourceLocationsForExercises.mockResolvedValue(new Map());
   });
 
   it('returns 404 for unknown jobs', async () => {
@@ -78,6 +81,9 @@ describe('GET /api/exercises/jobs/[id]', () => {
         createdAt: new Date('2026-03-05T10:00:10.000Z'),
       }],
     });
+    mockListSourceLocationsForExercises.mockResolvedValue(new Map([
+      ['550e8400-e29b-41d4-a716-446655440010', [{ kind: 'timestamp', startMs: 62500, endMs: 71000 }]],
+    ]));
 
     const { GET } = await import('./route');
     const response = await GET(new Request('http://localhost'), {
@@ -91,6 +97,8 @@ describe('GET /api/exercises/jobs/[id]', () => {
     expect(body.exercises).toHaveLength(1);
     expect(body.exercises[0].renderData.options).toEqual(['a', 'b', 'c', 'd']);
     expect(body.exercises[0].renderData.correctIndex).toBeUndefined();
+    expect(body.exercises[0].sourceLocations).toEqual([{ kind: 'timestamp', startMs: 62500, endMs: 71000 }]);
+    expect(mockListSourceLocationsForExercises).toHaveBeenCalledWith('user-1', ['550e8400-e29b-41d4-a716-446655440010']);
   });
 
   it('skips malformed exercises in completed jobs', async () => {
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
-import { getGenerationJobWithExercises } from '@/libs/ExerciseGeneration';
+import { getGenerationJobWithExercises, listSourceLocationsForExercises } from '@/libs/ExerciseGeneration';
 import { safeToExerciseCard } from '@/libs/ExercisePresenter';
 import { logger } from '@/libs/Logger';
 
@@ -32,8 +32,16 @@ export async function GET(_request: Request, props: RouteParams) {
         { status: 404 },
       );
     }
+
+    const sourceLocations = await listSourceLocationsForExercises(
+      user.id,
+      result.exercises.map(exercise => exercise.id),
+    );
     const exercises = result.exercises.flatMap((exercise) => {
-      const card = safeToExerciseCard({ exercise });
+      const card = safeToExerciseCard({
+        exercise,
+        sourceLocations: sourceLocations.get(exercise.id),
+      });
 
       if (!card.success) {
         logger.warn('exercise_card_serialization_failed', {
@@ -53,6 +61,7 @@ export async function GET(_request: Request, props: RouteParams) {
       requestedCount: result.job.requestedCount,
       generatedCount: result.job.generatedCount,
       failedCount: result.job.failedCount,
+      typeProgress: result.job.typeProgress,
       errorMessage: result.job.errorMessage,
       createdAt: result.job.createdAt.toISOString(),
       startedAt: result.job.startedAt?.toISOString() ?? null,
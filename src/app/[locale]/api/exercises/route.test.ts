@@ -4,6 +4,7 @@ const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockListRecentExercises = vi.fn();
 const mockListActiveGenerationJobs = vi.fn();
 const mockListLatestResponsesForExercises = vi.fn();
+const mockListSourceLocationsForExercises = vi.fn();
 
 vi.mock('@/libs/Auth', () => ({
   requireUser: mockRequireUser,
@@ -13,6 +14,7 @@ vi.mock('@/libs/ExerciseGeneration', () => ({
   listRecentExercises: mockListRecentExercises,
   listActiveGenerationJobs: mockListActiveGenerationJobs,
   listLatestResponsesForExercises: mockListLatestResponsesForExercises,
+  listSourceLocationsForExercises: mockListSourceLocationsForExercises,
 }));
 
 vi.mock('@/libs/Logger', () => ({
@@ -27,6 +29,7 @@ vi.mock('@/libs/Logger', () => ({
 describe('GET /api/exercises', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockListSourceLocationsForExercises.mockResolvedValue(new Map());
   });
 
   it('returns exercises and active jobs', async () => {
@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
-import { listActiveGenerationJobs, listLatestResponsesForExercises, listRecentExercises } from '@/libs/ExerciseGeneration';
+import {
+  listActiveGenerationJobs,
+  listLatestResponsesForExercises,
+  listRecentExercises,
+  listSourceLocationsForExercises,
+} from '@/libs/ExerciseGeneration';
 import { safeToExerciseCard } from '@/libs/ExercisePresenter';
 import { logger } from '@/libs/Logger';
 
@@ -13,14 +18,16 @@ export async function GET() {
       listRecentExercises(user.id, 50),
       listActiveGenerationJobs(user.id),
     ]);
-    const latestResponses = await listLatestResponsesForExercises(
-      user.id,
-      exercises.map(exercise => exercise.id),
-    );
+    const exerciseIds = exercises.map(exercise => exercise.id);
+    const [latestResponses, sourceLocations] = await Promise.all([
+      listLatestResponsesForExercises(user.id, exerciseIds),
+      listSourceLocationsForExercises(user.id, exerciseIds),
+    ]);
     const exerciseCards = exercises.flatMap((exercise) => {
       const result = safeToExerciseCard({
         exercise,
         latestResponse: latestResponses.get(exercise.id),
+        sourceLocations: sourceLocations.get(exercise.id),
       });
 
       if (!result.success) {
@@ -42,6 +49,7 @@ export async function GET() {
         requestedCount: job.requestedCount,
         generatedCount: job.generatedCount,
         failedCount: job.failedCount,
+        typeProgress: job.typeProgress,
         errorMessage: job.errorMessage,
         createdAt: job.createdAt.toISOString(),
         startedAt: job.startedAt?.toISOString() ?? null,
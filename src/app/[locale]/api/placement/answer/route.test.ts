@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
+const mockSubmitPlacementAnswer = vi.fn();
+class MockAuthenticationError extends Error {}
+class MockUserNotFoundError extends Error {}
+class MockPlacementConflictError extends Error {}
+class MockPlacementTestNotFoundError extends Error {}
+
+vi.mock('@/libs/Auth', () => ({
+  requireUser: mockRequireUser,
+  AuthenticationError: MockAuthenticationError,
+  UserNotFoundError: MockUserNotFoundError,
+}));
+
+vi.mock('@/libs/PlacementTest', () => ({
+  submitPlacementAnswer: mockSubmitPlacementAnswer,
+  PlacementConflictError: MockPlacementConflictError,
+  PlacementTestNotFoundError: MockPlacementTestNotFoundError,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const testId = '550e8400-e29b-41d4-a716-446655440030';
+
+function createRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/placement/answer', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/placement/answer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the next placement item', async () => {
+    mockSubmitPlacementAnswer.mockResolvedValue({
+      id: testId,
+      status: 'active',
+      answeredCount: 1,
+      maxItems: 15,
+      currentItem: {
+        id: 'b1-pronomi-indiretti',
+        prompt: 'Hai scritto a Sara? Sì, ___ ho scritto ieri.',
+        options: ['la', 'lei', 'ci', 'le'],
+      },
+      result: null,
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ testId, itemId: 'b1-ne', selectedIndex: 2 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.test.currentItem.id).toBe('b1-pronomi-indiretti');
+    expect(mockSubmitPlacementAnswer).toHaveBeenCalledWith({
+      userId: 'user-1',
+      testId,
+      itemId: 'b1-ne',
+      selectedIndex: 2,
+    });
+  });
+
+  it('returns 422 for an option outside the item', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ testId, itemId: 'b1-ne', selectedIndex: 4 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockSubmitPlacementAnswer).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the item is no longer current', async () => {
+    mockSubmitPlacementAnswer.mockRejectedValue(new MockPlacementConflictError('stale'));
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ testId, itemId: 'b1-ne', selectedIndex: 2 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe('PLACEMENT_CONFLICT');
+  });
+});
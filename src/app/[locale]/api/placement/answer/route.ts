@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { PlacementConflictError, PlacementTestNotFoundError, submitPlacementAnswer } from '@/libs/PlacementTest';
+import { PlacementAnswerRequestSchema, PlacementTestResponseSchema } from '@/validations/PlacementValidation';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/placement/answer
+ * Records the answer to the current placement item.
+ * @param request - The incoming HTTP request with the test, item and chosen option
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const parsedBody = PlacementAnswerRequestSchema.safeParse(await request.json());
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid placement answer' },
+        { status: 422 },
+      );
+    }
+
+    const test = await submitPlacementAnswer({
+      userId: user.id,
+      ...parsedBody.data,
+    });
+
+    return NextResponse.json(PlacementTestResponseSchema.parse({ test }));
+  } catch (error) {
+    logger.error('Failed to submit placement answer', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    if (error instanceof PlacementTestNotFoundError) {
+      return NextResponse.json(
+        { error: 'NOT_FOUND', message: error.message },
+        { status: 404 },
+      );
+    }
+
+    if (error instanceof PlacementConflictError) {
+      return NextResponse.json(
+        { error: 'PLACEMENT_CONFLICT', message: error.message },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { getPlacementState, PlacementConflictError, startPlacementTest } from '@/libs/PlacementTest';
+import { PlacementStateResponseSchema, PlacementTestResponseSchema } from '@/validations/PlacementValidation';
+
+export const runtime = 'nodejs';
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof AuthenticationError) {
+    return NextResponse.json(
+      { error: 'UNAUTHORIZED', message: 'Authentication required' },
+      { status: 401 },
+    );
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return NextResponse.json(
+      { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+      { status: 403 },
+    );
+  }
+
+  if (error instanceof PlacementConflictError) {
+    return NextResponse.json(
+      { error: 'PLACEMENT_CONFLICT', message: error.message },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    { status: 500 },
+  );
+}
+
+/**
+ * GET /api/placement
+ * Returns the learner's active placement test and latest result.
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const state = await getPlacementState(user.id);
+
+    return NextResponse.json(PlacementStateResponseSchema.parse(state));
+  } catch (error) {
+    logger.error('Failed to load placement test', { error });
+
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/placement
+ * Starts a placement test, or resumes the one in progress.
+ */
+export async function POST() {
+  try {
+    const user = await requireUser();
+    const test = await startPlacementTest(user.id);
+
+    return NextResponse.json(PlacementTestResponseSchema.parse({ test }));
+  } catch (error) {
+    logger.error('Failed to start placement test', { error });
+
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { completePracticeSession, PracticeSessionNotFoundError } from '@/libs/PracticeSession';
+
+export const runtime = 'nodejs';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/practice-sessions/[id]/complete
+ * Ends a practice session early and returns its final summary.
+ * @param _request - The incoming HTTP request (unused)
+ * @param props - Route params containing practice session ID
+ */
+export async function POST(_request: Request, props: RouteParams) {
+  try {
+    const user = await requireUser();
+    const { id } = await props.params;
+    const parsedId = z.uuid().safeParse(id);
+
+    if (!parsedId.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid practice session ID' },
+        { status: 422 },
+      );
+    }
+
+    return NextResponse.json(await completePracticeSession({
+      userId: user.id,
+      sessionId: parsedId.data,
+    }));
+  } catch (error) {
+    logger.error('Failed to complete practice session', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    if (error instanceof PracticeSessionNotFoundError) {
+      return NextResponse.json(
+        { error: 'NOT_FOUND', message: error.message },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
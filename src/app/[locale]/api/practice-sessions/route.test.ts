@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
+const mockCreatePracticeSession = vi.fn();
+const mockListPracticeSessions = vi.fn();
+class MockAuthenticationError extends Error {}
+class MockUserNotFoundError extends Error {}
+class MockNoPracticeExercisesError extends Error {}
+
+vi.mock('@/libs/Auth', () => ({
+  requireUser: mockRequireUser,
+  AuthenticationError: MockAuthenticationError,
+  UserNotFoundError: MockUserNotFoundError,
+}));
+
+vi.mock('@/libs/PracticeSession', () => ({
+  createPracticeSession: mockCreatePracticeSession,
+  listPracticeSessions: mockListPracticeSessions,
+  NoPracticeExercisesError: MockNoPracticeExercisesError,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440060';
+const exerciseId = '550e8400-e29b-41d4-a716-446655440061';
+
+function createRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/practice-sessions', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/practice-sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts a timed session over the chosen exercises', async () => {
+    mockCreatePracticeSession.mockResolvedValue({
+      id: sessionId,
+      status: 'active',
+      timeLimitSeconds: 300,
+      startedAt: '2026-03-05T10:00:00.000Z',
+      deadlineAt: '2026-03-05T10:05:00.000Z',
+      completedAt: null,
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ exerciseIds: [exerciseId], timeLimitSeconds: 300 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.session.deadlineAt).toBe('2026-03-05T10:05:00.000Z');
+    expect(mockCreatePracticeSession).toHaveBeenCalledWith({
+      userId: 'user-1',
+      request: { exerciseIds: [exerciseId], count: 10, timeLimitSeconds: 300 },
+    });
+  });
+
+  it('returns 422 for a time limit under a minute', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ timeLimitSeconds: 30 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockCreatePracticeSession).not.toHaveBeenCalled();
+  });
+
+  it('returns 422 when there is nothing to practise', async () => {
+    mockCreatePracticeSession.mockRejectedValue(new MockNoPracticeExercisesError('none'));
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({ count: 5 }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('NO_EXERCISES');
+  });
+});
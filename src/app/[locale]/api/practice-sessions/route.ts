@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { createPracticeSession, listPracticeSessions, NoPracticeExercisesError } from '@/libs/PracticeSession';
+import { CreatePracticeSessionRequestSchema, PracticeSessionCreatedResponseSchema } from '@/validations/PracticeSessionValidation';
+
+export const runtime = 'nodejs';
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof AuthenticationError) {
+    return NextResponse.json(
+      { error: 'UNAUTHORIZED', message: 'Authentication required' },
+      { status: 401 },
+    );
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return NextResponse.json(
+      { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+      { status: 403 },
+    );
+  }
+
+  if (error instanceof NoPracticeExercisesError) {
+    return NextResponse.json(
+      { error: 'NO_EXERCISES', message: error.message },
+      { status: 422 },
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    { status: 500 },
+  );
+}
+
+/**
+ * GET /api/practice-sessions
+ * Lists the learner's recent practice sessions with their scores.
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+
+    return NextResponse.json(await listPracticeSessions(user.id));
+  } catch (error) {
+    logger.error('Failed to list practice sessions', { error });
+
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/practice-sessions
+ * Starts a practice session over the chosen exercises, or auto-picks them.
+ * @param request - The incoming HTTP request with the exercise selection and time limit
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const parsedBody = CreatePracticeSessionRequestSchema.safeParse(await request.json());
+
+    if (!parsedBody.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid practice session request' },
+        { status: 422 },
+      );
+    }
+
+    const session = await createPracticeSession({
+      userId: user.id,
+      request: parsedBody.data,
+    });
+
+    return NextResponse.json(PracticeSessionCreatedResponseSchema.parse({ session }));
+  } catch (error) {
+    logger.error('Failed to start practice session', { error });
+
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { listTopicMastery } from '@/libs/TopicMastery';
+import { TopicMasteryResponseSchema } from '@/validations/GrammarTopicValidation';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/progress/topics
+ * Lists the learner's mastery of every grammar topic in the taxonomy.
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const topics = await listTopicMastery(user.id);
+
+    return NextResponse.json(TopicMasteryResponseSchema.parse({ topics }));
+  } catch (error) {
+    logger.error('Failed to list topic mastery', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
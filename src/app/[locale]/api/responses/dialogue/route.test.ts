@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
+const mockGetLatestDialogueSession = vi.fn();
+const mockSubmitDialogueTurn = vi.fn();
+const mockProtect = vi.fn();
+const mockWithRule = vi.fn(() => ({
+  protect: mockProtect,
+}));
+const mockFixedWindow = vi.fn(() => []);
+const mockEnv = {
+  ARCJET_KEY: 'ajkey_test' as string | undefined,
+  RESPONSE_RATE_LIMIT_MAX_REQUESTS: 30,
+  RESPONSE_RATE_LIMIT_WINDOW_SECONDS: 60,
+  NODE_ENV: 'test' as 'production' | 'test',
+};
+class MockAuthenticationError extends Error {}
+class MockUserNotFoundError extends Error {}
+class MockExerciseNotFoundError extends Error {}
+class MockAnswerEvaluationError extends Error {}
+class MockDialogueConflictError extends Error {}
+
+vi.mock('@/libs/Auth', () => ({
+  requireUser: mockRequireUser,
+  AuthenticationError: MockAuthenticationError,
+  UserNotFoundError: MockUserNotFoundError,
+}));
+
+vi.mock('@/libs/DialogueSession', () => ({
+  getLatestDialogueSession: mockGetLatestDialogueSession,
+  submitDialogueTurn: mockSubmitDialogueTurn,
+  DialogueConflictError: MockDialogueConflictError,
+}));
+
+vi.mock('@/libs/AnswerEvaluation', () => ({
+  ExerciseNotFoundError: MockExerciseNotFoundError,
+  AnswerEvaluationError: MockAnswerEvaluationError,
+}));
+
+vi.mock('@arcjet/next', () => ({
+  fixedWindow: mockFixedWindow,
+}));
+
+vi.mock('@/libs/Arcjet', () => ({
+  default: {
+    withRule: mockWithRule,
+  },
+}));
+
+vi.mock('@/libs/Env', () => ({
+  Env: mockEnv,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const exerciseId = '550e8400-e29b-41d4-a716-446655440000';
+const session = {
+  id: '550e8400-e29b-41d4-a716-446655440010',
+  exerciseId,
+  status: 'active',
+  turns: [
+    { role: 'character', text: 'Buongiorno! Cosa le preparo?' },
+    {
+      role: 'learner',
+      text: 'Vorrei un caffè, per favore.',
+      result: {
+        score: 100,
+        rubric: {
+          accuracy: 40,
+          grammar: 30,
+          fluency: 20,
+          bonus: 10,
+        },
+        feedback: 'Natural and polite.',
+        evaluationMethod: 'llm',
+      },
+    },
+    { role: 'character', text: 'Certo! Lo vuole macchiato?' },
+  ],
+};
+
+function createRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/responses/dialogue', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/responses/dialogue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the latest session for the exercise', async () => {
+    mockGetLatestDialogueSession.mockResolvedValue(session);
+
+    const { GET } = await import('./route');
+    const response = await GET(new Request(`http://localhost/api/responses/dialogue?exerciseId=${exerciseId}`));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.session.turns).toHaveLength(3);
+    expect(mockGetLatestDialogueSession).toHaveBeenCalledWith({ userId: 'user-1', exerciseId });
+  });
+
+  it('returns 422 for an invalid exercise id', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost/api/responses/dialogue?exerciseId=nope'));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockGetLatestDialogueSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/responses/dialogue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv.ARCJET_KEY = 'ajkey_test';
+    mockEnv.NODE_ENV = 'test';
+    mockProtect.mockResolvedValue({
+      isDenied: () => false,
+      reason: { isRateLimit: () => false },
+      results: [],
+    });
+  });
+
+  it('returns 200 with the updated session', async () => {
+    mockSubmitDialogueTurn.mockResolvedValue({ session, completion: null });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId,
+      message: 'Vorrei un caffè, per favore.',
+      turnIndex: 1,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.completion).toBeNull();
+    expect(mockSubmitDialogueTurn).toHaveBeenCalledWith({
+      userId: 'user-1',
+      exerciseId,
+      message: 'Vorrei un caffè, per favore.',
+      turnIndex: 1,
+    });
+  });
+
+  it('returns 422 for schema validation failures', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId,
+      message: '',
+      turnIndex: 0,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockSubmitDialogueTurn).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the turn was sent from a stale conversation', async () => {
+    mockSubmitDialogueTurn.mockRejectedValue(new MockDialogueConflictError('changed'));
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId,
+      message: 'Vorrei un caffè.',
+      turnIndex: 1,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe('DIALOGUE_CONFLICT');
+  });
+
+  it('returns 422 when evaluation fails', async () => {
+    mockSubmitDialogueTurn.mockRejectedValue(new MockAnswerEvaluationError('Failed to evaluate dialogue turn'));
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId,
+      message: 'Vorrei un caffè.',
+      turnIndex: 1,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('EVALUATION_FAILED');
+  });
+
+  it('returns 429 with headers when the limiter blocks the request', async () => {
+    mockProtect.mockResolvedValue({
+      isDenied: () => true,
+      reason: {
+        isRateLimit: () => true,
+        max: 30,
+        remaining: 0,
+        reset: 60,
+      },
+      results: [],
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId,
+      message: 'Vorrei un caffè.',
+      turnIndex: 1,
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(body.error).toBe('RATE_LIMIT_EXCEEDED');
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(mockSubmitDialogueTurn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import type { ArcjetDecision, ArcjetRateLimitReason } from '@arcjet/next';
+
+import { fixedWindow } from '@arcjet/next';
+import { NextResponse } from 'next/server';
+import { AnswerEvaluationError, ExerciseNotFoundError } from '@/libs/AnswerEvaluation';
+import arcjet from '@/libs/Arcjet';
+import { getMissingArcjetConfigResponse } from '@/libs/ArcjetConfig';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { DialogueConflictError, getLatestDialogueSession, submitDialogueTurn } from '@/libs/DialogueSession';
+import { Env } from '@/libs/Env';
+import { logger } from '@/libs/Logger';
+import {
+  DialogueSessionQuerySchema,
+  DialogueSessionResponseSchema,
+  DialogueTurnRequestSchema,
+} from '@/validations/DialogueValidation';
+
+export const runtime = 'nodejs';
+
+const DIALOGUE_RATE_LIMIT_MAX_REQUESTS = Env.RESPONSE_RATE_LIMIT_MAX_REQUESTS ?? 30;
+const DIALOGUE_RATE_LIMIT_WINDOW_SECONDS = Env.RESPONSE_RATE_LIMIT_WINDOW_SECONDS ?? 60;
+
+const dialogueRateLimiter = arcjet.withRule(
+  fixedWindow({
+    mode: 'LIVE',
+    max: DIALOGUE_RATE_LIMIT_MAX_REQUESTS,
+    window: `${DIALOGUE_RATE_LIMIT_WINDOW_SECONDS}s`,
+    characteristics: ['userId'],
+  }),
+);
+
+function getRateLimitReason(decision: ArcjetDecision): ArcjetRateLimitReason | null {
+  if (decision.reason.isRateLimit()) {
+    return decision.reason;
+  }
+
+  for (const result of decision.results) {
+    if (result.reason.isRateLimit()) {
+      return result.reason;
+    }
+  }
+
+  return null;
+}
+
+function setRateLimitHeaders(response: NextResponse, reason: ArcjetRateLimitReason) {
+  response.headers.set('X-RateLimit-Limit', String(reason.max));
+  response.headers.set('X-RateLimit-Remaining', String(reason.remaining));
+  response.headers.set('X-RateLimit-Reset', String(reason.reset));
+}
+
+async function parseJsonBody(request: Request) {
+  try {
+    return {
+      success: true,
+      body: await request.json(),
+    } as const;
+  } catch {
+    return {
+      success: false,
+    } as const;
+  }
+}
+
+function toErrorResponse(error: unknown) {
+  if (error instanceof AuthenticationError) {
+    return NextResponse.json(
+      { error: 'UNAUTHORIZED', message: 'Authentication required' },
+      { status: 401 },
+    );
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return NextResponse.json(
+      { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+      { status: 403 },
+    );
+  }
+
+  if (error instanceof ExerciseNotFoundError) {
+    return NextResponse.json(
+      { error: 'EXERCISE_NOT_FOUND', message: 'Exercise not found' },
+      { status: 404 },
+    );
+  }
+
+  if (error instanceof DialogueConflictError) {
+    return NextResponse.json(
+      { error: 'DIALOGUE_CONFLICT', message: error.message },
+      { status: 409 },
+    );
+  }
+
+  if (error instanceof AnswerEvaluationError) {
+    return NextResponse.json(
+      { error: 'EVALUATION_FAILED', message: error.message },
+      { status: 422 },
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+    { status: 500 },
+  );
+}
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const url = new URL(request.url);
+    const parsedQuery = DialogueSessionQuerySchema.safeParse({
+      exerciseId: url.searchParams.get('exerciseId') ?? undefined,
+    });
+
+    if (!parsedQuery.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid dialogue session query' },
+        { status: 422 },
+      );
+    }
+
+    const session = await getLatestDialogueSession({
+      userId: user.id,
+      exerciseId: parsedQuery.data.exerciseId,
+    });
+
+    return NextResponse.json(DialogueSessionResponseSchema.parse({ session }));
+  } catch (error) {
+    logger.error('Failed to load dialogue session', { error });
+
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    let rateLimitReason: ArcjetRateLimitReason | null = null;
+
+    if (Env.ARCJET_KEY) {
+      const decision = await dialogueRateLimiter.protect(request, { userId: user.id });
+      rateLimitReason = getRateLimitReason(decision);
+
+      if (decision.isDenied()) {
+        if (rateLimitReason) {
+          const response = NextResponse.json(
+            { error: 'RATE_LIMIT_EXCEEDED', message: 'Too many dialogue requests' },
+            { status: 429 },
+          );
+          response.headers.set('Retry-After', String(rateLimitReason.reset));
+          setRateLimitHeaders(response, rateLimitReason);
+          return response;
+        }
+
+        return NextResponse.json(
+          { error: 'FORBIDDEN', message: 'Request blocked by security policy' },
+          { status: 403 },
+        );
+      }
+    } else {
+      const missingArcjetConfigResponse = getMissingArcjetConfigResponse({ area: 'Dialogue' });
+      if (missingArcjetConfigResponse) {
+        return missingArcjetConfigResponse;
+      }
+    }
+
+    const parsedBody = await parseJsonBody(request);
+    const parsedRequest = parsedBody.success
+      ? DialogueTurnRequestSchema.safeParse(parsedBody.body)
+      : null;
+
+    if (!parsedRequest?.success) {
+      const response = NextResponse.json(
+        { error: 'INVALID_REQUEST', message: parsedBody.success ? 'Invalid dialogue turn payload' : 'Invalid JSON payload' },
+        { status: 422 },
+      );
+
+      if (rateLimitReason) {
+        setRateLimitHeaders(response, rateLimitReason);
+      }
+
+      return response;
+    }
+
+    const payload = await submitDialogueTurn({
+      userId: user.id,
+      exerciseId: parsedRequest.data.exerciseId,
+      message: parsedRequest.data.message,
+      turnIndex: parsedRequest.data.turnIndex,
+    });
+
+    const response = NextResponse.json(payload, { status: 200 });
+    if (rateLimitReason) {
+      setRateLimitHeaders(response, rateLimitReason);
+    }
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to submit dialogue turn', { error });
+
+    return toErrorResponse(error);
+  }
+}
@@ -188,6 +188,7 @@ export async function GET(request: Request) {
           overallFeedback: responsesSchema.overallFeedback,
           createdAt: responsesSchema.createdAt,
           sourceDocumentIds: exercisesSchema.sourceDocumentIds,
+          sessionId: responsesSchema.sessionId,
         })
         .from(responsesSchema)
         .innerJoin(exercisesSchema, eq(exercisesSchema.id, responsesSchema.exerciseId))
@@ -268,6 +269,7 @@ export async function GET(request: Request) {
             title: documentMap.get(documentId),
           }))
           .filter((document): document is { id: string; title: string } => Boolean(document.title)),
+        sessionId: row.sessionId ?? null,
       })),
       availableDocuments: [...documentMap.entries()]
         .map(([id, title]) => ({
@@ -4,6 +4,7 @@ const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
 const mockFindDuplicateSubmission = vi.fn();
 const mockEvaluateExerciseAnswer = vi.fn();
 const mockRecordExerciseResponse = vi.fn();
+const mockAssertPracticeSessionAcceptsResponse = vi.fn();
 const mockProtect = vi.fn();
 const mockWithRule = vi.fn(() => ({
   protect: mockProtect,
@@ -19,6 +20,9 @@ class MockAuthenticationError extends Error {}
 class MockUserNotFoundError extends Error {}
 class MockExerciseNotFoundError extends Error {}
 class MockAnswerEvaluationError extends Error {}
+class MockPracticeSessionNotFoundError extends Error {}
+class MockPracticeSessionClosedError extends Error {}
+class MockPracticeSessionItemAnsweredError extends Error {}
 
 vi.mock('@/libs/Auth', () => ({
   requireUser: mockRequireUser,
@@ -37,6 +41,13 @@ vi.mock('@/libs/AnswerEvaluation', () => ({
   AnswerEvaluationError: MockAnswerEvaluationError,
 }));
 
+vi.mock('@/libs/PracticeSession', () => ({
+  assertPracticeSessionAcceptsResponse: mockAssertPracticeSessionAcceptsResponse,
+  PracticeSessionNotFoundError: MockPracticeSessionNotFoundError,
+  PracticeSessionClosedError: MockPracticeSessionClosedError,
+  PracticeSessionItemAnsweredError: MockPracticeSessionItemAnsweredError,
+}));
+
 vi.mock('@arcjet/next', () => ({
   fixedWindow: mockFixedWindow,
 }));
@@ -142,6 +153,81 @@ describe('POST /api/responses/submit', () => {
     expect(mockRecordExerciseResponse).toHaveBeenCalledTimes(1);
   });
 
+  it('records answers given inside a practice session against the session', async () => {
+    mockEvaluateExerciseAnswer.mockResolvedValue({
+      evaluation: {
+        score: 100,
+        rubric: {
+          accuracy: 40,
+          grammar: 30,
+          fluency: 20,
+          bonus: 10,
+        },
+        overallFeedback: 'Correct answer.',
+        suggestedReview: [],
+        evaluationMethod: 'deterministic',
+      },
+    });
+    mockRecordExerciseResponse.mockResolvedValue({
+      response: {
+        id: 'response-1',
+        exerciseId: '550e8400-e29b-41d4-a716-446655440000',
+        score: 100,
+        rubric: {
+          accuracy: 40,
+          grammar: 30,
+          fluency: 20,
+          bonus: 10,
+        },
+        overallFeedback: 'Correct answer.',
+        suggestedReview: [],
+        responseTimeMs: 8000,
+        createdAt: '2026-03-05T10:30:00.000Z',
+        evaluationMethod: 'deterministic',
+      },
+      exerciseStats: {
+        timesAttempted: 1,
+        averageScore: 100,
+      },
+    });
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId: '550e8400-e29b-41d4-a716-446655440000',
+      answer: 1,
+      clientSubmissionId: '550e8400-e29b-41d4-a716-446655440001',
+      responseTimeMs: 8000,
+      sessionId: '550e8400-e29b-41d4-a716-446655440002',
+    }));
+
+    expect(response.status).toBe(200);
+    expect(mockAssertPracticeSessionAcceptsResponse).toHaveBeenCalledWith({
+      userId: 'user-1',
+      sessionId: '550e8400-e29b-41d4-a716-446655440002',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440000',
+    });
+    expect(mockRecordExerciseResponse).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: '550e8400-e29b-41d4-a716-446655440002',
+    }));
+  });
+
+  it('returns 409 without evaluating when the practice session has closed', async () => {
+    mockAssertPracticeSessionAcceptsResponse.mockRejectedValueOnce(new MockPracticeSessionClosedError('closed'));
+
+    const { POST } = await import('./route');
+    const response = await POST(createRequest({
+      exerciseId: '550e8400-e29b-41d4-a716-446655440000',
+      answer: 1,
+      clientSubmissionId: '550e8400-e29b-41d4-a716-446655440001',
+      sessionId: '550e8400-e29b-41d4-a716-446655440002',
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe('SESSION_CLOSED');
+    expect(mockEvaluateExerciseAnswer).not.toHaveBeenCalled();
+  });
+
   it('returns 422 for malformed JSON payload', async () => {
     const { POST } = await import('./route');
     const response = await POST(createMalformedJsonRequest());
@@ -12,6 +12,12 @@ import { getMissingArcjetConfigResponse } from '@/libs/ArcjetConfig';
 import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
 import { Env } from '@/libs/Env';
 import { logger } from '@/libs/Logger';
+import {
+  assertPracticeSessionAcceptsResponse,
+  PracticeSessionClosedError,
+  PracticeSessionItemAnsweredError,
+  PracticeSessionNotFoundError,
+} from '@/libs/PracticeSession';
 import {
   findDuplicateSubmission,
   recordExerciseResponse,
@@ -144,6 +150,14 @@ export async function POST(request: Request) {
       return response;
     }
 
+    if (parsedRequest.data.sessionId) {
+      await assertPracticeSessionAcceptsResponse({
+        userId: user.id,
+        sessionId: parsedRequest.data.sessionId,
+        exerciseId: parsedRequest.data.exerciseId,
+      });
+    }
+
     const evaluation = await evaluateExerciseAnswer({
       userId: user.id,
       exerciseId: parsedRequest.data.exerciseId,
@@ -157,6 +171,7 @@ export async function POST(request: Request) {
         clientSubmissionId: parsedRequest.data.clientSubmissionId,
         answer: parsedRequest.data.answer,
         responseTimeMs: parsedRequest.data.responseTimeMs,
+        sessionId: parsedRequest.data.sessionId,
         evaluation: evaluation.evaluation,
       });
 
@@ -221,6 +236,27 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof PracticeSessionNotFoundError) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: error.message },
+        { status: 404 },
+      );
+    }
+
+    if (error instanceof PracticeSessionClosedError) {
+      return NextResponse.json(
+        { error: 'SESSION_CLOSED', message: error.message },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof PracticeSessionItemAnsweredError) {
+      return NextResponse.json(
+        { error: 'ALREADY_ANSWERED', message: error.message },
+        { status: 409 },
+      );
+    }
+
     if (error instanceof AnswerEvaluationError) {
       return NextResponse.json(
         { error: 'EVALUATION_FAILED', message: error.message },
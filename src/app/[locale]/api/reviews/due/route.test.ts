@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
+const mockListDueReviews = vi.fn();
+const mockListLatestResponsesForExercises = vi.fn();
+const mockListSourceLocationsForExercises = vi.fn();
+
+vi.mock('@/libs/Auth', () => ({
+  requireUser: mockRequireUser,
+}));
+
+vi.mock('@/libs/ExerciseGeneration', () => ({
+  listLatestResponsesForExercises: mockListLatestResponsesForExercises,
+  listSourceLocationsForExercises: mockListSourceLocationsForExercises,
+}));
+
+vi.mock('@/libs/ReviewScheduler', () => ({
+  listDueReviews: mockListDueReviews,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('GET /api/reviews/due', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListSourceLocationsForExercises.mockResolvedValue(new Map());
+  });
+
+  it('returns due exercises with their review schedule', async () => {
+    mockListDueReviews.mockResolvedValue({
+      rows: [{
+        exercise: {
+          id: '550e8400-e29b-41d4-a716-446655440010',
+          type: 'fill_gap',
+          difficulty: 'beginner',
+          question: 'Io ___ a Roma.',
+          exerciseData: {
+            answer: 'vado',
+            hint: 'andare',
+          },
+          grammarFocus: 'presente',
+          timesAttempted: 1,
+          averageScore: 40,
+          createdAt: new Date('2026-03-05T10:10:00.000Z'),
+        },
+        review: {
+          dueAt: new Date('2026-03-06T10:12:00.000Z'),
+          intervalDays: 1,
+          repetitions: 0,
+          lastScore: 40,
+          lastReviewedAt: new Date('2026-03-05T10:12:00.000Z'),
+        },
+      }],
+      totalDue: 3,
+    });
+    mockListLatestResponsesForExercises.mockResolvedValue(new Map());
+
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost/en/api/reviews/due?limit=10'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockListDueReviews).toHaveBeenCalledWith({ userId: 'user-1', limit: 10 });
+    expect(body.totalDue).toBe(3);
+    expect(body.reviews).toHaveLength(1);
+    expect(body.reviews[0].exercise.renderData).toEqual({ hint: 'andare' });
+    expect(body.reviews[0].review).toEqual({
+      dueAt: '2026-03-06T10:12:00.000Z',
+      intervalDays: 1,
+      repetitions: 0,
+      lastScore: 40,
+      lastReviewedAt: '2026-03-05T10:12:00.000Z',
+    });
+  });
+
+  it('rejects an invalid limit', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost/en/api/reviews/due?limit=0'));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockListDueReviews).not.toHaveBeenCalled();
+  });
+});
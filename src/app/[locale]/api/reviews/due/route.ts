@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { listLatestResponsesForExercises, listSourceLocationsForExercises } from '@/libs/ExerciseGeneration';
+import { safeToExerciseCard } from '@/libs/ExercisePresenter';
+import { logger } from '@/libs/Logger';
+import { listDueReviews } from '@/libs/ReviewScheduler';
+import { DueReviewsQuerySchema, DueReviewsResponseSchema } from '@/validations/ReviewValidation';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const url = new URL(request.url);
+    const parsedQuery = DueReviewsQuerySchema.safeParse({
+      limit: url.searchParams.get('limit') ?? undefined,
+    });
+
+    if (!parsedQuery.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid review queue query' },
+        { status: 422 },
+      );
+    }
+
+    const dueReviews = await listDueReviews({
+      userId: user.id,
+      limit: parsedQuery.data.limit,
+    });
+    const exerciseIds = dueReviews.rows.map(row => row.exercise.id);
+    const [latestResponses, sourceLocations] = await Promise.all([
+      listLatestResponsesForExercises(user.id, exerciseIds),
+      listSourceLocationsForExercises(user.id, exerciseIds),
+    ]);
+
+    const reviews = dueReviews.rows.flatMap((row) => {
+      const result = safeToExerciseCard({
+        exercise: row.exercise,
+        latestResponse: latestResponses.get(row.exercise.id),
+        sourceLocations: sourceLocations.get(row.exercise.id),
+      });
+
+      if (!result.success) {
+        logger.warn('exercise_card_serialization_failed', {
+          exerciseId: row.exercise.id,
+          error: result.error,
+        });
+        return [];
+      }
+
+      return [{
+        exercise: result.data,
+        review: {
+          dueAt: row.review.dueAt.toISOString(),
+          intervalDays: row.review.intervalDays,
+          repetitions: row.review.repetitions,
+          lastScore: row.review.lastScore,
+          lastReviewedAt: row.review.lastReviewedAt?.toISOString() ?? null,
+        },
+      }];
+    });
+
+    return NextResponse.json(DueReviewsResponseSchema.parse({
+      reviews,
+      totalDue: dueReviews.totalDue,
+    }));
+  } catch (error) {
+    logger.error('Failed to list due reviews', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
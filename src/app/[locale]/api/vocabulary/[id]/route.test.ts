@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRequireUser = vi.fn(async () => ({ id: 'user-1' }));
+const mockUpdateVocabularyItemStatus = vi.fn();
+class MockAuthenticationError extends Error {}
+class MockUserNotFoundError extends Error {}
+
+vi.mock('@/libs/Auth', () => ({
+  requireUser: mockRequireUser,
+  AuthenticationError: MockAuthenticationError,
+  UserNotFoundError: MockUserNotFoundError,
+}));
+
+vi.mock('@/libs/Vocabulary', () => ({
+  updateVocabularyItemStatus: mockUpdateVocabularyItemStatus,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const itemId = '550e8400-e29b-41d4-a716-446655440020';
+
+function createRequest(body: Record<string, unknown>) {
+  return new Request(`http://localhost/api/vocabulary/${itemId}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('PATCH /api/vocabulary/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the updated term', async () => {
+    mockUpdateVocabularyItemStatus.mockResolvedValue({
+      id: itemId,
+      documentId: '550e8400-e29b-41d4-a716-446655440001',
+      documentTitle: 'Ricette di casa',
+      lemma: 'mescolare',
+      partOfSpeech: 'verb',
+      exampleSentence: 'Mescolare la farina con le uova.',
+      gloss: 'to mix',
+      status: 'starred',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const { PATCH } = await import('./route');
+    const response = await PATCH(createRequest({ status: 'starred' }), {
+      params: Promise.resolve({ id: itemId }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.item.status).toBe('starred');
+    expect(mockUpdateVocabularyItemStatus).toHaveBeenCalledWith({
+      userId: 'user-1',
+      itemId,
+      status: 'starred',
+    });
+  });
+
+  it('returns 422 for an unknown status', async () => {
+    const { PATCH } = await import('./route');
+    const response = await PATCH(createRequest({ status: 'deleted' }), {
+      params: Promise.resolve({ id: itemId }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('INVALID_REQUEST');
+    expect(mockUpdateVocabularyItemStatus).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the term belongs to someone else', async () => {
+    mockUpdateVocabularyItemStatus.mockResolvedValue(null);
+
+    const { PATCH } = await import('./route');
+    const response = await PATCH(createRequest({ status: 'suppressed' }), {
+      params: Promise.resolve({ id: itemId }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { updateVocabularyItemStatus } from '@/libs/Vocabulary';
+import { VocabularyItemUpdateRequestSchema } from '@/validations/VocabularyValidation';
+
+export const runtime = 'nodejs';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PATCH /api/vocabulary/[id]
+ * Stars, suppresses or restores one glossary term.
+ * @param request - The incoming HTTP request with the new status
+ * @param props - Route params containing vocabulary item ID
+ */
+export async function PATCH(request: Request, props: RouteParams) {
+  try {
+    const user = await requireUser();
+    const { id } = await props.params;
+    const parsedId = z.uuid().safeParse(id);
+    const parsedBody = VocabularyItemUpdateRequestSchema.safeParse(await request.json());
+
+    if (!parsedId.success || !parsedBody.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid vocabulary update' },
+        { status: 422 },
+      );
+    }
+
+    const item = await updateVocabularyItemStatus({
+      userId: user.id,
+      itemId: parsedId.data,
+      status: parsedBody.data.status,
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'NOT_FOUND', message: 'Vocabulary item not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    logger.error('Failed to update vocabulary item', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { AuthenticationError, requireUser, UserNotFoundError } from '@/libs/Auth';
+import { logger } from '@/libs/Logger';
+import { listVocabularyItems } from '@/libs/Vocabulary';
+import { VocabularyListQuerySchema, VocabularyListResponseSchema } from '@/validations/VocabularyValidation';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/vocabulary
+ * Lists the learner's glossary terms extracted from their documents.
+ * @param request - The incoming HTTP request with optional filters
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser();
+    const url = new URL(request.url);
+    const parsedQuery = VocabularyListQuerySchema.safeParse({
+      documentId: url.searchParams.get('documentId') ?? undefined,
+      status: url.searchParams.get('status') ?? undefined,
+      search: url.searchParams.get('search') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined,
+      offset: url.searchParams.get('offset') ?? undefined,
+    });
+
+    if (!parsedQuery.success) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid vocabulary query' },
+        { status: 422 },
+      );
+    }
+
+    const result = await listVocabularyItems({
+      userId: user.id,
+      ...parsedQuery.data,
+    });
+
+    return NextResponse.json(VocabularyListResponseSchema.parse(result));
+  } catch (error) {
+    logger.error('Failed to list vocabulary', { error });
+
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: 'UNAUTHORIZED', message: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: 'USER_NOT_FOUND', message: 'User account not synced. Please try again.' },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,5 @@
-import { createHash, timingSafeEqual } from 'node:crypto';
 import { NextResponse } from 'next/server';
+import { isAuthorizedDispatchRequest } from '@/libs/DispatchAuth';
 import { Env } from '@/libs/Env';
 import { countPendingGenerationJobs, runGenerationWorkerBatch } from '@/libs/ExerciseGeneration';
 import { logger } from '@/libs/Logger';
@@ -36,15 +36,6 @@ function createDispatchMisconfiguredResponse() {
   );
 }
 
-function extractBearerToken(request: Request) {
-  const value = request.headers.get('authorization');
-  if (!value || !value.startsWith('Bearer ')) {
-    return null;
-  }
-
-  return value.slice('Bearer '.length).trim();
-}
-
 function normalizeMaxJobs(value: unknown) {
   if (typeof value !== 'number' || !Number.isInteger(value)) {
     return null;
@@ -57,24 +48,6 @@ function normalizeMaxJobs(value: unknown) {
   return value;
 }
 
-function compareDispatchTokens(providedToken: string, dispatchToken: string) {
-  const providedDigest = createHash('sha256').update(providedToken).digest();
-  const dispatchDigest = createHash('sha256').update(dispatchToken).digest();
-
-  return timingSafeEqual(providedDigest, dispatchDigest);
-}
-
-function isAuthorizedDispatchRequest(request: Request) {
-  const providedToken = extractBearerToken(request);
-  const dispatchTokens = getDispatchTokens();
-
-  if (!providedToken || dispatchTokens.length === 0) {
-    return false;
-  }
-
-  return dispatchTokens.some(dispatchToken => compareDispatchTokens(providedToken, dispatchToken));
-}
-
 async function runDispatch(maxJobs: number) {
   try {
     const batch = await runGenerationWorkerBatch({ maxJobs });
@@ -112,7 +85,7 @@ export async function GET(request: Request) {
     return createDispatchMisconfiguredResponse();
   }
 
-  if (!isAuthorizedDispatchRequest(request)) {
+  if (!isAuthorizedDispatchRequest(request, getDispatchTokens())) {
     return createUnauthorizedResponse();
   }
 
@@ -124,7 +97,7 @@ export async function POST(request: Request) {
     return createDispatchMisconfiguredResponse();
   }
 
-  if (!isAuthorizedDispatchRequest(request)) {
+  if (!isAuthorizedDispatchRequest(request, getDispatchTokens())) {
     return createUnauthorizedResponse();
   }
 
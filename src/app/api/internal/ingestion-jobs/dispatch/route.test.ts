@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRunIngestionWorkerBatch = vi.fn();
+const mockCountPendingIngestionJobs = vi.fn();
+const loggerErrorMock = vi.fn();
+const mockEnv: {
+  CRON_SECRET: string | undefined;
+  INGESTION_DISPATCH_TOKEN: string | undefined;
+} = {
+  CRON_SECRET: 'cron-secret',
+  INGESTION_DISPATCH_TOKEN: 'dispatch-token',
+};
+
+vi.mock('@/libs/IngestionJobs', () => ({
+  runIngestionWorkerBatch: mockRunIngestionWorkerBatch,
+  countPendingIngestionJobs: mockCountPendingIngestionJobs,
+}));
+
+vi.mock('@/libs/Env', () => ({
+  Env: mockEnv,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: loggerErrorMock,
+    debug: vi.fn(),
+  },
+}));
+
+describe('/api/internal/ingestion-jobs/dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv.CRON_SECRET = 'cron-secret';
+    mockEnv.INGESTION_DISPATCH_TOKEN = 'dispatch-token';
+    mockRunIngestionWorkerBatch.mockResolvedValue({
+      claimed: 3,
+      completed: 2,
+      failed: 1,
+    });
+    mockCountPendingIngestionJobs.mockResolvedValue(4);
+  });
+
+  it('runs a worker batch for authenticated cron GET requests', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost/api/internal/ingestion-jobs/dispatch', {
+      method: 'GET',
+      headers: {
+        authorization: 'Bearer cron-secret',
+      },
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockRunIngestionWorkerBatch).toHaveBeenCalledWith({ maxJobs: 10 });
+    expect(body).toEqual({
+      claimed: 3,
+      completed: 2,
+      failed: 1,
+      remainingPendingEstimate: 4,
+    });
+  });
+
+  it('returns 401 with invalid bearer token', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(new Request('http://localhost/api/internal/ingestion-jobs/dispatch', {
+      method: 'POST',
+      headers: {
+        authorization: 'Bearer wrong-token',
+      },
+    }));
+
+    expect(response.status).toBe(401);
+    expect(mockRunIngestionWorkerBatch).not.toHaveBeenCalled();
+  });
+
+  it('accepts maxJobs override in request body', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(new Request('http://localhost/api/internal/ingestion-jobs/dispatch', {
+      method: 'POST',
+      headers: {
+        'authorization': 'Bearer dispatch-token',
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({ maxJobs: 25 }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(mockRunIngestionWorkerBatch).toHaveBeenCalledWith({ maxJobs: 25 });
+  });
+
+  it('returns 500 when dispatch secrets are missing', async () => {
+    mockEnv.CRON_SECRET = undefined;
+    mockEnv.INGESTION_DISPATCH_TOKEN = undefined;
+
+    const { POST } = await import('./route');
+    const response = await POST(new Request('http://localhost/api/internal/ingestion-jobs/dispatch', {
+      method: 'POST',
+      headers: {
+        authorization: 'Bearer dispatch-token',
+      },
+    }));
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.error).toBe('MISCONFIGURED');
+    expect(mockRunIngestionWorkerBatch).not.toHaveBeenCalled();
+    expect(loggerErrorMock).toHaveBeenCalledWith('ingestion_worker_dispatch_misconfigured');
+  });
+});
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedDispatchRequest } from '@/libs/DispatchAuth';
+import { Env } from '@/libs/Env';
+import { countPendingIngestionJobs, runIngestionWorkerBatch } from '@/libs/IngestionJobs';
+import { logger } from '@/libs/Logger';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_MAX_JOBS = 10;
+const MAX_ALLOWED_JOBS = 100;
+
+type DispatchRequestBody = {
+  maxJobs?: number;
+};
+
+function getDispatchTokens() {
+  return [
+    Env.CRON_SECRET,
+    Env.INGESTION_DISPATCH_TOKEN,
+  ].filter((token): token is string => Boolean(token));
+}
+
+function createUnauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'UNAUTHORIZED', message: 'Authentication required' },
+    { status: 401 },
+  );
+}
+
+function createDispatchMisconfiguredResponse() {
+  logger.error('ingestion_worker_dispatch_misconfigured');
+
+  return NextResponse.json(
+    { error: 'MISCONFIGURED', message: 'Ingestion dispatch is not configured.' },
+    { status: 500 },
+  );
+}
+
+function normalizeMaxJobs(value: unknown) {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return null;
+  }
+
+  if (value < 1 || value > MAX_ALLOWED_JOBS) {
+    return null;
+  }
+
+  return value;
+}
+
+async function runDispatch(maxJobs: number) {
+  try {
+    const batch = await runIngestionWorkerBatch({ maxJobs });
+    const remainingPendingEstimate = await countPendingIngestionJobs();
+
+    logger.info('ingestion_worker_dispatch_invoked', {
+      maxJobs,
+      claimed: batch.claimed,
+      completed: batch.completed,
+      failed: batch.failed,
+      remainingPendingEstimate,
+    });
+
+    return NextResponse.json({
+      claimed: batch.claimed,
+      completed: batch.completed,
+      failed: batch.failed,
+      remainingPendingEstimate,
+    });
+  } catch (error) {
+    logger.error('ingestion_worker_dispatch_failed', {
+      error,
+      maxJobs,
+    });
+
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  if (getDispatchTokens().length === 0) {
+    return createDispatchMisconfiguredResponse();
+  }
+
+  if (!isAuthorizedDispatchRequest(request, getDispatchTokens())) {
+    return createUnauthorizedResponse();
+  }
+
+  return runDispatch(DEFAULT_MAX_JOBS);
+}
+
+export async function POST(request: Request) {
+  if (getDispatchTokens().length === 0) {
+    return createDispatchMisconfiguredResponse();
+  }
+
+  if (!isAuthorizedDispatchRequest(request, getDispatchTokens())) {
+    return createUnauthorizedResponse();
+  }
+
+  let maxJobs = DEFAULT_MAX_JOBS;
+
+  const rawBody = await request.text();
+  if (rawBody.trim().length > 0) {
+    try {
+      const parsedBody = JSON.parse(rawBody) as DispatchRequestBody;
+      if (parsedBody.maxJobs !== undefined) {
+        const parsed = normalizeMaxJobs(parsedBody.maxJobs);
+        if (!parsed) {
+          return NextResponse.json(
+            { error: 'INVALID_REQUEST', message: `maxJobs must be an integer between 1 and ${MAX_ALLOWED_JOBS}` },
+            { status: 422 },
+          );
+        }
+
+        maxJobs = parsed;
+      }
+    } catch {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Invalid JSON payload' },
+        { status: 422 },
+      );
+    }
+  }
+
+  return runDispatch(maxJobs);
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import type { ActivityDay } from '@/validations/DailyGoalValidation';
+import { useTranslations } from 'next-intl';
+import { cn } from '@/utils/cn';
+
+type ActivityHeatmapProps = {
+  days: ActivityDay[];
+};
+
+function getActivityTone(exerciseCount: number) {
+  if (exerciseCount === 0) {
+    return 'bg-ink-100';
+  }
+
+  if (exerciseCount < 3) {
+    return 'bg-brand-200';
+  }
+
+  if (exerciseCount < 6) {
+    return 'bg-brand-400';
+  }
+
+  if (exerciseCount < 10) {
+    return 'bg-brand-600';
+  }
+
+  return 'bg-brand-800';
+}
+
+export function ActivityHeatmap(props: ActivityHeatmapProps) {
+  const t = useTranslations('DashboardOverviewPage');
+  const firstDate = props.days[0]?.date;
+  // Pad the first week so every row is one weekday, Monday first
+  const leadingBlankCount = firstDate ? (new Date(`${firstDate}T00:00:00.000Z`).getUTCDay() + 6) % 7 : 0;
+
+  return (
+    <div className="overflow-x-auto">
+      <div
+        aria-label={t('activity_heatmap_label')}
+        className="grid w-max grid-flow-col grid-rows-7 gap-1"
+        role="img"
+      >
+        {Array.from({ length: leadingBlankCount }, (_, index) => (
+          <span key={`blank-${index}`} className="size-3" />
+        ))}
+        {props.days.map(day => (
+          <span
+            key={day.date}
+            className={cn('size-3 rounded-[3px]', getActivityTone(day.exerciseCount))}
+            title={t('activity_day_title', {
+              date: new Date(`${day.date}T00:00:00.000Z`).toLocaleDateString(undefined, { timeZone: 'UTC' }),
+              count: day.exerciseCount,
+              minutes: day.minutes,
+            })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import type { DailyGoalMetric } from '@/validations/DailyGoalValidation';
+import type { DashboardSummary } from '@/validations/DocumentValidation';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityHeatmap } from '@/components/dashboard/ActivityHeatmap';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { badgeStyles, panelStyles } from '@/components/ui/styles';
+import {
+  DailyGoalResponseSchema,
+  MAX_DAILY_GOAL_TARGET,
+  UpdateDailyGoalRequestSchema,
+} from '@/validations/DailyGoalValidation';
+import { DashboardSummarySchema } from '@/validations/DocumentValidation';
+
+function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function DashboardActivityPanel() {
+  const locale = useLocale();
+  const t = useTranslations('DashboardOverviewPage');
+  const apiBasePath = `/${locale}/api`;
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+  const [isSavingGoal, setIsSavingGoal] = useState(false);
+  const [goalMetric, setGoalMetric] = useState<DailyGoalMetric>('exercises');
+  const [goalTarget, setGoalTarget] = useState(5);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    const query = new URLSearchParams({ timeZone: getBrowserTimeZone() });
+    const response = await fetch(`${apiBasePath}/dashboard/summary?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error('summary_failed');
+    }
+
+    const parsedPayload = DashboardSummarySchema.safeParse(await response.json() as unknown);
+    if (!parsedPayload.success) {
+      throw new Error('summary_invalid');
+    }
+
+    return parsedPayload.data;
+  }, [apiBasePath]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadSummary()
+      .then((data) => {
+        if (!isCancelled) {
+          setSummary(data);
+          setGoalMetric(data.dailyGoal.metric);
+          setGoalTarget(data.dailyGoal.target);
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setErrorMessage(t('activity_load_error'));
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [loadSummary, t]);
+
+  async function handleSaveGoal(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setErrorMessage(null);
+
+    const parsed = UpdateDailyGoalRequestSchema.safeParse({
+      metric: goalMetric,
+      target: goalTarget,
+      timeZone: getBrowserTimeZone(),
+    });
+    if (!parsed.success) {
+      setErrorMessage(t('goal_validation_error', { max: MAX_DAILY_GOAL_TARGET }));
+      return;
+    }
+
+    setIsSavingGoal(true);
+
+    try {
+      const response = await fetch(`${apiBasePath}/dashboard/goal`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(parsed.data),
+      });
+      if (!response.ok || !DailyGoalResponseSchema.safeParse(await response.json() as unknown).success) {
+        throw new Error('goal_failed');
+      }
+
+      // Progress and streak depend on the goal, so reload them
+      setSummary(await loadSummary());
+      setIsEditingGoal(false);
+    } catch {
+      setErrorMessage(t('goal_save_error'));
+    } finally {
+      setIsSavingGoal(false);
+    }
+  }
+
+  const dailyGoal = summary?.dailyGoal;
+  const progressPercent = dailyGoal ? Math.min(Math.round(dailyGoal.progress / dailyGoal.target * 100), 100) : 0;
+
+  return (
+    <section className={panelStyles({ className: 'space-y-5' })}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-ink-950">{t('activity_title')}</h2>
+          {dailyGoal && (
+            <p className="mt-2 text-sm leading-6 text-ink-600">
+              {t(dailyGoal.metric === 'exercises' ? 'goal_progress_exercises' : 'goal_progress_minutes', {
+                progress: dailyGoal.progress,
+                target: dailyGoal.target,
+              })}
+            </p>
+          )}
+        </div>
+        {summary && (
+          <span className={badgeStyles({ tone: summary.currentStreak > 0 ? 'success' : 'neutral' })}>
+            {t('streak_label', { count: summary.currentStreak })}
+          </span>
+        )}
+      </div>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {!summary && !errorMessage && <p className="text-sm text-ink-600">{t('activity_loading')}</p>}
+
+      {summary && dailyGoal && (
+        <>
+          <div
+            aria-label={t('goal_progress_label')}
+            aria-valuemax={100}
+            aria-valuemin={0}
+            aria-valuenow={progressPercent}
+            className="h-2 overflow-hidden rounded-full bg-ink-100"
+            role="progressbar"
+          >
+            <div
+              className={dailyGoal.isMet ? 'h-full bg-success-500' : 'h-full bg-brand-500'}
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+
+          <ActivityHeatmap days={summary.activityCalendar} />
+
+          {isEditingGoal
+            ? (
+                <form className="grid gap-4 md:grid-cols-3 md:items-end" onSubmit={handleSaveGoal}>
+                  <Select
+                    label={t('goal_metric_label')}
+                    onChange={event => setGoalMetric(event.target.value as DailyGoalMetric)}
+                    options={[
+                      { label: t('goal_metric_exercises'), value: 'exercises' },
+                      { label: t('goal_metric_minutes'), value: 'minutes' },
+                    ]}
+                    value={goalMetric}
+                  />
+                  <Input
+                    label={t('goal_target_label')}
+                    max={MAX_DAILY_GOAL_TARGET}
+                    min={1}
+                    onChange={value => setGoalTarget(Number(value))}
+                    type="number"
+                    value={goalTarget}
+                  />
+                  <div className="flex gap-3">
+                    <Button disabled={isSavingGoal} type="submit" variant="primary">
+                      {isSavingGoal ? t('goal_save_loading') : t('goal_save_button')}
+                    </Button>
+                    <Button
+                      disabled={isSavingGoal}
+                      onClick={() => setIsEditingGoal(false)}
+                      type="button"
+                      variant="secondary"
+                    >
+                      {t('goal_cancel_button')}
+                    </Button>
+                  </div>
+                </form>
+              )
+            : (
+                <Button onClick={() => setIsEditingGoal(true)} type="button" variant="secondary">
+                  {t('goal_edit_button')}
+                </Button>
+              )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -102,7 +102,7 @@ export function DashboardAddContentModal(props: DashboardAddContentModalProps) {
               <DocumentUploadPanel
                 errorMessage={documentsWorkspace.errorMessage}
                 isSubmitting={documentsWorkspace.isUploading}
-                onSubmitPdf={documentsWorkspace.submitPdf}
+                onSubmitFile={documentsWorkspace.submitFile}
                 onSubmitText={documentsWorkspace.submitText}
                 onSubmitUrl={documentsWorkspace.submitUrl}
                 resetKey={documentsWorkspace.uploadResetKey}
@@ -17,6 +17,25 @@ function createJsonResponse(payload: unknown, status = 200) {
   });
 }
 
+const summaryPayload = {
+  documentCounts: { total: 0, uploading: 0, processing: 0, ready: 0, failed: 0 },
+  activeGenerationJobsCount: 0,
+  recentAverageScore: null,
+  dailyGoal: {
+    metric: 'exercises',
+    target: 5,
+    timeZone: 'Europe/Rome',
+    isCustom: false,
+    progress: 2,
+    isMet: false,
+  },
+  currentStreak: 3,
+  activityCalendar: [
+    { date: '2026-03-04', exerciseCount: 6, minutes: 12 },
+    { date: '2026-03-05', exerciseCount: 2, minutes: 4 },
+  ],
+};
+
 function getRequestUrl(input: Parameters<typeof fetch>[0]) {
   if (typeof input === 'string') {
     return input;
@@ -43,6 +62,10 @@ describe('DashboardOverview', () => {
         return createJsonResponse({ documents: [] });
       }
 
+      if (url.includes('/en/api/dashboard/summary') && method === 'GET') {
+        return createJsonResponse(summaryPayload);
+      }
+
       throw new Error(`Unexpected request: ${method} ${url}`);
     });
 
@@ -67,6 +90,10 @@ describe('DashboardOverview', () => {
         return createJsonResponse({ documents: [] });
       }
 
+      if (url.includes('/en/api/dashboard/summary') && method === 'GET') {
+        return createJsonResponse(summaryPayload);
+      }
+
       if (url.endsWith('/en/api/documents/upload') && method === 'POST') {
         return createJsonResponse({ success: true });
       }
@@ -87,4 +114,31 @@ describe('DashboardOverview', () => {
     await expect.element(page.getByText(contentMessages.upload_accepted)).toBeInTheDocument();
     await expect.element(page.getByRole('textbox', { name: contentMessages.url_label })).toHaveValue('');
   });
+
+  it('shows the streak and today\'s goal progress', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = getRequestUrl(input);
+      const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+
+      if (url.endsWith('/en/api/documents') && method === 'GET') {
+        return createJsonResponse({ documents: [] });
+      }
+
+      if (url.includes('/en/api/dashboard/summary') && method === 'GET') {
+        return createJsonResponse(summaryPayload);
+      }
+
+      throw new Error(`Unexpected request: ${method} ${url}`);
+    });
+
+    await render(
+      <TestProviders>
+        <DashboardOverview />
+      </TestProviders>,
+    );
+
+    await expect.element(page.getByText('3 day streak')).toBeInTheDocument();
+    await expect.element(page.getByText('2 of 5 exercises answered today')).toBeInTheDocument();
+    await expect.element(page.getByRole('progressbar', { name: overviewMessages.goal_progress_label })).toHaveAttribute('aria-valuenow', '40');
+  });
 });
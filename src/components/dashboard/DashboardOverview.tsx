@@ -1,6 +1,7 @@
 'use client';
 
 import { useTranslations } from 'next-intl';
+import { DashboardActivityPanel } from '@/components/dashboard/DashboardActivityPanel';
 import { DocumentUploadPanel } from '@/components/documents/DocumentUploadPanel';
 import { useDocumentsWorkspace } from '@/components/documents/useDocumentsWorkspace';
 
@@ -17,10 +18,12 @@ export function DashboardOverview() {
         </div>
       </section>
 
+      <DashboardActivityPanel />
+
       <DocumentUploadPanel
         errorMessage={documentsWorkspace.errorMessage}
         isSubmitting={documentsWorkspace.isUploading}
-        onSubmitPdf={documentsWorkspace.submitPdf}
+        onSubmitFile={documentsWorkspace.submitFile}
         onSubmitText={documentsWorkspace.submitText}
         onSubmitUrl={documentsWorkspace.submitUrl}
         resetKey={documentsWorkspace.uploadResetKey}
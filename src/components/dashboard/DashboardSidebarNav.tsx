@@ -1,7 +1,7 @@
 'use client';
 import type { NavItemType } from '@/components/ui/application/app-navigation/config';
 import { SignOutButton } from '@clerk/nextjs';
-import { BarChartSquare02, BookOpen01, FileSearch03, LogOut01, TrendUp02, UserCircle } from '@untitledui/icons';
+import { BarChartSquare02, BookOpen01, ClockStopwatch, FileSearch03, LogOut01, RefreshCw01, Star01, Target02, TrendUp02, UserCircle } from '@untitledui/icons';
 import { useTranslations } from 'next-intl';
 import { LocaleSwitcher } from '@/components/LocaleSwitcher';
 import { NavItemBase } from '@/components/ui/application/app-navigation/base-components/nav-item';
@@ -20,7 +20,11 @@ export function DashboardSidebarNav() {
     { href: '/dashboard/', icon: BarChartSquare02, label: t('dashboard_link') },
     { href: '/dashboard/content/', icon: FileSearch03, label: t('content_link') },
     { href: '/dashboard/exercises/', icon: BookOpen01, label: t('exercises_link') },
+    { href: '/dashboard/review/', icon: RefreshCw01, label: t('review_link') },
+    { href: '/dashboard/practice/', icon: ClockStopwatch, label: t('practice_link') },
+    { href: '/dashboard/vocabulary/', icon: Star01, label: t('vocabulary_link') },
     { href: '/dashboard/progress/', icon: TrendUp02, label: t('progress_link') },
+    { href: '/dashboard/placement/', icon: Target02, label: t('placement_link') },
   ];
   return (
     <div className="relative flex min-h-full flex-1 flex-col">
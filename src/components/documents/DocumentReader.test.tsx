@@ -0,0 +1,153 @@
+import type { DocumentDetail } from '@/validations/DocumentValidation';
+import { NextIntlClientProvider } from 'next-intl';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render } from 'vitest-browser-react';
+import { page } from 'vitest/browser';
+import messages from '@/locales/en.json';
+import { DocumentReader } from './DocumentReader';
+
+function createDocumentDetail(): DocumentDetail {
+  return {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    title: 'Racconti italiani',
+    contentType: 'pdf',
+    status: 'ready',
+    searchable: true,
+    chunkCount: 2,
+    errorMessage: null,
+    sourceUrl: null,
+    originalFilename: 'racconti.pdf',
+    createdAt: '2026-03-06T10:00:00.000Z',
+    processedAt: '2026-03-06T10:05:00.000Z',
+    passages: [
+      {
+        id: '550e8400-e29b-41d4-a716-446655440030',
+        position: 0,
+        content: 'Ieri sono andato al mercato con mia sorella.',
+        startPage: 42,
+        endPage: 43,
+        startMs: null,
+        endMs: null,
+        startChar: 120,
+        endChar: 164,
+        exercises: [{
+          id: '550e8400-e29b-41d4-a716-446655440010',
+          type: 'fill_gap',
+          question: 'Ieri ___ al mercato.',
+          timesAttempted: 2,
+          averageScore: 75,
+          latestScore: 90,
+        }],
+      },
+      {
+        id: '550e8400-e29b-41d4-a716-446655440031',
+        position: 1,
+        content: 'Poi abbiamo preso un caffè in piazza.',
+        startPage: 43,
+        endPage: 43,
+        startMs: null,
+        endMs: null,
+        startChar: 165,
+        endChar: 202,
+        exercises: [],
+      },
+    ],
+  };
+}
+
+async function renderReader() {
+  await render(
+    <NextIntlClientProvider locale="en" messages={messages}>
+      <DocumentReader documentId="550e8400-e29b-41d4-a716-446655440001" />
+    </NextIntlClientProvider>,
+  );
+}
+
+describe('DocumentReader', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists the exercises and scores for a selected passage', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(createDocumentDetail()), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }));
+
+    await renderReader();
+
+    await expect.element(page.getByRole('heading', { name: 'Racconti italiani' })).toBeInTheDocument();
+    await expect.element(page.getByText('p. 42–43')).toBeInTheDocument();
+    await expect.element(page.getByText('1 exercise', { exact: true })).toBeInTheDocument();
+
+    await page.getByRole('button', { name: 'Passage 1' }).click();
+
+    await expect.element(page.getByText('Ieri ___ al mercato.')).toBeInTheDocument();
+    await expect.element(page.getByText('Latest score: 90/100')).toBeInTheDocument();
+    await expect.element(page.getByText('2 attempts')).toBeInTheDocument();
+
+    await page.getByRole('button', { name: 'Passage 2' }).click();
+
+    await expect.element(page.getByText(messages.DocumentReaderPage.passage_no_exercises)).toBeInTheDocument();
+  });
+
+  it('generates exercises from highlighted text', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify(createDocumentDetail()), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ jobId: 'job-1', status: 'pending' }), {
+        status: 202,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }));
+
+    await renderReader();
+
+    const content = page.getByText('Ieri sono andato al mercato con mia sorella.');
+
+    await expect.element(content).toBeInTheDocument();
+
+    const textNode = content.element().firstChild!;
+    window.getSelection()!.setBaseAndExtent(textNode, 5, textNode, 27);
+
+    await expect.element(page.getByText(messages.DocumentReaderPage.selection_title)).toBeInTheDocument();
+
+    await page.getByRole('button', { name: messages.DocumentReaderPage.selection_submit }).click();
+
+    await expect.element(page.getByText(messages.DocumentReaderPage.selection_queued)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith('/en/api/exercises/generate', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({
+        documentIds: ['550e8400-e29b-41d4-a716-446655440001'],
+        exerciseType: 'fill_gap',
+        count: 3,
+        passage: {
+          kind: 'character_span',
+          documentId: '550e8400-e29b-41d4-a716-446655440001',
+          startChar: 125,
+          endChar: 147,
+        },
+      }),
+    }));
+  });
+
+  it('shows a not found message for unknown documents', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({ error: 'NOT_FOUND' }), {
+      status: 404,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }));
+
+    await renderReader();
+
+    await expect.element(page.getByText(messages.DocumentReaderPage.not_found)).toBeInTheDocument();
+  });
+});
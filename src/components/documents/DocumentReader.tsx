@@ -0,0 +1,304 @@
+'use client';
+
+import type { PassageSelection } from './PassageSelectionForm';
+import type { DocumentDetail, DocumentPassage } from '@/validations/DocumentValidation';
+import { ArrowLeft, ArrowRight } from '@untitledui/icons';
+import { useLocale, useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
+import { cn } from '@/utils/cn';
+import { DocumentDetailSchema } from '@/validations/DocumentValidation';
+import { PassageSelectionForm } from './PassageSelectionForm';
+
+type DocumentReaderProps = {
+  documentId: string;
+};
+
+function getScoreTone(score: number | null) {
+  if (score === null) {
+    return 'neutral' as const;
+  }
+
+  return score >= 80 ? 'success' as const : score >= 50 ? 'warning' as const : 'danger' as const;
+}
+
+function getPassageElement(node: Node) {
+  const element = node instanceof Element ? node : node.parentElement;
+  return element?.closest<HTMLElement>('[data-passage-id]') ?? null;
+}
+
+function getTextOffset(element: HTMLElement, container: Node, offset: number) {
+  const range = element.ownerDocument.createRange();
+  range.selectNodeContents(element);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+/**
+ * Maps the browser's text selection onto a generation passage.
+ * Passages with stored offsets become a character span; older documents only
+ * store whole chunks, so their selection widens to the chunks it touches.
+ * @param documentId - Document being read.
+ * @param passages - Passages rendered by the reader.
+ * @returns The selected passage, or null when the selection is outside the passages.
+ */
+function readPassageSelection(documentId: string, passages: DocumentPassage[]): PassageSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0);
+  const startElement = getPassageElement(range.startContainer);
+  const endElement = getPassageElement(range.endContainer);
+  const startPassage = passages.find(passage => passage.id === startElement?.dataset.passageId);
+  const endPassage = passages.find(passage => passage.id === endElement?.dataset.passageId);
+  const text = range.toString().trim();
+  if (!startElement || !endElement || !startPassage || !endPassage || !text) {
+    return null;
+  }
+
+  if (startPassage.startChar !== null && endPassage.startChar !== null) {
+    const startChar = startPassage.startChar + getTextOffset(startElement, range.startContainer, range.startOffset);
+    const endChar = endPassage.startChar + getTextOffset(endElement, range.endContainer, range.endOffset);
+    if (endChar > startChar) {
+      return {
+        passage: { kind: 'character_span', documentId, startChar, endChar },
+        text,
+      };
+    }
+  }
+
+  return {
+    passage: {
+      kind: 'chunk_range',
+      documentId,
+      startPosition: startPassage.position,
+      endPosition: endPassage.position,
+    },
+    text,
+  };
+}
+
+export function DocumentReader(props: DocumentReaderProps) {
+  const locale = useLocale();
+  const t = useTranslations('DocumentReaderPage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [document, setDocument] = useState<DocumentDetail | null>(null);
+  const [selectedPassageId, setSelectedPassageId] = useState<string | null>(null);
+  const [passageSelection, setPassageSelection] = useState<PassageSelection | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadDocument() {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      try {
+        const response = await fetch(`${apiBasePath}/documents/${props.documentId}`);
+        if (response.status === 404) {
+          throw new Error('document_not_found');
+        }
+
+        if (!response.ok) {
+          throw new Error('document_load_failed');
+        }
+
+        const parsedPayload = DocumentDetailSchema.safeParse(await response.json() as unknown);
+        if (!parsedPayload.success) {
+          throw new Error('document_invalid');
+        }
+
+        if (!isCancelled) {
+          setDocument(parsedPayload.data);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setErrorMessage(error instanceof Error && error.message === 'document_not_found'
+            ? t('not_found')
+            : t('load_error'));
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadDocument();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [apiBasePath, props.documentId, t]);
+
+  useEffect(() => {
+    const passages = document?.passages ?? [];
+
+    function handleSelectionChange() {
+      // Keep the last highlight while the learner moves on to the generation form
+      const nextSelection = readPassageSelection(props.documentId, passages);
+      if (nextSelection) {
+        setPassageSelection(nextSelection);
+      }
+    }
+
+    window.document.addEventListener('selectionchange', handleSelectionChange);
+
+    return () => {
+      window.document.removeEventListener('selectionchange', handleSelectionChange);
+    };
+  }, [document, props.documentId]);
+
+  if (isLoading) {
+    return <section className={panelStyles({ className: 'text-sm text-ink-600' })}>{t('loading')}</section>;
+  }
+
+  const passages = document?.passages ?? [];
+  const usedPassageCount = passages.filter(passage => passage.exercises.length > 0).length;
+  const selectedPassage = passages.find(passage => passage.id === selectedPassageId) ?? null;
+
+  return (
+    <div className="space-y-6 py-5">
+      <Link href="/dashboard/content/" className={buttonStyles({ tone: 'ghost', size: 'sm' })}>
+        <ArrowLeft className="h-4 w-4" />
+        {t('back_link')}
+      </Link>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {document && (
+        <>
+          <header className={panelStyles({ tone: 'strong' })}>
+            <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+            <h1 className="mt-4 text-3xl font-semibold text-ink-950 sm:text-4xl">{document.title}</h1>
+            <p className="mt-3 text-sm leading-7 text-ink-600">
+              {t('summary', { passages: passages.length, used: usedPassageCount })}
+            </p>
+          </header>
+
+          {passages.length === 0
+            ? (
+                <section className={panelStyles({ tone: 'muted' })}>
+                  <p className="text-sm leading-6 text-ink-600">
+                    {document.status === 'ready' ? t('passages_empty') : t('not_ready')}
+                  </p>
+                </section>
+              )
+            : (
+                <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+                  <section className={panelStyles({ className: 'space-y-3' })}>
+                    <h2 className="text-base font-semibold text-ink-900">{t('passages_title')}</h2>
+                    <p className="text-xs text-ink-500">{t('passages_hint')}</p>
+                    {passages.map(passage => (
+                      <PassageBlock
+                        key={passage.id}
+                        isSelected={passage.id === selectedPassageId}
+                        onSelect={() => setSelectedPassageId(passage.id)}
+                        passage={passage}
+                      />
+                    ))}
+                  </section>
+
+                  <aside className={panelStyles({ tone: 'muted', className: 'h-fit space-y-4 lg:sticky lg:top-6' })}>
+                    {passageSelection && (
+                      <PassageSelectionForm
+                        key={JSON.stringify(passageSelection.passage)}
+                        onClear={() => setPassageSelection(null)}
+                        selection={passageSelection}
+                      />
+                    )}
+                    <h2 className="text-base font-semibold text-ink-900">{t('exercises_title')}</h2>
+                    {!selectedPassage && (
+                      <p className="text-sm leading-6 text-ink-600">{t('select_prompt')}</p>
+                    )}
+                    {selectedPassage && selectedPassage.exercises.length === 0 && (
+                      <p className="text-sm leading-6 text-ink-600">{t('passage_no_exercises')}</p>
+                    )}
+                    {selectedPassage && selectedPassage.exercises.length > 0 && (
+                      <ul className="space-y-3">
+                        {selectedPassage.exercises.map(exercise => (
+                          <li key={exercise.id} className="rounded-2xl border border-ink-100 bg-white p-4">
+                            <p className="text-sm font-medium text-ink-900">{exercise.question}</p>
+                            <div className="mt-3 flex flex-wrap gap-2">
+                              <span className={badgeStyles({ tone: getScoreTone(exercise.latestScore) })}>
+                                {exercise.latestScore === null
+                                  ? t('not_attempted')
+                                  : t('latest_score', { score: exercise.latestScore })}
+                              </span>
+                              {exercise.timesAttempted > 0 && (
+                                <span className={badgeStyles({ tone: 'neutral' })}>
+                                  {t('attempts', { count: exercise.timesAttempted })}
+                                </span>
+                              )}
+                              {exercise.averageScore !== null && (
+                                <span className={badgeStyles({ tone: 'neutral' })}>
+                                  {t('average_score', { score: exercise.averageScore })}
+                                </span>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <Link href="/dashboard/exercises/" className={buttonStyles({ tone: 'primary', size: 'sm' })}>
+                      {t('exercises_cta')}
+                      <ArrowRight className="h-4 w-4" />
+                    </Link>
+                  </aside>
+                </div>
+              )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function PassageBlock(props: {
+  passage: DocumentPassage;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  const t = useTranslations('DocumentReaderPage');
+  const exerciseCount = props.passage.exercises.length;
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl border px-4 py-3 transition',
+        exerciseCount > 0
+          ? 'border-brand-200 bg-brand-50/70'
+          : 'border-transparent hover:bg-ink-50',
+        props.isSelected && 'ring-4 ring-brand-100',
+      )}
+    >
+      <button
+        aria-pressed={props.isSelected}
+        className="flex w-full flex-wrap items-center gap-2 text-left text-xs text-ink-500"
+        onClick={props.onSelect}
+        type="button"
+      >
+        <span className="font-medium text-ink-700">{t('passage_label', { position: props.passage.position + 1 })}</span>
+        {props.passage.startPage !== null && props.passage.endPage !== null && (
+          <span>
+            {props.passage.startPage === props.passage.endPage
+              ? t('page_label', { page: props.passage.startPage })
+              : t('pages_label', { start: props.passage.startPage, end: props.passage.endPage })}
+          </span>
+        )}
+        {exerciseCount > 0 && (
+          <span className={badgeStyles({ tone: 'brand' })}>{t('exercise_count', { count: exerciseCount })}</span>
+        )}
+      </button>
+      <p className="mt-1 text-sm leading-7 whitespace-pre-line text-ink-800" data-passage-id={props.passage.id}>
+        {props.passage.content}
+      </p>
+    </div>
+  );
+}
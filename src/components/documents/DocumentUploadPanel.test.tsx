@@ -20,7 +20,7 @@ function DocumentUploadPanelHarness() {
       <DocumentUploadPanel
         errorMessage={null}
         isSubmitting={false}
-        onSubmitPdf={vi.fn()}
+        onSubmitFile={vi.fn()}
         onSubmitText={vi.fn()}
         onSubmitUrl={vi.fn()}
         resetKey={resetKey}
@@ -36,13 +36,13 @@ describe('DocumentUploadPanel', () => {
     vi.restoreAllMocks();
   });
 
-  it('shows a client error when submitting PDF mode without a file', async () => {
+  it('shows a client error when submitting file mode without a file', async () => {
     await render(
       <TestProviders>
         <DocumentUploadPanel
           errorMessage={null}
           isSubmitting={false}
-          onSubmitPdf={vi.fn()}
+          onSubmitFile={vi.fn()}
           onSubmitText={vi.fn()}
           onSubmitUrl={vi.fn()}
           statusMessage={null}
@@ -52,7 +52,7 @@ describe('DocumentUploadPanel', () => {
 
     await page.getByRole('button', { name: contentMessages.upload_submit }).click();
 
-    await expect.element(page.getByText(contentMessages.pdf_missing_file)).toBeInTheDocument();
+    await expect.element(page.getByText(contentMessages.file_missing_file)).toBeInTheDocument();
   });
 
   it('switches to URL mode and renders the URL field', async () => {
@@ -61,7 +61,7 @@ describe('DocumentUploadPanel', () => {
         <DocumentUploadPanel
           errorMessage={null}
           isSubmitting={false}
-          onSubmitPdf={vi.fn()}
+          onSubmitFile={vi.fn()}
           onSubmitText={vi.fn()}
           onSubmitUrl={vi.fn()}
           statusMessage={null}
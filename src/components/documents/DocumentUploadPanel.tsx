@@ -9,8 +9,22 @@ import { fieldLabelStyles, panelStyles, textareaStyles } from '@/components/ui/s
 import { FileUploadDropZone } from '@/components/untitled/application/file-upload/file-upload-base';
 import { ButtonGroup, ButtonGroupItem } from '@/components/untitled/base/button-group/button-group';
 import { cn } from '@/utils/cn';
+import { DOCUMENT_FILE_EXTENSIONS } from '@/validations/DocumentValidation';
 
-type UploadMode = 'pdf' | 'url' | 'text';
+type UploadMode = 'file' | 'url' | 'text';
+
+// Largest per-format limit (EPUB); the upload route enforces each format's own limit
+const MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024;
+
+const FILE_ACCEPT = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/epub+zip',
+  'text/markdown',
+  'text/html',
+  'text/vtt',
+  ...Object.values(DOCUMENT_FILE_EXTENSIONS).flat(),
+].join(',');
 
 type DocumentUploadPanelProps = {
   isSubmitting: boolean;
@@ -18,7 +32,7 @@ type DocumentUploadPanelProps = {
   errorMessage: string | null;
   resetKey?: number;
   variant?: 'page' | 'modal' | 'dashboard';
-  onSubmitPdf: (input: { file: File; title: string }) => Promise<void>;
+  onSubmitFile: (input: { file: File; title: string }) => Promise<void>;
   onSubmitUrl: (input: { url: string; title: string }) => Promise<void>;
   onSubmitText: (input: { title: string; content: string }) => Promise<void>;
 };
@@ -44,7 +58,7 @@ type UploadFormAction
 
 function createInitialUploadFormState(): UploadFormState {
   return {
-    mode: 'pdf',
+    mode: 'file',
     title: '',
     url: '',
     textContent: '',
@@ -114,13 +128,13 @@ export function DocumentUploadPanel(props: DocumentUploadPanelProps) {
     event.preventDefault();
     dispatch({ type: 'set_client_error', value: null });
 
-    if (state.mode === 'pdf') {
+    if (state.mode === 'file') {
       if (!state.selectedFile) {
-        dispatch({ type: 'set_client_error', value: t('pdf_missing_file') });
+        dispatch({ type: 'set_client_error', value: t('file_missing_file') });
         return;
       }
 
-      await props.onSubmitPdf({
+      await props.onSubmitFile({
         file: state.selectedFile,
         title: state.title.trim(),
       });
@@ -167,7 +181,7 @@ export function DocumentUploadPanel(props: DocumentUploadPanelProps) {
           dispatch({ type: 'set_mode', mode: nextMode as UploadMode });
         }}
       >
-        <ButtonGroupItem id="pdf">{t('upload_mode_pdf')}</ButtonGroupItem>
+        <ButtonGroupItem id="file">{t('upload_mode_file')}</ButtonGroupItem>
         <ButtonGroupItem id="url">{t('upload_mode_url')}</ButtonGroupItem>
         <ButtonGroupItem id="text">{t('upload_mode_text')}</ButtonGroupItem>
       </ButtonGroup>
@@ -221,17 +235,17 @@ export function DocumentUploadPanel(props: DocumentUploadPanelProps) {
           />
         )}
 
-        {state.mode === 'pdf' && (
+        {state.mode === 'file' && (
           <div className="space-y-4">
             <FileUploadDropZone
               key={state.fileInputKey}
-              accept="application/pdf,.pdf"
+              accept={FILE_ACCEPT}
               allowsMultiple={false}
               className={cn(
                 isDashboard && 'rounded-lg border border-dashed border-ink-300 bg-ink-25/80 px-8 py-10',
               )}
-              hint={t('pdf_help')}
-              maxSize={10 * 1024 * 1024}
+              hint={t('file_help')}
+              maxSize={MAX_FILE_SIZE_BYTES}
               onDropFiles={(files) => {
                 dispatch({ type: 'set_client_error', value: null });
                 dispatch({ type: 'set_selected_file', file: files[0] ?? null });
@@ -57,6 +57,10 @@ describe('DocumentsLibrary', () => {
     await expect.element(page.getByText('Broken URL import')).toBeInTheDocument();
     await expect.element(page.getByText('Failed', { exact: true })).toBeInTheDocument();
     await expect.element(page.getByText('Failed to extract URL content.')).toBeInTheDocument();
+    await expect.element(page.getByRole('link', { name: 'Read' })).toHaveAttribute(
+      'href',
+      '/dashboard/content/550e8400-e29b-41d4-a716-446655440010/',
+    );
   });
 
   it('shows only the five most recent documents in compact mode', async () => {
@@ -4,6 +4,7 @@ import type { DocumentListItem } from '@/validations/DocumentValidation';
 import { CheckCircle, FileSearch03, Globe01, Upload01 } from '@untitledui/icons';
 import { useTranslations } from 'next-intl';
 import { badgeStyles, buttonStyles, panelStyles, statusBadgeStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
 
 type DocumentsLibraryProps = {
   documents: DocumentListItem[];
@@ -169,6 +170,14 @@ export function DocumentsLibrary(props: DocumentsLibraryProps) {
                     </div>
 
                     <div className="flex items-center gap-2">
+                      {document.status === 'ready' && (
+                        <Link
+                          className={buttonStyles({ tone: 'primary', size: 'sm' })}
+                          href={`/dashboard/content/${document.id}/`}
+                        >
+                          {t('read_button')}
+                        </Link>
+                      )}
                       <button
                         className={buttonStyles({ size: 'sm' })}
                         onClick={() => props.onDelete(document)}
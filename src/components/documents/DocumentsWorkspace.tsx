@@ -16,7 +16,7 @@ export function DocumentsWorkspace() {
       <DocumentUploadPanel
         errorMessage={documentsWorkspace.errorMessage}
         isSubmitting={documentsWorkspace.isUploading}
-        onSubmitPdf={documentsWorkspace.submitPdf}
+        onSubmitFile={documentsWorkspace.submitFile}
         onSubmitText={documentsWorkspace.submitText}
         onSubmitUrl={documentsWorkspace.submitUrl}
         resetKey={documentsWorkspace.uploadResetKey}
@@ -0,0 +1,118 @@
+'use client';
+
+import type { ExerciseType, GenerationPassage } from '@/validations/ExerciseValidation';
+import { useLocale, useTranslations } from 'next-intl';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { GenerateExercisesRequestSchema, MAX_PASSAGE_CHUNKS } from '@/validations/ExerciseValidation';
+
+export type PassageSelection = {
+  passage: GenerationPassage;
+  text: string;
+};
+
+type PassageSelectionFormProps = {
+  selection: PassageSelection;
+  onClear: () => void;
+};
+
+// Types built from the passage text itself; conjugation and vocabulary drills draw on other sources
+const passageExerciseTypes: ExerciseType[] = ['multiple_choice', 'fill_gap', 'single_answer', 'matching', 'word_order', 'error_correction', 'translation', 'reading_comprehension', 'cloze'];
+
+export function PassageSelectionForm(props: PassageSelectionFormProps) {
+  const locale = useLocale();
+  const t = useTranslations('DocumentReaderPage');
+  const exerciseT = useTranslations('DashboardExercisesPage');
+  const [exerciseType, setExerciseType] = useState<ExerciseType>('fill_gap');
+  const [count, setCount] = useState(3);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { passage } = props.selection;
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setErrorMessage(null);
+
+    const parsed = GenerateExercisesRequestSchema.safeParse({
+      documentIds: [passage.documentId],
+      exerciseType,
+      count,
+      passage,
+    });
+    if (!parsed.success) {
+      setErrorMessage(t('selection_invalid', { max: MAX_PASSAGE_CHUNKS }));
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/${locale}/api/exercises/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(parsed.data),
+      });
+      if (!response.ok) {
+        throw new Error('generation_failed');
+      }
+
+      setIsQueued(true);
+    } catch {
+      setErrorMessage(t('selection_error'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form className="space-y-4 rounded-2xl border border-brand-200 bg-white p-4" onSubmit={handleSubmit}>
+      <h3 className="text-sm font-semibold text-ink-900">{t('selection_title')}</h3>
+      <blockquote className="line-clamp-4 border-l-2 border-brand-300 pl-3 text-sm leading-6 text-ink-700">
+        {props.selection.text}
+      </blockquote>
+      {passage.kind === 'chunk_range' && (
+        <p className="text-xs leading-5 text-ink-500">
+          {t('selection_whole_passages', { count: passage.endPosition - passage.startPosition + 1 })}
+        </p>
+      )}
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {isQueued
+        ? <p className="text-sm leading-6 text-ink-600">{t('selection_queued')}</p>
+        : (
+            <>
+              <Select
+                label={t('selection_type_label')}
+                onChange={event => setExerciseType(event.target.value as ExerciseType)}
+                options={passageExerciseTypes.map(type => ({ label: exerciseT(`exercise_type_${type}`), value: type }))}
+                value={exerciseType}
+              />
+              <Input
+                label={t('selection_count_label')}
+                max={20}
+                min={1}
+                onChange={value => setCount(Number(value))}
+                type="number"
+                value={count}
+              />
+              <div className="flex flex-wrap gap-3">
+                <Button disabled={isSubmitting} type="submit" variant="primary">
+                  {isSubmitting ? t('selection_submitting') : t('selection_submit')}
+                </Button>
+                <Button disabled={isSubmitting} onClick={props.onClear} type="button" variant="secondary">
+                  {t('selection_clear')}
+                </Button>
+              </div>
+            </>
+          )}
+    </form>
+  );
+}
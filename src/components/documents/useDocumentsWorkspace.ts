@@ -138,7 +138,7 @@ export function useDocumentsWorkspace(props: UseDocumentsWorkspaceOptions = {})
     };
   }, [hasActiveDocuments, t]);
 
-  async function submitPdf(input: { file: File; title: string }) {
+  async function submitFile(input: { file: File; title: string }) {
     setIsUploading(true);
     setStatusMessage(null);
     setErrorMessage(null);
@@ -299,7 +299,7 @@ export function useDocumentsWorkspace(props: UseDocumentsWorkspaceOptions = {})
     confirmDelete,
     refreshDocuments,
     setDocumentToDelete,
-    submitPdf,
+    submitFile,
     submitText,
     submitUrl,
   };
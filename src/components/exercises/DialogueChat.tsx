@@ -0,0 +1,224 @@
+'use client';
+
+import type { DialogueSession, DialogueTurn } from '@/validations/DialogueValidation';
+import type { ExerciseCard, SubmitResponseSuccess } from '@/validations/ResponseValidation';
+import { useTranslations } from 'next-intl';
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { fieldLabelStyles, textareaStyles } from '@/components/ui/styles';
+import { DialogueSessionResponseSchema, DialogueTurnSuccessSchema } from '@/validations/DialogueValidation';
+
+type DialogueChatProps = {
+  exercise: Extract<ExerciseCard, { type: 'dialogue' }>;
+  apiBasePath: string;
+  onCompleted: (payload: SubmitResponseSuccess) => void;
+};
+
+async function fetchDialogueSession(input: {
+  apiBasePath: string;
+  exerciseId: string;
+}) {
+  const response = await fetch(
+    `${input.apiBasePath}/responses/dialogue?exerciseId=${encodeURIComponent(input.exerciseId)}`,
+  );
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const parsedPayload = DialogueSessionResponseSchema.safeParse(await response.json());
+
+  return parsedPayload.success ? parsedPayload.data.session : null;
+}
+
+export function DialogueChat(props: DialogueChatProps) {
+  const t = useTranslations('DashboardExercisesPage');
+  const [session, setSession] = useState<DialogueSession | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    void fetchDialogueSession({
+      apiBasePath: props.apiBasePath,
+      exerciseId: props.exercise.id,
+    }).then((latestSession) => {
+      if (isMountedRef.current) {
+        setSession(latestSession);
+      }
+    });
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [props.apiBasePath, props.exercise.id]);
+
+  const turns: DialogueTurn[] = session?.turns ?? [{
+    role: 'character',
+    text: props.exercise.renderData.openingLine,
+  }];
+  const isCompleted = session?.status === 'completed';
+  const repliesLeft = props.exercise.renderData.turnCount - turns.filter(turn => turn.role === 'learner').length;
+
+  async function handleSend() {
+    const text = message.trim();
+    if (isSending || isCompleted || text === '') {
+      return;
+    }
+
+    setIsSending(true);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`${props.apiBasePath}/responses/dialogue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          exerciseId: props.exercise.id,
+          message: text,
+          turnIndex: turns.length,
+        }),
+      });
+
+      const payload = await response.json() as {
+        error?: string;
+        message?: string;
+      };
+
+      if (!response.ok) {
+        if (payload.error === 'DIALOGUE_CONFLICT') {
+          // Another tab moved the conversation on, so show where it stands now
+          const latestSession = await fetchDialogueSession({
+            apiBasePath: props.apiBasePath,
+            exerciseId: props.exercise.id,
+          });
+
+          if (isMountedRef.current) {
+            setSession(latestSession);
+          }
+        }
+
+        throw new Error(payload.message ?? payload.error ?? t('submission_failed'));
+      }
+
+      const parsedPayload = DialogueTurnSuccessSchema.safeParse(payload);
+      if (!parsedPayload.success) {
+        throw new Error(t('submission_failed'));
+      }
+
+      if (!isMountedRef.current) {
+        return;
+      }
+
+      setSession(parsedPayload.data.session);
+      setMessage('');
+
+      if (parsedPayload.data.completion) {
+        props.onCompleted(parsedPayload.data.completion);
+      }
+    } catch (error) {
+      if (isMountedRef.current) {
+        setErrorMessage(error instanceof Error && error.message ? error.message : t('submission_failed'));
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsSending(false);
+      }
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div>
+        <p className="text-sm text-ink-700">{t('dialogue_goals_label')}</p>
+        <ul className="mt-2 list-inside list-disc text-sm text-ink-600">
+          {props.exercise.renderData.goals.map(goal => (
+            <li key={`${props.exercise.id}-${goal}`}>{goal}</li>
+          ))}
+        </ul>
+      </div>
+
+      <ol aria-label={t('dialogue_conversation_label')} className="space-y-2">
+        {turns
+          .map((turn, turnIndex) => ({ turn, turnNumber: turnIndex + 1 }))
+          .map(({ turn, turnNumber }) => (
+            <li
+              key={`${props.exercise.id}-turn-${turnNumber}`}
+              className={turn.role === 'character'
+                ? 'mr-8 rounded-2xl bg-ink-50/75 px-4 py-3 text-sm text-ink-700'
+                : 'ml-8 rounded-2xl bg-brand-25 px-4 py-3 text-sm text-ink-900'}
+            >
+              <p className="text-xs font-semibold text-ink-500">
+                {turn.role === 'character'
+                  ? props.exercise.renderData.character
+                  : t('dialogue_learner_label', { role: props.exercise.renderData.learnerRole })}
+              </p>
+              <p className="mt-1 whitespace-pre-line">{turn.text}</p>
+              {turn.role === 'learner' && (
+                <p className="mt-2 text-xs text-ink-600">
+                  {turn.result.score}
+                  /100 –
+                  {' '}
+                  {turn.result.feedback}
+                </p>
+              )}
+            </li>
+          ))}
+      </ol>
+
+      {isCompleted
+        ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="text-sm text-ink-700">{t('dialogue_completed')}</p>
+              <Button
+                onClick={() => {
+                  setSession(null);
+                  setErrorMessage(null);
+                }}
+                size="sm"
+                type="button"
+              >
+                {t('dialogue_restart_button')}
+              </Button>
+            </div>
+          )
+        : (
+            <div>
+              <label className="block text-sm text-ink-700" htmlFor={`dialogue-${props.exercise.id}`}>
+                <span className={fieldLabelStyles()}>{t('dialogue_message_label')}</span>
+              </label>
+              <textarea
+                id={`dialogue-${props.exercise.id}`}
+                className={`mt-2 min-h-20 ${textareaStyles()}`}
+                value={message}
+                disabled={isSending}
+                onChange={event => setMessage(event.target.value)}
+                placeholder={t('dialogue_message_placeholder')}
+              />
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                <Button
+                  disabled={isSending || message.trim() === ''}
+                  onClick={() => {
+                    void handleSend();
+                  }}
+                  type="button"
+                  variant="primary"
+                >
+                  {isSending ? t('dialogue_send_loading') : t('dialogue_send_button')}
+                </Button>
+                <p className="text-xs text-ink-600">{t('dialogue_replies_left', { count: repliesLeft })}</p>
+              </div>
+            </div>
+          )}
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-3 py-2 text-sm text-error-700">{errorMessage}</p>
+      )}
+    </div>
+  );
+}
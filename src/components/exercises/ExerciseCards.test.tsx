@@ -21,6 +21,7 @@ function createExercise(): Extract<ExerciseCardItem, { type: 'multiple_choice' }
     timesAttempted: 0,
     averageScore: null,
     latestResponse: null,
+    sourceLocations: [],
     renderData: {
       options: ['Io ho visto', 'Io visto', 'Io sono vede', 'Io vedo ieri'],
     },
@@ -118,6 +119,36 @@ describe('ExerciseCards', () => {
     await expect.element(page.getByText(exerciseMessages.average_score_label)).not.toBeInTheDocument();
   });
 
+  it('shows the subtitle scene timestamps an exercise was generated from', async () => {
+    await render(
+      <ExerciseCardsHarness exercise={{
+        ...createExercise(),
+        sourceLocations: [
+          { kind: 'timestamp', startMs: 62_500, endMs: 71_000 },
+          { kind: 'timestamp', startMs: 3_725_000, endMs: 3_731_400 },
+        ],
+      }}
+      />,
+    );
+
+    await expect.element(page.getByText('Source: Scene 01:02–01:11, Scene 1:02:05–1:02:11')).toBeInTheDocument();
+  });
+
+  it('shows the PDF pages an exercise was generated from', async () => {
+    await render(
+      <ExerciseCardsHarness exercise={{
+        ...createExercise(),
+        sourceLocations: [
+          { kind: 'pages', startPage: 42, endPage: 43 },
+          { kind: 'pages', startPage: 50, endPage: 50 },
+        ],
+      }}
+      />,
+    );
+
+    await expect.element(page.getByText('Source: p. 42–43, p. 50')).toBeInTheDocument();
+  });
+
   it('renders duplicate multiple-choice labels without emitting a key warning', async () => {
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
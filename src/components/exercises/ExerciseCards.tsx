@@ -1,21 +1,27 @@
 'use client';
 
+import type { AnnotatedText } from '@/validations/EvaluationSchemas';
 import type {
   ExerciseCard as ExerciseCardItem,
   ExerciseLatestResponse,
+  ExerciseSourceLocation,
   SubmitResponseSuccess,
+  SubmittedAnswer,
 } from '@/validations/ResponseValidation';
 import { useTranslations } from 'next-intl';
 import { useEffect, useRef, useState } from 'react';
+import { DialogueChat } from '@/components/exercises/DialogueChat';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { RadioButton, RadioGroup } from '@/components/ui/Radio';
+import { Select } from '@/components/ui/Select';
 import { badgeStyles, fieldLabelStyles, panelStyles, textareaStyles } from '@/components/ui/styles';
 import { SubmissionDraftsSchema, SubmitResponseSuccessSchema } from '@/validations/ResponseValidation';
 
 type ExerciseCardsProps = {
   exercises: ExerciseCardItem[];
   apiBasePath: string;
+  title?: string;
   onExerciseUpdated: (input: {
     exerciseId: string;
     latestResponse: ExerciseLatestResponse;
@@ -23,6 +29,8 @@ type ExerciseCardsProps = {
     averageScore: number | null;
   }) => void;
   onExerciseSyncRequested?: (exerciseId: string) => Promise<SubmitResponseSuccess | null>;
+  // Answers are recorded against this practice session, with time per item
+  sessionId?: string;
 };
 
 type SubmissionState = {
@@ -37,7 +45,15 @@ type SubmissionDraft = {
 
 const submissionDraftsStorageKey = 'exercise-submission-drafts';
 
-function buildAnswerKey(answer: string | number) {
+function buildAnswerKey(answer: SubmittedAnswer) {
+  if (Array.isArray(answer)) {
+    return `matches:${JSON.stringify(answer)}`;
+  }
+
+  if (typeof answer === 'object') {
+    return `items:${JSON.stringify(answer)}`;
+  }
+
   return `${typeof answer}:${String(answer)}`;
 }
 
@@ -109,7 +125,35 @@ function getExerciseTypeLabel(input: {
       return input.t('exercise_type_fill_gap');
     case 'single_answer':
       return input.t('exercise_type_single_answer');
+    case 'matching':
+      return input.t('exercise_type_matching');
+    case 'word_order':
+      return input.t('exercise_type_word_order');
+    case 'error_correction':
+      return input.t('exercise_type_error_correction');
+    case 'translation':
+      return input.t('exercise_type_translation');
+    case 'reading_comprehension':
+      return input.t('exercise_type_reading_comprehension');
+    case 'cloze':
+      return input.t('exercise_type_cloze');
+    case 'conjugation':
+      return input.t('exercise_type_conjugation');
+    case 'dialogue':
+      return input.t('exercise_type_dialogue');
+    case 'writing':
+      return input.t('exercise_type_writing');
+    case 'vocabulary':
+      return input.t('exercise_type_vocabulary');
+  }
+}
+
+function getItemResultLabelKey(exercise: ExerciseCardItem) {
+  if (exercise.type === 'cloze') {
+    return 'gap_result_label';
   }
+
+  return exercise.type === 'dialogue' ? 'turn_result_label' : 'item_result_label';
 }
 
 function getDifficultyLabel(input: {
@@ -128,6 +172,35 @@ function getDifficultyLabel(input: {
   }
 }
 
+function formatMediaTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function getSourceLocationLabel(input: {
+  location: ExerciseSourceLocation;
+  t: ReturnType<typeof useTranslations>;
+}) {
+  switch (input.location.kind) {
+    case 'timestamp':
+      return input.t('source_scene_label', {
+        start: formatMediaTimestamp(input.location.startMs),
+        end: formatMediaTimestamp(input.location.endMs),
+      });
+    case 'pages':
+      return input.location.startPage === input.location.endPage
+        ? input.t('source_page_label', { page: input.location.startPage })
+        : input.t('source_pages_label', {
+            start: input.location.startPage,
+            end: input.location.endPage,
+          });
+  }
+}
+
 function getSubmissionErrorMessage(input: {
   error: unknown;
   t: ReturnType<typeof useTranslations>;
@@ -141,8 +214,66 @@ function getSubmissionErrorMessage(input: {
 
 function getAnswerPayload(input: {
   answerValue: string | undefined;
+  selectedMatches: string[] | undefined;
+  tokenOrder: number[] | undefined;
+  subAnswers: string[] | undefined;
   exercise: ExerciseCardItem;
-}) {
+}): SubmittedAnswer | null {
+  if (input.exercise.type === 'reading_comprehension') {
+    const subAnswers = input.exercise.renderData.items.map((item, index) => {
+      const value = input.subAnswers?.[index]?.trim() ?? '';
+
+      if (item.kind === 'true_false') {
+        return value === '' ? null : value === 'true';
+      }
+
+      if (item.kind === 'multiple_choice') {
+        return /^\d+$/.test(value) ? Number(value) : null;
+      }
+
+      return value === '' ? null : value;
+    });
+
+    if (subAnswers.includes(null)) {
+      return null;
+    }
+
+    return { subAnswers: subAnswers.filter(answer => answer !== null) };
+  }
+
+  if (input.exercise.type === 'cloze') {
+    const gapAnswers = input.exercise.renderData.hints.map((_, index) => input.subAnswers?.[index]?.trim() ?? '');
+    if (gapAnswers.includes('')) {
+      return null;
+    }
+
+    return { gapAnswers };
+  }
+
+  if (input.exercise.type === 'writing') {
+    const composition = input.answerValue?.trim();
+
+    return composition ? { composition } : null;
+  }
+
+  if (input.exercise.type === 'word_order') {
+    const tokens = input.exercise.renderData.tokens;
+    if (input.tokenOrder?.length !== tokens.length) {
+      return null;
+    }
+
+    return input.tokenOrder.map(tokenIndex => tokens[tokenIndex]!);
+  }
+
+  if (input.exercise.type === 'matching') {
+    const selectedMatches = input.exercise.renderData.terms.map((_, index) => input.selectedMatches?.[index] ?? '');
+    if (selectedMatches.includes('')) {
+      return null;
+    }
+
+    return selectedMatches;
+  }
+
   if (input.exercise.type === 'multiple_choice') {
     if (!input.answerValue || !/^\d+$/.test(input.answerValue)) {
       return null;
@@ -151,7 +282,10 @@ function getAnswerPayload(input: {
     return Number(input.answerValue);
   }
 
-  const answer = input.answerValue?.trim();
+  const answerValue = input.exercise.type === 'error_correction'
+    ? input.answerValue ?? input.exercise.question
+    : input.answerValue;
+  const answer = answerValue?.trim();
   if (!answer) {
     return null;
   }
@@ -202,6 +336,67 @@ function renderRubric(props: {
   );
 }
 
+function countWords(value: string) {
+  return value.split(/\s+/).filter(word => word !== '').length;
+}
+
+function renderAnnotatedText(props: {
+  annotatedText: AnnotatedText;
+  t: ReturnType<typeof useTranslations>;
+}) {
+  const segments: Array<{ start: number; text: string; annotationNumber: number | null }> = [];
+  let position = 0;
+  props.annotatedText.annotations.forEach((annotation, index) => {
+    if (annotation.start > position) {
+      segments.push({ start: position, text: props.annotatedText.text.slice(position, annotation.start), annotationNumber: null });
+    }
+
+    segments.push({ start: annotation.start, text: annotation.original, annotationNumber: index + 1 });
+    position = annotation.end;
+  });
+
+  if (position < props.annotatedText.text.length) {
+    segments.push({ start: position, text: props.annotatedText.text.slice(position), annotationNumber: null });
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      <h5 className="text-sm font-medium text-ink-900">{props.t('writing_feedback_label')}</h5>
+      <p className="rounded-2xl bg-white/85 p-3 text-sm whitespace-pre-line text-ink-700">
+        {segments.map(segment => segment.annotationNumber === null
+          ? <span key={segment.start}>{segment.text}</span>
+          : (
+              <mark key={segment.start} className="rounded bg-error-50 text-ink-900 underline decoration-error-700 decoration-wavy">
+                {segment.text}
+                <sup className="ml-0.5 text-error-700">{segment.annotationNumber}</sup>
+              </mark>
+            ))}
+      </p>
+      {props.annotatedText.annotations.length > 0 && (
+        <ol className="space-y-1 text-sm text-ink-700">
+          {props.annotatedText.annotations.map((annotation, index) => (
+            <li key={annotation.start}>
+              <span className="font-medium text-ink-900">
+                {index + 1}
+                .
+                {' '}
+                {props.t(`writing_category_${annotation.category}`)}
+                :
+              </span>
+              {' '}
+              {annotation.original}
+              {' → '}
+              {annotation.suggestion}
+              {' – '}
+              {annotation.explanation}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 export { type ExerciseCardItem };
 
 export function ExerciseCards(props: ExerciseCardsProps) {
@@ -213,9 +408,14 @@ export function ExerciseCards(props: ExerciseCardsProps) {
     bonus: t('rubric_bonus'),
   };
   const [answersByExerciseId, setAnswersByExerciseId] = useState<Record<string, string>>({});
+  const [matchesByExerciseId, setMatchesByExerciseId] = useState<Record<string, string[]>>({});
+  const [tokenOrderByExerciseId, setTokenOrderByExerciseId] = useState<Record<string, number[]>>({});
+  const [subAnswersByExerciseId, setSubAnswersByExerciseId] = useState<Record<string, string[]>>({});
   const [submissionStateByExerciseId, setSubmissionStateByExerciseId] = useState<Record<string, SubmissionState>>({});
   const isMountedRef = useRef(true);
   const requestIdByExerciseIdRef = useRef<Record<string, number>>({});
+  const shownAtByExerciseIdRef = useRef<Record<string, number>>({});
+  const lastSubmittedAtRef = useRef<number | null>(null);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -225,6 +425,13 @@ export function ExerciseCards(props: ExerciseCardsProps) {
     };
   }, []);
 
+  useEffect(() => {
+    const now = Date.now();
+    for (const exercise of props.exercises) {
+      shownAtByExerciseIdRef.current[exercise.id] ??= now;
+    }
+  }, [props.exercises]);
+
   function isLatestRequest(exerciseId: string, requestId: number) {
     return requestIdByExerciseIdRef.current[exerciseId] === requestId;
   }
@@ -259,6 +466,27 @@ export function ExerciseCards(props: ExerciseCardsProps) {
     }));
   }
 
+  function updateTokenOrder(exerciseId: string, update: (order: number[]) => number[]) {
+    clearSubmissionDraft(exerciseId);
+    setTokenOrderByExerciseId(current => ({
+      ...current,
+      [exerciseId]: update(current[exerciseId] ?? []),
+    }));
+  }
+
+  function updateSubAnswer(exerciseId: string, itemIndex: number, value: string) {
+    clearSubmissionDraft(exerciseId);
+    setSubAnswersByExerciseId((current) => {
+      const nextSubAnswers = [...(current[exerciseId] ?? [])];
+      nextSubAnswers[itemIndex] = value;
+
+      return {
+        ...current,
+        [exerciseId]: nextSubAnswers,
+      };
+    });
+  }
+
   async function handleSubmit(exercise: ExerciseCardItem) {
     const currentState = submissionStateByExerciseId[exercise.id];
     if (currentState?.isSubmitting) {
@@ -267,6 +495,9 @@ export function ExerciseCards(props: ExerciseCardsProps) {
 
     const answer = getAnswerPayload({
       answerValue: answersByExerciseId[exercise.id],
+      selectedMatches: matchesByExerciseId[exercise.id],
+      tokenOrder: tokenOrderByExerciseId[exercise.id],
+      subAnswers: subAnswersByExerciseId[exercise.id],
       exercise,
     });
 
@@ -313,6 +544,12 @@ export function ExerciseCards(props: ExerciseCardsProps) {
           exerciseId: exercise.id,
           answer,
           clientSubmissionId,
+          // Time since the card appeared or the previous answer in this list, whichever is later
+          responseTimeMs: Math.round(Date.now() - Math.max(
+            shownAtByExerciseIdRef.current[exercise.id] ?? Date.now(),
+            lastSubmittedAtRef.current ?? 0,
+          )),
+          ...(props.sessionId ? { sessionId: props.sessionId } : {}),
         }),
       });
 
@@ -326,6 +563,8 @@ export function ExerciseCards(props: ExerciseCardsProps) {
         throw new Error(payload.message ?? payload.error ?? t('submission_failed'));
       }
 
+      lastSubmittedAtRef.current = Date.now();
+
       if (!parsedPayload.success) {
         const refreshedPayload = await props.onExerciseSyncRequested?.(exercise.id) ?? null;
         if (!refreshedPayload) {
@@ -376,7 +615,7 @@ export function ExerciseCards(props: ExerciseCardsProps) {
   if (props.exercises.length === 0) {
     return (
       <section className={panelStyles()}>
-        <h2 className="text-base font-semibold text-ink-900">{t('results_title')}</h2>
+        <h2 className="text-base font-semibold text-ink-900">{props.title ?? t('results_title')}</h2>
         <p className="mt-2 text-sm text-ink-600">{t('results_empty')}</p>
       </section>
     );
@@ -384,7 +623,7 @@ export function ExerciseCards(props: ExerciseCardsProps) {
 
   return (
     <section className="space-y-4">
-      <h2 className="text-base font-semibold text-ink-900">{t('results_title')}</h2>
+      <h2 className="text-base font-semibold text-ink-900">{props.title ?? t('results_title')}</h2>
 
       <div className="grid gap-4 md:grid-cols-2">
         {props.exercises.map((exercise) => {
@@ -424,6 +663,15 @@ export function ExerciseCards(props: ExerciseCardsProps) {
                 </p>
               )}
 
+              {exercise.sourceLocations.length > 0 && (
+                <p className="mt-2 text-xs text-ink-600">
+                  {t('source_label')}
+                  :
+                  {' '}
+                  {exercise.sourceLocations.map(location => getSourceLocationLabel({ location, t })).join(', ')}
+                </p>
+              )}
+
               {exercise.type === 'multiple_choice' && (
                 <fieldset className="mt-3 space-y-3">
                   <legend className="text-sm text-ink-700">{t('choose_correct_answer_label')}</legend>
@@ -519,24 +767,331 @@ export function ExerciseCards(props: ExerciseCardsProps) {
                 </div>
               )}
 
-              <div className="mt-4 flex items-center gap-3">
-                <Button
-                  disabled={submissionState?.isSubmitting}
-                  onClick={() => {
-                    void handleSubmit(exercise);
-                  }}
-                  type="button"
-                  variant="primary"
-                >
-                  {submissionState?.isSubmitting
-                    ? t('submit_answer_loading')
-                    : t('submit_answer_button')}
-                </Button>
-
-                {submissionState?.errorMessage && (
-                  <p className="rounded-2xl border border-error-100 bg-error-50 px-3 py-2 text-sm text-error-700">{submissionState.errorMessage}</p>
-                )}
-              </div>
+              {exercise.type === 'matching' && (
+                <fieldset className="mt-3 space-y-3">
+                  <legend className="text-sm text-ink-700">{t('match_pairs_label')}</legend>
+                  {exercise.renderData.terms.map((term, termIndex) => (
+                    <Select
+                      key={`${exercise.id}-${term}`}
+                      disabled={submissionState?.isSubmitting}
+                      label={term}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        clearSubmissionDraft(exercise.id);
+                        setMatchesByExerciseId((current) => {
+                          const nextMatches = [...(current[exercise.id] ?? [])];
+                          nextMatches[termIndex] = value;
+
+                          return {
+                            ...current,
+                            [exercise.id]: nextMatches,
+                          };
+                        });
+                      }}
+                      options={[
+                        { label: t('match_select_placeholder'), value: '' },
+                        ...exercise.renderData.matches.map(match => ({ label: match, value: match })),
+                      ]}
+                      value={matchesByExerciseId[exercise.id]?.[termIndex] ?? ''}
+                    />
+                  ))}
+                </fieldset>
+              )}
+
+              {exercise.type === 'word_order' && (
+                <div className="mt-3 space-y-3">
+                  <p className="text-sm text-ink-700">{t('word_order_label')}</p>
+                  <div
+                    aria-label={t('word_order_answer_label')}
+                    className="flex min-h-12 flex-wrap items-center gap-2 rounded-lg border border-dashed border-ink-200 bg-ink-50/75 p-3"
+                    role="group"
+                  >
+                    {(tokenOrderByExerciseId[exercise.id] ?? []).length === 0 && (
+                      <span className="text-sm text-ink-500">{t('word_order_empty')}</span>
+                    )}
+                    {(tokenOrderByExerciseId[exercise.id] ?? []).map((tokenIndex, position) => (
+                      <Button
+                        key={`${exercise.id}-placed-${tokenIndex}`}
+                        disabled={submissionState?.isSubmitting}
+                        onClick={() => updateTokenOrder(exercise.id, order => order.filter((_, index) => index !== position))}
+                        size="sm"
+                        type="button"
+                        variant="primary"
+                      >
+                        {exercise.renderData.tokens[tokenIndex]}
+                      </Button>
+                    ))}
+                  </div>
+                  <div aria-label={t('word_order_tokens_label')} className="flex flex-wrap gap-2" role="group">
+                    {exercise.renderData.tokens.map((token, tokenIndex, tokens) => {
+                      if ((tokenOrderByExerciseId[exercise.id] ?? []).includes(tokenIndex)) {
+                        return null;
+                      }
+
+                      const duplicateCount = tokens
+                        .slice(0, tokenIndex)
+                        .filter(existingToken => existingToken === token)
+                        .length;
+
+                      return (
+                        <Button
+                          key={`${exercise.id}-${token}-${duplicateCount}`}
+                          disabled={submissionState?.isSubmitting}
+                          onClick={() => updateTokenOrder(exercise.id, order => [...order, tokenIndex])}
+                          size="sm"
+                          type="button"
+                        >
+                          {token}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {exercise.type === 'error_correction' && (
+                <div className="mt-3 space-y-2">
+                  <p className="text-xs text-ink-600">
+                    {t('error_correction_count', { count: exercise.renderData.errorCount })}
+                  </p>
+                  <label className="block text-sm text-ink-700" htmlFor={`answer-${exercise.id}`}>
+                    <span className={fieldLabelStyles()}>{t('error_correction_input_label')}</span>
+                  </label>
+                  <textarea
+                    id={`answer-${exercise.id}`}
+                    className={`min-h-20 ${textareaStyles()}`}
+                    value={answersByExerciseId[exercise.id] ?? exercise.question}
+                    disabled={submissionState?.isSubmitting}
+                    onChange={(event) => {
+                      clearSubmissionDraft(exercise.id);
+                      setAnswersByExerciseId(current => ({
+                        ...current,
+                        [exercise.id]: event.target.value,
+                      }));
+                    }}
+                  />
+                </div>
+              )}
+
+              {exercise.type === 'translation' && (
+                <div className="mt-3">
+                  <label className="block text-sm text-ink-700" htmlFor={`answer-${exercise.id}`}>
+                    <span className={fieldLabelStyles()}>
+                      {exercise.renderData.direction === 'it_to_en'
+                        ? t('translation_into_english_label')
+                        : t('translation_into_italian_label')}
+                    </span>
+                  </label>
+                  <textarea
+                    id={`answer-${exercise.id}`}
+                    className={`mt-2 min-h-20 ${textareaStyles()}`}
+                    value={answersByExerciseId[exercise.id] ?? ''}
+                    disabled={submissionState?.isSubmitting}
+                    onChange={(event) => {
+                      clearSubmissionDraft(exercise.id);
+                      setAnswersByExerciseId(current => ({
+                        ...current,
+                        [exercise.id]: event.target.value,
+                      }));
+                    }}
+                    placeholder={t('translation_placeholder')}
+                  />
+                </div>
+              )}
+
+              {exercise.type === 'conjugation' && (
+                <div className="mt-3">
+                  <Input
+                    id={`answer-${exercise.id}`}
+                    isDisabled={submissionState?.isSubmitting}
+                    label={exercise.renderData.tense.startsWith('congiuntivo')
+                      ? `che ${exercise.renderData.person}`
+                      : exercise.renderData.person}
+                    onChange={(value) => {
+                      clearSubmissionDraft(exercise.id);
+                      setAnswersByExerciseId(current => ({
+                        ...current,
+                        [exercise.id]: value,
+                      }));
+                    }}
+                    placeholder={t('conjugation_placeholder', { infinitive: exercise.renderData.infinitive })}
+                    value={answersByExerciseId[exercise.id] ?? ''}
+                  />
+                </div>
+              )}
+
+              {exercise.type === 'vocabulary' && (
+                <div className="mt-3">
+                  <Input
+                    id={`answer-${exercise.id}`}
+                    isDisabled={submissionState?.isSubmitting}
+                    label={t(`part_of_speech_${exercise.renderData.partOfSpeech}`)}
+                    onChange={(value) => {
+                      clearSubmissionDraft(exercise.id);
+                      setAnswersByExerciseId(current => ({
+                        ...current,
+                        [exercise.id]: value,
+                      }));
+                    }}
+                    placeholder={t('vocabulary_placeholder')}
+                    value={answersByExerciseId[exercise.id] ?? ''}
+                  />
+                </div>
+              )}
+
+              {exercise.type === 'reading_comprehension' && (
+                <div className="mt-3 space-y-4">
+                  <blockquote className="rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-3 text-sm whitespace-pre-line text-ink-700">
+                    {exercise.renderData.passage}
+                  </blockquote>
+                  <ol className="space-y-4">
+                    {exercise.renderData.items.map((item, itemIndex) => {
+                      const itemLabel = item.kind === 'true_false' ? item.statement : item.question;
+                      const itemValue = subAnswersByExerciseId[exercise.id]?.[itemIndex] ?? '';
+
+                      return (
+                        <li key={`${exercise.id}-item-${itemLabel}`}>
+                          {item.kind === 'short_answer'
+                            ? (
+                                <Input
+                                  id={`answer-${exercise.id}-${itemIndex}`}
+                                  isDisabled={submissionState?.isSubmitting}
+                                  label={`${itemIndex + 1}. ${itemLabel}`}
+                                  onChange={value => updateSubAnswer(exercise.id, itemIndex, value)}
+                                  value={itemValue}
+                                />
+                              )
+                            : (
+                                <fieldset className="space-y-2">
+                                  <legend className="text-sm text-ink-700">{`${itemIndex + 1}. ${itemLabel}`}</legend>
+                                  <RadioGroup
+                                    aria-label={itemLabel}
+                                    className="space-y-2"
+                                    onChange={value => updateSubAnswer(exercise.id, itemIndex, String(value))}
+                                    value={itemValue}
+                                  >
+                                    {(item.kind === 'true_false'
+                                      ? [{ label: t('true_label'), value: 'true' }, { label: t('false_label'), value: 'false' }]
+                                      : item.options.map((option, optionIndex) => ({ label: option, value: String(optionIndex) }))
+                                    ).map(option => (
+                                      <RadioButton
+                                        key={option.value}
+                                        className="rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-2"
+                                        isDisabled={submissionState?.isSubmitting}
+                                        label={option.label}
+                                        value={option.value}
+                                      />
+                                    ))}
+                                  </RadioGroup>
+                                </fieldset>
+                              )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              )}
+
+              {exercise.type === 'cloze' && (
+                <div className="mt-3 rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-3 text-sm leading-10 text-ink-700">
+                  {exercise.renderData.text
+                    .split(/___\d+/)
+                    .map((segment, segmentIndex) => ({ segment, gapNumber: segmentIndex + 1 }))
+                    .map(({ segment, gapNumber }) => (
+                      <span key={`${exercise.id}-gap-${gapNumber}`}>
+                        {segment}
+                        {gapNumber <= exercise.renderData.hints.length && (
+                          <Input
+                            aria-label={t('cloze_gap_label', { number: gapNumber })}
+                            className="mx-1 inline-flex w-36 align-middle"
+                            isDisabled={submissionState?.isSubmitting}
+                            onChange={value => updateSubAnswer(exercise.id, gapNumber - 1, value)}
+                            placeholder={exercise.renderData.hints[gapNumber - 1] ?? `${gapNumber}`}
+                            size="sm"
+                            value={subAnswersByExerciseId[exercise.id]?.[gapNumber - 1] ?? ''}
+                          />
+                        )}
+                      </span>
+                    ))}
+                </div>
+              )}
+
+              {exercise.type === 'writing' && (
+                <div className="mt-3 space-y-3">
+                  <div>
+                    <p className="text-sm text-ink-700">{t('grading_criteria_label')}</p>
+                    <ul className="mt-2 list-inside list-disc text-sm text-ink-600">
+                      {exercise.renderData.gradingCriteria.map(item => (
+                        <li key={`${exercise.id}-${item}`}>{item}</li>
+                      ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-ink-600">
+                      {exercise.renderData.register === 'formal'
+                        ? t('writing_register_formal')
+                        : t('writing_register_informal')}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-ink-700" htmlFor={`answer-${exercise.id}`}>
+                      <span className={fieldLabelStyles()}>{t('writing_input_label')}</span>
+                    </label>
+                    <textarea
+                      id={`answer-${exercise.id}`}
+                      className={`mt-2 min-h-48 ${textareaStyles()}`}
+                      value={answersByExerciseId[exercise.id] ?? ''}
+                      disabled={submissionState?.isSubmitting}
+                      onChange={(event) => {
+                        clearSubmissionDraft(exercise.id);
+                        setAnswersByExerciseId(current => ({
+                          ...current,
+                          [exercise.id]: event.target.value,
+                        }));
+                      }}
+                      placeholder={t('writing_placeholder')}
+                    />
+                    <p className="mt-1 text-xs text-ink-600">
+                      {t('writing_word_count', {
+                        count: countWords(answersByExerciseId[exercise.id] ?? ''),
+                        min: exercise.renderData.minWords,
+                        max: exercise.renderData.maxWords,
+                      })}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {exercise.type === 'dialogue' && (
+                <DialogueChat
+                  apiBasePath={props.apiBasePath}
+                  exercise={exercise}
+                  onCompleted={payload => applySubmissionResult({
+                    exerciseId: exercise.id,
+                    payload,
+                  })}
+                />
+              )}
+
+              {exercise.type !== 'dialogue' && (
+                <div className="mt-4 flex items-center gap-3">
+                  <Button
+                    disabled={submissionState?.isSubmitting}
+                    onClick={() => {
+                      void handleSubmit(exercise);
+                    }}
+                    type="button"
+                    variant="primary"
+                  >
+                    {submissionState?.isSubmitting
+                      ? t('submit_answer_loading')
+                      : t('submit_answer_button')}
+                  </Button>
+
+                  {submissionState?.errorMessage && (
+                    <p className="rounded-2xl border border-error-100 bg-error-50 px-3 py-2 text-sm text-error-700">{submissionState.errorMessage}</p>
+                  )}
+                </div>
+              )}
 
               {exercise.latestResponse && (
                 <section className="mt-4 rounded-[1.5rem] border border-brand-100 bg-brand-25 p-4">
@@ -565,6 +1120,25 @@ export function ExerciseCards(props: ExerciseCardsProps) {
                     {exercise.latestResponse.overallFeedback}
                   </p>
 
+                  {exercise.latestResponse.itemResults && exercise.latestResponse.itemResults.length > 0 && (
+                    <ol className="mt-3 space-y-1 text-sm text-ink-700">
+                      {exercise.latestResponse.itemResults
+                        .map((itemResult, itemIndex) => ({ ...itemResult, number: itemIndex + 1 }))
+                        .map(itemResult => (
+                          <li key={itemResult.number}>
+                            {t(getItemResultLabelKey(exercise), { number: itemResult.number, score: itemResult.score })}
+                            {' '}
+                            {itemResult.feedback}
+                          </li>
+                        ))}
+                    </ol>
+                  )}
+
+                  {exercise.latestResponse.annotatedText && renderAnnotatedText({
+                    annotatedText: exercise.latestResponse.annotatedText,
+                    t,
+                  })}
+
                   {exercise.latestResponse.suggestedReview.length > 0 && (
                     <p className="mt-2 text-sm text-ink-700">
                       <span className="font-medium text-ink-900">{t('suggested_review_label')}</span>
@@ -1,7 +1,7 @@
 'use client';
 
 import type { DocumentListItem } from '@/validations/DocumentValidation';
-import type { GenerateExercisesRequest } from '@/validations/ExerciseValidation';
+import type { ExerciseType, ExerciseTypeCounts, GenerateExercisesRequest, PracticeMistakesRequest } from '@/validations/ExerciseValidation';
 import { useTranslations } from 'next-intl';
 import { useState } from 'react';
 import { Button } from '@/components/ui/Button';
@@ -9,22 +9,40 @@ import { Checkbox } from '@/components/ui/Checkbox';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { panelStyles } from '@/components/ui/styles';
-import { GenerateExercisesRequestSchema } from '@/validations/ExerciseValidation';
+import { GenerateExercisesRequestSchema, PracticeMistakesRequestSchema } from '@/validations/ExerciseValidation';
 
 type ExerciseGeneratorFormProps = {
   documents: DocumentListItem[];
   isSubmitting: boolean;
-  onSubmit: (request: GenerateExercisesRequest) => Promise<void>;
+  onSubmit: (request: GenerateExercisesRequest | PracticeMistakesRequest) => Promise<void>;
   serverError: string | null;
 };
 
+const exerciseTypes: ExerciseType[] = ['multiple_choice', 'fill_gap', 'single_answer', 'matching', 'word_order', 'error_correction', 'translation', 'reading_comprehension', 'cloze', 'conjugation', 'dialogue', 'writing', 'vocabulary'];
+
 export function ExerciseGeneratorForm(props: ExerciseGeneratorFormProps) {
   const t = useTranslations('DashboardExercisesPage');
   const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
-  const [exerciseType, setExerciseType] = useState<GenerateExercisesRequest['exerciseType']>('multiple_choice');
+  const [exerciseType, setExerciseType] = useState<ExerciseType | 'mixed'>('multiple_choice');
   const [count, setCount] = useState(5);
+  const [typeCounts, setTypeCounts] = useState<Required<ExerciseTypeCounts>>({
+    multiple_choice: 2,
+    fill_gap: 2,
+    single_answer: 1,
+    matching: 0,
+    word_order: 0,
+    error_correction: 0,
+    translation: 0,
+    reading_comprehension: 0,
+    cloze: 0,
+    conjugation: 0,
+    dialogue: 0,
+    writing: 0,
+    vocabulary: 0,
+  });
   const [difficulty, setDifficulty] = useState<GenerateExercisesRequest['difficulty']>();
   const [topicFocus, setTopicFocus] = useState('');
+  const [practiseMistakes, setPractiseMistakes] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const availableDocumentIds = new Set(props.documents.map(document => document.id));
   const activeSelectedDocumentIds = selectedDocumentIds.filter(id => availableDocumentIds.has(id));
@@ -33,13 +51,23 @@ export function ExerciseGeneratorForm(props: ExerciseGeneratorFormProps) {
     event.preventDefault();
     setFormError(null);
 
-    const parsed = GenerateExercisesRequestSchema.safeParse({
-      documentIds: activeSelectedDocumentIds,
-      exerciseType,
-      count,
+    const isMixed = exerciseType === 'mixed';
+    const typeSelection = {
+      exerciseType: isMixed ? undefined : exerciseType,
+      typeCounts: isMixed ? typeCounts : undefined,
+      count: isMixed
+        ? Object.values(typeCounts).reduce((sum, typeCount) => sum + typeCount, 0)
+        : count,
       difficulty,
-      topicFocus: topicFocus.trim() || undefined,
-    });
+    };
+    // Mistake practice picks its own source documents from the learner's history
+    const parsed = practiseMistakes
+      ? PracticeMistakesRequestSchema.safeParse({ mode: 'mistakes', ...typeSelection })
+      : GenerateExercisesRequestSchema.safeParse({
+          documentIds: activeSelectedDocumentIds,
+          ...typeSelection,
+          topicFocus: topicFocus.trim() || undefined,
+        });
 
     if (!parsed.success) {
       setFormError(t('form_validation_error'));
@@ -62,54 +90,87 @@ export function ExerciseGeneratorForm(props: ExerciseGeneratorFormProps) {
   return (
     <form className={panelStyles({ className: 'space-y-5' })} onSubmit={handleSubmit}>
       <div>
-        <p className="text-sm font-semibold text-ink-900">{t('documents_label')}</p>
-        <p className="mt-1 text-sm text-ink-600">{t('documents_help')}</p>
-        <div className="mt-3 space-y-2">
-          {props.documents.map(document => (
-            <Checkbox
-              key={document.id}
-              className="rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-3"
-              isSelected={activeSelectedDocumentIds.includes(document.id)}
-              label={(
-                <span>
-                  {document.title}
-                  {' '}
-                  <span className="text-ink-500">
-                    (
-                    {t(`document_type_${document.contentType}`)}
-                    )
+        <Checkbox
+          className="rounded-lg border border-brand-100 bg-brand-50/60 px-4 py-3"
+          isSelected={practiseMistakes}
+          label={t('practise_mistakes_label')}
+          onChange={() => setPractiseMistakes(current => !current)}
+        />
+        <p className="mt-2 text-sm text-ink-600">{t('practise_mistakes_help')}</p>
+      </div>
+
+      {!practiseMistakes && (
+        <div>
+          <p className="text-sm font-semibold text-ink-900">{t('documents_label')}</p>
+          <p className="mt-1 text-sm text-ink-600">{t('documents_help')}</p>
+          <div className="mt-3 space-y-2">
+            {props.documents.map(document => (
+              <Checkbox
+                key={document.id}
+                className="rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-3"
+                isSelected={activeSelectedDocumentIds.includes(document.id)}
+                label={(
+                  <span>
+                    {document.title}
+                    {' '}
+                    <span className="text-ink-500">
+                      (
+                      {t(`document_type_${document.contentType}`)}
+                      )
+                    </span>
                   </span>
-                </span>
-              )}
-              onChange={() => toggleDocumentSelection(document.id)}
-            />
-          ))}
-          {props.documents.length === 0 && (
-            <p className="text-sm text-ink-500">{t('no_ready_documents')}</p>
-          )}
+                )}
+                onChange={() => toggleDocumentSelection(document.id)}
+              />
+            ))}
+            {props.documents.length === 0 && (
+              <p className="text-sm text-ink-500">{t('no_ready_documents')}</p>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       <div className="grid gap-4 md:grid-cols-2">
         <Select
           label={t('exercise_type_label')}
-          onChange={event => setExerciseType(event.target.value as GenerateExercisesRequest['exerciseType'])}
+          onChange={event => setExerciseType(event.target.value as ExerciseType | 'mixed')}
           options={[
-            { label: t('exercise_type_multiple_choice'), value: 'multiple_choice' },
-            { label: t('exercise_type_fill_gap'), value: 'fill_gap' },
-            { label: t('exercise_type_single_answer'), value: 'single_answer' },
+            ...exerciseTypes.map(type => ({ label: t(`exercise_type_${type}`), value: type })),
+            { label: t('exercise_type_mixed'), value: 'mixed' },
           ]}
           value={exerciseType}
         />
 
-        <Input
-          label={t('count_label')}
-          max={20}
-          min={1}
-          onChange={value => setCount(Number(value))}
-          type="number"
-          value={count}
-        />
+        {exerciseType !== 'mixed' && (
+          <Input
+            label={t('count_label')}
+            max={20}
+            min={1}
+            onChange={value => setCount(Number(value))}
+            type="number"
+            value={count}
+          />
+        )}
+
+        {exerciseType === 'mixed' && (
+          <fieldset className="space-y-3 md:col-span-2">
+            <legend className="text-sm font-semibold text-ink-900">{t('type_counts_label')}</legend>
+            <p className="text-sm text-ink-600">{t('type_counts_help')}</p>
+            <div className="grid gap-4 md:grid-cols-3">
+              {exerciseTypes.map(type => (
+                <Input
+                  key={type}
+                  label={t(`exercise_type_${type}`)}
+                  max={20}
+                  min={0}
+                  onChange={value => setTypeCounts(current => ({ ...current, [type]: Number(value) }))}
+                  type="number"
+                  value={typeCounts[type]}
+                />
+              ))}
+            </div>
+          </fieldset>
+        )}
 
         <Select
           label={t('difficulty_label')}
@@ -130,14 +191,16 @@ export function ExerciseGeneratorForm(props: ExerciseGeneratorFormProps) {
           value={difficulty ?? ''}
         />
 
-        <Input
-          label={t('topic_focus_label')}
-          maxLength={120}
-          onChange={value => setTopicFocus(value)}
-          placeholder={t('topic_focus_placeholder')}
-          type="text"
-          value={topicFocus}
-        />
+        {!practiseMistakes && (
+          <Input
+            label={t('topic_focus_label')}
+            maxLength={120}
+            onChange={value => setTopicFocus(value)}
+            placeholder={t('topic_focus_placeholder')}
+            type="text"
+            value={topicFocus}
+          />
+        )}
       </div>
 
       {(formError || props.serverError) && (
@@ -145,7 +208,7 @@ export function ExerciseGeneratorForm(props: ExerciseGeneratorFormProps) {
       )}
 
       <Button
-        disabled={props.isSubmitting || props.documents.length === 0}
+        disabled={props.isSubmitting || (!practiseMistakes && props.documents.length === 0)}
         type="submit"
         variant="primary"
       >
@@ -3,6 +3,7 @@
 import type { ExerciseCardItem } from './ExerciseCards';
 import type { ExerciseGenerationJobStatus } from './GenerationJobStatus';
 import type { DocumentListItem } from '@/validations/DocumentValidation';
+import type { GenerateExercisesRequest, PracticeMistakesRequest } from '@/validations/ExerciseValidation';
 import type { ExerciseLatestResponse } from '@/validations/ResponseValidation';
 import { ArrowRight, FileSearch03, TrendUp02 } from '@untitledui/icons';
 import { useLocale, useTranslations } from 'next-intl';
@@ -12,19 +13,12 @@ import { createPollingGate } from '@/components/exercises/PollingGate';
 import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
 import { Link } from '@/libs/I18nNavigation';
 import { DocumentListItemSchema } from '@/validations/DocumentValidation';
+import { getRequestedTypeCounts } from '@/validations/ExerciseValidation';
 import { ExerciseCardSchema, SubmitResponseSuccessSchema } from '@/validations/ResponseValidation';
 import { ExerciseCards } from './ExerciseCards';
 import { ExerciseGeneratorForm } from './ExerciseGeneratorForm';
 import { GenerationJobStatus } from './GenerationJobStatus';
 
-type GenerateRequest = {
-  documentIds: string[];
-  exerciseType: 'multiple_choice' | 'fill_gap' | 'single_answer';
-  count: number;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
-  topicFocus?: string;
-};
-
 const DocumentsResponseSchema = z.object({
   documents: z.array(DocumentListItemSchema),
 });
@@ -182,6 +176,7 @@ export function ExercisesDashboard() {
             requestedCount: job.requestedCount,
             generatedCount: job.generatedCount,
             failedCount: job.failedCount,
+            typeProgress: job.typeProgress,
             errorMessage: job.errorMessage,
             createdAt: job.createdAt,
             startedAt: job.startedAt,
@@ -215,7 +210,7 @@ export function ExercisesDashboard() {
     };
   }, [activeJobs, apiBasePath, t]);
 
-  async function handleGenerate(request: GenerateRequest) {
+  async function handleGenerate(request: GenerateExercisesRequest | PracticeMistakesRequest) {
     setIsSubmitting(true);
     setErrorMessage(null);
 
@@ -247,6 +242,12 @@ export function ExercisesDashboard() {
           requestedCount: request.count,
           generatedCount: 0,
           failedCount: 0,
+          typeProgress: Object.fromEntries(
+            Object.entries(getRequestedTypeCounts(request)).map(([type, requested]) => [
+              type,
+              { requested, generated: 0, failed: 0 },
+            ]),
+          ),
           errorMessage: null,
           createdAt: now,
           startedAt: null,
@@ -1,5 +1,6 @@
 'use client';
 
+import type { ExerciseType, GenerationTypeProgress } from '@/validations/ExerciseValidation';
 import { useTranslations } from 'next-intl';
 import { badgeStyles, panelStyles } from '@/components/ui/styles';
 
@@ -11,6 +12,7 @@ export type ExerciseGenerationJobStatus = {
   requestedCount: number;
   generatedCount: number;
   failedCount: number;
+  typeProgress: GenerationTypeProgress | null;
   errorMessage: string | null;
   createdAt: string;
   startedAt: string | null;
@@ -61,6 +63,19 @@ export function GenerationJobStatus(props: GenerationJobStatusProps) {
                 {job.requestedCount}
               </span>
             </div>
+            {job.typeProgress && Object.keys(job.typeProgress).length > 1 && (
+              <ul className="mt-2 flex flex-wrap gap-2">
+                {(Object.entries(job.typeProgress) as Array<[ExerciseType, NonNullable<GenerationTypeProgress[ExerciseType]>]>).map(([type, progress]) => (
+                  <li key={type} className={badgeStyles({ tone: 'neutral' })}>
+                    {t('job_type_progress', {
+                      type: t(`exercise_type_${type}`),
+                      generated: progress.generated,
+                      requested: progress.requested,
+                    })}
+                  </li>
+                ))}
+              </ul>
+            )}
             <p className="mt-2 text-ink-600">
               {t('job_failed_count')}
               :
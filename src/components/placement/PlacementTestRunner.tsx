@@ -0,0 +1,186 @@
+'use client';
+
+import type { PlacementResult, PlacementTest } from '@/validations/PlacementValidation';
+import { ArrowRight } from '@untitledui/icons';
+import { useLocale, useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
+import { PlacementStateResponseSchema, PlacementTestResponseSchema } from '@/validations/PlacementValidation';
+
+function PlacementResultPanel(props: { result: PlacementResult }) {
+  const t = useTranslations('DashboardPlacementPage');
+
+  return (
+    <section className={panelStyles()}>
+      <span className={badgeStyles({ tone: 'brand' })}>{props.result.cefrLevel}</span>
+      <h2 className="mt-3 text-lg font-semibold text-ink-950">
+        {t('result_title', { level: props.result.cefrLevel })}
+      </h2>
+      <p className="mt-2 text-sm leading-6 text-ink-600">
+        {t('result_description', { count: props.result.itemCount })}
+      </p>
+      <Link
+        href="/dashboard/exercises/"
+        className={`mt-4 ${buttonStyles({ tone: 'primary' })}`}
+      >
+        {t('exercises_cta')}
+        <ArrowRight className="h-4 w-4" />
+      </Link>
+    </section>
+  );
+}
+
+export function PlacementTestRunner() {
+  const locale = useLocale();
+  const t = useTranslations('DashboardPlacementPage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [test, setTest] = useState<PlacementTest | null>(null);
+  const [latestResult, setLatestResult] = useState<PlacementResult | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadPlacement() {
+      try {
+        const response = await fetch(`${apiBasePath}/placement`);
+        if (!response.ok) {
+          throw new Error('placement_failed');
+        }
+
+        const parsedPayload = PlacementStateResponseSchema.safeParse(await response.json() as unknown);
+        if (!parsedPayload.success) {
+          throw new Error('placement_invalid');
+        }
+
+        if (!isCancelled) {
+          setTest(parsedPayload.data.test);
+          setLatestResult(parsedPayload.data.latestResult);
+        }
+      } catch {
+        if (!isCancelled) {
+          setErrorMessage(t('load_error'));
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadPlacement();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [apiBasePath, t]);
+
+  async function sendPlacementRequest(path: string, body?: Record<string, unknown>) {
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`${apiBasePath}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        throw new Error(response.status === 409 ? 'placement_conflict' : 'placement_failed');
+      }
+
+      const parsedPayload = PlacementTestResponseSchema.safeParse(await response.json() as unknown);
+      if (!parsedPayload.success) {
+        throw new Error('placement_invalid');
+      }
+
+      setTest(parsedPayload.data.test);
+      if (parsedPayload.data.test.result) {
+        setLatestResult(parsedPayload.data.test.result);
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error && error.message === 'placement_conflict'
+        ? t('conflict_error')
+        : t('submit_error'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const activeTest = test?.status === 'active' ? test : null;
+  const currentItem = activeTest?.currentItem ?? null;
+
+  return (
+    <div className="space-y-6 py-5">
+      <header className={panelStyles({ tone: 'strong' })}>
+        <div className="max-w-3xl">
+          <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+          <h1 className="mt-4 text-3xl font-semibold text-ink-950 sm:text-4xl">{t('title')}</h1>
+          <p className="mt-3 text-sm leading-7 text-ink-600">{t('description')}</p>
+        </div>
+      </header>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {isLoading && <p className="text-sm text-ink-600">{t('loading')}</p>}
+
+      {!isLoading && activeTest && currentItem && (
+        <section className={panelStyles()}>
+          <p className="text-xs font-semibold tracking-wide text-ink-500 uppercase">
+            {t('progress_label', { current: activeTest.answeredCount + 1, max: activeTest.maxItems })}
+          </p>
+          <p className="mt-3 text-lg font-semibold text-ink-950">{currentItem.prompt}</p>
+          <div className="mt-5 grid gap-2 sm:grid-cols-2">
+            {currentItem.options.map((option, optionIndex) => (
+              <Button
+                key={option}
+                disabled={isSubmitting}
+                onClick={() => {
+                  void sendPlacementRequest('/placement/answer', {
+                    testId: activeTest.id,
+                    itemId: currentItem.id,
+                    selectedIndex: optionIndex,
+                  });
+                }}
+                type="button"
+                variant="secondary"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {!isLoading && !activeTest && latestResult && <PlacementResultPanel result={latestResult} />}
+
+      {!isLoading && !activeTest && (
+        <section className={panelStyles({ tone: 'muted' })}>
+          <h2 className="text-base font-semibold text-ink-950">
+            {latestResult ? t('retake_title') : t('start_title')}
+          </h2>
+          <p className="mt-2 text-sm leading-6 text-ink-600">{t('start_description')}</p>
+          <Button
+            className="mt-4"
+            disabled={isSubmitting}
+            onClick={() => {
+              void sendPlacementRequest('/placement');
+            }}
+            type="button"
+            variant="primary"
+          >
+            {latestResult ? t('retake_button') : t('start_button')}
+          </Button>
+        </section>
+      )}
+    </div>
+  );
+}
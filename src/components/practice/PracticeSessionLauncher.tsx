@@ -0,0 +1,250 @@
+'use client';
+
+import type { PracticeSessionListItem } from '@/validations/PracticeSessionValidation';
+import type { ExerciseCard } from '@/validations/ResponseValidation';
+import { useLocale, useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+import * as z from 'zod';
+import { Button } from '@/components/ui/Button';
+import { Checkbox } from '@/components/ui/Checkbox';
+import { Input } from '@/components/ui/Input';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link, useRouter } from '@/libs/I18nNavigation';
+import {
+  CreatePracticeSessionRequestSchema,
+  MAX_PRACTICE_SESSION_EXERCISES,
+  PracticeSessionCreatedResponseSchema,
+  PracticeSessionListResponseSchema,
+} from '@/validations/PracticeSessionValidation';
+import { ExerciseCardSchema } from '@/validations/ResponseValidation';
+
+const ExerciseListResponseSchema = z.object({
+  exercises: z.array(ExerciseCardSchema),
+});
+
+export function PracticeSessionLauncher() {
+  const locale = useLocale();
+  const router = useRouter();
+  const t = useTranslations('DashboardPracticePage');
+  const exerciseT = useTranslations('DashboardExercisesPage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [sessions, setSessions] = useState<PracticeSessionListItem[]>([]);
+  const [exercises, setExercises] = useState<ExerciseCard[]>([]);
+  const [selectedExerciseIds, setSelectedExerciseIds] = useState<string[]>([]);
+  const [count, setCount] = useState(10);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(0);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadLauncher() {
+      try {
+        const [sessionsResponse, exercisesResponse] = await Promise.all([
+          fetch(`${apiBasePath}/practice-sessions`),
+          fetch(`${apiBasePath}/exercises`),
+        ]);
+        if (!sessionsResponse.ok || !exercisesResponse.ok) {
+          throw new Error('practice_failed');
+        }
+
+        const parsedSessions = PracticeSessionListResponseSchema.safeParse(await sessionsResponse.json() as unknown);
+        const parsedExercises = ExerciseListResponseSchema.safeParse(await exercisesResponse.json() as unknown);
+        if (!parsedSessions.success || !parsedExercises.success) {
+          throw new Error('practice_invalid');
+        }
+
+        if (!isCancelled) {
+          setSessions(parsedSessions.data.sessions);
+          // Dialogues run through their own conversation flow and are not part of sessions
+          setExercises(parsedExercises.data.exercises.filter(exercise => exercise.type !== 'dialogue'));
+        }
+      } catch {
+        if (!isCancelled) {
+          setErrorMessage(t('load_error'));
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadLauncher();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [apiBasePath, t]);
+
+  function toggleExerciseSelection(exerciseId: string) {
+    setSelectedExerciseIds((current) => {
+      if (current.includes(exerciseId)) {
+        return current.filter(id => id !== exerciseId);
+      }
+
+      return current.length >= MAX_PRACTICE_SESSION_EXERCISES ? current : [...current, exerciseId];
+    });
+  }
+
+  async function handleStart(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setErrorMessage(null);
+
+    const parsed = CreatePracticeSessionRequestSchema.safeParse({
+      exerciseIds: selectedExerciseIds.length > 0 ? selectedExerciseIds : undefined,
+      count,
+      timeLimitSeconds: timeLimitMinutes > 0 ? timeLimitMinutes * 60 : undefined,
+    });
+    if (!parsed.success) {
+      setErrorMessage(t('form_validation_error'));
+      return;
+    }
+
+    setIsStarting(true);
+
+    try {
+      const response = await fetch(`${apiBasePath}/practice-sessions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(parsed.data),
+      });
+      if (!response.ok) {
+        throw new Error(response.status === 422 ? 'practice_no_exercises' : 'practice_failed');
+      }
+
+      const parsedPayload = PracticeSessionCreatedResponseSchema.safeParse(await response.json() as unknown);
+      if (!parsedPayload.success) {
+        throw new Error('practice_invalid');
+      }
+
+      router.push(`/dashboard/practice/${parsedPayload.data.session.id}/`);
+    } catch (error) {
+      setErrorMessage(error instanceof Error && error.message === 'practice_no_exercises'
+        ? t('no_exercises_error')
+        : t('start_error'));
+      setIsStarting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6 py-5">
+      <header className={panelStyles({ tone: 'strong' })}>
+        <div className="max-w-3xl">
+          <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+          <h1 className="mt-4 text-3xl font-semibold text-ink-950 sm:text-4xl">{t('title')}</h1>
+          <p className="mt-3 text-sm leading-7 text-ink-600">{t('description')}</p>
+        </div>
+      </header>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {isLoading && <p className="text-sm text-ink-600">{t('loading')}</p>}
+
+      {!isLoading && (
+        <form className={panelStyles({ className: 'space-y-5' })} onSubmit={handleStart}>
+          <div className="grid gap-4 md:grid-cols-2">
+            {selectedExerciseIds.length === 0 && (
+              <Input
+                label={t('count_label')}
+                max={MAX_PRACTICE_SESSION_EXERCISES}
+                min={1}
+                onChange={value => setCount(Number(value))}
+                type="number"
+                value={count}
+              />
+            )}
+            <Input
+              hint={t('time_limit_help')}
+              label={t('time_limit_label')}
+              max={60}
+              min={0}
+              onChange={value => setTimeLimitMinutes(Number(value))}
+              type="number"
+              value={timeLimitMinutes}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-ink-900">{t('exercises_label')}</p>
+            <p className="mt-1 text-sm text-ink-600">
+              {t('exercises_help', { max: MAX_PRACTICE_SESSION_EXERCISES })}
+            </p>
+            <div className="mt-3 max-h-96 space-y-2 overflow-y-auto">
+              {exercises.map(exercise => (
+                <Checkbox
+                  key={exercise.id}
+                  className="rounded-lg border border-ink-100 bg-ink-50/75 px-4 py-3"
+                  isSelected={selectedExerciseIds.includes(exercise.id)}
+                  label={(
+                    <span>
+                      {exercise.question}
+                      {' '}
+                      <span className="text-ink-500">
+                        (
+                        {exerciseT(`exercise_type_${exercise.type}`)}
+                        )
+                      </span>
+                    </span>
+                  )}
+                  onChange={() => toggleExerciseSelection(exercise.id)}
+                />
+              ))}
+              {exercises.length === 0 && (
+                <p className="text-sm text-ink-500">{t('exercises_empty')}</p>
+              )}
+            </div>
+          </div>
+
+          <Button
+            disabled={isStarting || exercises.length === 0}
+            type="submit"
+            variant="primary"
+          >
+            {isStarting ? t('start_loading') : t('start_button')}
+          </Button>
+        </form>
+      )}
+
+      {!isLoading && sessions.length > 0 && (
+        <section className={panelStyles()}>
+          <h2 className="text-lg font-semibold text-ink-950">{t('history_title')}</h2>
+          <ul className="mt-4 space-y-2">
+            {sessions.map(session => (
+              <li
+                key={session.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-ink-100 bg-ink-50/75 px-4 py-3"
+              >
+                <div className="text-sm text-ink-700">
+                  <p className="font-medium text-ink-900">{new Date(session.startedAt).toLocaleString()}</p>
+                  <p className="mt-1">
+                    {t('history_item_summary', { answered: session.answeredCount, total: session.itemCount })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={badgeStyles({ tone: session.status === 'active' ? 'warning' : 'success' })}>
+                    {session.status === 'active'
+                      ? t('status_active')
+                      : t('score_label', { score: session.score ?? 0 })}
+                  </span>
+                  <Link
+                    href={`/dashboard/practice/${session.id}/`}
+                    className={buttonStyles()}
+                  >
+                    {session.status === 'active' ? t('resume_link') : t('summary_link')}
+                  </Link>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
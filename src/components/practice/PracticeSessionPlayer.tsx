@@ -0,0 +1,287 @@
+'use client';
+
+import type { PracticeSessionDetail, PracticeSessionSummary } from '@/validations/PracticeSessionValidation';
+import type { ExerciseLatestResponse } from '@/validations/ResponseValidation';
+import { ArrowRight, Clock } from '@untitledui/icons';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ExerciseCards } from '@/components/exercises/ExerciseCards';
+import { Button } from '@/components/ui/Button';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
+import { PracticeSessionDetailResponseSchema } from '@/validations/PracticeSessionValidation';
+
+type PracticeSessionPlayerProps = {
+  sessionId: string;
+};
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function PracticeSessionSummaryPanel(props: { summary: PracticeSessionSummary }) {
+  const t = useTranslations('DashboardPracticePage');
+  const exerciseT = useTranslations('DashboardExercisesPage');
+  const rubric = props.summary.rubric;
+
+  return (
+    <section className={panelStyles({ className: 'space-y-5' })}>
+      <div>
+        <span className={badgeStyles({ tone: 'brand' })}>{t('score_label', { score: props.summary.score })}</span>
+        <h2 className="mt-3 text-lg font-semibold text-ink-950">{t('summary_title')}</h2>
+        <p className="mt-2 text-sm leading-6 text-ink-600">
+          {t('summary_description', {
+            answered: props.summary.answeredCount,
+            total: props.summary.itemCount,
+            elapsed: formatDuration(props.summary.elapsedMs),
+          })}
+        </p>
+      </div>
+
+      {rubric && (
+        <dl className="grid gap-3 text-sm text-ink-700 sm:grid-cols-4">
+          {(['accuracy', 'grammar', 'fluency', 'bonus'] as const).map(key => (
+            <div key={key} className="rounded-2xl bg-ink-50/90 p-3">
+              <dt className="font-medium text-ink-900">{exerciseT(`rubric_${key}`)}</dt>
+              <dd className="mt-1">{rubric[key]}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <ol className="space-y-2">
+        {props.summary.items.map((item, index) => (
+          <li
+            key={item.exerciseId}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-ink-100 bg-ink-50/75 px-4 py-3 text-sm"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-xs text-ink-500">
+                {index + 1}
+                {'. '}
+                {exerciseT(`exercise_type_${item.exerciseType}`)}
+              </p>
+              <p className="mt-1 truncate text-ink-900">{item.question}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {item.responseTimeMs !== null && (
+                <span className={badgeStyles({ tone: 'neutral' })}>{formatDuration(item.responseTimeMs)}</span>
+              )}
+              <span className={badgeStyles({ tone: item.score === null ? 'warning' : 'success' })}>
+                {item.score === null ? t('item_unanswered') : t('score_label', { score: item.score })}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <Link
+        href="/dashboard/practice/"
+        className={buttonStyles({ tone: 'primary' })}
+      >
+        {t('new_session_link')}
+        <ArrowRight className="h-4 w-4" />
+      </Link>
+    </section>
+  );
+}
+
+export function PracticeSessionPlayer(props: PracticeSessionPlayerProps) {
+  const locale = useLocale();
+  const t = useTranslations('DashboardPracticePage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [detail, setDetail] = useState<PracticeSessionDetail | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const hasAutoCompletedRef = useRef(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadSession() {
+      try {
+        const response = await fetch(`${apiBasePath}/practice-sessions/${props.sessionId}`);
+        if (!response.ok) {
+          throw new Error('practice_session_failed');
+        }
+
+        const parsedPayload = PracticeSessionDetailResponseSchema.safeParse(await response.json() as unknown);
+        if (!parsedPayload.success) {
+          throw new Error('practice_session_invalid');
+        }
+
+        if (!isCancelled) {
+          setDetail(parsedPayload.data);
+          // Resume at the first item not answered yet
+          const firstUnansweredIndex = parsedPayload.data.exercises.findIndex(exercise => !exercise.latestResponse);
+          setCurrentIndex(firstUnansweredIndex === -1 ? parsedPayload.data.exercises.length - 1 : firstUnansweredIndex);
+        }
+      } catch {
+        if (!isCancelled) {
+          setErrorMessage(t('session_load_error'));
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadSession();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [apiBasePath, props.sessionId, t]);
+
+  const completeSession = useCallback(async () => {
+    setIsCompleting(true);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`${apiBasePath}/practice-sessions/${props.sessionId}/complete`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error('practice_session_failed');
+      }
+
+      const parsedPayload = PracticeSessionDetailResponseSchema.safeParse(await response.json() as unknown);
+      if (!parsedPayload.success) {
+        throw new Error('practice_session_invalid');
+      }
+
+      setDetail(parsedPayload.data);
+    } catch {
+      setErrorMessage(t('complete_error'));
+    } finally {
+      setIsCompleting(false);
+    }
+  }, [apiBasePath, props.sessionId, t]);
+
+  const isActive = detail?.session.status === 'active';
+  const deadlineMs = detail?.session.deadlineAt ? new Date(detail.session.deadlineAt).getTime() : null;
+  const remainingMs = deadlineMs === null ? null : deadlineMs - now;
+
+  useEffect(() => {
+    if (!isActive || deadlineMs === null) {
+      return undefined;
+    }
+
+    const interval = window.setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [deadlineMs, isActive]);
+
+  useEffect(() => {
+    // Close the session once when time runs out; the server closes it too if this fails
+    if (isActive && remainingMs !== null && remainingMs <= 0 && !hasAutoCompletedRef.current) {
+      hasAutoCompletedRef.current = true;
+      void completeSession();
+    }
+  }, [completeSession, isActive, remainingMs]);
+
+  function handleExerciseUpdated(input: {
+    exerciseId: string;
+    latestResponse: ExerciseLatestResponse;
+    timesAttempted: number;
+    averageScore: number | null;
+  }) {
+    setDetail(current => current && {
+      ...current,
+      exercises: current.exercises.map(exercise => exercise.id === input.exerciseId
+        ? {
+            ...exercise,
+            latestResponse: input.latestResponse,
+            timesAttempted: input.timesAttempted,
+            averageScore: input.averageScore,
+          }
+        : exercise),
+    });
+  }
+
+  if (isLoading) {
+    return <section className={panelStyles({ className: 'text-sm text-ink-600' })}>{t('loading')}</section>;
+  }
+
+  const currentExercise = detail?.exercises[currentIndex] ?? null;
+  const isLastItem = detail ? currentIndex >= detail.exercises.length - 1 : true;
+
+  return (
+    <div className="space-y-6 py-5">
+      <header className={panelStyles({ tone: 'strong' })}>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+            <h1 className="mt-4 text-3xl font-semibold text-ink-950">{t('session_title')}</h1>
+          </div>
+          {isActive && detail && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className={badgeStyles({ tone: 'neutral' })}>
+                {t('progress_label', { current: currentIndex + 1, total: detail.exercises.length })}
+              </span>
+              {remainingMs !== null && (
+                <span className={badgeStyles({ tone: remainingMs < 60_000 ? 'danger' : 'warning' })}>
+                  <Clock className="mr-1 h-4 w-4" />
+                  {t('time_remaining', { time: formatDuration(remainingMs) })}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      </header>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {isActive && currentExercise && (
+        <>
+          <ExerciseCards
+            exercises={[currentExercise]}
+            apiBasePath={apiBasePath}
+            title={t('question_title', { current: currentIndex + 1 })}
+            onExerciseUpdated={handleExerciseUpdated}
+            sessionId={props.sessionId}
+          />
+
+          <div className="flex flex-wrap gap-3">
+            {!isLastItem && (
+              <Button
+                disabled={isCompleting}
+                onClick={() => setCurrentIndex(index => index + 1)}
+                type="button"
+                variant={currentExercise.latestResponse ? 'primary' : 'secondary'}
+              >
+                {currentExercise.latestResponse ? t('next_button') : t('skip_button')}
+              </Button>
+            )}
+            <Button
+              disabled={isCompleting}
+              onClick={() => {
+                void completeSession();
+              }}
+              type="button"
+              variant={isLastItem ? 'primary' : 'secondary'}
+            >
+              {isCompleting ? t('finish_loading') : t('finish_button')}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {detail && !isActive && <PracticeSessionSummaryPanel summary={detail.summary} />}
+    </div>
+  );
+}
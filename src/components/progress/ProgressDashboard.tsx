@@ -1,5 +1,6 @@
 'use client';
 
+import type { TopicMasteryItem } from '@/validations/GrammarTopicValidation';
 import type {
   ProgressHistoryItem,
   ProgressSourceDocument,
@@ -10,10 +11,12 @@ import { useLocale, useTranslations } from 'next-intl';
 import { useEffect, useState } from 'react';
 import { buttonStyles, eyebrowStyles, panelStyles } from '@/components/ui/styles';
 import { Link } from '@/libs/I18nNavigation';
+import { TopicMasteryResponseSchema } from '@/validations/GrammarTopicValidation';
 import { ResponsesHistoryResponseSchema } from '@/validations/ResponseValidation';
 import { ProgressFilters } from './ProgressFilters';
 import { ProgressHistoryList } from './ProgressHistoryList';
 import { ScoreTrendChart } from './ScoreTrendChart';
+import { TopicMasteryGrid } from './TopicMasteryGrid';
 
 type ProgressState = {
   items: ProgressHistoryItem[];
@@ -39,6 +42,7 @@ export function ProgressDashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [topics, setTopics] = useState<TopicMasteryItem[]>([]);
 
   async function loadHistory(input?: {
     cursor?: string;
@@ -103,6 +107,30 @@ export function ProgressDashboard() {
     };
   }, [locale, selectedDocumentId, t]);
 
+  // Mastery spans every document, so it ignores the document filter
+  useEffect(() => {
+    let active = true;
+
+    async function loadTopics() {
+      try {
+        const response = await fetch(`/${locale}/api/progress/topics`);
+        const parsed = TopicMasteryResponseSchema.safeParse(await response.json() as unknown);
+
+        if (active && response.ok && parsed.success) {
+          setTopics(parsed.data.topics);
+        }
+      } catch {
+        // The grid is optional; the history view still works without it
+      }
+    }
+
+    void loadTopics();
+
+    return () => {
+      active = false;
+    };
+  }, [locale]);
+
   async function handleLoadMore() {
     if (!state.nextCursor) {
       return;
@@ -196,6 +224,8 @@ export function ProgressDashboard() {
           <ScoreTrendChart averageScore={state.averageScore} points={state.points} />
         </div>
       )}
+
+      {topics.length > 0 && <TopicMasteryGrid topics={topics} />}
     </div>
   );
 }
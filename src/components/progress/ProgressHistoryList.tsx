@@ -3,6 +3,7 @@
 import type { ProgressHistoryItem } from '@/validations/ResponseValidation';
 import { useTranslations } from 'next-intl';
 import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
 
 type ProgressHistoryListProps = {
   items: ProgressHistoryItem[];
@@ -39,6 +40,14 @@ export function ProgressHistoryList(props: ProgressHistoryListProps) {
                   <span className={badgeStyles({ tone: 'success' })}>
                     {t('score_label', { score: item.score })}
                   </span>
+                  {item.sessionId && (
+                    <Link
+                      href={`/dashboard/practice/${item.sessionId}/`}
+                      className={badgeStyles({ tone: 'neutral' })}
+                    >
+                      {t('history_session_link')}
+                    </Link>
+                  )}
                 </div>
 
                 <p className="mt-3 text-sm leading-6 text-ink-700">{item.overallFeedback}</p>
@@ -0,0 +1,74 @@
+'use client';
+
+import type { CefrLevel, TopicMasteryItem } from '@/validations/GrammarTopicValidation';
+import { useTranslations } from 'next-intl';
+import { badgeStyles, panelStyles } from '@/components/ui/styles';
+import { cn } from '@/utils/cn';
+
+type TopicMasteryGridProps = {
+  topics: TopicMasteryItem[];
+};
+
+const cefrLevels: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
+
+function getMasteryTone(mastery: number | null) {
+  if (mastery === null) {
+    return 'border-ink-100 bg-white/70 text-ink-500';
+  }
+
+  if (mastery >= 80) {
+    return 'border-success-100 bg-success-50 text-success-700';
+  }
+
+  if (mastery >= 50) {
+    return 'border-warning-100 bg-warning-50 text-warning-700';
+  }
+
+  return 'border-error-100 bg-error-50 text-error-700';
+}
+
+export function TopicMasteryGrid(props: TopicMasteryGridProps) {
+  const t = useTranslations('DashboardProgressPage');
+  const practisedCount = props.topics.filter(topic => topic.mastery !== null).length;
+
+  return (
+    <section className={panelStyles()}>
+      <h2 className="text-lg font-semibold text-ink-950">{t('topics_title')}</h2>
+      <p className="mt-2 text-sm leading-6 text-ink-600">
+        {practisedCount === 0
+          ? t('topics_empty')
+          : t('topics_summary', { practised: practisedCount, total: props.topics.length })}
+      </p>
+
+      <div className="mt-5 space-y-5">
+        {cefrLevels.map((level) => {
+          const levelTopics = props.topics.filter(topic => topic.cefrLevel === level);
+          if (levelTopics.length === 0) {
+            return null;
+          }
+
+          return (
+            <div key={level}>
+              <span className={badgeStyles({ tone: 'brand' })}>{level}</span>
+              <ul className="mt-3 grid gap-2 sm:grid-cols-2 xl:grid-cols-3">
+                {levelTopics.map(topic => (
+                  <li
+                    key={topic.topic}
+                    className={cn('rounded-2xl border px-3 py-2', getMasteryTone(topic.mastery))}
+                  >
+                    <p className="text-sm font-semibold">{topic.label}</p>
+                    <p className="mt-1 text-xs">
+                      {topic.mastery === null
+                        ? t('topic_not_practised')
+                        : t('topic_mastery', { mastery: topic.mastery, count: topic.attemptCount })}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import type { ExerciseLatestResponse } from '@/validations/ResponseValidation';
+import type { DueReviewItem } from '@/validations/ReviewValidation';
+import { ArrowRight } from '@untitledui/icons';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+import { ExerciseCards } from '@/components/exercises/ExerciseCards';
+import { Button } from '@/components/ui/Button';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
+import { DueReviewsResponseSchema } from '@/validations/ReviewValidation';
+
+export function ReviewQueue() {
+  const locale = useLocale();
+  const t = useTranslations('DashboardReviewPage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviews, setReviews] = useState<DueReviewItem[]>([]);
+  const [totalDue, setTotalDue] = useState(0);
+  const [reviewedIds, setReviewedIds] = useState<string[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`${apiBasePath}/reviews/due`);
+      if (!response.ok) {
+        throw new Error('review_queue_failed');
+      }
+
+      const parsedPayload = DueReviewsResponseSchema.safeParse(await response.json() as unknown);
+      if (!parsedPayload.success) {
+        throw new Error('review_queue_invalid');
+      }
+
+      setReviews(parsedPayload.data.reviews);
+      setTotalDue(parsedPayload.data.totalDue);
+      setReviewedIds([]);
+    } catch {
+      setErrorMessage(t('load_error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [apiBasePath, t]);
+
+  useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  function handleExerciseUpdated(input: {
+    exerciseId: string;
+    latestResponse: ExerciseLatestResponse;
+    timesAttempted: number;
+    averageScore: number | null;
+  }) {
+    setReviews(current => current.map((item) => {
+      if (item.exercise.id !== input.exerciseId) {
+        return item;
+      }
+
+      return {
+        ...item,
+        exercise: {
+          ...item.exercise,
+          latestResponse: input.latestResponse,
+          timesAttempted: input.timesAttempted,
+          averageScore: input.averageScore,
+        },
+      };
+    }));
+    setReviewedIds(current => current.includes(input.exerciseId)
+      ? current
+      : [...current, input.exerciseId]);
+  }
+
+  if (isLoading) {
+    return <section className={panelStyles({ className: 'text-sm text-ink-600' })}>{t('loading')}</section>;
+  }
+
+  return (
+    <div className="space-y-6 py-5">
+      <header className={panelStyles({ tone: 'strong' })}>
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="max-w-3xl">
+            <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+            <h1 className="mt-4 text-3xl font-semibold text-ink-950 sm:text-4xl">{t('title')}</h1>
+            <p className="mt-3 text-sm leading-7 text-ink-600">{t('description')}</p>
+          </div>
+          <div className="flex flex-col items-start gap-3 lg:items-end">
+            <span className={badgeStyles({ tone: totalDue > 0 ? 'warning' : 'success' })}>
+              {t('due_count', { count: totalDue })}
+            </span>
+            {reviewedIds.length > 0 && (
+              <span className={badgeStyles({ tone: 'neutral' })}>
+                {t('reviewed_count', { count: reviewedIds.length })}
+              </span>
+            )}
+            <Button
+              onClick={() => {
+                void loadQueue();
+              }}
+              type="button"
+              variant="secondary"
+            >
+              {t('refresh_button')}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {!errorMessage && reviews.length === 0 && (
+        <section className={panelStyles({ tone: 'muted' })}>
+          <h2 className="text-base font-semibold text-ink-950">{t('empty_title')}</h2>
+          <p className="mt-2 text-sm leading-6 text-ink-600">{t('empty_description')}</p>
+          <Link
+            href="/dashboard/exercises/"
+            className={`mt-4 ${buttonStyles({ tone: 'primary' })}`}
+          >
+            {t('exercises_cta')}
+            <ArrowRight className="h-4 w-4" />
+          </Link>
+        </section>
+      )}
+
+      {reviews.length > 0 && (
+        <ExerciseCards
+          exercises={reviews.map(item => item.exercise)}
+          apiBasePath={apiBasePath}
+          title={t('queue_title')}
+          onExerciseUpdated={handleExerciseUpdated}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import type { VocabularyItemStatus, VocabularyListItem } from '@/validations/VocabularyValidation';
+import { ArrowRight } from '@untitledui/icons';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { badgeStyles, buttonStyles, panelStyles } from '@/components/ui/styles';
+import { Link } from '@/libs/I18nNavigation';
+import { VocabularyItemSchema, VocabularyListResponseSchema } from '@/validations/VocabularyValidation';
+
+const PAGE_SIZE = 50;
+
+type StatusFilter = '' | VocabularyItemStatus;
+
+function matchesStatusFilter(status: VocabularyItemStatus, filter: StatusFilter) {
+  return filter === '' ? status !== 'suppressed' : status === filter;
+}
+
+export function GlossaryBrowser() {
+  const locale = useLocale();
+  const t = useTranslations('DashboardVocabularyPage');
+  const apiBasePath = `/${locale}/api`;
+  const [isLoading, setIsLoading] = useState(true);
+  const [items, setItems] = useState<VocabularyListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('');
+  const [search, setSearch] = useState('');
+  const [updatingIds, setUpdatingIds] = useState<string[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadItems = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (statusFilter) {
+        params.set('status', statusFilter);
+      }
+      if (search.trim()) {
+        params.set('search', search.trim());
+      }
+
+      const response = await fetch(`${apiBasePath}/vocabulary?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('vocabulary_failed');
+      }
+
+      const parsedPayload = VocabularyListResponseSchema.safeParse(await response.json() as unknown);
+      if (!parsedPayload.success) {
+        throw new Error('vocabulary_invalid');
+      }
+
+      setItems(current => offset === 0
+        ? parsedPayload.data.items
+        : [...current, ...parsedPayload.data.items]);
+      setTotal(parsedPayload.data.total);
+    } catch {
+      setErrorMessage(t('load_error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [apiBasePath, search, statusFilter, t]);
+
+  useEffect(() => {
+    void loadItems(0);
+  }, [loadItems]);
+
+  async function handleStatusChange(itemId: string, status: VocabularyItemStatus) {
+    setUpdatingIds(current => [...current, itemId]);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`${apiBasePath}/vocabulary/${itemId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        throw new Error('vocabulary_update_failed');
+      }
+
+      const parsedItem = VocabularyItemSchema.safeParse((await response.json() as { item?: unknown }).item);
+      if (!parsedItem.success) {
+        throw new Error('vocabulary_update_invalid');
+      }
+
+      // Terms that no longer match the filter drop out of the list
+      if (matchesStatusFilter(parsedItem.data.status, statusFilter)) {
+        setItems(current => current.map(item => item.id === itemId ? parsedItem.data : item));
+      } else {
+        setItems(current => current.filter(item => item.id !== itemId));
+        setTotal(current => Math.max(current - 1, 0));
+      }
+    } catch {
+      setErrorMessage(t('update_error'));
+    } finally {
+      setUpdatingIds(current => current.filter(id => id !== itemId));
+    }
+  }
+
+  return (
+    <div className="space-y-6 py-5">
+      <header className={panelStyles({ tone: 'strong' })}>
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="max-w-3xl">
+            <span className={badgeStyles({ tone: 'brand', uppercase: true })}>{t('eyebrow')}</span>
+            <h1 className="mt-4 text-3xl font-semibold text-ink-950 sm:text-4xl">{t('title')}</h1>
+            <p className="mt-3 text-sm leading-7 text-ink-600">{t('description')}</p>
+          </div>
+          <span className={badgeStyles({ tone: 'neutral' })}>
+            {t('term_count', { count: total })}
+          </span>
+        </div>
+      </header>
+
+      <section className={panelStyles({ className: 'grid gap-4 sm:grid-cols-2' })}>
+        <Select
+          label={t('filter_status_label')}
+          onChange={event => setStatusFilter(event.target.value as StatusFilter)}
+          options={[
+            { label: t('filter_status_active'), value: '' },
+            { label: t('filter_status_starred'), value: 'starred' },
+            { label: t('filter_status_listed'), value: 'listed' },
+            { label: t('filter_status_suppressed'), value: 'suppressed' },
+          ]}
+          value={statusFilter}
+        />
+        <Input
+          label={t('search_label')}
+          onChange={value => setSearch(value)}
+          placeholder={t('search_placeholder')}
+          value={search}
+        />
+      </section>
+
+      {errorMessage && (
+        <p className="rounded-2xl border border-error-100 bg-error-50 px-4 py-3 text-sm text-error-700">{errorMessage}</p>
+      )}
+
+      {!isLoading && !errorMessage && items.length === 0 && (
+        <section className={panelStyles({ tone: 'muted' })}>
+          <h2 className="text-base font-semibold text-ink-950">{t('empty_title')}</h2>
+          <p className="mt-2 text-sm leading-6 text-ink-600">{t('empty_description')}</p>
+          <Link
+            href="/dashboard/content/"
+            className={`mt-4 ${buttonStyles({ tone: 'primary' })}`}
+          >
+            {t('content_cta')}
+            <ArrowRight className="h-4 w-4" />
+          </Link>
+        </section>
+      )}
+
+      {items.length > 0 && (
+        <ul className="space-y-3">
+          {items.map((item) => {
+            const isUpdating = updatingIds.includes(item.id);
+
+            return (
+              <li key={item.id} className={panelStyles()}>
+                <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h2 className="text-lg font-semibold text-ink-950">{item.lemma}</h2>
+                      <span className={badgeStyles({ tone: 'neutral' })}>{t(`part_of_speech_${item.partOfSpeech}`)}</span>
+                      {item.status === 'starred' && (
+                        <span className={badgeStyles({ tone: 'brand' })}>{t('starred_badge')}</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm text-ink-700">{item.gloss}</p>
+                    <p className="mt-2 text-sm text-ink-600 italic">{item.exampleSentence}</p>
+                    <p className="mt-2 text-xs text-ink-500">{t('source_label', { title: item.documentTitle })}</p>
+                  </div>
+                  <div className="flex shrink-0 flex-wrap gap-2">
+                    {item.status !== 'suppressed' && (
+                      <Button
+                        disabled={isUpdating}
+                        onClick={() => {
+                          void handleStatusChange(item.id, item.status === 'starred' ? 'listed' : 'starred');
+                        }}
+                        size="sm"
+                        type="button"
+                        variant={item.status === 'starred' ? 'secondary' : 'primary'}
+                      >
+                        {item.status === 'starred' ? t('unstar_button') : t('star_button')}
+                      </Button>
+                    )}
+                    <Button
+                      disabled={isUpdating}
+                      onClick={() => {
+                        void handleStatusChange(item.id, item.status === 'suppressed' ? 'listed' : 'suppressed');
+                      }}
+                      size="sm"
+                      type="button"
+                      variant="tertiary"
+                    >
+                      {item.status === 'suppressed' ? t('restore_button') : t('suppress_button')}
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isLoading && (
+        <section className={panelStyles({ className: 'text-sm text-ink-600' })}>{t('loading')}</section>
+      )}
+
+      {!isLoading && items.length < total && (
+        <Button
+          onClick={() => {
+            void loadItems(items.length);
+          }}
+          type="button"
+          variant="secondary"
+        >
+          {t('load_more_button')}
+        </Button>
+      )}
+    </div>
+  );
+}
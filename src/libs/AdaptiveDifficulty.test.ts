@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/libs/DB', () => ({
+  db: {},
+}));
+
+vi.mock('@/libs/PlacementTest', () => ({
+  getLatestPlacementLevel: vi.fn(),
+}));
+
+function responses(scores: number[], difficulty: 'beginner' | 'intermediate' | 'advanced' | null) {
+  return scores.map(score => ({ score, difficulty }));
+}
+
+describe('recommendDifficulty', () => {
+  it('falls back to the placement level without enough recent answers', async () => {
+    const { recommendDifficulty } = await import('./AdaptiveDifficulty');
+
+    expect(recommendDifficulty({ recentResponses: responses([95, 90], 'beginner'), placementLevel: 'B2' })).toBe('advanced');
+    expect(recommendDifficulty({ recentResponses: [], placementLevel: 'A2' })).toBe('beginner');
+    expect(recommendDifficulty({ recentResponses: [], placementLevel: null })).toBeUndefined();
+  });
+
+  it('steps up after consistently high scores', async () => {
+    const { recommendDifficulty } = await import('./AdaptiveDifficulty');
+
+    expect(recommendDifficulty({ recentResponses: responses([90, 88, 95], 'beginner'), placementLevel: null })).toBe('intermediate');
+    expect(recommendDifficulty({ recentResponses: responses([90, 88, 95], 'advanced'), placementLevel: null })).toBe('advanced');
+  });
+
+  it('steps down after low scores', async () => {
+    const { recommendDifficulty } = await import('./AdaptiveDifficulty');
+
+    expect(recommendDifficulty({ recentResponses: responses([40, 55, 70], 'advanced'), placementLevel: 'C1' })).toBe('intermediate');
+    expect(recommendDifficulty({ recentResponses: responses([20, 30, 10], 'beginner'), placementLevel: null })).toBe('beginner');
+  });
+
+  it('keeps the current difficulty for middling scores', async () => {
+    const { recommendDifficulty } = await import('./AdaptiveDifficulty');
+
+    expect(recommendDifficulty({ recentResponses: responses([70, 80, 65], 'intermediate'), placementLevel: 'A1' })).toBe('intermediate');
+    expect(recommendDifficulty({ recentResponses: responses([70, 80, 65], null), placementLevel: 'B2' })).toBe('advanced');
+  });
+
+  it('judges a new level only on answers given at that level', async () => {
+    const { recommendDifficulty } = await import('./AdaptiveDifficulty');
+    const steppedUp = [
+      ...responses([40], 'intermediate'),
+      ...responses([95, 95, 95, 95, 95, 95, 95, 95, 95], 'beginner'),
+    ];
+
+    expect(recommendDifficulty({ recentResponses: steppedUp, placementLevel: null })).toBe('intermediate');
+    expect(recommendDifficulty({
+      recentResponses: [...responses([40, 50, 45], 'intermediate'), ...steppedUp.slice(1)],
+      placementLevel: null,
+    })).toBe('beginner');
+  });
+});
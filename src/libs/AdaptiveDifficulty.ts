@@ -0,0 +1,112 @@
+import type { Difficulty, ExerciseType } from '@/validations/ExerciseValidation';
+import type { CefrLevel } from '@/validations/GrammarTopicValidation';
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { getLatestPlacementLevel } from '@/libs/PlacementTest';
+import { exercisesSchema, responsesSchema } from '@/models/Schema';
+
+const RECENT_RESPONSE_WINDOW = 10;
+const MIN_RECENT_RESPONSES = 3;
+const STEP_UP_AVERAGE_SCORE = 85;
+const STEP_DOWN_AVERAGE_SCORE = 60;
+
+const difficultyLadder: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+const placementDifficulties: Record<CefrLevel, Difficulty> = {
+  A1: 'beginner',
+  A2: 'beginner',
+  B1: 'intermediate',
+  B2: 'advanced',
+  C1: 'advanced',
+};
+
+type RecentResponse = {
+  score: number;
+  difficulty: Difficulty | null;
+};
+
+/**
+ * Recommends a difficulty for one exercise type.
+ * With enough recent answers of that type at the current difficulty the
+ * learner moves a step up after consistently high scores and a step down after
+ * low ones; after a change the new level needs its own answers before the next
+ * one. Without recent answers the placement level decides.
+ * @param input - Recent evidence for the exercise type.
+ * @param input.recentResponses - Latest scored responses of that type, newest first.
+ * @param input.placementLevel - Latest placement result, if any.
+ * @returns Recommended difficulty, or undefined when there is nothing to go on.
+ */
+export function recommendDifficulty(input: {
+  recentResponses: RecentResponse[];
+  placementLevel: CefrLevel | null;
+}): Difficulty | undefined {
+  const placementDifficulty = input.placementLevel ? placementDifficulties[input.placementLevel] : undefined;
+
+  if (input.recentResponses.length < MIN_RECENT_RESPONSES) {
+    return placementDifficulty;
+  }
+
+  const fallbackDifficulty = placementDifficulty ?? 'intermediate';
+  const currentDifficulty = input.recentResponses[0]?.difficulty ?? fallbackDifficulty;
+  // Only answers at the current level say whether it is too easy or too hard
+  const currentLevelResponses = input.recentResponses.filter(
+    response => (response.difficulty ?? fallbackDifficulty) === currentDifficulty,
+  );
+
+  if (currentLevelResponses.length < MIN_RECENT_RESPONSES) {
+    return currentDifficulty;
+  }
+
+  const averageScore = currentLevelResponses.reduce((sum, response) => sum + response.score, 0)
+    / currentLevelResponses.length;
+  const currentStep = difficultyLadder.indexOf(currentDifficulty);
+
+  if (averageScore >= STEP_UP_AVERAGE_SCORE) {
+    return difficultyLadder[Math.min(currentStep + 1, difficultyLadder.length - 1)];
+  }
+
+  if (averageScore < STEP_DOWN_AVERAGE_SCORE) {
+    return difficultyLadder[Math.max(currentStep - 1, 0)];
+  }
+
+  return currentDifficulty;
+}
+
+/**
+ * Resolves a difficulty for each requested exercise type from the learner's
+ * recent scores and latest placement result.
+ * @param input - Learner and requested types.
+ * @param input.userId - Learner user ID.
+ * @param input.exerciseTypes - Exercise types in the generation job.
+ * @returns Recommended difficulty per type; types without evidence are omitted.
+ */
+export async function resolveAdaptiveDifficulties(input: {
+  userId: string;
+  exerciseTypes: ExerciseType[];
+}) {
+  const placementLevel = await getLatestPlacementLevel(input.userId);
+  const difficulties: Partial<Record<ExerciseType, Difficulty>> = {};
+
+  for (const exerciseType of input.exerciseTypes) {
+    const recentResponses = await db
+      .select({
+        score: responsesSchema.score,
+        difficulty: exercisesSchema.difficulty,
+      })
+      .from(responsesSchema)
+      .innerJoin(exercisesSchema, eq(responsesSchema.exerciseId, exercisesSchema.id))
+      .where(and(
+        eq(responsesSchema.userId, input.userId),
+        eq(exercisesSchema.type, exerciseType),
+      ))
+      .orderBy(desc(responsesSchema.createdAt))
+      .limit(RECENT_RESPONSE_WINDOW);
+
+    const difficulty = recommendDifficulty({ recentResponses, placementLevel });
+    if (difficulty) {
+      difficulties[exerciseType] = difficulty;
+    }
+  }
+
+  return difficulties;
+}
@@ -9,7 +9,7 @@ vi.mock('@/libs/DB', () => ({
   },
 }));
 
-vi.mock('@/libs/Mistral', () => ({
+vi.mock('@/libs/Llm', () => ({
   createStructuredChatCompletion: mockCreateStructuredChatCompletion,
 }));
 
@@ -23,16 +23,17 @@ vi.mock('@/libs/Logger', () => ({
 }));
 
 function createExerciseRow(input: {
-  type: 'multiple_choice' | 'fill_gap' | 'single_answer';
+  type: 'multiple_choice' | 'fill_gap' | 'single_answer' | 'matching' | 'word_order' | 'error_correction' | 'translation' | 'reading_comprehension' | 'cloze' | 'conjugation' | 'dialogue' | 'writing' | 'vocabulary';
   exerciseData: unknown;
+  question?: string;
 }) {
   return {
     id: '550e8400-e29b-41d4-a716-446655440010',
     type: input.type,
     difficulty: 'intermediate' as const,
-    question: input.type === 'fill_gap'
+    question: input.question ?? (input.type === 'fill_gap'
       ? 'Ieri ___ al mercato.'
-      : 'Quale risposta è corretta?',
+      : 'Quale risposta è corretta?'),
     exerciseData: input.exerciseData,
     grammarFocus: 'passato prossimo',
     timesAttempted: 0,
@@ -111,6 +112,241 @@ describe('AnswerEvaluation', () => {
     expect(result.evaluation.evaluationMethod).toBe('deterministic');
   });
 
+  it('gives per-pair partial credit for matching answers', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'matching',
+          exerciseData: {
+            pairs: [
+              { term: 'il mercato', match: 'the market' },
+              { term: 'la piazza', match: 'the square' },
+              { term: 'il ponte', match: 'the bridge' },
+              { term: 'la chiesa', match: 'the church' },
+            ],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: ['The market', 'the square', 'the church', 'the bridge'],
+    });
+
+    expect(result.evaluation.score).toBe(50);
+    expect(result.evaluation.evaluationMethod).toBe('deterministic');
+    expect(result.evaluation.suggestedReview).toEqual(['il ponte', 'la chiesa']);
+    expect(result.evaluation.corrections).toEqual([
+      'il ponte → the bridge',
+      'la chiesa → the church',
+    ]);
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('rejects matching answers that skip a term', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'matching',
+          exerciseData: {
+            pairs: [
+              { term: 'il mercato', match: 'the market' },
+              { term: 'la piazza', match: 'the square' },
+              { term: 'il ponte', match: 'the bridge' },
+              { term: 'la chiesa', match: 'the church' },
+            ],
+          },
+        })]),
+      })),
+    });
+
+    const { AnswerEvaluationError, evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+
+    await expect(evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'the market',
+    })).rejects.toBeInstanceOf(AnswerEvaluationError);
+  });
+
+  it('scores word-order answers by the longest run kept in sequence', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'word_order',
+          exerciseData: {
+            tokens: ['Non', 'glielo', 'ho', 'ancora', 'detto'],
+            acceptedOrders: [['Ancora', 'non', 'glielo', 'ho', 'detto']],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: ['Non', 'ho', 'glielo', 'ancora', 'detto'],
+    });
+
+    expect(result.evaluation.score).toBe(80);
+    expect(result.evaluation.evaluationMethod).toBe('deterministic');
+    expect(result.evaluation.corrections).toEqual(['Non glielo ho ancora detto']);
+  });
+
+  it('accepts alternative word orders', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'word_order',
+          exerciseData: {
+            tokens: ['Non', 'glielo', 'ho', 'ancora', 'detto'],
+            acceptedOrders: [['Ancora', 'non', 'glielo', 'ho', 'detto']],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: ['ancora', 'Non', 'glielo', 'ho', 'detto'],
+    });
+
+    expect(result.evaluation.score).toBe(100);
+  });
+
+  it('rejects word-order answers that change the tokens', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'word_order',
+          exerciseData: {
+            tokens: ['Non', 'glielo', 'ho', 'ancora', 'detto'],
+          },
+        })]),
+      })),
+    });
+
+    const { AnswerEvaluationError, evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+
+    await expect(evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: ['Non', 'glielo', 'ho', 'ancora', 'fatto'],
+    })).rejects.toBeInstanceOf(AnswerEvaluationError);
+  });
+
+  it('gives per-error credit for error-correction answers', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'error_correction',
+          question: 'Ieri ho andato al mercato con la mia amici.',
+          exerciseData: {
+            correctedSentence: 'Ieri sono andato al mercato con i miei amici.',
+            errors: [
+              { incorrect: 'ho andato', correction: 'sono andato' },
+              { incorrect: 'la mia amici', correction: 'i miei amici' },
+            ],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Ieri sono andato al mercato con la mia amici',
+    });
+
+    expect(result.evaluation.score).toBe(50);
+    expect(result.evaluation.evaluationMethod).toBe('deterministic');
+    expect(result.evaluation.corrections).toEqual(['la mia amici → i miei amici']);
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('does not treat accent-only errors as fixed when they are left unchanged', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'error_correction',
+          question: 'Lui e andato a casa perche era stanco.',
+          exerciseData: {
+            correctedSentence: 'Lui è andato a casa perché era stanco.',
+            errors: [
+              { incorrect: 'e andato', correction: 'è andato' },
+              { incorrect: 'perche', correction: 'perché' },
+            ],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const unchanged = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Lui e andato a casa perche era stanco.',
+    });
+    const halfFixed = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Lui è andato a casa perche era stanco.',
+    });
+
+    expect(unchanged.evaluation).toMatchObject({ score: 0, evaluationMethod: 'deterministic' });
+    expect(halfFixed.evaluation).toMatchObject({ score: 50, evaluationMethod: 'deterministic' });
+    expect(halfFixed.evaluation.corrections).toEqual(['perche → perché']);
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('uses the llm for alternative error-correction rewrites', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'error_correction',
+          question: 'Ieri ho andato al mercato con la mia amici.',
+          exerciseData: {
+            correctedSentence: 'Ieri sono andato al mercato con i miei amici.',
+            errors: [
+              { incorrect: 'ho andato', correction: 'sono andato' },
+              { incorrect: 'la mia amici', correction: 'i miei amici' },
+            ],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 100,
+        rubric: {
+          accuracy: 40,
+          grammar: 30,
+          fluency: 20,
+          bonus: 10,
+        },
+        overallFeedback: 'Both mistakes are fixed correctly.',
+        suggestedReview: [],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Ieri sono andata al mercato con le mie amiche.',
+    });
+
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(result.evaluation.score).toBe(100);
+  });
+
   it('falls back to the llm for near-miss fill-gap answers', async () => {
     mockSelect.mockReturnValue({
       from: vi.fn(() => ({
@@ -186,6 +422,302 @@ describe('AnswerEvaluation', () => {
     expect(result.evaluation.score).toBe(84);
   });
 
+  it('short-circuits translations that match a reference', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'translation',
+          question: 'Domani andiamo al mare.',
+          exerciseData: {
+            direction: 'it_to_en',
+            referenceTranslations: ['Tomorrow we are going to the seaside.', 'We are going to the beach tomorrow.'],
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'we are going to the beach tomorrow',
+    });
+
+    expect(result.evaluation.score).toBe(100);
+    expect(result.evaluation.evaluationMethod).toBe('deterministic');
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('sends translations missing required accents to semantic grading', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'translation',
+          question: 'The city is beautiful.',
+          exerciseData: {
+            direction: 'en_to_it',
+            referenceTranslations: ['La città è bella.'],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 85,
+        rubric: {
+          accuracy: 40,
+          grammar: 22,
+          fluency: 18,
+          bonus: 5,
+        },
+        overallFeedback: 'Right meaning, but "città" and "è" need their accents.',
+        suggestedReview: ['accents'],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'La citta e bella.',
+    });
+
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(result.evaluation.score).toBe(85);
+  });
+
+  it('uses the translation prompt for other translations', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'translation',
+          question: 'Tomorrow we are going to the seaside.',
+          exerciseData: {
+            direction: 'en_to_it',
+            referenceTranslations: ['Domani andiamo al mare.'],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 92,
+        rubric: {
+          accuracy: 40,
+          grammar: 28,
+          fluency: 18,
+          bonus: 6,
+        },
+        overallFeedback: 'Accurate translation with a natural register.',
+        suggestedReview: [],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Domani si va al mare.',
+    });
+    const promptPayload = parsePromptPayload(mockCreateStructuredChatCompletion.mock.calls[0]?.[0].userPrompt);
+
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(result.evaluation.score).toBe(92);
+    expect(promptPayload.exercise).toMatchObject({
+      type: 'translation',
+      direction: 'English to Italian',
+      sourceText: 'Tomorrow we are going to the seaside.',
+    });
+  });
+
+  it('scores each reading-comprehension item and combines the results', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'reading_comprehension',
+          question: 'Leggi il testo e rispondi alle domande.',
+          exerciseData: {
+            passage: 'Ogni sabato Marta va al mercato con sua nonna. Poi prendono un caffè al bar della piazza.',
+            items: [
+              { kind: 'true_false', statement: 'Marta va al mercato da sola.', answer: false },
+              { kind: 'multiple_choice', question: 'Quando va al mercato Marta?', options: ['Ogni sabato', 'Ogni domenica', 'Il lunedì', 'Mai'], correctIndex: 0 },
+              { kind: 'short_answer', question: 'Dove prendono il caffè?', sampleAnswer: 'Al bar della piazza' },
+            ],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 60,
+        rubric: {
+          accuracy: 24,
+          grammar: 18,
+          fluency: 12,
+          bonus: 6,
+        },
+        overallFeedback: 'Partly right: they have coffee in the square, but at the bar.',
+        suggestedReview: [],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: { subAnswers: [false, 1, 'In piazza'] },
+    });
+
+    expect(result.evaluation.itemResults?.map(item => item.score)).toEqual([100, 0, 60]);
+    expect(result.evaluation.itemResults?.map(item => item.evaluationMethod)).toEqual(['deterministic', 'deterministic', 'llm']);
+    expect(result.evaluation.score).toBe(53);
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(result.evaluation.suggestedReview).toEqual(['Quando va al mercato Marta?', 'Dove prendono il caffè?']);
+    expect(mockCreateStructuredChatCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects reading-comprehension answers of the wrong kind', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'reading_comprehension',
+          exerciseData: {
+            passage: 'Ogni sabato Marta va al mercato con sua nonna.',
+            items: [
+              { kind: 'true_false', statement: 'Marta va al mercato da sola.', answer: false },
+              { kind: 'true_false', statement: 'Marta va al mercato il sabato.', answer: true },
+              { kind: 'short_answer', question: 'Con chi va al mercato?', sampleAnswer: 'Con sua nonna' },
+            ],
+          },
+        })]),
+      })),
+    });
+
+    const { AnswerEvaluationError, evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+
+    await expect(evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: { subAnswers: [false, 'vero', 'Con sua nonna'] },
+    })).rejects.toBeInstanceOf(AnswerEvaluationError);
+  });
+
+  it('grades each cloze gap and only asks the llm about near misses', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'cloze',
+          question: 'Completa il testo.',
+          exerciseData: {
+            text: 'Ieri Marta ___1 al mercato e ___2 comprato le fragole. Poi ___3 a casa.',
+            gaps: [
+              { answer: 'è andata', hint: 'andare' },
+              { answer: 'ha', hint: 'avere' },
+              { answer: 'è tornata', acceptedAnswers: ['è rientrata'] },
+            ],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 70,
+        rubric: {
+          accuracy: 28,
+          grammar: 21,
+          fluency: 14,
+          bonus: 7,
+        },
+        overallFeedback: 'Right verb, but the participle must agree with Marta.',
+        suggestedReview: [],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: { gapAnswers: ['È andata', 'è', 'è tornato'] },
+    });
+
+    expect(result.evaluation.itemResults?.map(item => item.score)).toEqual([100, 0, 70]);
+    expect(result.evaluation.itemResults?.map(item => item.evaluationMethod)).toEqual(['deterministic', 'deterministic', 'llm']);
+    expect(result.evaluation.score).toBe(57);
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(mockCreateStructuredChatCompletion).toHaveBeenCalledTimes(1);
+    expect(mockCreateStructuredChatCompletion.mock.calls[0]?.[0].userPrompt).toContain('Ieri Marta è andata al mercato e ha comprato le fragole. Poi ___ a casa.');
+  });
+
+  it('grades conjugations exactly and flags missing accents', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'conjugation',
+          question: 'Coniuga il verbo «parlare» al futuro semplice (io).',
+          exerciseData: {
+            infinitive: 'parlare',
+            tense: 'futuro_semplice',
+            person: 'io',
+            answer: 'parlerò',
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const exact = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'Io parlerò',
+    });
+    const unaccented = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'parlero',
+    });
+
+    expect(exact.evaluation.score).toBe(100);
+    expect(unaccented.evaluation.score).toBe(50);
+    expect(unaccented.evaluation.overallFeedback).toContain('check the accents');
+    expect(unaccented.evaluation.evaluationMethod).toBe('deterministic');
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('grades vocabulary flashcards with or without the article', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'vocabulary',
+          question: 'Come si dice in italiano «oven»?',
+          exerciseData: {
+            vocabularyItemId: '550e8400-e29b-41d4-a716-446655440020',
+            lemma: 'forno',
+            partOfSpeech: 'noun',
+            gloss: 'oven',
+            exampleSentence: 'Il forno era già caldo.',
+          },
+        })]),
+      })),
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const withArticle = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'il forno',
+    });
+    const wrong = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: 'fornaio',
+    });
+
+    expect(withArticle.evaluation.score).toBe(100);
+    expect(wrong.evaluation.score).toBe(0);
+    expect(wrong.evaluation.overallFeedback).toContain('Il forno era già caldo.');
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
+
   it('serializes adversarial answers before llm evaluation', async () => {
     mockSelect.mockReturnValue({
       from: vi.fn(() => ({
@@ -237,4 +769,161 @@ describe('AnswerEvaluation', () => {
       question: 'Quale risposta è corretta?',
     });
   });
+
+  it('scores a finished dialogue with the per-turn results attached', async () => {
+    const dialogueRow = createExerciseRow({
+      type: 'dialogue',
+      question: 'Ordering breakfast at a café in Rome.',
+      exerciseData: {
+        character: 'Barista',
+        learnerRole: 'Customer',
+        openingLine: 'Buongiorno! Cosa le preparo?',
+        goals: ['Order a drink', 'Ask for the price'],
+        turnCount: 3,
+      },
+    });
+    const turnResult = {
+      score: 90,
+      rubric: {
+        accuracy: 38,
+        grammar: 27,
+        fluency: 17,
+        bonus: 8,
+      },
+      feedback: 'Polite and clear.',
+      evaluationMethod: 'llm' as const,
+    };
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 88,
+        rubric: {
+          accuracy: 36,
+          grammar: 27,
+          fluency: 17,
+          bonus: 8,
+        },
+        overallFeedback: 'You ordered naturally throughout.',
+        suggestedReview: [],
+      },
+    });
+
+    const { evaluateDialogueSession } = await import('./AnswerEvaluation');
+    const { parseStoredExercise } = await import('./ExercisePresenter');
+    const exercise = parseStoredExercise(dialogueRow);
+    if (exercise.type !== 'dialogue') {
+      throw new Error('Expected a dialogue exercise');
+    }
+
+    const result = await evaluateDialogueSession({
+      exercise,
+      turns: [
+        { role: 'character', text: 'Buongiorno! Cosa le preparo?' },
+        { role: 'learner', text: 'Un cappuccino, per favore.', result: turnResult },
+        { role: 'character', text: 'Ecco a lei. Altro?' },
+        { role: 'learner', text: 'No, grazie. Quanto costa?', result: turnResult },
+        { role: 'character', text: 'Un euro e cinquanta. Buona giornata!' },
+      ],
+    });
+
+    const [llmCall] = mockCreateStructuredChatCompletion.mock.calls;
+    const payload = parsePromptPayload(llmCall?.[0].userPrompt as string);
+
+    expect(result.score).toBe(88);
+    expect(result.itemResults).toEqual([turnResult, turnResult]);
+    expect(payload.studentAnswer).toEqual(expect.arrayContaining([
+      { speaker: 'Barista', text: 'Buongiorno! Cosa le preparo?' },
+      { speaker: 'Customer', text: 'Un cappuccino, per favore.' },
+    ]));
+  });
+
+  it('re-anchors writing annotations on the text they quote', async () => {
+    const composition = `Ciao Marco! ${'Il weekend scorso sono andato in montagna con la mia famiglia. '.repeat(12)}Le mie sorelle sono andato a sciare. A presto!`;
+    const mistakeStart = composition.indexOf('andato a sciare');
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'writing',
+          question: 'Scrivi una mail a un amico sul tuo weekend.',
+          exerciseData: {
+            minWords: 100,
+            maxWords: 200,
+            register: 'informal',
+            gradingCriteria: ['racconta il weekend'],
+          },
+        })]),
+      })),
+    });
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        score: 80,
+        rubric: {
+          accuracy: 36,
+          grammar: 22,
+          fluency: 16,
+          bonus: 6,
+        },
+        overallFeedback: 'Clear email with one agreement error.',
+        suggestedReview: ['participle agreement'],
+        annotations: [
+          {
+            start: mistakeStart - 4,
+            end: mistakeStart + 2,
+            category: 'agreement',
+            original: 'andato a sciare',
+            suggestion: 'andate a sciare',
+            explanation: 'The participle agrees with le mie sorelle.',
+          },
+          {
+            start: 0,
+            end: 5,
+            category: 'spelling',
+            original: 'Ciau',
+            suggestion: 'Ciao',
+            explanation: 'Not in the text.',
+          },
+        ],
+      },
+    });
+
+    const { evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+    const result = await evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: { composition },
+    });
+
+    expect(result.evaluation.evaluationMethod).toBe('llm');
+    expect(result.evaluation.annotatedText?.annotations).toEqual([
+      expect.objectContaining({
+        start: mistakeStart,
+        end: mistakeStart + 'andato a sciare'.length,
+        category: 'agreement',
+      }),
+    ]);
+  });
+
+  it('rejects compositions outside the word range without calling the model', async () => {
+    mockSelect.mockReturnValue({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [createExerciseRow({
+          type: 'writing',
+          exerciseData: {
+            minWords: 100,
+            maxWords: 200,
+            register: 'formal',
+            gradingCriteria: ['presenta il problema'],
+          },
+        })]),
+      })),
+    });
+
+    const { AnswerEvaluationError, evaluateExerciseAnswer } = await import('./AnswerEvaluation');
+
+    await expect(evaluateExerciseAnswer({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseId: '550e8400-e29b-41d4-a716-446655440010',
+      answer: { composition: 'Gentile direttore, scrivo per un problema.' },
+    })).rejects.toBeInstanceOf(AnswerEvaluationError);
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+  });
 });
@@ -1,17 +1,26 @@
 import type { StoredExercise } from './ExercisePresenter';
-import type { EvaluationResult } from '@/validations/ResponseValidation';
+import type { DialogueTurn } from '@/validations/DialogueValidation';
+import type { EvaluationItemResult, WritingAnnotation } from '@/validations/EvaluationSchemas';
+import type { EvaluationResult, SubmittedAnswer } from '@/validations/ResponseValidation';
 import { and, eq } from 'drizzle-orm';
 import * as z from 'zod';
 import { db } from '@/libs/DB';
+import { createStructuredChatCompletion } from '@/libs/Llm';
 import { logger } from '@/libs/Logger';
-import { createStructuredChatCompletion } from '@/libs/Mistral';
 import { exercisesSchema } from '@/models/Schema';
-import { EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { normalizeAccentedText } from '@/validations/AnswerTextNormalization';
+import { EvaluationRubricSchema, WritingAnnotationSchema } from '@/validations/EvaluationSchemas';
 import { EvaluationResultSchema } from '@/validations/ResponseValidation';
 import {
+  buildComprehensionAnswerUserPrompt,
+  buildDialogueSessionUserPrompt,
+  buildDialogueTurnUserPrompt,
+  buildErrorCorrectionFallbackUserPrompt,
   buildEvaluationSystemPrompt,
   buildFillGapFallbackUserPrompt,
   buildSingleAnswerUserPrompt,
+  buildTranslationUserPrompt,
+  buildWritingUserPrompt,
 } from './AnswerEvaluationPrompts';
 import { parseStoredExercise } from './ExercisePresenter';
 
@@ -23,6 +32,17 @@ const LlmEvaluationSchema = z.object({
   corrections: z.array(z.string().trim().min(1).max(200)).max(10).optional(),
 });
 
+const LlmWritingEvaluationSchema = LlmEvaluationSchema.extend({
+  annotations: z.array(WritingAnnotationSchema).max(30),
+});
+
+const LlmDialogueTurnSchema = z.object({
+  score: z.number().int().min(0).max(100),
+  rubric: EvaluationRubricSchema,
+  feedback: z.string().trim().min(1).max(500),
+  reply: z.string().trim().min(1).max(500),
+});
+
 export class ExerciseNotFoundError extends Error {
   constructor() {
     super('Exercise not found');
@@ -55,20 +75,26 @@ function buildDeterministicRubric(score: number) {
   };
 }
 
+function buildPartialCreditRubric(correctCount: number, totalCount: number) {
+  if (correctCount >= totalCount) {
+    return buildDeterministicRubric(100);
+  }
+
+  const ratio = correctCount / totalCount;
+  return {
+    accuracy: Math.round(40 * ratio),
+    grammar: Math.round(30 * ratio),
+    fluency: Math.round(20 * ratio),
+    bonus: 0,
+  };
+}
+
 function foldDiacritics(value: string) {
   return value.normalize('NFD').replace(/\p{M}+/gu, '');
 }
 
 function normalizeComparableText(value: string) {
-  return foldDiacritics(
-    value
-      .normalize('NFC')
-      .replace(/[’`´]/g, '\'')
-      .replace(/[.,!?;:()[\]{}"]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .toLocaleLowerCase('it-IT'),
-  );
+  return foldDiacritics(normalizeAccentedText(value));
 }
 
 function levenshteinDistance(left: string, right: string) {
@@ -108,6 +134,25 @@ function levenshteinDistance(left: string, right: string) {
   return previous[right.length]!;
 }
 
+function longestCommonSubsequenceLength(left: string[], right: string[]) {
+  const previous: number[] = Array.from({ length: right.length + 1 }, () => 0);
+  const current: number[] = Array.from({ length: right.length + 1 }, () => 0);
+
+  for (let row = 1; row <= left.length; row += 1) {
+    for (let column = 1; column <= right.length; column += 1) {
+      current[column] = left[row - 1] === right[column - 1]
+        ? previous[column - 1]! + 1
+        : Math.max(current[column - 1]!, previous[column]!);
+    }
+
+    for (let column = 0; column <= right.length; column += 1) {
+      previous[column] = current[column]!;
+    }
+  }
+
+  return previous[right.length]!;
+}
+
 function isFillGapNearMatch(input: {
   acceptedAnswers: string[];
   userAnswer: string;
@@ -133,11 +178,11 @@ function isFillGapNearMatch(input: {
 }
 
 function buildCorrectFeedback(exercise: StoredExercise) {
-  if (exercise.type === 'multiple_choice') {
+  if (exercise.type === 'multiple_choice' || exercise.type === 'matching' || exercise.type === 'word_order') {
     return exercise.exerciseData.explanation ?? 'Correct answer.';
   }
 
-  if (exercise.type === 'fill_gap') {
+  if (exercise.type === 'fill_gap' || exercise.type === 'error_correction' || exercise.type === 'translation' || exercise.type === 'conjugation' || exercise.type === 'vocabulary') {
     return 'Correct answer.';
   }
 
@@ -157,6 +202,403 @@ function buildIncorrectFeedback(exercise: StoredExercise) {
   return 'The answer does not meet the expected criteria.';
 }
 
+type ComprehensionItem = Extract<StoredExercise, { type: 'reading_comprehension' }>['exerciseData']['items'][number];
+
+function buildDeterministicItemResult(input: {
+  isCorrect: boolean;
+  feedback: string;
+}): EvaluationItemResult {
+  const score = input.isCorrect ? 100 : 0;
+
+  return {
+    score,
+    rubric: buildDeterministicRubric(score),
+    feedback: input.feedback.slice(0, 500),
+    evaluationMethod: 'deterministic',
+  };
+}
+
+async function evaluateComprehensionItem(input: {
+  passage: string;
+  item: ComprehensionItem;
+  answer: boolean | number | string;
+}): Promise<EvaluationItemResult> {
+  const { item, answer } = input;
+
+  switch (item.kind) {
+    case 'true_false': {
+      if (typeof answer !== 'boolean') {
+        throw new AnswerEvaluationError('True/false items must be answered with a boolean');
+      }
+
+      const isCorrect = answer === item.answer;
+      return buildDeterministicItemResult({
+        isCorrect,
+        feedback: isCorrect
+          ? item.explanation ?? 'Correct answer.'
+          : `Incorrect. The statement is ${item.answer ? 'true' : 'false'}.${item.explanation ? ` ${item.explanation}` : ''}`,
+      });
+    }
+    case 'multiple_choice': {
+      if (typeof answer !== 'number') {
+        throw new AnswerEvaluationError('Multiple choice items must use an option index');
+      }
+
+      const isCorrect = answer === item.correctIndex;
+      return buildDeterministicItemResult({
+        isCorrect,
+        feedback: isCorrect
+          ? item.explanation ?? 'Correct answer.'
+          : `Incorrect. The correct answer is "${item.options[item.correctIndex]}".`,
+      });
+    }
+    case 'short_answer': {
+      if (typeof answer !== 'string') {
+        throw new AnswerEvaluationError('Short-answer items must be answered with text');
+      }
+
+      const referenceAnswers = [item.sampleAnswer, ...(item.acceptedAnswers ?? [])];
+      const normalizedAnswer = normalizeComparableText(answer);
+      if (referenceAnswers.some(reference => normalizeComparableText(reference) === normalizedAnswer)) {
+        return buildDeterministicItemResult({
+          isCorrect: true,
+          feedback: 'Correct answer.',
+        });
+      }
+
+      const result = await createStructuredChatCompletion({
+        task: 'evaluation',
+        systemPrompt: buildEvaluationSystemPrompt(),
+        userPrompt: buildComprehensionAnswerUserPrompt({
+          passage: input.passage,
+          question: item.question,
+          referenceAnswers,
+          userAnswer: answer,
+        }),
+        responseFormat: LlmEvaluationSchema,
+        temperature: 0,
+        maxTokens: 400,
+      });
+
+      return {
+        score: result.parsed.score,
+        rubric: result.parsed.rubric,
+        feedback: result.parsed.overallFeedback.slice(0, 500),
+        evaluationMethod: 'llm',
+      };
+    }
+  }
+}
+
+function evaluateConjugation(input: {
+  exercise: Extract<StoredExercise, { type: 'conjugation' }>;
+  answer: string;
+}) {
+  const { answer, acceptedAnswers, infinitive, tense } = input.exercise.exerciseData;
+  const acceptedForms = [answer, ...(acceptedAnswers ?? [])].map(normalizeAccentedText);
+  // Learners often type the subject pronoun, or "che" before a subjunctive
+  const userForm = normalizeAccentedText(input.answer).replace(/^(?:che )?(?:io|tu|lui|lei|noi|voi|loro) /, '');
+
+  if (acceptedForms.includes(userForm)) {
+    return EvaluationResultSchema.parse({
+      score: 100,
+      rubric: buildDeterministicRubric(100),
+      overallFeedback: buildCorrectFeedback(input.exercise),
+      suggestedReview: [],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  const review = input.exercise.grammarFocus ?? `${infinitive} (${tense.replace('_', ' ')})`;
+
+  if (acceptedForms.some(form => foldDiacritics(form) === foldDiacritics(userForm))) {
+    return EvaluationResultSchema.parse({
+      score: 50,
+      rubric: buildPartialCreditRubric(1, 2),
+      overallFeedback: `Right form, but check the accents: the correct spelling is "${answer}".`,
+      suggestedReview: [review],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  return EvaluationResultSchema.parse({
+    score: 0,
+    rubric: buildDeterministicRubric(0),
+    overallFeedback: `Incorrect. The correct form is "${answer}".`,
+    suggestedReview: [review],
+    evaluationMethod: 'deterministic',
+  });
+}
+
+function evaluateVocabulary(input: {
+  exercise: Extract<StoredExercise, { type: 'vocabulary' }>;
+  answer: string;
+}) {
+  const { lemma, exampleSentence } = input.exercise.exerciseData;
+  const expected = normalizeAccentedText(lemma);
+  const typedForm = normalizeAccentedText(input.answer);
+  // Nouns are often typed with their article
+  const userForm = typedForm === expected
+    ? typedForm
+    : typedForm.replace(/^(?:(?:il|lo|la|i|gli|le|un|uno|una) |l'|un')/, '');
+
+  if (userForm === expected) {
+    return EvaluationResultSchema.parse({
+      score: 100,
+      rubric: buildDeterministicRubric(100),
+      overallFeedback: buildCorrectFeedback(input.exercise),
+      suggestedReview: [],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  if (foldDiacritics(userForm) === foldDiacritics(expected)) {
+    return EvaluationResultSchema.parse({
+      score: 50,
+      rubric: buildPartialCreditRubric(1, 2),
+      overallFeedback: `Right word, but check the accents: the correct spelling is "${lemma}".`,
+      suggestedReview: [lemma],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  return EvaluationResultSchema.parse({
+    score: 0,
+    rubric: buildDeterministicRubric(0),
+    overallFeedback: `Incorrect. The word is "${lemma}", as in: ${exampleSentence}`,
+    suggestedReview: [lemma],
+    evaluationMethod: 'deterministic',
+  });
+}
+
+function combineItemResults(input: {
+  itemResults: EvaluationItemResult[];
+  overallFeedback: string;
+  suggestedReview: string[];
+}) {
+  const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+  return EvaluationResultSchema.parse({
+    score: average(input.itemResults.map(result => result.score)),
+    rubric: {
+      accuracy: average(input.itemResults.map(result => result.rubric.accuracy)),
+      grammar: average(input.itemResults.map(result => result.rubric.grammar)),
+      fluency: average(input.itemResults.map(result => result.rubric.fluency)),
+      bonus: average(input.itemResults.map(result => result.rubric.bonus)),
+    },
+    overallFeedback: input.overallFeedback,
+    suggestedReview: input.suggestedReview.map(item => item.slice(0, 120)),
+    itemResults: input.itemResults,
+    evaluationMethod: input.itemResults.some(result => result.evaluationMethod === 'llm') ? 'llm' : 'deterministic',
+  });
+}
+
+async function evaluateReadingComprehension(input: {
+  exercise: Extract<StoredExercise, { type: 'reading_comprehension' }>;
+  answer: SubmittedAnswer;
+}) {
+  const { items, passage } = input.exercise.exerciseData;
+  if (
+    typeof input.answer !== 'object'
+    || !('subAnswers' in input.answer)
+    || input.answer.subAnswers.length !== items.length
+  ) {
+    throw new AnswerEvaluationError('Reading-comprehension answers must answer every item');
+  }
+
+  const subAnswers = input.answer.subAnswers;
+  const itemResults: EvaluationItemResult[] = [];
+  for (const [index, item] of items.entries()) {
+    itemResults.push(await evaluateComprehensionItem({
+      passage,
+      item,
+      answer: subAnswers[index]!,
+    }));
+  }
+
+  const correctCount = itemResults.filter(result => result.score === 100).length;
+
+  return combineItemResults({
+    itemResults,
+    overallFeedback: `You answered ${correctCount} of ${items.length} questions fully correctly.`,
+    suggestedReview: items
+      .filter((_, index) => itemResults[index]!.score < 100)
+      .map(item => item.kind === 'true_false' ? item.statement : item.question),
+  });
+}
+
+function buildClozeGapContext(text: string, gaps: Array<{ answer: string }>, gapIndex: number) {
+  return text.replace(/___(\d+)/g, (_, gapNumber: string) => {
+    const index = Number(gapNumber) - 1;
+    return index === gapIndex ? '___' : gaps[index]?.answer ?? '___';
+  });
+}
+
+async function evaluateClozeGap(input: {
+  exercise: Extract<StoredExercise, { type: 'cloze' }>;
+  gapIndex: number;
+  answer: string;
+}): Promise<EvaluationItemResult> {
+  const { gaps, text } = input.exercise.exerciseData;
+  const gap = gaps[input.gapIndex]!;
+  const acceptedAnswers = [gap.answer, ...(gap.acceptedAnswers ?? [])];
+  const normalizedAnswer = normalizeComparableText(input.answer);
+
+  if (acceptedAnswers.some(answer => normalizeComparableText(answer) === normalizedAnswer)) {
+    return buildDeterministicItemResult({
+      isCorrect: true,
+      feedback: 'Correct answer.',
+    });
+  }
+
+  if (!isFillGapNearMatch({ acceptedAnswers, userAnswer: input.answer })) {
+    return buildDeterministicItemResult({
+      isCorrect: false,
+      feedback: `Incorrect. A valid answer is "${gap.answer}".`,
+    });
+  }
+
+  const result = await createStructuredChatCompletion({
+    task: 'evaluation',
+    systemPrompt: buildEvaluationSystemPrompt(),
+    userPrompt: buildFillGapFallbackUserPrompt({
+      question: buildClozeGapContext(text, gaps, input.gapIndex),
+      acceptedAnswers,
+      userAnswer: input.answer,
+      grammarFocus: input.exercise.grammarFocus,
+    }),
+    responseFormat: LlmEvaluationSchema,
+    temperature: 0,
+    maxTokens: 400,
+  });
+
+  return {
+    score: result.parsed.score,
+    rubric: result.parsed.rubric,
+    feedback: result.parsed.overallFeedback.slice(0, 500),
+    evaluationMethod: 'llm',
+  };
+}
+
+async function evaluateCloze(input: {
+  exercise: Extract<StoredExercise, { type: 'cloze' }>;
+  answer: SubmittedAnswer;
+}) {
+  const { gaps } = input.exercise.exerciseData;
+  if (
+    typeof input.answer !== 'object'
+    || !('gapAnswers' in input.answer)
+    || input.answer.gapAnswers.length !== gaps.length
+  ) {
+    throw new AnswerEvaluationError('Cloze answers must fill every gap');
+  }
+
+  const gapAnswers = input.answer.gapAnswers;
+  const itemResults: EvaluationItemResult[] = [];
+  for (const [gapIndex, answer] of gapAnswers.entries()) {
+    itemResults.push(await evaluateClozeGap({
+      exercise: input.exercise,
+      gapIndex,
+      answer,
+    }));
+  }
+
+  const correctCount = itemResults.filter(result => result.score === 100).length;
+
+  return combineItemResults({
+    itemResults,
+    overallFeedback: `You filled ${correctCount} of ${gaps.length} gaps correctly.`,
+    suggestedReview: itemResults.some(result => result.score < 100)
+      ? [input.exercise.grammarFocus ?? 'verb forms']
+      : [],
+  });
+}
+
+function countWords(value: string) {
+  return value.split(/\s+/).filter(word => word !== '').length;
+}
+
+function findNearestOccurrence(text: string, search: string, near: number) {
+  let nearest = -1;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    if (nearest === -1 || Math.abs(index - near) < Math.abs(nearest - near)) {
+      nearest = index;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Re-anchors model annotations on the text they quote. Models often miscount
+ * character offsets, so the quoted original wins over the reported start: the
+ * closest occurrence is used, and annotations that quote text not in the
+ * composition or that overlap an earlier annotation are dropped.
+ * @param text - Submitted composition.
+ * @param annotations - Annotations returned by the model.
+ * @returns Sorted, non-overlapping annotations whose offsets match the text.
+ */
+function anchorWritingAnnotations(text: string, annotations: WritingAnnotation[]) {
+  const located = annotations
+    .map(annotation => ({
+      ...annotation,
+      start: findNearestOccurrence(text, annotation.original, annotation.start),
+    }))
+    .filter(annotation => annotation.start !== -1)
+    .map(annotation => ({ ...annotation, end: annotation.start + annotation.original.length }))
+    .sort((left, right) => left.start - right.start);
+
+  const anchored: WritingAnnotation[] = [];
+  for (const annotation of located) {
+    if (annotation.start >= (anchored.at(-1)?.end ?? 0)) {
+      anchored.push(annotation);
+    }
+  }
+
+  return anchored;
+}
+
+async function evaluateWriting(input: {
+  exercise: Extract<StoredExercise, { type: 'writing' }>;
+  answer: SubmittedAnswer;
+}) {
+  if (typeof input.answer !== 'object' || !('composition' in input.answer)) {
+    throw new AnswerEvaluationError('Writing answers must be submitted as a composition');
+  }
+
+  const { composition } = input.answer;
+  const { minWords, maxWords } = input.exercise.exerciseData;
+  const wordCount = countWords(composition);
+  if (wordCount < minWords || wordCount > maxWords) {
+    throw new AnswerEvaluationError(`Compositions must be ${minWords} to ${maxWords} words long (this one has ${wordCount})`);
+  }
+
+  const result = await createStructuredChatCompletion({
+    task: 'evaluation',
+    systemPrompt: buildEvaluationSystemPrompt(),
+    userPrompt: buildWritingUserPrompt({
+      question: input.exercise.question,
+      register: input.exercise.exerciseData.register,
+      gradingCriteria: input.exercise.exerciseData.gradingCriteria,
+      userAnswer: composition,
+      grammarFocus: input.exercise.grammarFocus,
+    }),
+    responseFormat: LlmWritingEvaluationSchema,
+    temperature: 0,
+    maxTokens: 2000,
+  });
+  const { annotations, ...evaluation } = result.parsed;
+
+  return EvaluationResultSchema.parse({
+    ...evaluation,
+    annotatedText: {
+      text: composition,
+      annotations: anchorWritingAnnotations(composition, annotations),
+    },
+    evaluationMethod: 'llm',
+  });
+}
+
 async function evaluateWithLlm(input: {
   exercise: StoredExercise;
   userAnswer: string;
@@ -165,6 +607,7 @@ async function evaluateWithLlm(input: {
 
   if (input.exercise.type === 'fill_gap') {
     const result = await createStructuredChatCompletion({
+      task: 'evaluation',
       systemPrompt,
       userPrompt: buildFillGapFallbackUserPrompt({
         question: input.exercise.question,
@@ -186,19 +629,53 @@ async function evaluateWithLlm(input: {
     });
   }
 
-  if (input.exercise.type !== 'single_answer') {
+  if (input.exercise.type === 'error_correction') {
+    const result = await createStructuredChatCompletion({
+      task: 'evaluation',
+      systemPrompt,
+      userPrompt: buildErrorCorrectionFallbackUserPrompt({
+        question: input.exercise.question,
+        correctedSentence: input.exercise.exerciseData.correctedSentence,
+        errors: input.exercise.exerciseData.errors.map(error => ({
+          incorrect: error.incorrect,
+          correction: error.correction,
+        })),
+        userAnswer: input.userAnswer,
+        grammarFocus: input.exercise.grammarFocus,
+      }),
+      responseFormat: LlmEvaluationSchema,
+      temperature: 0,
+      maxTokens: 600,
+    });
+
+    return EvaluationResultSchema.parse({
+      ...result.parsed,
+      evaluationMethod: 'llm',
+    });
+  }
+
+  if (input.exercise.type !== 'single_answer' && input.exercise.type !== 'translation') {
     throw new AnswerEvaluationError('Unsupported LLM evaluation request');
   }
 
   const result = await createStructuredChatCompletion({
+    task: 'evaluation',
     systemPrompt,
-    userPrompt: buildSingleAnswerUserPrompt({
-      question: input.exercise.question,
-      sampleAnswer: input.exercise.exerciseData.sampleAnswer,
-      gradingCriteria: input.exercise.exerciseData.gradingCriteria,
-      userAnswer: input.userAnswer,
-      grammarFocus: input.exercise.grammarFocus,
-    }),
+    userPrompt: input.exercise.type === 'translation'
+      ? buildTranslationUserPrompt({
+          sourceText: input.exercise.question,
+          direction: input.exercise.exerciseData.direction,
+          referenceTranslations: input.exercise.exerciseData.referenceTranslations,
+          userAnswer: input.userAnswer,
+          grammarFocus: input.exercise.grammarFocus,
+        })
+      : buildSingleAnswerUserPrompt({
+          question: input.exercise.question,
+          sampleAnswer: input.exercise.exerciseData.sampleAnswer,
+          gradingCriteria: input.exercise.exerciseData.gradingCriteria,
+          userAnswer: input.userAnswer,
+          grammarFocus: input.exercise.grammarFocus,
+        }),
     responseFormat: LlmEvaluationSchema,
     temperature: 0,
     maxTokens: 700,
@@ -210,10 +687,192 @@ async function evaluateWithLlm(input: {
   });
 }
 
+function evaluateMatching(input: {
+  exercise: Extract<StoredExercise, { type: 'matching' }>;
+  answer: SubmittedAnswer;
+}) {
+  const pairs = input.exercise.exerciseData.pairs;
+  if (!Array.isArray(input.answer) || input.answer.length !== pairs.length) {
+    throw new AnswerEvaluationError('Matching answers must choose one match per term');
+  }
+
+  const answer = input.answer;
+  const missedPairs = pairs.filter((pair, index) => {
+    return normalizeComparableText(answer[index] ?? '') !== normalizeComparableText(pair.match);
+  });
+  const correctCount = pairs.length - missedPairs.length;
+
+  if (missedPairs.length === 0) {
+    return EvaluationResultSchema.parse({
+      score: 100,
+      rubric: buildDeterministicRubric(100),
+      overallFeedback: buildCorrectFeedback(input.exercise),
+      suggestedReview: [],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  const corrections = missedPairs.map(pair => `${pair.term} → ${pair.match}`);
+
+  return EvaluationResultSchema.parse({
+    score: Math.round((correctCount / pairs.length) * 100),
+    rubric: buildPartialCreditRubric(correctCount, pairs.length),
+    overallFeedback: `You matched ${correctCount} of ${pairs.length} pairs correctly. Correct pairs: ${corrections.join('; ')}.`.slice(0, 1000),
+    suggestedReview: missedPairs.map(pair => pair.term.slice(0, 120)),
+    corrections: corrections.map(correction => correction.slice(0, 200)),
+    evaluationMethod: 'deterministic',
+  });
+}
+
+function evaluateWordOrder(input: {
+  exercise: Extract<StoredExercise, { type: 'word_order' }>;
+  answer: SubmittedAnswer;
+}) {
+  const tokens = input.exercise.exerciseData.tokens;
+  if (!Array.isArray(input.answer) || input.answer.length !== tokens.length) {
+    throw new AnswerEvaluationError('Word-order answers must use every token exactly once');
+  }
+
+  const answer = input.answer.map(token => normalizeComparableText(token));
+  const sortedAnswer = [...answer].sort();
+  const sortedTokens = tokens.map(token => normalizeComparableText(token)).sort();
+  if (sortedAnswer.some((token, index) => token !== sortedTokens[index])) {
+    throw new AnswerEvaluationError('Word-order answers must use every token exactly once');
+  }
+
+  const targetOrders = [tokens, ...(input.exercise.exerciseData.acceptedOrders ?? [])];
+  const longestInOrder = Math.max(...targetOrders.map((order) => {
+    return longestCommonSubsequenceLength(answer, order.map(token => normalizeComparableText(token)));
+  }));
+
+  if (longestInOrder === tokens.length) {
+    return EvaluationResultSchema.parse({
+      score: 100,
+      rubric: buildDeterministicRubric(100),
+      overallFeedback: buildCorrectFeedback(input.exercise),
+      suggestedReview: [],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  const correctSentence = tokens.join(' ');
+
+  return EvaluationResultSchema.parse({
+    score: Math.round((longestInOrder / tokens.length) * 100),
+    rubric: buildPartialCreditRubric(longestInOrder, tokens.length),
+    overallFeedback: `${longestInOrder} of ${tokens.length} words are in the right sequence. Correct order: "${correctSentence}".`.slice(0, 1000),
+    suggestedReview: [input.exercise.grammarFocus ?? 'word order'],
+    corrections: [correctSentence.slice(0, 200)],
+    evaluationMethod: 'deterministic',
+  });
+}
+
+// Accents stay significant: an error may be nothing but a missing accent
+function tokenizeSentence(value: string) {
+  return normalizeAccentedText(value).split(' ').filter(Boolean);
+}
+
+function containsTokenSequence(tokens: string[], sequence: string[]) {
+  if (sequence.length === 0 || sequence.length > tokens.length) {
+    return false;
+  }
+
+  for (let start = 0; start + sequence.length <= tokens.length; start += 1) {
+    if (sequence.every((token, index) => tokens[start + index] === token)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Returns null when the answer rewrites an error or the rest of the sentence
+// differently from the target, so the LLM can judge the alternative.
+function evaluateErrorCorrection(input: {
+  exercise: Extract<StoredExercise, { type: 'error_correction' }>;
+  answer: string;
+}) {
+  const { correctedSentence, acceptedAnswers = [], errors } = input.exercise.exerciseData;
+  const answerTokens = tokenizeSentence(input.answer);
+  const normalizedAnswer = answerTokens.join(' ');
+
+  if ([correctedSentence, ...acceptedAnswers].some(target => tokenizeSentence(target).join(' ') === normalizedAnswer)) {
+    return EvaluationResultSchema.parse({
+      score: 100,
+      rubric: buildDeterministicRubric(100),
+      overallFeedback: buildCorrectFeedback(input.exercise),
+      suggestedReview: [],
+      evaluationMethod: 'deterministic',
+    });
+  }
+
+  const fixedErrors = errors.filter((error) => {
+    const incorrectTokens = tokenizeSentence(error.incorrect);
+    const correctionTokens = tokenizeSentence(error.correction);
+
+    return containsTokenSequence(answerTokens, correctionTokens)
+      && (
+        containsTokenSequence(correctionTokens, incorrectTokens)
+        || !containsTokenSequence(answerTokens, incorrectTokens)
+      );
+  });
+  const unfixedErrors = errors.filter(error => !fixedErrors.includes(error));
+
+  // An error rewritten some other way may still be a valid fix.
+  if (unfixedErrors.some(error => !containsTokenSequence(answerTokens, tokenizeSentence(error.incorrect)))) {
+    return null;
+  }
+
+  const targetTokens = tokenizeSentence(correctedSentence);
+  const changedTokenCount = answerTokens.length + targetTokens.length
+    - 2 * longestCommonSubsequenceLength(answerTokens, targetTokens);
+  const explainedTokenCount = unfixedErrors.reduce((sum, error) => {
+    return sum + tokenizeSentence(error.incorrect).length + tokenizeSentence(error.correction).length;
+  }, 0);
+
+  if (changedTokenCount > explainedTokenCount) {
+    return null;
+  }
+
+  const fixedCount = fixedErrors.length;
+  const corrections = unfixedErrors.map(error => `${error.incorrect} → ${error.correction}`);
+
+  return EvaluationResultSchema.parse({
+    score: Math.round((fixedCount / errors.length) * 100),
+    rubric: buildPartialCreditRubric(fixedCount, errors.length),
+    overallFeedback: `You fixed ${fixedCount} of ${errors.length} mistakes. Corrected sentence: "${correctedSentence}".`.slice(0, 1000),
+    suggestedReview: [input.exercise.grammarFocus ?? 'grammar accuracy'],
+    corrections: corrections.map(correction => correction.slice(0, 200)),
+    evaluationMethod: 'deterministic',
+  });
+}
+
 function evaluateDeterministic(input: {
   exercise: StoredExercise;
-  answer: string | number;
+  answer: SubmittedAnswer;
 }): EvaluationResult | null {
+  if (input.exercise.type === 'matching') {
+    return evaluateMatching({
+      exercise: input.exercise,
+      answer: input.answer,
+    });
+  }
+
+  if (input.exercise.type === 'word_order') {
+    return evaluateWordOrder({
+      exercise: input.exercise,
+      answer: input.answer,
+    });
+  }
+
+  if (input.exercise.type === 'dialogue') {
+    throw new AnswerEvaluationError('Dialogue exercises are answered one turn at a time');
+  }
+
+  if (Array.isArray(input.answer)) {
+    throw new AnswerEvaluationError('Only matching and word-order exercises accept a list of answers');
+  }
+
   if (input.exercise.type === 'multiple_choice') {
     if (typeof input.answer !== 'number') {
       throw new AnswerEvaluationError('Multiple choice answers must use an option index');
@@ -239,6 +898,44 @@ function evaluateDeterministic(input: {
     throw new AnswerEvaluationError('Text answers must be submitted as strings');
   }
 
+  if (input.exercise.type === 'conjugation') {
+    return evaluateConjugation({
+      exercise: input.exercise,
+      answer: input.answer,
+    });
+  }
+
+  if (input.exercise.type === 'vocabulary') {
+    return evaluateVocabulary({
+      exercise: input.exercise,
+      answer: input.answer,
+    });
+  }
+
+  if (input.exercise.type === 'translation') {
+    // Missing accents are mistakes in Italian, so only exact accented matches skip semantic grading
+    const normalizedAnswer = normalizeAccentedText(input.answer);
+    const isReferenceMatch = input.exercise.exerciseData.referenceTranslations
+      .some(translation => normalizeAccentedText(translation) === normalizedAnswer);
+
+    return isReferenceMatch
+      ? EvaluationResultSchema.parse({
+          score: 100,
+          rubric: buildDeterministicRubric(100),
+          overallFeedback: buildCorrectFeedback(input.exercise),
+          suggestedReview: [],
+          evaluationMethod: 'deterministic',
+        })
+      : null;
+  }
+
+  if (input.exercise.type === 'error_correction') {
+    return evaluateErrorCorrection({
+      exercise: input.exercise,
+      answer: input.answer,
+    });
+  }
+
   if (input.exercise.type === 'fill_gap') {
     const acceptedAnswers = [
       input.exercise.exerciseData.answer,
@@ -276,7 +973,7 @@ function evaluateDeterministic(input: {
   return null;
 }
 
-async function loadExerciseForEvaluation(input: {
+export async function loadExerciseForEvaluation(input: {
   userId: string;
   exerciseId: string;
 }) {
@@ -308,7 +1005,7 @@ async function loadExerciseForEvaluation(input: {
 export async function evaluateExerciseAnswer(input: {
   userId: string;
   exerciseId: string;
-  answer: string | number;
+  answer: SubmittedAnswer;
 }) {
   const startedAt = Date.now();
   const exercise = await loadExerciseForEvaluation({
@@ -322,15 +1019,28 @@ export async function evaluateExerciseAnswer(input: {
   });
 
   try {
-    const deterministic = evaluateDeterministic({
-      exercise,
-      answer: input.answer,
-    });
-
-    const evaluation = deterministic ?? await evaluateWithLlm({
-      exercise,
-      userAnswer: String(input.answer),
-    });
+    const evaluation = exercise.type === 'reading_comprehension'
+      ? await evaluateReadingComprehension({
+          exercise,
+          answer: input.answer,
+        })
+      : exercise.type === 'cloze'
+        ? await evaluateCloze({
+            exercise,
+            answer: input.answer,
+          })
+        : exercise.type === 'writing'
+          ? await evaluateWriting({
+              exercise,
+              answer: input.answer,
+            })
+          : evaluateDeterministic({
+            exercise,
+            answer: input.answer,
+          }) ?? await evaluateWithLlm({
+            exercise,
+            userAnswer: String(input.answer),
+          });
 
     logger.info('answer_evaluation_completed', {
       exerciseId: input.exerciseId,
@@ -359,3 +1069,72 @@ export async function evaluateExerciseAnswer(input: {
     throw new AnswerEvaluationError('Failed to evaluate answer');
   }
 }
+
+type DialogueExercise = Extract<StoredExercise, { type: 'dialogue' }>;
+
+function buildDialoguePromptContext(exercise: DialogueExercise, turns: Array<Pick<DialogueTurn, 'role' | 'text'>>) {
+  return {
+    scenario: exercise.question,
+    character: exercise.exerciseData.character,
+    learnerRole: exercise.exerciseData.learnerRole,
+    goals: exercise.exerciseData.goals,
+    transcript: turns.map(turn => ({
+      speaker: turn.role === 'character' ? exercise.exerciseData.character : exercise.exerciseData.learnerRole,
+      text: turn.text,
+    })),
+  };
+}
+
+export async function evaluateDialogueTurn(input: {
+  exercise: DialogueExercise;
+  turns: DialogueTurn[];
+  message: string;
+  isFinalTurn: boolean;
+}): Promise<{ result: EvaluationItemResult; reply: string }> {
+  const result = await createStructuredChatCompletion({
+    task: 'evaluation',
+    systemPrompt: buildEvaluationSystemPrompt(),
+    userPrompt: buildDialogueTurnUserPrompt({
+      ...buildDialoguePromptContext(input.exercise, input.turns),
+      userAnswer: input.message,
+      isFinalTurn: input.isFinalTurn,
+    }),
+    responseFormat: LlmDialogueTurnSchema,
+    temperature: 0.4,
+    maxTokens: 500,
+  });
+
+  return {
+    result: {
+      score: result.parsed.score,
+      rubric: result.parsed.rubric,
+      feedback: result.parsed.feedback,
+      evaluationMethod: 'llm',
+    },
+    reply: result.parsed.reply,
+  };
+}
+
+export async function evaluateDialogueSession(input: {
+  exercise: DialogueExercise;
+  turns: DialogueTurn[];
+}) {
+  const result = await createStructuredChatCompletion({
+    task: 'evaluation',
+    systemPrompt: buildEvaluationSystemPrompt(),
+    userPrompt: buildDialogueSessionUserPrompt(buildDialoguePromptContext(input.exercise, input.turns)),
+    responseFormat: LlmEvaluationSchema,
+    temperature: 0,
+    maxTokens: 600,
+  });
+
+  return EvaluationResultSchema.parse({
+    score: result.parsed.score,
+    rubric: result.parsed.rubric,
+    overallFeedback: result.parsed.overallFeedback,
+    suggestedReview: result.parsed.suggestedReview,
+    corrections: result.parsed.corrections,
+    itemResults: input.turns.flatMap(turn => turn.role === 'learner' ? [turn.result] : []),
+    evaluationMethod: 'llm',
+  });
+}
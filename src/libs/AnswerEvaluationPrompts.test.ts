@@ -1,9 +1,12 @@
 import { describe, expect, it } from 'vitest';
 
 import {
+  buildDialogueTurnUserPrompt,
+  buildErrorCorrectionFallbackUserPrompt,
   buildEvaluationSystemPrompt,
   buildFillGapFallbackUserPrompt,
   buildSingleAnswerUserPrompt,
+  buildTranslationUserPrompt,
 } from './AnswerEvaluationPrompts';
 
 function parsePromptPayload(prompt: string) {
@@ -72,4 +75,68 @@ describe('AnswerEvaluationPrompts', () => {
       grammarFocus: 'passato prossimo',
     });
   });
+
+  it('serializes error-correction answers as JSON data', () => {
+    const prompt = buildErrorCorrectionFallbackUserPrompt({
+      question: 'Ieri ho andato al mercato.',
+      correctedSentence: 'Ieri sono andato al mercato.',
+      errors: [{ incorrect: 'ho andato', correction: 'sono andato' }],
+      userAnswer: 'Ieri sono andata al mercato.',
+      grammarFocus: null,
+    });
+    const payload = parsePromptPayload(prompt);
+
+    expect(payload.studentAnswer).toBe('Ieri sono andata al mercato.');
+    expect(payload.exercise).toMatchObject({
+      type: 'error_correction',
+      sentenceWithErrors: 'Ieri ho andato al mercato.',
+      referenceCorrection: 'Ieri sono andato al mercato.',
+      errors: [{ incorrect: 'ho andato', correction: 'sono andato' }],
+      grammarFocus: 'none',
+    });
+  });
+
+  it('serializes translation answers as JSON data', () => {
+    const prompt = buildTranslationUserPrompt({
+      sourceText: 'Domani andiamo al mare.',
+      direction: 'it_to_en',
+      referenceTranslations: ['Tomorrow we are going to the seaside.'],
+      userAnswer: 'Tomorrow we go to the sea.',
+      grammarFocus: null,
+    });
+    const payload = parsePromptPayload(prompt);
+
+    expect(payload.studentAnswer).toBe('Tomorrow we go to the sea.');
+    expect(payload.exercise).toMatchObject({
+      type: 'translation',
+      direction: 'Italian to English',
+      referenceTranslations: ['Tomorrow we are going to the seaside.'],
+    });
+    expect(payload.evaluationNotes).toEqual(
+      expect.arrayContaining(['Accept any semantically equivalent translation, not only the references.']),
+    );
+  });
+
+  it('asks for a closing character reply on the final dialogue turn', () => {
+    const prompt = buildDialogueTurnUserPrompt({
+      scenario: 'Ordering breakfast at a café in Rome.',
+      character: 'Barista',
+      learnerRole: 'Customer',
+      goals: ['Order a drink'],
+      transcript: [{ speaker: 'Barista', text: 'Buongiorno! Cosa le preparo?' }],
+      userAnswer: 'Vorrei un cappuccino, per favore.',
+      isFinalTurn: true,
+    });
+    const payload = parsePromptPayload(prompt);
+
+    expect(payload.studentAnswer).toBe('Vorrei un cappuccino, per favore.');
+    expect(payload.exercise).toMatchObject({
+      type: 'dialogue_turn',
+      character: 'Barista',
+      transcript: [{ speaker: 'Barista', text: 'Buongiorno! Cosa le preparo?' }],
+    });
+    expect(payload.evaluationNotes).toEqual(
+      expect.arrayContaining(['This is the last learner turn, so the reply must bring the conversation to a natural close.']),
+    );
+  });
 });
@@ -3,21 +3,21 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const state = {
   documentRows: [{ id: 'doc-1', userId: 'user-1' }] as Array<{ id: string; userId: string }>,
   chunkRows: [{ pineconeId: 'doc-1_chunk_0' }] as Array<{ pineconeId: string }>,
-  throwOnPineconeDelete: false,
+  throwOnVectorDelete: false,
   throwOnDbDelete: false,
   steps: [] as string[],
 };
 
-const mockDeleteMany = vi.fn(async (_ids: string[]) => {
-  state.steps.push('pinecone-delete');
-  if (state.throwOnPineconeDelete) {
-    throw new Error('Pinecone unavailable');
+const mockDeleteByDocument = vi.fn(async (_input: { documentId: string; vectorIds: string[] }) => {
+  state.steps.push('vector-delete');
+  if (state.throwOnVectorDelete) {
+    throw new Error('Vector store unavailable');
   }
 });
 
-vi.mock('./Pinecone', () => ({
-  getNamespacedIndex: () => ({
-    deleteMany: mockDeleteMany,
+vi.mock('./VectorStore', () => ({
+  getVectorStore: () => ({
+    deleteByDocument: mockDeleteByDocument,
   }),
 }));
 
@@ -81,39 +81,39 @@ describe('deleteDocumentForAccountDeletion', () => {
   beforeEach(() => {
     state.documentRows = [{ id: 'doc-1', userId: 'user-1' }];
     state.chunkRows = [{ pineconeId: 'doc-1_chunk_0' }];
-    state.throwOnPineconeDelete = false;
+    state.throwOnVectorDelete = false;
     state.throwOnDbDelete = false;
     state.steps = [];
     vi.clearAllMocks();
     vi.resetModules();
   });
 
-  it('leaves the database document intact when Pinecone cleanup fails', async () => {
-    state.throwOnPineconeDelete = true;
+  it('leaves the database document intact when vector cleanup fails', async () => {
+    state.throwOnVectorDelete = true;
     const { deleteDocumentForAccountDeletion } = await import('./ContentIngestion');
 
     const result = await deleteDocumentForAccountDeletion('doc-1', 'user-1');
 
     expect(result).toBe(false);
-    expect(state.steps).toEqual(['pinecone-delete']);
+    expect(state.steps).toEqual(['vector-delete']);
   });
 
-  it('deletes from Pinecone before removing the database row', async () => {
+  it('deletes vectors before removing the database row', async () => {
     const { deleteDocumentForAccountDeletion } = await import('./ContentIngestion');
 
     const result = await deleteDocumentForAccountDeletion('doc-1', 'user-1');
 
     expect(result).toBe(true);
-    expect(state.steps).toEqual(['pinecone-delete', 'db-delete']);
+    expect(state.steps).toEqual(['vector-delete', 'db-delete']);
   });
 
-  it('returns false when the database delete fails after Pinecone cleanup', async () => {
+  it('returns false when the database delete fails after vector cleanup', async () => {
     state.throwOnDbDelete = true;
     const { deleteDocumentForAccountDeletion } = await import('./ContentIngestion');
 
     const result = await deleteDocumentForAccountDeletion('doc-1', 'user-1');
 
     expect(result).toBe(false);
-    expect(state.steps).toEqual(['pinecone-delete', 'db-delete']);
+    expect(state.steps).toEqual(['vector-delete', 'db-delete']);
   });
 });
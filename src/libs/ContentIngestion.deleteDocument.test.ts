@@ -3,20 +3,20 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const state = {
   documentRow: [{ id: 'doc-1', userId: 'user-1' }] as Array<{ id: string; userId: string }>,
   chunkRows: [{ pineconeId: 'doc-1_chunk_0' }] as Array<{ pineconeId: string }>,
-  throwOnPineconeDelete: false,
+  throwOnVectorDelete: false,
   steps: [] as string[],
 };
 
-const mockDeleteMany = vi.fn(async (_ids: string[]) => {
-  state.steps.push('pinecone-delete');
-  if (state.throwOnPineconeDelete) {
-    throw new Error('Pinecone unavailable');
+const mockDeleteByDocument = vi.fn(async (_input: { documentId: string; vectorIds: string[] }) => {
+  state.steps.push('vector-delete');
+  if (state.throwOnVectorDelete) {
+    throw new Error('Vector store unavailable');
   }
 });
 
-vi.mock('./Pinecone', () => ({
-  getNamespacedIndex: () => ({
-    deleteMany: mockDeleteMany,
+vi.mock('./VectorStore', () => ({
+  getVectorStore: () => ({
+    deleteByDocument: mockDeleteByDocument,
   }),
 }));
 
@@ -68,7 +68,7 @@ describe('deleteDocument', () => {
   beforeEach(() => {
     state.documentRow = [{ id: 'doc-1', userId: 'user-1' }];
     state.chunkRows = [{ pineconeId: 'doc-1_chunk_0' }];
-    state.throwOnPineconeDelete = false;
+    state.throwOnVectorDelete = false;
     state.steps = [];
     vi.clearAllMocks();
     vi.resetModules();
@@ -81,25 +81,25 @@ describe('deleteDocument', () => {
     const result = await deleteDocument('doc-1', 'user-1');
 
     expect(result).toBe(false);
-    expect(mockDeleteMany).not.toHaveBeenCalled();
+    expect(mockDeleteByDocument).not.toHaveBeenCalled();
   });
 
-  it('deletes from PostgreSQL before Pinecone cleanup', async () => {
+  it('deletes from PostgreSQL before vector cleanup', async () => {
     const { deleteDocument } = await import('./ContentIngestion');
 
     const result = await deleteDocument('doc-1', 'user-1');
 
     expect(result).toBe(true);
-    expect(state.steps).toEqual(['db-delete', 'pinecone-delete']);
+    expect(state.steps).toEqual(['db-delete', 'vector-delete']);
   });
 
-  it('returns true when Pinecone cleanup fails after database deletion', async () => {
-    state.throwOnPineconeDelete = true;
+  it('returns true when vector cleanup fails after database deletion', async () => {
+    state.throwOnVectorDelete = true;
     const { deleteDocument } = await import('./ContentIngestion');
 
     const result = await deleteDocument('doc-1', 'user-1');
 
     expect(result).toBe(true);
-    expect(state.steps).toEqual(['db-delete', 'pinecone-delete']);
+    expect(state.steps).toEqual(['db-delete', 'vector-delete']);
   });
 });
@@ -3,25 +3,30 @@
  * Coordinates text chunking, embedding generation, and dual-store persistence.
  */
 
-import type { ChunkMetadata } from './Pinecone';
+import type { ChunkMetadata } from './VectorStore';
 
 import type { NewChunk, NewDocument } from '@/models/Schema';
 
 import { count, eq, sql } from 'drizzle-orm';
 import { chunksSchema, documentsSchema, usersSchema } from '@/models/Schema';
 import { db } from './DB';
+import { createEmbeddingsBatched } from './Llm';
 import { logger } from './Logger';
-import { createEmbeddingsBatched } from './Mistral';
-import { getNamespacedIndex } from './Pinecone';
-import { chunkText } from './TextChunker';
+import { chunkSections, chunkSegments, chunkText } from './TextChunker';
 import { countTokensEstimate } from './TokenCounter';
+import { getVectorStore } from './VectorStore';
 
 // Processing constraints
 const MAX_CHUNKS_PER_DOCUMENT = 50;
-const PINECONE_BATCH_SIZE = 100;
 const MAX_DOCUMENTS_PER_USER = 50;
 
-export type ContentType = 'pdf' | 'url' | 'text';
+export type ContentType = 'pdf' | 'url' | 'text' | 'docx' | 'epub' | 'markdown' | 'html' | 'srt' | 'vtt';
+
+export type TimedSegment = {
+  text: string;
+  startMs: number;
+  endMs: number;
+};
 
 export type IngestionInput = {
   documentId: string;
@@ -29,6 +34,12 @@ export type IngestionInput = {
   title: string;
   contentType: ContentType;
   text: string;
+  // Independent sections (e.g. EPUB chapters) chunked without crossing boundaries
+  sections?: string[];
+  // Timed segments (e.g. subtitle cues); chunks record the time range they cover
+  segments?: TimedSegment[];
+  // Page texts in page order (e.g. PDF pages); chunks record the page range they cover
+  pages?: string[];
   sourceUrl?: string;
   originalFilename?: string;
 };
@@ -43,6 +54,17 @@ type IngestionResult = {
   errorCode?: 'CHUNK_LIMIT_EXCEEDED' | 'EMBEDDING_FAILED' | 'STORAGE_FAILED' | 'EMPTY_CONTENT';
 };
 
+type IngestionChunk = {
+  text: string;
+  position: number;
+  startChar: number;
+  endChar: number;
+  startPage?: number;
+  endPage?: number;
+  startMs?: number;
+  endMs?: number;
+};
+
 type ReserveDocumentInput = {
   userId: string;
   title: string;
@@ -59,15 +81,45 @@ type ReserveDocumentResult = {
 };
 
 /**
- * Generates deterministic Pinecone ID for a chunk.
+ * Generates deterministic vector ID for a chunk.
  * Format: {documentId}_chunk_{position}
  * @param documentId - The document UUID
  * @param position - The chunk position (0-indexed)
  */
-function generatePineconeId(documentId: string, position: number): string {
+function generateVectorId(documentId: string, position: number): string {
   return `${documentId}_chunk_${position}`;
 }
 
+/**
+ * Splits ingestion input into chunks using the structure the extractor provided.
+ * Timed segments take precedence over pages, then sections, then plain text.
+ * @param input - Ingestion input
+ * @returns Chunks in reading order, with time or page ranges when known
+ */
+function chunkIngestionInput(input: IngestionInput): IngestionChunk[] {
+  const segments = input.segments;
+
+  if (segments) {
+    return chunkSegments(segments.map(segment => segment.text))
+      .map(({ firstSegment, lastSegment, ...chunk }) => ({
+        ...chunk,
+        startMs: segments[firstSegment]!.startMs,
+        endMs: segments[lastSegment]!.endMs,
+      }));
+  }
+
+  if (input.pages) {
+    return chunkSegments(input.pages, { segmentSeparator: '\n\n' })
+      .map(({ firstSegment, lastSegment, ...chunk }) => ({
+        ...chunk,
+        startPage: firstSegment + 1,
+        endPage: lastSegment + 1,
+      }));
+  }
+
+  return input.sections ? chunkSections(input.sections) : chunkText(input.text);
+}
+
 /**
  * Updates document status in the database.
  * @param documentId - The document UUID
@@ -178,27 +230,6 @@ export async function markDocumentAsFailed(documentId: string, errorMessage: str
   await updateDocumentStatus(documentId, 'failed', errorMessage);
 }
 
-/**
- * Upserts vectors to Pinecone in batches.
- * @param vectors - Array of vectors with metadata
- */
-async function upsertToPinecone(
-  vectors: Array<{
-    id: string;
-    values: number[];
-    metadata: ChunkMetadata;
-  }>,
-): Promise<void> {
-  const index = getNamespacedIndex();
-
-  // Batch upserts (Pinecone recommends 100 vectors per request)
-  for (let i = 0; i < vectors.length; i += PINECONE_BATCH_SIZE) {
-    const batch = vectors.slice(i, i + PINECONE_BATCH_SIZE);
-    await index.upsert({ records: batch });
-    logger.debug('Upserted batch to Pinecone', { count: batch.length, offset: i });
-  }
-}
-
 /**
  * Ingests text content into the RAG pipeline.
  * Creates document record, chunks text, generates embeddings, and stores in both stores.
@@ -217,7 +248,7 @@ export async function ingestContent(
     onProgress?.('chunking', 'Splitting text into chunks');
 
     // Step 1: Chunk the text
-    const chunks = chunkText(input.text);
+    const chunks = chunkIngestionInput(input);
 
     if (chunks.length === 0) {
       await updateDocumentStatus(documentId, 'failed', 'No content to process after text extraction.');
@@ -280,7 +311,13 @@ export async function ingestContent(
         content: chunk.text,
         position: chunk.position,
         tokenCount: countTokensEstimate(chunk.text),
-        pineconeId: generatePineconeId(documentId, chunk.position),
+        pineconeId: generateVectorId(documentId, chunk.position),
+        startChar: chunk.startChar,
+        endChar: chunk.endChar,
+        startPage: chunk.startPage,
+        endPage: chunk.endPage,
+        startMs: chunk.startMs,
+        endMs: chunk.endMs,
       }));
 
       storedChunks = await db.transaction(async (tx) => {
@@ -316,7 +353,7 @@ export async function ingestContent(
 
     logger.info('Document and chunks stored atomically', { documentId, count: storedChunks.length });
 
-    // Step 4: Upsert vectors to Pinecone
+    // Step 4: Upsert vectors to the vector store
     onProgress?.('indexing', 'Indexing vectors for search');
 
     if (
@@ -382,14 +419,18 @@ export async function ingestContent(
           content_type: input.contentType,
           created_at: new Date().toISOString(),
           text: sourceChunk.text,
+          ...(sourceChunk.startMs !== undefined && sourceChunk.endMs !== undefined
+            ? { start_ms: sourceChunk.startMs, end_ms: sourceChunk.endMs }
+            : {}),
         } satisfies ChunkMetadata,
       });
     }
 
+    const vectorStore = getVectorStore();
     try {
-      await upsertToPinecone(vectors);
+      await vectorStore.upsert(vectors);
     } catch (error) {
-      logger.error('Pinecone upsert failed', { documentId, error });
+      logger.error('Vector upsert failed', { documentId, backend: vectorStore.backend, error });
       const errorMessage = 'Content stored, but indexing failed.';
       await updateDocumentStatus(documentId, 'failed', errorMessage);
       logger.warn('Document stored but vector indexing failed', { documentId });
@@ -403,7 +444,7 @@ export async function ingestContent(
       };
     }
 
-    logger.info('Vectors upserted to Pinecone', { documentId, count: vectors.length });
+    logger.info('Vectors upserted', { documentId, backend: vectorStore.backend, count: vectors.length });
 
     // Step 5: Update document status to ready
     await updateDocumentStatus(documentId, 'ready');
@@ -469,12 +510,14 @@ export async function deleteDocument(documentId: string, userId: string): Promis
     }
 
     if (deletion.pineconeIds.length > 0) {
-      const index = getNamespacedIndex();
       try {
-        await index.deleteMany(deletion.pineconeIds);
-        logger.info('Deleted vectors from Pinecone', { documentId, count: deletion.pineconeIds.length });
+        await getVectorStore().deleteByDocument({
+          documentId,
+          vectorIds: deletion.pineconeIds,
+        });
+        logger.info('Deleted document vectors', { documentId, count: deletion.pineconeIds.length });
       } catch (error) {
-        logger.warn('Document deleted but Pinecone cleanup failed', {
+        logger.warn('Document deleted but vector cleanup failed', {
           documentId,
           count: deletion.pineconeIds.length,
           error,
@@ -492,11 +535,11 @@ export async function deleteDocument(documentId: string, userId: string): Promis
 
 /**
  * Deletes a document during account removal with strict external cleanup guarantees.
- * Deletes Pinecone vectors before removing the database row so webhook retries can
+ * Deletes document vectors before removing the database row so webhook retries can
  * fail closed without silently orphaning vectors.
  * @param documentId - The document UUID to delete.
  * @param userId - The owner user ID.
- * @returns True when both Pinecone cleanup and database deletion succeed.
+ * @returns True when both vector cleanup and database deletion succeed.
  */
 export async function deleteDocumentForAccountDeletion(documentId: string, userId: string): Promise<boolean> {
   try {
@@ -515,8 +558,10 @@ export async function deleteDocumentForAccountDeletion(documentId: string, userI
       .where(eq(chunksSchema.documentId, documentId));
 
     if (chunks.length > 0) {
-      const index = getNamespacedIndex();
-      await index.deleteMany(chunks.map(chunk => chunk.pineconeId));
+      await getVectorStore().deleteByDocument({
+        documentId,
+        vectorIds: chunks.map(chunk => chunk.pineconeId),
+      });
     }
 
     const deleted = await db.transaction(async (tx) => {
@@ -534,7 +579,7 @@ export async function deleteDocumentForAccountDeletion(documentId: string, userI
     });
 
     if (!deleted) {
-      logger.error('Account deletion document cleanup failed after Pinecone delete', {
+      logger.error('Account deletion document cleanup failed after vector delete', {
         documentId,
         userId,
       });
@@ -15,4 +15,6 @@ if (Env.NODE_ENV !== 'production') {
   globalForDb.drizzle = db;
 }
 
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export { db };
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/libs/DB', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+  },
+}));
+
+function day(date: string, exerciseCount: number, minutes = 0) {
+  return { date, exerciseCount, minutes };
+}
+
+describe('formatLocalDate', () => {
+  it('places an instant on the calendar day of the time zone', async () => {
+    const { formatLocalDate } = await import('./DailyActivity');
+    const instant = new Date('2026-03-05T23:30:00.000Z');
+
+    expect(formatLocalDate(instant, 'UTC')).toBe('2026-03-05');
+    expect(formatLocalDate(instant, 'Europe/Rome')).toBe('2026-03-06');
+    expect(formatLocalDate(instant, 'America/New_York')).toBe('2026-03-05');
+  });
+});
+
+describe('buildActivityCalendar', () => {
+  it('fills days without answers and drops days outside the window', async () => {
+    const { buildActivityCalendar } = await import('./DailyActivity');
+
+    expect(buildActivityCalendar({
+      today: '2026-03-01',
+      days: 3,
+      activity: [day('2026-02-27', 9), day('2026-02-28', 2, 4)],
+    })).toEqual([
+      day('2026-02-27', 9),
+      day('2026-02-28', 2, 4),
+      day('2026-03-01', 0),
+    ]);
+  });
+});
+
+describe('computeCurrentStreak', () => {
+  const goal = { metric: 'exercises' as const, target: 3 };
+
+  it('counts met days back from today', async () => {
+    const { computeCurrentStreak } = await import('./DailyActivity');
+
+    expect(computeCurrentStreak([
+      day('2026-03-01', 5),
+      day('2026-03-02', 1),
+      day('2026-03-03', 3),
+      day('2026-03-04', 4),
+    ], goal)).toBe(2);
+  });
+
+  it('keeps yesterday\'s streak while today\'s goal is still open', async () => {
+    const { computeCurrentStreak } = await import('./DailyActivity');
+
+    expect(computeCurrentStreak([
+      day('2026-03-02', 3),
+      day('2026-03-03', 6),
+      day('2026-03-04', 1),
+    ], goal)).toBe(2);
+  });
+
+  it('measures minute goals against minutes practised', async () => {
+    const { computeCurrentStreak } = await import('./DailyActivity');
+
+    expect(computeCurrentStreak([
+      day('2026-03-03', 1, 15),
+      day('2026-03-04', 20, 5),
+    ], { metric: 'minutes', target: 10 })).toBe(1);
+  });
+});
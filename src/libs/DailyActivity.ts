@@ -0,0 +1,223 @@
+import type { ActivityDay, DailyGoal, DailyGoalProgress, UpdateDailyGoalRequest } from '@/validations/DailyGoalValidation';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { dailyGoalsSchema, responsesSchema } from '@/models/Schema';
+
+export const ACTIVITY_CALENDAR_DAYS = 365;
+
+// Goal used until the learner sets their own
+const DEFAULT_DAILY_GOAL: UpdateDailyGoalRequest = {
+  metric: 'exercises',
+  target: 5,
+  timeZone: 'UTC',
+};
+
+// Caps the time counted for one answer, so a tab left open does not count as practice
+const MAX_COUNTED_RESPONSE_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DailyActivitySummary = {
+  dailyGoal: DailyGoalProgress;
+  currentStreak: number;
+  activityCalendar: ActivityDay[];
+};
+
+/**
+ * Formats the calendar day an instant falls on in a time zone.
+ * @param instant - Moment to place on the calendar.
+ * @param timeZone - IANA time zone name.
+ * @returns The local date as YYYY-MM-DD.
+ */
+export function formatLocalDate(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+function shiftDate(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Lays activity out over consecutive days, filling days without answers with zeros.
+ * @param input - Window end and the days that had activity.
+ * @param input.today - Last day of the window, as YYYY-MM-DD.
+ * @param input.days - Number of days in the window.
+ * @param input.activity - Per-day totals; days outside the window are ignored.
+ * @returns One entry per day, oldest first.
+ */
+export function buildActivityCalendar(input: {
+  today: string;
+  days: number;
+  activity: ActivityDay[];
+}): ActivityDay[] {
+  const activityByDate = new Map(input.activity.map(day => [day.date, day]));
+
+  return Array.from({ length: input.days }, (_, index) => {
+    const date = shiftDate(input.today, index - input.days + 1);
+
+    return activityByDate.get(date) ?? { date, exerciseCount: 0, minutes: 0 };
+  });
+}
+
+/**
+ * Reads a day's progress towards a goal.
+ * @param goal - Goal metric.
+ * @param goal.metric - Whether the goal counts exercises or minutes.
+ * @param day - Activity for the day.
+ * @returns Exercises answered or minutes practised.
+ */
+export function measureGoalProgress(goal: { metric: DailyGoal['metric'] }, day: ActivityDay | undefined) {
+  if (!day) {
+    return 0;
+  }
+
+  return goal.metric === 'exercises' ? day.exerciseCount : day.minutes;
+}
+
+/**
+ * Counts consecutive days, ending today, on which the goal was met.
+ * A goal not yet met today does not break the streak: it still runs through yesterday.
+ * @param calendar - Activity per day, oldest first and ending today.
+ * @param goal - Goal each day is measured against.
+ * @param goal.metric - Whether the goal counts exercises or minutes.
+ * @param goal.target - Amount needed per day.
+ * @returns Streak length in days, at most the calendar length.
+ */
+export function computeCurrentStreak(
+  calendar: ActivityDay[],
+  goal: { metric: DailyGoal['metric']; target: number },
+) {
+  const isMet = (day: ActivityDay) => measureGoalProgress(goal, day) >= goal.target;
+  let index = calendar.length - 1;
+  const today = calendar[index];
+
+  if (today && !isMet(today)) {
+    index -= 1;
+  }
+
+  let streak = 0;
+  for (; index >= 0 && isMet(calendar[index]!); index -= 1) {
+    streak += 1;
+  }
+
+  return streak;
+}
+
+/**
+ * Loads the learner's daily goal.
+ * @param userId - Authenticated user ID.
+ * @returns The saved goal, or the default goal when none has been set.
+ */
+export async function getDailyGoal(userId: string): Promise<DailyGoal> {
+  const [row] = await db
+    .select({
+      metric: dailyGoalsSchema.metric,
+      target: dailyGoalsSchema.target,
+      timeZone: dailyGoalsSchema.timeZone,
+    })
+    .from(dailyGoalsSchema)
+    .where(eq(dailyGoalsSchema.userId, userId))
+    .limit(1);
+
+  return row
+    ? { ...row, isCustom: true }
+    : { ...DEFAULT_DAILY_GOAL, isCustom: false };
+}
+
+/**
+ * Saves the learner's daily goal and the time zone their days are counted in.
+ * @param input - Goal owner and settings.
+ * @param input.userId - Authenticated user ID.
+ * @param input.goal - Validated goal settings.
+ * @returns The saved goal.
+ */
+export async function saveDailyGoal(input: {
+  userId: string;
+  goal: UpdateDailyGoalRequest;
+}): Promise<DailyGoal> {
+  await db
+    .insert(dailyGoalsSchema)
+    .values({
+      userId: input.userId,
+      ...input.goal,
+    })
+    .onConflictDoUpdate({
+      target: dailyGoalsSchema.userId,
+      set: input.goal,
+    });
+
+  return { ...input.goal, isCustom: true };
+}
+
+/**
+ * Builds goal progress, the current streak and the activity calendar from answered exercises.
+ * Days are counted in the goal's time zone; until a goal is saved, the browser's time zone is used when known.
+ * @param input - Learner and reference time.
+ * @param input.userId - Authenticated user ID.
+ * @param input.timeZone - Time zone reported by the browser, if any.
+ * @param input.now - Reference time, defaults to now.
+ * @returns Today's goal progress, streak length and the last year of daily totals.
+ */
+export async function getDailyActivitySummary(input: {
+  userId: string;
+  timeZone?: string;
+  now?: Date;
+}): Promise<DailyActivitySummary> {
+  const now = input.now ?? new Date();
+  const goal = await getDailyGoal(input.userId);
+  const timeZone = goal.isCustom ? goal.timeZone : input.timeZone ?? goal.timeZone;
+  const today = formatLocalDate(now, timeZone);
+
+  // Response timestamps are stored in UTC without a zone
+  const localResponses = db
+    .select({
+      date: sql<string>`to_char((${responsesSchema.createdAt} at time zone 'UTC') at time zone ${timeZone}, 'YYYY-MM-DD')`.as('date'),
+      responseTimeMs: responsesSchema.responseTimeMs,
+    })
+    .from(responsesSchema)
+    .where(and(
+      eq(responsesSchema.userId, input.userId),
+      // One extra day covers every time zone offset
+      gte(responsesSchema.createdAt, new Date(now.getTime() - (ACTIVITY_CALENDAR_DAYS + 1) * DAY_MS)),
+    ))
+    .as('local_responses');
+
+  const rows = await db
+    .select({
+      date: localResponses.date,
+      exerciseCount: sql<number>`cast(count(*) as integer)`,
+      practiceMs: sql<number>`cast(coalesce(sum(least(${localResponses.responseTimeMs}, ${MAX_COUNTED_RESPONSE_MS})), 0) as integer)`,
+    })
+    .from(localResponses)
+    .groupBy(localResponses.date);
+
+  const activityCalendar = buildActivityCalendar({
+    today,
+    days: ACTIVITY_CALENDAR_DAYS,
+    activity: rows.map(row => ({
+      date: row.date,
+      exerciseCount: row.exerciseCount,
+      minutes: Math.round(row.practiceMs / 60_000),
+    })),
+  });
+  const progress = measureGoalProgress(goal, activityCalendar.at(-1));
+
+  return {
+    dailyGoal: {
+      ...goal,
+      timeZone,
+      progress,
+      isMet: progress >= goal.target,
+    },
+    currentStreak: computeCurrentStreak(activityCalendar, goal),
+    activityCalendar,
+  };
+}
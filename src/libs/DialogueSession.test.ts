@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type StoredSession = {
+  id: string;
+  exerciseId: string;
+  status: 'active' | 'completed';
+  turns: unknown[];
+  responseId: string | null;
+};
+
+const SESSION_ID = '550e8400-e29b-41d4-a716-446655440010';
+const EXERCISE_ID = '550e8400-e29b-41d4-a716-446655440020';
+const RESPONSE_ID = '550e8400-e29b-41d4-a716-446655440030';
+
+const rubric = { accuracy: 30, grammar: 20, fluency: 20, bonus: 10 };
+const turnResult = { score: 80, rubric, feedback: 'Bene.', evaluationMethod: 'llm' as const };
+
+const state = {
+  session: null as StoredSession | null,
+};
+
+const mockLoadExerciseForEvaluation = vi.fn();
+const mockEvaluateDialogueTurn = vi.fn();
+const mockEvaluateDialogueSession = vi.fn();
+const mockRecordExerciseResponseInTransaction = vi.fn();
+
+function toRow(session: StoredSession) {
+  return {
+    id: session.id,
+    exerciseId: session.exerciseId,
+    status: session.status,
+    turns: session.turns,
+  };
+}
+
+const mockDb = {
+  select: vi.fn(() => ({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        orderBy: vi.fn(() => ({
+          limit: vi.fn(async () => state.session ? [toRow(state.session)] : []),
+        })),
+      })),
+    })),
+  })),
+  // Writes go to a working copy that only replaces the stored session on commit
+  transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => {
+    let working = state.session ? { ...state.session } : null;
+    const tx = {
+      update: vi.fn(() => ({
+        set: vi.fn((values: Partial<StoredSession>) => ({
+          where: vi.fn(() => {
+            working = working ? { ...working, ...values } : null;
+
+            return Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => working ? [toRow(working)] : []),
+            });
+          }),
+        })),
+      })),
+    };
+
+    const result = await callback(tx);
+    state.session = working;
+
+    return result;
+  }),
+};
+
+vi.mock('@/libs/DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('@/libs/AnswerEvaluation', () => ({
+  AnswerEvaluationError: class AnswerEvaluationError extends Error {},
+  loadExerciseForEvaluation: mockLoadExerciseForEvaluation,
+  evaluateDialogueTurn: mockEvaluateDialogueTurn,
+  evaluateDialogueSession: mockEvaluateDialogueSession,
+}));
+
+vi.mock('@/libs/ResponseSubmission', () => ({
+  recordExerciseResponseInTransaction: mockRecordExerciseResponseInTransaction,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('submitDialogueTurn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.session = {
+      id: SESSION_ID,
+      exerciseId: EXERCISE_ID,
+      status: 'active',
+      turns: [
+        { role: 'character', text: 'Ciao! Come stai?' },
+        { role: 'learner', text: 'Sto bene, grazie.', result: turnResult },
+        { role: 'character', text: 'Che cosa fai oggi?' },
+        { role: 'learner', text: 'Vado al mercato.', result: turnResult },
+        { role: 'character', text: 'Che cosa compri?' },
+      ],
+      responseId: null,
+    };
+    mockLoadExerciseForEvaluation.mockResolvedValue({
+      id: EXERCISE_ID,
+      type: 'dialogue',
+      exerciseData: { openingLine: 'Ciao! Come stai?', turnCount: 3 },
+    });
+    mockEvaluateDialogueTurn.mockResolvedValue({ result: turnResult, reply: 'Perfetto, a presto!' });
+    mockEvaluateDialogueSession.mockResolvedValue({
+      score: 80,
+      rubric,
+      overallFeedback: 'Ottima conversazione.',
+      suggestedReview: [],
+      evaluationMethod: 'llm',
+    });
+  });
+
+  it('keeps the session active when recording the final response fails, so the turn can be retried', async () => {
+    const turn = {
+      userId: 'user-1',
+      exerciseId: EXERCISE_ID,
+      message: 'Compro la frutta.',
+      turnIndex: 5,
+    };
+    mockRecordExerciseResponseInTransaction
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce({
+        response: {
+          id: RESPONSE_ID,
+          exerciseId: EXERCISE_ID,
+          score: 80,
+          rubric,
+          overallFeedback: 'Ottima conversazione.',
+          suggestedReview: [],
+          responseTimeMs: null,
+          createdAt: '2026-03-01T09:00:00.000Z',
+          evaluationMethod: 'llm',
+        },
+        exerciseStats: { timesAttempted: 1, averageScore: 80 },
+      });
+
+    const { submitDialogueTurn } = await import('./DialogueSession');
+
+    await expect(submitDialogueTurn(turn)).rejects.toThrow('connection reset');
+    expect(state.session).toMatchObject({ status: 'active', responseId: null });
+    expect(state.session?.turns).toHaveLength(5);
+
+    const result = await submitDialogueTurn(turn);
+
+    expect(result.session.status).toBe('completed');
+    expect(result.completion?.response.id).toBe(RESPONSE_ID);
+    expect(state.session).toMatchObject({ status: 'completed', responseId: RESPONSE_ID });
+    expect(mockRecordExerciseResponseInTransaction).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        clientSubmissionId: SESSION_ID,
+        answer: ['Sto bene, grazie.', 'Vado al mercato.', 'Compro la frutta.'],
+      }),
+    );
+  });
+
+  it('does not record a response before the final turn', async () => {
+    mockLoadExerciseForEvaluation.mockResolvedValue({
+      id: EXERCISE_ID,
+      type: 'dialogue',
+      exerciseData: { openingLine: 'Ciao! Come stai?', turnCount: 4 },
+    });
+
+    const { submitDialogueTurn } = await import('./DialogueSession');
+    const result = await submitDialogueTurn({
+      userId: 'user-1',
+      exerciseId: EXERCISE_ID,
+      message: 'Compro la frutta.',
+      turnIndex: 5,
+    });
+
+    expect(result.completion).toBeNull();
+    expect(result.session.turns).toHaveLength(7);
+    expect(mockEvaluateDialogueSession).not.toHaveBeenCalled();
+    expect(mockRecordExerciseResponseInTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+import type { DbTransaction } from '@/libs/DB';
+import type { DialogueTurn } from '@/validations/DialogueValidation';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import {
+  AnswerEvaluationError,
+  evaluateDialogueSession,
+  evaluateDialogueTurn,
+  loadExerciseForEvaluation,
+} from '@/libs/AnswerEvaluation';
+import { db } from '@/libs/DB';
+import { logger } from '@/libs/Logger';
+import { recordExerciseResponseInTransaction } from '@/libs/ResponseSubmission';
+import { dialogueSessionsSchema } from '@/models/Schema';
+import { DialogueSessionSchema, DialogueTurnSuccessSchema } from '@/validations/DialogueValidation';
+
+export class DialogueConflictError extends Error {
+  constructor() {
+    super('Dialogue session has changed since this turn was started');
+    this.name = 'DialogueConflictError';
+  }
+}
+
+function isUniqueConstraintError(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+}
+
+function toDialogueSession(row: {
+  id: string;
+  exerciseId: string;
+  status: 'active' | 'completed';
+  turns: unknown;
+}) {
+  return DialogueSessionSchema.parse(row);
+}
+
+export async function getLatestDialogueSession(input: {
+  userId: string;
+  exerciseId: string;
+}) {
+  const [session] = await db
+    .select({
+      id: dialogueSessionsSchema.id,
+      exerciseId: dialogueSessionsSchema.exerciseId,
+      status: dialogueSessionsSchema.status,
+      turns: dialogueSessionsSchema.turns,
+    })
+    .from(dialogueSessionsSchema)
+    .where(and(
+      eq(dialogueSessionsSchema.userId, input.userId),
+      eq(dialogueSessionsSchema.exerciseId, input.exerciseId),
+    ))
+    .orderBy(desc(dialogueSessionsSchema.createdAt))
+    .limit(1);
+
+  return session ? toDialogueSession(session) : null;
+}
+
+async function saveDialogueTurns(tx: DbTransaction, input: {
+  userId: string;
+  exerciseId: string;
+  activeSessionId: string | null;
+  previousTurnCount: number;
+  turns: DialogueTurn[];
+  isCompleted: boolean;
+}) {
+  const status = input.isCompleted ? 'completed' as const : 'active' as const;
+  const returning = {
+    id: dialogueSessionsSchema.id,
+    exerciseId: dialogueSessionsSchema.exerciseId,
+    status: dialogueSessionsSchema.status,
+    turns: dialogueSessionsSchema.turns,
+  };
+
+  if (!input.activeSessionId) {
+    try {
+      const [session] = await tx
+        .insert(dialogueSessionsSchema)
+        .values({
+          userId: input.userId,
+          exerciseId: input.exerciseId,
+          status,
+          turns: input.turns,
+          completedAt: input.isCompleted ? new Date() : null,
+        })
+        .returning(returning);
+
+      return session ?? null;
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  // Only the request that saw the latest turn may append to the session
+  const [session] = await tx
+    .update(dialogueSessionsSchema)
+    .set({
+      status,
+      turns: input.turns,
+      completedAt: input.isCompleted ? new Date() : null,
+    })
+    .where(and(
+      eq(dialogueSessionsSchema.id, input.activeSessionId),
+      eq(dialogueSessionsSchema.status, 'active'),
+      sql`jsonb_array_length(${dialogueSessionsSchema.turns}) = ${input.previousTurnCount}`,
+    ))
+    .returning(returning);
+
+  return session ?? null;
+}
+
+/**
+ * Evaluates one learner turn of a dialogue exercise and stores the character's reply.
+ * The final learner turn also scores the whole conversation and records it as a
+ * response, so it counts toward progress and review scheduling like any other answer.
+ * @param input - Learner, exercise and turn to evaluate.
+ * @param input.userId - Learner user ID.
+ * @param input.exerciseId - Dialogue exercise ID.
+ * @param input.message - Learner reply in Italian.
+ * @param input.turnIndex - Number of turns the learner is replying to.
+ * @returns Updated session and, once completed, the recorded response.
+ */
+export async function submitDialogueTurn(input: {
+  userId: string;
+  exerciseId: string;
+  message: string;
+  turnIndex: number;
+}) {
+  const exercise = await loadExerciseForEvaluation({
+    userId: input.userId,
+    exerciseId: input.exerciseId,
+  });
+
+  if (exercise.type !== 'dialogue') {
+    throw new AnswerEvaluationError('Only dialogue exercises accept conversation turns');
+  }
+
+  const latestSession = await getLatestDialogueSession({
+    userId: input.userId,
+    exerciseId: input.exerciseId,
+  });
+  const activeSession = latestSession?.status === 'active' ? latestSession : null;
+  const turns: DialogueTurn[] = activeSession?.turns ?? [{
+    role: 'character',
+    text: exercise.exerciseData.openingLine,
+  }];
+
+  if (turns.length !== input.turnIndex) {
+    throw new DialogueConflictError();
+  }
+
+  const learnerTurnCount = turns.filter(turn => turn.role === 'learner').length + 1;
+  const isFinalTurn = learnerTurnCount >= exercise.exerciseData.turnCount;
+
+  let turnEvaluation: Awaited<ReturnType<typeof evaluateDialogueTurn>>;
+  try {
+    turnEvaluation = await evaluateDialogueTurn({
+      exercise,
+      turns,
+      message: input.message,
+      isFinalTurn,
+    });
+  } catch (error) {
+    logger.error('dialogue_turn_evaluation_failed', {
+      exerciseId: input.exerciseId,
+      learnerTurnCount,
+      error,
+    });
+    throw new AnswerEvaluationError('Failed to evaluate dialogue turn');
+  }
+
+  const nextTurns: DialogueTurn[] = [
+    ...turns,
+    { role: 'learner', text: input.message, result: turnEvaluation.result },
+    { role: 'character', text: turnEvaluation.reply },
+  ];
+
+  let evaluation = null;
+  if (isFinalTurn) {
+    try {
+      evaluation = await evaluateDialogueSession({ exercise, turns: nextTurns });
+    } catch (error) {
+      logger.error('dialogue_session_evaluation_failed', {
+        exerciseId: input.exerciseId,
+        error,
+      });
+      throw new AnswerEvaluationError('Failed to evaluate dialogue');
+    }
+  }
+
+  // The completed session and its response commit together, so a failed
+  // recording leaves the session active and the final turn can be retried
+  const { session, completion } = await db.transaction(async (tx) => {
+    const savedSession = await saveDialogueTurns(tx, {
+      userId: input.userId,
+      exerciseId: input.exerciseId,
+      activeSessionId: activeSession?.id ?? null,
+      previousTurnCount: turns.length,
+      turns: nextTurns,
+      isCompleted: evaluation !== null,
+    });
+
+    if (!savedSession) {
+      throw new DialogueConflictError();
+    }
+
+    if (!evaluation) {
+      return { session: savedSession, completion: null };
+    }
+
+    const recorded = await recordExerciseResponseInTransaction(tx, {
+      userId: input.userId,
+      exerciseId: input.exerciseId,
+      // One response per session, so a retried completion cannot be counted twice
+      clientSubmissionId: savedSession.id,
+      answer: nextTurns.flatMap(turn => turn.role === 'learner' ? [turn.text] : []),
+      evaluation,
+    });
+
+    await tx
+      .update(dialogueSessionsSchema)
+      .set({ responseId: recorded.response.id })
+      .where(eq(dialogueSessionsSchema.id, savedSession.id));
+
+    return { session: savedSession, completion: recorded };
+  });
+
+  if (!evaluation) {
+    return DialogueTurnSuccessSchema.parse({
+      session: toDialogueSession(session),
+      completion: null,
+    });
+  }
+
+  logger.info('dialogue_session_completed', {
+    exerciseId: input.exerciseId,
+    score: evaluation.score,
+  });
+
+  return DialogueTurnSuccessSchema.parse({
+    session: toDialogueSession(session),
+    completion,
+  });
+}
@@ -0,0 +1,33 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+function extractBearerToken(request: Request) {
+  const value = request.headers.get('authorization');
+  if (!value || !value.startsWith('Bearer ')) {
+    return null;
+  }
+
+  return value.slice('Bearer '.length).trim();
+}
+
+function compareDispatchTokens(providedToken: string, dispatchToken: string) {
+  const providedDigest = createHash('sha256').update(providedToken).digest();
+  const dispatchDigest = createHash('sha256').update(dispatchToken).digest();
+
+  return timingSafeEqual(providedDigest, dispatchDigest);
+}
+
+/**
+ * Checks the bearer token of an internal worker dispatch request.
+ * @param request - Incoming dispatch request.
+ * @param dispatchTokens - Configured tokens accepted for this dispatch route.
+ * @returns True when the request carries one of the dispatch tokens.
+ */
+export function isAuthorizedDispatchRequest(request: Request, dispatchTokens: string[]) {
+  const providedToken = extractBearerToken(request);
+
+  if (!providedToken || dispatchTokens.length === 0) {
+    return false;
+  }
+
+  return dispatchTokens.some(dispatchToken => compareDispatchTokens(providedToken, dispatchToken));
+}
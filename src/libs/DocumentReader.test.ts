@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+const mockListLatestResponsesForExercises = vi.fn();
+
+vi.mock('./DB', () => ({
+  db: {
+    select: mockSelect,
+  },
+}));
+
+vi.mock('./ExerciseGeneration', () => ({
+  listLatestResponsesForExercises: mockListLatestResponsesForExercises,
+}));
+
+function mockSelectRows(rows: Array<Record<string, unknown>>) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        orderBy: vi.fn(async () => rows),
+      })),
+    })),
+  });
+}
+
+describe('listDocumentPassages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('attaches each exercise and its latest score to the passages it was built from', async () => {
+    mockSelectRows([
+      { id: 'chunk-1', position: 0, content: 'Primo passaggio', startPage: 1, endPage: 1, startMs: null, endMs: null, startChar: 0, endChar: 15 },
+      { id: 'chunk-2', position: 1, content: 'Secondo passaggio', startPage: 2, endPage: 3, startMs: null, endMs: null, startChar: null, endChar: null },
+    ]);
+    mockSelectRows([
+      {
+        id: 'exercise-2',
+        type: 'single_answer',
+        question: 'Riassumi il testo',
+        sourceChunkIds: ['chunk-1', 'chunk-2'],
+        timesAttempted: null,
+        averageScore: null,
+      },
+      {
+        id: 'exercise-1',
+        type: 'fill_gap',
+        question: 'Completa la frase',
+        sourceChunkIds: ['chunk-1'],
+        timesAttempted: 2,
+        averageScore: 70,
+      },
+    ]);
+    mockListLatestResponsesForExercises.mockResolvedValue(new Map([
+      ['exercise-1', { score: 90 }],
+    ]));
+
+    const { listDocumentPassages } = await import('./DocumentReader');
+    const passages = await listDocumentPassages({ documentId: 'doc-1', userId: 'user-1' });
+
+    expect(mockListLatestResponsesForExercises).toHaveBeenCalledWith('user-1', ['exercise-2', 'exercise-1']);
+    expect(passages.map(passage => passage.exercises.map(exercise => exercise.id))).toEqual([
+      ['exercise-2', 'exercise-1'],
+      ['exercise-2'],
+    ]);
+    expect(passages[0]!.exercises[1]).toEqual({
+      id: 'exercise-1',
+      type: 'fill_gap',
+      question: 'Completa la frase',
+      timesAttempted: 2,
+      averageScore: 70,
+      latestScore: 90,
+    });
+    expect(passages[1]!.exercises[0]).toMatchObject({ timesAttempted: 0, latestScore: null });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Document reader data.
+ * Loads a document's stored chunks in reading order together with the
+ * exercises generated from each passage and the learner's results on them.
+ */
+
+import { and, arrayContains, asc, desc, eq } from 'drizzle-orm';
+import { chunksSchema, exercisesSchema } from '@/models/Schema';
+import { db } from './DB';
+import { listLatestResponsesForExercises } from './ExerciseGeneration';
+
+/**
+ * Lists a document's passages with the exercises built from each of them.
+ * The caller is responsible for checking that the document belongs to the user.
+ * @param input - Document and user scope.
+ * @param input.documentId - Document to read.
+ * @param input.userId - Authenticated user ID; only this user's exercises are attached.
+ * @returns Passages ordered by position, each with its exercises (newest first).
+ */
+export async function listDocumentPassages(input: {
+  documentId: string;
+  userId: string;
+}) {
+  const [chunks, exercises] = await Promise.all([
+    db
+      .select({
+        id: chunksSchema.id,
+        position: chunksSchema.position,
+        content: chunksSchema.content,
+        startPage: chunksSchema.startPage,
+        endPage: chunksSchema.endPage,
+        startMs: chunksSchema.startMs,
+        endMs: chunksSchema.endMs,
+        startChar: chunksSchema.startChar,
+        endChar: chunksSchema.endChar,
+      })
+      .from(chunksSchema)
+      .where(eq(chunksSchema.documentId, input.documentId))
+      .orderBy(asc(chunksSchema.position)),
+    db
+      .select({
+        id: exercisesSchema.id,
+        type: exercisesSchema.type,
+        question: exercisesSchema.question,
+        sourceChunkIds: exercisesSchema.sourceChunkIds,
+        timesAttempted: exercisesSchema.timesAttempted,
+        averageScore: exercisesSchema.averageScore,
+      })
+      .from(exercisesSchema)
+      .where(and(
+        eq(exercisesSchema.userId, input.userId),
+        arrayContains(exercisesSchema.sourceDocumentIds, [input.documentId]),
+      ))
+      .orderBy(desc(exercisesSchema.createdAt)),
+  ]);
+
+  const latestResponses = await listLatestResponsesForExercises(
+    input.userId,
+    exercises.map(exercise => exercise.id),
+  );
+
+  return chunks.map(chunk => ({
+    ...chunk,
+    exercises: exercises
+      .filter(exercise => exercise.sourceChunkIds.includes(chunk.id))
+      .map(exercise => ({
+        id: exercise.id,
+        type: exercise.type,
+        question: exercise.question,
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore,
+        latestScore: latestResponses.get(exercise.id)?.score ?? null,
+      })),
+  }));
+}
@@ -0,0 +1,16 @@
+/**
+ * DOCX processing configuration constants.
+ * Centralized limits for security, performance, and resource management.
+ */
+
+/** Maximum DOCX file size in bytes (10MB) */
+export const DOCX_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/** Maximum total uncompressed size of the archive entries read (50MB, zip bomb guard) */
+export const DOCX_MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+/** Timeout for DOCX parsing operations in milliseconds (30 seconds) */
+export const DOCX_PARSING_TIMEOUT_MS = 30_000;
+
+/** Minimum text length to consider extraction successful */
+export const DOCX_MIN_TEXT_LENGTH = 10;
@@ -0,0 +1,68 @@
+import { strToU8, zipSync } from 'fflate';
+
+import { describe, expect, it } from 'vitest';
+
+import { processDocx } from './DocxExtractor';
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+// Minimal DOCX package with the given document body
+function createDocx(body: string, entries: Record<string, string> = {}) {
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    'word/document.xml': strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`),
+    ...Object.fromEntries(Object.entries(entries).map(([path, content]) => [path, strToU8(content)])),
+  });
+}
+
+describe('processDocx', () => {
+  it('extracts paragraphs separated by blank lines', async () => {
+    const buffer = createDocx(
+      '<w:p><w:r><w:t>Il congiuntivo</w:t></w:r></w:p>'
+      + '<w:p/>'
+      + '<w:p><w:r><w:t xml:space="preserve">Penso che sia </w:t></w:r><w:r><w:t>giusto &amp; utile.</w:t></w:r></w:p>',
+    );
+    const result = await processDocx(buffer);
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('Il congiuntivo\n\nPenso che sia giusto & utile.');
+  });
+
+  it('keeps table cell paragraphs and line breaks', async () => {
+    const buffer = createDocx(
+      '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>io</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>sia</w:t><w:br/><w:t>fossi</w:t></w:r></w:p></w:tc></w:tr></w:tbl>',
+    );
+    const result = await processDocx(buffer);
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('io\n\nsia\nfossi');
+  });
+
+  it('returns NO_TEXT for a document without text', async () => {
+    const result = await processDocx(createDocx('<w:p/>'));
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('NO_TEXT');
+  });
+
+  it('returns VALIDATION_FAILED for a ZIP that is not a Word document', async () => {
+    const buffer = zipSync({ 'notes.txt': strToU8('Appunti di grammatica') });
+    const result = await processDocx(buffer);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+    expect(result.error).toBe('File type detection failed');
+  });
+
+  it('returns VALIDATION_FAILED for non-ZIP content', async () => {
+    const result = await processDocx(strToU8('%PDF-1.4 not a docx'));
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+    expect(result.error).toBe('Invalid DOCX header');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * DOCX text extraction.
+ * Reads paragraph text from the main document part of a Word package.
+ */
+
+import type { Buffer } from 'node:buffer';
+
+import { DOMParser } from 'linkedom';
+
+import {
+  DOCX_MAX_SIZE_BYTES,
+  DOCX_MAX_UNCOMPRESSED_BYTES,
+  DOCX_MIN_TEXT_LENGTH,
+  DOCX_PARSING_TIMEOUT_MS,
+} from './DocxConfig';
+import { createExtractionDeadline, ExtractionTimeoutError } from './ExtractionDeadline';
+import { readZipTextEntries, validateZipPackage, ZipSizeLimitError } from './ZipArchive';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOCUMENT_PART_PATH = 'word/document.xml';
+const ELEMENT_NODE = 1;
+
+// Paragraphs checked between deadline checks
+const PARAGRAPHS_PER_DEADLINE_CHECK = 200;
+
+export type DocxExtractionResult = {
+  success: true;
+  text: string;
+  error?: undefined;
+  errorCode?: undefined;
+} | {
+  success: false;
+  text?: undefined;
+  error: string;
+  errorCode: 'NO_TEXT' | 'EXTRACTION_FAILED' | 'TIMEOUT' | 'VALIDATION_FAILED';
+};
+
+/**
+ * Collects visible run text of a paragraph.
+ * Nested paragraphs (text boxes) are skipped here because they are visited on their own.
+ * @param node - Paragraph or run container
+ * @param parts - Output text fragments
+ */
+function collectRunText(node: Node, parts: string[]) {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== ELEMENT_NODE) {
+      continue;
+    }
+
+    switch ((child as Element).tagName) {
+      case 'w:t':
+        parts.push(child.textContent ?? '');
+        break;
+      case 'w:tab':
+        parts.push('\t');
+        break;
+      case 'w:br':
+      case 'w:cr':
+        parts.push('\n');
+        break;
+      case 'w:p':
+        break;
+      default:
+        collectRunText(child, parts);
+    }
+  }
+}
+
+/**
+ * Extracts text from a validated DOCX buffer.
+ * @param buffer - Raw DOCX file buffer
+ * @returns Extraction result with text or error details
+ */
+function extractDocxText(buffer: Buffer | Uint8Array): DocxExtractionResult {
+  const checkDeadline = createExtractionDeadline(DOCX_PARSING_TIMEOUT_MS);
+
+  try {
+    const entries = readZipTextEntries(buffer, {
+      include: path => path === DOCUMENT_PART_PATH,
+      maxUncompressedBytes: DOCX_MAX_UNCOMPRESSED_BYTES,
+    });
+
+    const documentXml = entries.get(DOCUMENT_PART_PATH);
+    if (!documentXml) {
+      return {
+        success: false,
+        error: 'Word document has no main document part.',
+        errorCode: 'EXTRACTION_FAILED',
+      };
+    }
+
+    checkDeadline();
+    const document = new DOMParser().parseFromString(documentXml, 'text/xml');
+    const paragraphs: string[] = [];
+
+    for (const [index, paragraph] of Array.from(document.getElementsByTagName('w:p')).entries()) {
+      if (index % PARAGRAPHS_PER_DEADLINE_CHECK === 0) {
+        checkDeadline();
+      }
+
+      const parts: string[] = [];
+      collectRunText(paragraph, parts);
+
+      const text = parts.join('').trim();
+      if (text.length > 0) {
+        paragraphs.push(text);
+      }
+    }
+
+    const text = paragraphs.join('\n\n');
+
+    if (text.length < DOCX_MIN_TEXT_LENGTH) {
+      return {
+        success: false,
+        error: 'No text could be extracted from this Word document.',
+        errorCode: 'NO_TEXT',
+      };
+    }
+
+    return { success: true, text };
+  } catch (error) {
+    if (error instanceof ExtractionTimeoutError) {
+      return {
+        success: false,
+        error: 'Word document parsing timed out.',
+        errorCode: 'TIMEOUT',
+      };
+    }
+
+    if (error instanceof ZipSizeLimitError) {
+      return {
+        success: false,
+        error: 'Word document content exceeds the size limit.',
+        errorCode: 'VALIDATION_FAILED',
+      };
+    }
+
+    return {
+      success: false,
+      error: 'Failed to extract text from Word document.',
+      errorCode: 'EXTRACTION_FAILED',
+    };
+  }
+}
+
+/**
+ * Validates and extracts text from a DOCX buffer.
+ * @param buffer - Raw DOCX file buffer
+ * @returns Extraction result with text or error details
+ */
+export async function processDocx(
+  buffer: Buffer | Uint8Array,
+): Promise<DocxExtractionResult> {
+  const validation = await validateZipPackage(buffer, {
+    mime: DOCX_MIME,
+    label: 'DOCX',
+    maxSizeBytes: DOCX_MAX_SIZE_BYTES,
+  });
+
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: validation.error ?? 'Invalid Word document.',
+      errorCode: 'VALIDATION_FAILED',
+    };
+  }
+
+  return extractDocxText(buffer);
+}
@@ -1,7 +1,13 @@
 /**
  * Shared embedding configuration.
  * Keep model and vector dimensions in one place to avoid mismatches.
+ * The dimension must match the embedding model: mistral-embed returns 1024
+ * values, self-hosted models often 384 or 768. The vector store is created
+ * with it, so changing it later means rebuilding the index and re-ingesting.
  */
 
+import { Env } from './Env';
+
 export const EMBEDDING_MODEL = 'mistral-embed';
-export const EMBEDDING_DIMENSION = 1024;
+export const DEFAULT_EMBEDDING_DIMENSION = 1024;
+export const EMBEDDING_DIMENSION = Env.EMBEDDING_DIMENSION ?? DEFAULT_EMBEDDING_DIMENSION;
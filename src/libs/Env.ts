@@ -9,11 +9,26 @@ export const Env = createEnv({
     CRON_SECRET: z.string().min(1).optional(),
     DATABASE_URL: z.string().min(1),
     PINECONE_API_KEY: z.string().min(1).optional(),
+    VECTOR_STORE: z.enum(['pinecone', 'pgvector', 'memory']).optional(),
     MISTRAL_API_KEY: z.string().min(1).optional(),
+    LLM_PROVIDER: z.enum(['mistral', 'openai_compatible', 'fixture']).optional(),
+    EMBEDDING_PROVIDER: z.enum(['mistral', 'openai_compatible', 'fixture']).optional(),
+    LLM_CHAT_MODEL: z.string().min(1).optional(),
+    LLM_GENERATION_MODEL: z.string().min(1).optional(),
+    LLM_EVALUATION_MODEL: z.string().min(1).optional(),
+    EMBEDDING_MODEL: z.string().min(1).optional(),
+    // pgvector indexes (HNSW) accept at most 2000 dimensions
+    EMBEDDING_DIMENSION: z.coerce.number().int().positive().max(2000).optional(),
+    OPENAI_COMPATIBLE_BASE_URL: z.url().optional(),
+    OPENAI_COMPATIBLE_API_KEY: z.string().min(1).optional(),
+    LLM_FIXTURES_PATH: z.string().min(1).optional(),
     MISTRAL_CHAT_REQUEST_DELAY_MS: z.coerce.number().int().nonnegative().optional(),
     GENERATION_DISPATCH_TOKEN: z.string().min(1).optional(),
     GENERATION_PENDING_STALE_MS: z.coerce.number().int().positive().optional(),
     GENERATION_PROCESSING_STALE_MS: z.coerce.number().int().positive().optional(),
+    INGESTION_DISPATCH_TOKEN: z.string().min(1).optional(),
+    INGESTION_PENDING_STALE_MS: z.coerce.number().int().positive().optional(),
+    INGESTION_PROCESSING_STALE_MS: z.coerce.number().int().positive().optional(),
     MISTRAL_EMBEDDING_BATCH_DELAY_MS: z.coerce.number().int().nonnegative().optional(),
     UPLOAD_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().optional(),
     UPLOAD_RATE_LIMIT_WINDOW_SECONDS: z.coerce.number().int().positive().optional(),
@@ -43,11 +58,25 @@ export const Env = createEnv({
     CRON_SECRET: process.env.CRON_SECRET,
     DATABASE_URL: process.env.DATABASE_URL,
     PINECONE_API_KEY: process.env.PINECONE_API_KEY,
+    VECTOR_STORE: process.env.VECTOR_STORE,
     MISTRAL_API_KEY: process.env.MISTRAL_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    LLM_CHAT_MODEL: process.env.LLM_CHAT_MODEL,
+    LLM_GENERATION_MODEL: process.env.LLM_GENERATION_MODEL,
+    LLM_EVALUATION_MODEL: process.env.LLM_EVALUATION_MODEL,
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+    EMBEDDING_DIMENSION: process.env.EMBEDDING_DIMENSION,
+    OPENAI_COMPATIBLE_BASE_URL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    OPENAI_COMPATIBLE_API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY,
+    LLM_FIXTURES_PATH: process.env.LLM_FIXTURES_PATH,
     MISTRAL_CHAT_REQUEST_DELAY_MS: process.env.MISTRAL_CHAT_REQUEST_DELAY_MS,
     GENERATION_DISPATCH_TOKEN: process.env.GENERATION_DISPATCH_TOKEN,
     GENERATION_PENDING_STALE_MS: process.env.GENERATION_PENDING_STALE_MS,
     GENERATION_PROCESSING_STALE_MS: process.env.GENERATION_PROCESSING_STALE_MS,
+    INGESTION_DISPATCH_TOKEN: process.env.INGESTION_DISPATCH_TOKEN,
+    INGESTION_PENDING_STALE_MS: process.env.INGESTION_PENDING_STALE_MS,
+    INGESTION_PROCESSING_STALE_MS: process.env.INGESTION_PROCESSING_STALE_MS,
     MISTRAL_EMBEDDING_BATCH_DELAY_MS: process.env.MISTRAL_EMBEDDING_BATCH_DELAY_MS,
     UPLOAD_RATE_LIMIT_MAX_REQUESTS: process.env.UPLOAD_RATE_LIMIT_MAX_REQUESTS,
     UPLOAD_RATE_LIMIT_WINDOW_SECONDS: process.env.UPLOAD_RATE_LIMIT_WINDOW_SECONDS,
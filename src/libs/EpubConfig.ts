@@ -0,0 +1,19 @@
+/**
+ * EPUB processing configuration constants.
+ * Centralized limits for security, performance, and resource management.
+ */
+
+/** Maximum EPUB file size in bytes (20MB) */
+export const EPUB_MAX_SIZE_BYTES = 20 * 1024 * 1024;
+
+/** Maximum total uncompressed size of the archive entries read (100MB, zip bomb guard) */
+export const EPUB_MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+/** Maximum number of spine chapters allowed for extraction */
+export const EPUB_MAX_CHAPTER_COUNT = 200;
+
+/** Timeout for EPUB parsing operations in milliseconds (30 seconds) */
+export const EPUB_PARSING_TIMEOUT_MS = 30_000;
+
+/** Minimum text length to consider extraction successful */
+export const EPUB_MIN_TEXT_LENGTH = 10;
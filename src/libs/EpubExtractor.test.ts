@@ -0,0 +1,109 @@
+import { strToU8, zipSync } from 'fflate';
+
+import { describe, expect, it } from 'vitest';
+
+import { processEpub } from './EpubExtractor';
+
+const CONTAINER_XML = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+const PACKAGE_OPF = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/" version="3.0">
+  <metadata><dc:title>Racconti brevi</dc:title></metadata>
+  <manifest>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch2" href="text/capitolo%202.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch1" href="text/capitolo1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="css" href="style.css" media-type="text/css"/>
+  </manifest>
+  <spine>
+    <itemref idref="cover" linear="no"/>
+    <itemref idref="ch1"/>
+    <itemref idref="ch2"/>
+  </spine>
+</package>`;
+
+function createChapter(heading: string, body: string) {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>${heading}</title><style>p { margin: 0; }</style></head>
+<body><h1>${heading}</h1>${body}</body></html>`;
+}
+
+// Minimal EPUB package; mimetype must be the first, uncompressed entry
+function createEpub(entries: Record<string, string> = {}) {
+  return zipSync({
+    'mimetype': [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(CONTAINER_XML),
+    'OEBPS/content.opf': strToU8(PACKAGE_OPF),
+    'OEBPS/cover.xhtml': strToU8(createChapter('Copertina', '')),
+    'OEBPS/text/capitolo1.xhtml': strToU8(createChapter('Capitolo primo', '<p>C\'era una volta un re.</p><p>Viveva in un castello.</p>')),
+    'OEBPS/text/capitolo 2.xhtml': strToU8(createChapter('Capitolo secondo', '<p>Un giorno partì.</p>')),
+    'OEBPS/style.css': strToU8('p { margin: 0; }'),
+    ...Object.fromEntries(Object.entries(entries).map(([path, content]) => [path, strToU8(content)])),
+  });
+}
+
+describe('processEpub', () => {
+  it('extracts spine chapters in reading order with their titles', async () => {
+    const result = await processEpub(createEpub());
+
+    expect(result.success).toBe(true);
+    expect(result.title).toBe('Racconti brevi');
+    expect(result.chapters).toEqual([
+      {
+        title: 'Capitolo primo',
+        text: 'Capitolo primo\n\nC\'era una volta un re.\n\nViveva in un castello.',
+      },
+      {
+        title: 'Capitolo secondo',
+        text: 'Capitolo secondo\n\nUn giorno partì.',
+      },
+    ]);
+    expect(result.text).toBe(result.chapters?.map(chapter => chapter.text).join('\n\n'));
+  });
+
+  it('rejects DRM-protected EPUBs', async () => {
+    const buffer = createEpub({
+      'META-INF/encryption.xml': `<?xml version="1.0"?>
+<encryption xmlns="urn:oasis:names:tc:opendocument:xmlns:container" xmlns:enc="http://www.w3.org/2001/04/xmlenc#">
+  <EncryptedData xmlns="http://www.w3.org/2001/04/xmlenc#"><EncryptionMethod Algorithm="http://www.w3.org/2001/04/xmlenc#aes128-cbc"/></EncryptedData>
+</encryption>`,
+    });
+    const result = await processEpub(buffer);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('DRM_PROTECTED');
+  });
+
+  it('accepts EPUBs that only obfuscate embedded fonts', async () => {
+    const buffer = createEpub({
+      'META-INF/encryption.xml': `<?xml version="1.0"?>
+<encryption xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <EncryptedData xmlns="http://www.w3.org/2001/04/xmlenc#"><EncryptionMethod Algorithm="http://www.idpf.org/2008/embedding"/></EncryptedData>
+</encryption>`,
+    });
+    const result = await processEpub(buffer);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('returns EXTRACTION_FAILED when the container has no package document', async () => {
+    const buffer = createEpub({
+      'META-INF/container.xml': '<?xml version="1.0"?><container><rootfiles/></container>',
+    });
+    const result = await processEpub(buffer);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('EXTRACTION_FAILED');
+  });
+
+  it('returns VALIDATION_FAILED for a ZIP without the EPUB mimetype', async () => {
+    const buffer = zipSync({ 'chapter.xhtml': strToU8(createChapter('Capitolo', '<p>Testo</p>')) });
+    const result = await processEpub(buffer);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * EPUB text extraction.
+ * Follows the package spine so chapters are returned in reading order, each
+ * as its own section, keeping chapter boundaries intact for chunking.
+ */
+
+import type { Buffer } from 'node:buffer';
+
+import path from 'node:path';
+
+import { DOMParser } from 'linkedom';
+
+import {
+  EPUB_MAX_CHAPTER_COUNT,
+  EPUB_MAX_SIZE_BYTES,
+  EPUB_MAX_UNCOMPRESSED_BYTES,
+  EPUB_MIN_TEXT_LENGTH,
+  EPUB_PARSING_TIMEOUT_MS,
+} from './EpubConfig';
+import { createExtractionDeadline, ExtractionTimeoutError } from './ExtractionDeadline';
+import { extractHtmlText } from './MarkupExtractor';
+import { readZipTextEntries, validateZipPackage, ZipSizeLimitError } from './ZipArchive';
+
+const EPUB_MIME = 'application/epub+zip';
+const CONTAINER_PATH = 'META-INF/container.xml';
+const ENCRYPTION_PATH = 'META-INF/encryption.xml';
+const CHAPTER_MEDIA_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+// Font obfuscation algorithms; any other encryption method means DRM-protected content
+const FONT_OBFUSCATION_ALGORITHMS = new Set([
+  'http://www.idpf.org/2008/embedding',
+  'http://ns.adobe.com/pdf/enc#RC',
+]);
+
+export type EpubChapter = {
+  title: string | null;
+  text: string;
+};
+
+export type EpubExtractionResult = {
+  success: true;
+  text: string;
+  title: string | null;
+  chapters: EpubChapter[];
+  error?: undefined;
+  errorCode?: undefined;
+} | {
+  success: false;
+  text?: undefined;
+  title?: undefined;
+  chapters?: undefined;
+  error: string;
+  errorCode: 'DRM_PROTECTED' | 'NO_TEXT' | 'EXTRACTION_FAILED' | 'CHAPTER_LIMIT_EXCEEDED' | 'TIMEOUT' | 'VALIDATION_FAILED';
+};
+
+class EpubStructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EpubStructureError';
+  }
+}
+
+function parseXml(xml: string) {
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
+
+function isDrmProtected(encryptionXml: string | undefined) {
+  if (!encryptionXml) {
+    return false;
+  }
+
+  return Array.from(parseXml(encryptionXml).getElementsByTagName('EncryptionMethod'))
+    .some(method => !FONT_OBFUSCATION_ALGORITHMS.has(method.getAttribute('Algorithm') ?? ''));
+}
+
+/**
+ * Resolves the spine of an OPF package to archive paths of its chapters.
+ * @param opfXml - Package document source
+ * @param opfPath - Archive path of the package document
+ * @returns Book title and chapter paths in reading order
+ */
+function readPackageSpine(opfXml: string, opfPath: string) {
+  const opf = parseXml(opfXml);
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+
+    if (id && href) {
+      manifest.set(id, { href, mediaType: item.getAttribute('media-type') ?? '' });
+    }
+  }
+
+  const chapterPaths: string[] = [];
+
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+
+    if (!item || !CHAPTER_MEDIA_TYPES.has(item.mediaType) || itemref.getAttribute('linear') === 'no') {
+      continue;
+    }
+
+    const href = decodeURIComponent(item.href.split('#')[0] ?? '');
+    const chapterPath = path.posix.normalize(path.posix.join(path.posix.dirname(opfPath), href));
+
+    if (!chapterPaths.includes(chapterPath)) {
+      chapterPaths.push(chapterPath);
+    }
+  }
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || null;
+
+  return { title, chapterPaths };
+}
+
+/**
+ * Extracts chapter text from a validated EPUB buffer.
+ * @param buffer - Raw EPUB file buffer
+ * @returns Extraction result with chapters or error details
+ */
+function extractEpubText(buffer: Buffer | Uint8Array): EpubExtractionResult {
+  const checkDeadline = createExtractionDeadline(EPUB_PARSING_TIMEOUT_MS);
+
+  try {
+    const metaEntries = readZipTextEntries(buffer, {
+      include: entryPath => entryPath === CONTAINER_PATH || entryPath === ENCRYPTION_PATH,
+      maxUncompressedBytes: EPUB_MAX_UNCOMPRESSED_BYTES,
+    });
+
+    if (isDrmProtected(metaEntries.get(ENCRYPTION_PATH))) {
+      return {
+        success: false,
+        error: 'DRM-protected EPUBs are not supported.',
+        errorCode: 'DRM_PROTECTED',
+      };
+    }
+
+    const containerXml = metaEntries.get(CONTAINER_PATH);
+    const opfPath = containerXml
+      ? parseXml(containerXml).getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+      : null;
+
+    if (!opfPath) {
+      throw new EpubStructureError('EPUB container has no package document');
+    }
+
+    const opfXml = readZipTextEntries(buffer, {
+      include: entryPath => entryPath === opfPath,
+      maxUncompressedBytes: EPUB_MAX_UNCOMPRESSED_BYTES,
+    }).get(opfPath);
+
+    if (!opfXml) {
+      throw new EpubStructureError('EPUB package document is missing');
+    }
+
+    checkDeadline();
+    const { title, chapterPaths } = readPackageSpine(opfXml, opfPath);
+
+    if (chapterPaths.length > EPUB_MAX_CHAPTER_COUNT) {
+      return {
+        success: false,
+        error: `EPUB exceeds ${EPUB_MAX_CHAPTER_COUNT} chapter limit.`,
+        errorCode: 'CHAPTER_LIMIT_EXCEEDED',
+      };
+    }
+
+    const wantedPaths = new Set(chapterPaths);
+    const chapterEntries = readZipTextEntries(buffer, {
+      include: entryPath => wantedPaths.has(entryPath),
+      maxUncompressedBytes: EPUB_MAX_UNCOMPRESSED_BYTES,
+    });
+
+    const chapters: EpubChapter[] = [];
+
+    for (const chapterPath of chapterPaths) {
+      checkDeadline();
+
+      const chapterHtml = chapterEntries.get(chapterPath);
+      if (!chapterHtml) {
+        continue;
+      }
+
+      const chapter = extractHtmlText(chapterHtml);
+      if (chapter.text.length > 0) {
+        chapters.push(chapter);
+      }
+    }
+
+    const text = chapters.map(chapter => chapter.text).join('\n\n');
+
+    if (text.length < EPUB_MIN_TEXT_LENGTH) {
+      return {
+        success: false,
+        error: 'No text could be extracted from this EPUB.',
+        errorCode: 'NO_TEXT',
+      };
+    }
+
+    return {
+      success: true,
+      text,
+      title,
+      chapters,
+    };
+  } catch (error) {
+    if (error instanceof ExtractionTimeoutError) {
+      return {
+        success: false,
+        error: 'EPUB parsing timed out.',
+        errorCode: 'TIMEOUT',
+      };
+    }
+
+    if (error instanceof ZipSizeLimitError) {
+      return {
+        success: false,
+        error: 'EPUB content exceeds the size limit.',
+        errorCode: 'VALIDATION_FAILED',
+      };
+    }
+
+    return {
+      success: false,
+      error: 'Failed to extract text from EPUB.',
+      errorCode: 'EXTRACTION_FAILED',
+    };
+  }
+}
+
+/**
+ * Validates and extracts chapter text from an EPUB buffer.
+ * @param buffer - Raw EPUB file buffer
+ * @returns Extraction result with chapters or error details
+ */
+export async function processEpub(
+  buffer: Buffer | Uint8Array,
+): Promise<EpubExtractionResult> {
+  const validation = await validateZipPackage(buffer, {
+    mime: EPUB_MIME,
+    label: 'EPUB',
+    maxSizeBytes: EPUB_MAX_SIZE_BYTES,
+  });
+
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: validation.error ?? 'Invalid EPUB file.',
+      errorCode: 'VALIDATION_FAILED',
+    };
+  }
+
+  return extractEpubText(buffer);
+}
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+const mockInsertValues = vi.fn();
+
+vi.mock('./DB', () => ({
+  db: {
+    select: mockSelect,
+    update: vi.fn(() => ({
+      set: vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(async () => []),
+        })),
+      })),
+    })),
+    insert: vi.fn(() => ({
+      values: mockInsertValues,
+    })),
+  },
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const readyDocumentId = '550e8400-e29b-41d4-a716-446655440010';
+const deletedDocumentId = '550e8400-e29b-41d4-a716-446655440011';
+const readyChunkId = '550e8400-e29b-41d4-a716-446655440050';
+const deletedChunkId = '550e8400-e29b-41d4-a716-446655440051';
+
+function mockMistakeRows(rows: Array<Record<string, unknown>>) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      innerJoin: vi.fn(() => ({
+        where: vi.fn(() => ({
+          orderBy: vi.fn(() => ({
+            limit: vi.fn(async () => rows),
+          })),
+        })),
+      })),
+    })),
+  });
+}
+
+function mockReadyDocuments(ids: string[]) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(async () => ids.map(id => ({ id }))),
+    })),
+  });
+}
+
+describe('enqueueMistakePracticeGeneration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInsertValues.mockReturnValue({
+      returning: vi.fn(async () => [{ id: 'job-1' }]),
+    });
+  });
+
+  it('queues a job focused on recent mistakes from ready documents', async () => {
+    mockMistakeRows([
+      {
+        suggestedReview: ['preposizioni articolate', 'passato prossimo'],
+        corrections: ['a il mercato → al mercato'],
+        sourceChunkIds: [readyChunkId],
+        sourceDocumentIds: [readyDocumentId],
+      },
+      {
+        suggestedReview: ['preposizioni articolate'],
+        corrections: null,
+        sourceChunkIds: [readyChunkId],
+        sourceDocumentIds: [readyDocumentId],
+      },
+      {
+        suggestedReview: ['congiuntivo'],
+        corrections: ['sia → fosse'],
+        sourceChunkIds: [deletedChunkId],
+        sourceDocumentIds: [deletedDocumentId],
+      },
+    ]);
+    mockReadyDocuments([readyDocumentId]);
+
+    const { enqueueMistakePracticeGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueMistakePracticeGeneration({
+      userId: 'user-1',
+      request: { mode: 'mistakes', exerciseType: 'fill_gap', count: 3 },
+    });
+
+    expect(result).toEqual({ success: true, jobId: 'job-1' });
+    expect(mockInsertValues).toHaveBeenCalledWith(expect.objectContaining({
+      exerciseType: 'fill_gap',
+      documentIds: [readyDocumentId],
+      requestedCount: 3,
+      topicFocus: null,
+      mistakeFocus: {
+        chunkIds: [readyChunkId],
+        reviewTopics: ['preposizioni articolate', 'passato prossimo'],
+        corrections: ['a il mercato → al mercato'],
+      },
+    }));
+  });
+
+  it('reports when there is nothing to practise', async () => {
+    mockMistakeRows([]);
+
+    const { enqueueMistakePracticeGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueMistakePracticeGeneration({
+      userId: 'user-1',
+      request: { mode: 'mistakes', exerciseType: 'fill_gap', count: 3 },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errorCode: 'NO_MISTAKES',
+      error: 'No low-scoring responses to practise',
+    });
+    expect(mockInsertValues).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests that do not add up', async () => {
+    const { enqueueMistakePracticeGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueMistakePracticeGeneration({
+      userId: 'user-1',
+      request: { mode: 'mistakes', typeCounts: { fill_gap: 2 }, count: 3 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(mockSelect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+const mockInsertValues = vi.fn();
+
+vi.mock('./DB', () => ({
+  db: {
+    select: mockSelect,
+    update: vi.fn(() => ({
+      set: vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(async () => []),
+        })),
+      })),
+    })),
+    insert: vi.fn(() => ({
+      values: mockInsertValues,
+    })),
+  },
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const documentId = '550e8400-e29b-41d4-a716-446655440010';
+
+function mockReadyDocument() {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(async () => [{ id: documentId, status: 'ready' }]),
+    })),
+  });
+}
+
+function mockChunksWithoutOffsets(rows: Array<Record<string, unknown>>) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        limit: vi.fn(async () => rows),
+      })),
+    })),
+  });
+}
+
+function createRequest(passage: Record<string, unknown>) {
+  return {
+    documentIds: [documentId],
+    exerciseType: 'fill_gap',
+    count: 2,
+    passage: { documentId, ...passage },
+  };
+}
+
+describe('enqueueExerciseGeneration with a passage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInsertValues.mockReturnValue({
+      returning: vi.fn(async () => [{ id: 'job-1' }]),
+    });
+  });
+
+  it('queues a character span when the document has offsets', async () => {
+    mockReadyDocument();
+    mockChunksWithoutOffsets([]);
+
+    const { enqueueExerciseGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueExerciseGeneration({
+      userId: 'user-1',
+      request: createRequest({ kind: 'character_span', startChar: 10, endChar: 80 }),
+    });
+
+    expect(result).toEqual({ success: true, jobId: 'job-1' });
+    expect(mockInsertValues).toHaveBeenCalledWith(expect.objectContaining({
+      passage: { kind: 'character_span', documentId, startChar: 10, endChar: 80 },
+    }));
+  });
+
+  it('rejects a character span when the document was stored without offsets', async () => {
+    mockReadyDocument();
+    mockChunksWithoutOffsets([{ id: 'chunk-1' }]);
+
+    const { enqueueExerciseGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueExerciseGeneration({
+      userId: 'user-1',
+      request: createRequest({ kind: 'character_span', startChar: 10, endChar: 80 }),
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errorCode: 'PASSAGE_OFFSETS_UNAVAILABLE',
+      error: 'This document has no character offsets; select passages by chunk range instead',
+    });
+    expect(mockInsertValues).not.toHaveBeenCalled();
+  });
+
+  it('does not need offsets for a chunk range', async () => {
+    mockReadyDocument();
+
+    const { enqueueExerciseGeneration } = await import('./ExerciseGeneration');
+    const result = await enqueueExerciseGeneration({
+      userId: 'user-1',
+      request: createRequest({ kind: 'chunk_range', startPosition: 0, endPosition: 2 }),
+    });
+
+    expect(result).toEqual({ success: true, jobId: 'job-1' });
+    expect(mockSelect).toHaveBeenCalledTimes(1);
+  });
+});
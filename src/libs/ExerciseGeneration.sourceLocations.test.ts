@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+
+vi.mock('./DB', () => ({
+  db: {
+    select: mockSelect,
+  },
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function mockSourceRows(rows: Array<Record<string, unknown>>) {
+  mockSelect.mockReturnValue({
+    from: vi.fn(() => ({
+      innerJoin: vi.fn(() => ({
+        where: vi.fn(() => ({
+          orderBy: vi.fn(async () => rows),
+        })),
+      })),
+    })),
+  });
+}
+
+describe('listSourceLocationsForExercises', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('merges overlapping page ranges and keeps scene timestamps', async () => {
+    mockSourceRows([
+      { exerciseId: 'exercise-1', startPage: 42, endPage: 43, startMs: null, endMs: null },
+      { exerciseId: 'exercise-1', startPage: 43, endPage: 44, startMs: null, endMs: null },
+      { exerciseId: 'exercise-1', startPage: 50, endPage: 50, startMs: null, endMs: null },
+      { exerciseId: 'exercise-2', startPage: null, endPage: null, startMs: 62500, endMs: 71000 },
+    ]);
+
+    const { listSourceLocationsForExercises } = await import('./ExerciseGeneration');
+    const result = await listSourceLocationsForExercises('user-1', ['exercise-1', 'exercise-2', 'exercise-3']);
+
+    expect(result.get('exercise-1')).toEqual([
+      { kind: 'pages', startPage: 42, endPage: 44 },
+      { kind: 'pages', startPage: 50, endPage: 50 },
+    ]);
+    expect(result.get('exercise-2')).toEqual([{ kind: 'timestamp', startMs: 62500, endMs: 71000 }]);
+    expect(result.has('exercise-3')).toBe(false);
+  });
+
+  it('skips the query when no exercises are requested', async () => {
+    const { listSourceLocationsForExercises } = await import('./ExerciseGeneration');
+    const result = await listSourceLocationsForExercises('user-1', []);
+
+    expect(result.size).toBe(0);
+    expect(mockSelect).not.toHaveBeenCalled();
+  });
+});
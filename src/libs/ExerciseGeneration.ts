@@ -1,11 +1,19 @@
-import type { GeneratedExercise } from '@/validations/ExerciseValidation';
-import { and, count, desc, eq, inArray, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import type {
+  Difficulty,
+  ExerciseType,
+  ExerciseTypeCounts,
+  GeneratedExercise,
+  GenerationPassage,
+  GenerationTypeProgress,
+  MistakeFocus,
+} from '@/validations/ExerciseValidation';
+import type { ExerciseSourceLocation } from '@/validations/ResponseValidation';
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, or, sql } from 'drizzle-orm';
 import { ZodError } from 'zod';
 import { db } from '@/libs/DB';
 import { Env } from '@/libs/Env';
+import { createEmbeddings, createJsonChatCompletion, createStructuredChatCompletion } from '@/libs/Llm';
 import { logger } from '@/libs/Logger';
-import { createEmbeddings, createJsonChatCompletion, createStructuredChatCompletion } from '@/libs/Mistral';
-import { getNamespacedIndex } from '@/libs/Pinecone';
 import {
   chunksSchema,
   documentsSchema,
@@ -16,8 +24,16 @@ import {
 import {
   GeneratedExercisesResponseSchema,
   GenerateExercisesRequestSchema,
+  GenerationTypeProgressSchema,
+  getRequestedTypeCounts,
+  MistakeFocusSchema,
+  PracticeMistakesRequestSchema,
 } from '@/validations/ExerciseValidation';
+import { resolveAdaptiveDifficulties } from './AdaptiveDifficulty';
 import { buildExerciseSystemPrompt, buildExerciseUserPrompt } from './ExercisePrompts';
+import { buildConjugationExercise } from './ItalianConjugation';
+import { getVectorStore } from './VectorStore';
+import { buildVocabularyExercise, listStarredVocabulary } from './Vocabulary';
 
 const RETRIEVAL_TOP_K = 30;
 const EXCERPT_SUBSET_SIZE = 3;
@@ -28,6 +44,11 @@ const PENDING_STALE_JOB_THRESHOLD_MS = Env.GENERATION_PENDING_STALE_MS ?? 10 * 6
 const PROCESSING_STALE_JOB_THRESHOLD_MS = Env.GENERATION_PROCESSING_STALE_MS ?? 20 * 60 * 1000;
 const CHAT_REQUEST_DELAY_MS = Env.MISTRAL_CHAT_REQUEST_DELAY_MS ?? 0;
 const LOG_PAYLOAD_EXCERPT_LENGTH = 400;
+const MISTAKE_SCORE_THRESHOLD = 60;
+const MISTAKE_RESPONSE_LIMIT = 20;
+const MAX_MISTAKE_DOCUMENTS = 10;
+const MAX_MISTAKE_CHUNKS = 50;
+const MAX_MISTAKE_NOTES = 20;
 
 type GenerationCandidate = {
   documentId: string;
@@ -40,7 +61,9 @@ type GenerationFailureCode
   = | 'VALIDATION_FAILED'
     | 'DOCUMENTS_NOT_FOUND'
     | 'DOCUMENTS_NOT_READY'
+    | 'PASSAGE_OFFSETS_UNAVAILABLE'
     | 'NO_CONTENT'
+    | 'NO_MISTAKES'
     | 'GENERATION_FAILED'
     | 'JOB_NOT_FOUND';
 
@@ -61,11 +84,16 @@ type EnqueueGenerationInput = {
 type ClaimedGenerationJob = {
   id: string;
   userId: string;
-  exerciseType: 'multiple_choice' | 'fill_gap' | 'single_answer';
+  exerciseType: ExerciseType | null;
   documentIds: string[];
   requestedCount: number;
+  generatedCount: number;
+  failedCount: number;
+  typeProgress: unknown;
   difficulty: 'beginner' | 'intermediate' | 'advanced' | null;
   topicFocus: string | null;
+  passage: unknown;
+  mistakeFocus: unknown;
 };
 
 type GenerationWorkerBatchResult = {
@@ -106,6 +134,85 @@ export function isProcessingGenerationJobStale(input: {
   return baseline.getTime() < now.getTime() - PROCESSING_STALE_JOB_THRESHOLD_MS;
 }
 
+/**
+ * Resolves a generation job's per-type progress.
+ * Single-type jobs created before type tracking are derived from the job totals.
+ * @param job - Stored generation job counters.
+ * @param job.exerciseType - Single exercise type, or null for mixed-type jobs.
+ * @param job.requestedCount - Total requested exercises.
+ * @param job.generatedCount - Total generated exercises.
+ * @param job.failedCount - Total failed exercises.
+ * @param job.typeProgress - Stored per-type progress, if any.
+ * @returns Per-type progress, or null when the job has none.
+ */
+function resolveGenerationTypeProgress(job: {
+  exerciseType: ExerciseType | null;
+  requestedCount: number;
+  generatedCount: number;
+  failedCount: number;
+  typeProgress: unknown;
+}): GenerationTypeProgress | null {
+  const storedProgress = GenerationTypeProgressSchema.safeParse(job.typeProgress);
+  if (job.typeProgress && storedProgress.success) {
+    return storedProgress.data;
+  }
+
+  if (!job.exerciseType) {
+    return null;
+  }
+
+  return {
+    [job.exerciseType]: {
+      requested: job.requestedCount,
+      generated: job.generatedCount,
+      failed: job.failedCount,
+    },
+  };
+}
+
+function createTypeProgress(typeCounts: ExerciseTypeCounts) {
+  const progress: GenerationTypeProgress = {};
+  for (const [type, requested] of Object.entries(typeCounts) as Array<[ExerciseType, number]>) {
+    progress[type] = { requested, generated: 0, failed: 0 };
+  }
+
+  return progress;
+}
+
+function recordTypeOutcome(
+  progress: GenerationTypeProgress,
+  type: ExerciseType,
+  outcome: 'generated' | 'failed',
+) {
+  const entry = progress[type];
+  if (entry) {
+    entry[outcome] += 1;
+  }
+}
+
+/**
+ * Orders requested exercise types round-robin so mixed jobs alternate types.
+ * @param typeCounts - Requested count per exercise type.
+ * @returns One exercise type per exercise to generate.
+ */
+function buildExerciseTypeSequence(typeCounts: ExerciseTypeCounts) {
+  const remaining = new Map(Object.entries(typeCounts) as Array<[ExerciseType, number]>);
+  const sequence: ExerciseType[] = [];
+
+  while (remaining.size > 0) {
+    for (const [type, left] of remaining) {
+      sequence.push(type);
+      if (left <= 1) {
+        remaining.delete(type);
+      } else {
+        remaining.set(type, left - 1);
+      }
+    }
+  }
+
+  return sequence;
+}
+
 function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -285,41 +392,131 @@ async function getCandidateChunksForRequest(input: {
     return [];
   }
 
-  const index = getNamespacedIndex();
-  const queryResult = await index.query({
+  const matches = await getVectorStore().query({
     vector: queryVector,
     topK: RETRIEVAL_TOP_K,
-    includeMetadata: true,
-    includeValues: false,
     filter: {
-      user_id: { $eq: input.userId },
-      document_id: { $in: input.documentIds },
-    } as never,
+      userId: input.userId,
+      documentIds: input.documentIds,
+    },
   });
 
-  const candidates: GenerationCandidate[] = [];
-  for (const match of queryResult.matches ?? []) {
-    const metadata = match.metadata;
-    if (!metadata) {
-      continue;
+  return matches.flatMap((match): GenerationCandidate[] => {
+    if (!match.metadata.text) {
+      return [];
     }
 
-    const documentId = typeof metadata.document_id === 'string' ? metadata.document_id : null;
-    const chunkPosition = typeof metadata.chunk_position === 'number' ? metadata.chunk_position : null;
-    const content = typeof metadata.text === 'string' ? metadata.text : null;
+    return [{
+      documentId: match.metadata.document_id,
+      chunkPosition: match.metadata.chunk_position,
+      content: match.metadata.text,
+    }];
+  });
+}
+
+/**
+ * Loads the chunks covered by a learner-selected passage, in reading order.
+ * Character spans are trimmed to the selected text so generation only sees
+ * what the learner highlighted.
+ * @param passage - Selected chunk range or character span.
+ * @returns Candidate excerpts for the passage, capped at the retrieval limit.
+ */
+async function getCandidateChunksForPassage(passage: GenerationPassage) {
+  const rangeCondition = passage.kind === 'chunk_range'
+    ? and(
+        gte(chunksSchema.position, passage.startPosition),
+        lte(chunksSchema.position, passage.endPosition),
+      )
+    : and(
+        lt(chunksSchema.startChar, passage.endChar),
+        gt(chunksSchema.endChar, passage.startChar),
+      );
 
-    if (!documentId || chunkPosition === null || !content) {
-      continue;
+  const rows = await db
+    .select({
+      position: chunksSchema.position,
+      content: chunksSchema.content,
+      startChar: chunksSchema.startChar,
+    })
+    .from(chunksSchema)
+    .where(and(
+      eq(chunksSchema.documentId, passage.documentId),
+      rangeCondition,
+    ))
+    .orderBy(asc(chunksSchema.position))
+    .limit(RETRIEVAL_TOP_K);
+
+  return rows.flatMap((row): GenerationCandidate[] => {
+    let content = row.content;
+    if (passage.kind === 'character_span' && row.startChar !== null) {
+      content = content
+        .slice(
+          Math.max(0, passage.startChar - row.startChar),
+          Math.max(0, passage.endChar - row.startChar),
+        )
+        .trim();
     }
 
-    candidates.push({
-      documentId,
-      chunkPosition,
+    if (!content) {
+      return [];
+    }
+
+    return [{
+      documentId: passage.documentId,
+      chunkPosition: row.position,
       content,
-    });
+    }];
+  });
+}
+
+/**
+ * Loads candidates for a mistake-practice job: the source chunks of the
+ * low-scoring exercises first, then chunks retrieved for the review topics.
+ * @param input - Job scope, captured weaknesses and retrieval query.
+ * @param input.userId - Job owner.
+ * @param input.documentIds - Documents the failing exercises came from.
+ * @param input.mistakeFocus - Weaknesses captured when the job was queued.
+ * @param input.queryText - Retrieval query built from the review topics.
+ * @returns Deduplicated candidate excerpts, capped at the retrieval limit.
+ */
+async function getCandidateChunksForMistakes(input: {
+  userId: string;
+  documentIds: string[];
+  mistakeFocus: MistakeFocus;
+  queryText: string;
+}) {
+  const seededRows = input.mistakeFocus.chunkIds.length > 0
+    ? await db
+        .select({
+          documentId: chunksSchema.documentId,
+          position: chunksSchema.position,
+          content: chunksSchema.content,
+        })
+        .from(chunksSchema)
+        .where(and(
+          inArray(chunksSchema.id, input.mistakeFocus.chunkIds),
+          inArray(chunksSchema.documentId, input.documentIds),
+        ))
+        .limit(RETRIEVAL_TOP_K)
+    : [];
+  const retrieved = await getCandidateChunksForRequest({
+    userId: input.userId,
+    documentIds: input.documentIds,
+    queryText: input.queryText,
+  });
+
+  const candidates = new Map<string, GenerationCandidate>();
+  for (const candidate of [
+    ...seededRows.map(row => ({ documentId: row.documentId, chunkPosition: row.position, content: row.content })),
+    ...retrieved,
+  ]) {
+    const key = buildSourceReferenceKey(candidate);
+    if (!candidates.has(key)) {
+      candidates.set(key, candidate);
+    }
   }
 
-  return candidates;
+  return [...candidates.values()].slice(0, RETRIEVAL_TOP_K);
 }
 
 async function resolveChunkIds(candidates: GenerationCandidate[]) {
@@ -373,6 +570,7 @@ async function insertGeneratedExercise(input: {
       sourceChunkIds: input.chunkIds,
       sourceDocumentIds: input.documentIds,
       grammarFocus: input.topicFocus ?? null,
+      grammarTopic: generatedExercise.grammarTopic ?? null,
     })
     .returning({
       id: exercisesSchema.id,
@@ -384,6 +582,7 @@ async function insertGeneratedExercise(input: {
 async function validateDocumentsReady(input: {
   userId: string;
   documentIds: string[];
+  passage?: GenerationPassage;
 }) {
   const docs = await db
     .select({
@@ -413,6 +612,26 @@ async function validateDocumentsReady(input: {
     };
   }
 
+  // Chunks stored before character offsets were recorded cannot be matched to a span
+  if (input.passage?.kind === 'character_span') {
+    const [chunkWithoutOffsets] = await db
+      .select({ id: chunksSchema.id })
+      .from(chunksSchema)
+      .where(and(
+        eq(chunksSchema.documentId, input.passage.documentId),
+        or(isNull(chunksSchema.startChar), isNull(chunksSchema.endChar)),
+      ))
+      .limit(1);
+
+    if (chunkWithoutOffsets) {
+      return {
+        success: false,
+        errorCode: 'PASSAGE_OFFSETS_UNAVAILABLE' as const,
+        error: 'This document has no character offsets; select passages by chunk range instead',
+      };
+    }
+  }
+
   return {
     success: true,
   } as const;
@@ -435,11 +654,12 @@ async function failGenerationJob(jobId: string, errorCode: GenerationFailureCode
   });
 }
 
-async function incrementGenerationJobFailedCount(jobId: string) {
+async function incrementGenerationJobFailedCount(jobId: string, typeProgress: GenerationTypeProgress) {
   await db
     .update(generationJobsSchema)
     .set({
       failedCount: sql`${generationJobsSchema.failedCount} + 1`,
+      typeProgress,
     })
     .where(eq(generationJobsSchema.id, jobId));
 }
@@ -449,6 +669,7 @@ async function generateSingleExercise(input: {
   userPrompt: string;
 }) {
   const structured = await createStructuredChatCompletion({
+    task: 'generation',
     systemPrompt: input.systemPrompt,
     userPrompt: input.userPrompt,
     responseFormat: GeneratedExercisesResponseSchema,
@@ -479,6 +700,7 @@ async function generateSingleExerciseWithFallback(input: {
     });
 
     const content = await createJsonChatCompletion({
+      task: 'generation',
       systemPrompt: input.systemPrompt,
       userPrompt: input.userPrompt,
     });
@@ -544,8 +766,13 @@ async function claimNextGenerationJob() {
         exerciseType: generationJobsSchema.exerciseType,
         documentIds: generationJobsSchema.documentIds,
         requestedCount: generationJobsSchema.requestedCount,
+        generatedCount: generationJobsSchema.generatedCount,
+        failedCount: generationJobsSchema.failedCount,
+        typeProgress: generationJobsSchema.typeProgress,
         difficulty: generationJobsSchema.difficulty,
         topicFocus: generationJobsSchema.topicFocus,
+        passage: generationJobsSchema.passage,
+        mistakeFocus: generationJobsSchema.mistakeFocus,
       });
 
     if (!job) {
@@ -565,29 +792,71 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
     userId: job.userId,
   });
 
+  const storedTypeProgress = resolveGenerationTypeProgress(job) ?? {};
   const parsedRequest = GenerateExercisesRequestSchema.parse({
     documentIds: job.documentIds,
-    exerciseType: job.exerciseType,
+    typeCounts: Object.fromEntries(
+      Object.entries(storedTypeProgress).map(([type, progress]) => [type, progress.requested]),
+    ),
     count: job.requestedCount,
     difficulty: job.difficulty ?? undefined,
     topicFocus: job.topicFocus ?? undefined,
+    passage: job.passage ?? undefined,
   });
-
-  const retrievalQuery = parsedRequest.topicFocus
-    ? `${parsedRequest.exerciseType} ${parsedRequest.topicFocus}`
-    : `italian ${parsedRequest.exerciseType} exercise`;
-
-  const candidates = await getCandidateChunksForRequest({
-    userId: job.userId,
-    documentIds: parsedRequest.documentIds,
-    queryText: retrievalQuery,
-  });
+  const mistakeFocus = MistakeFocusSchema.nullable().parse(job.mistakeFocus ?? null);
+  const typeCounts = getRequestedTypeCounts(parsedRequest);
+  const exerciseTypeSequence = buildExerciseTypeSequence(typeCounts);
+  const typeProgress = createTypeProgress(typeCounts);
+  const requestedTypes = Object.keys(typeCounts).join(' ');
+
+  const retrievalQuery = mistakeFocus && mistakeFocus.reviewTopics.length > 0
+    ? mistakeFocus.reviewTopics.join(' ')
+    : parsedRequest.topicFocus
+      ? `${requestedTypes} ${parsedRequest.topicFocus}`
+      : `italian ${requestedTypes} exercise`;
+
+  const candidates = parsedRequest.passage
+    ? await getCandidateChunksForPassage(parsedRequest.passage)
+    : mistakeFocus
+      ? await getCandidateChunksForMistakes({
+          userId: job.userId,
+          documentIds: parsedRequest.documentIds,
+          mistakeFocus,
+          queryText: retrievalQuery,
+        })
+      : await getCandidateChunksForRequest({
+          userId: job.userId,
+          documentIds: parsedRequest.documentIds,
+          queryText: retrievalQuery,
+        });
 
   if (candidates.length === 0) {
-    await failGenerationJob(job.id, 'NO_CONTENT', 'No searchable document chunks found');
+    await failGenerationJob(
+      job.id,
+      'NO_CONTENT',
+      parsedRequest.passage ? 'No document chunks found for the selected passage' : 'No searchable document chunks found',
+    );
     return 'failed' as const;
   }
 
+  // Flashcards cite the chunk each starred term was extracted from
+  const starredVocabulary = typeCounts.vocabulary
+    ? await listStarredVocabulary({ userId: job.userId, documentIds: parsedRequest.documentIds })
+    : [];
+  const vocabularyCandidates: GenerationCandidate[] = starredVocabulary.map(item => ({
+    documentId: item.documentId,
+    chunkPosition: item.chunkPosition,
+    content: item.content,
+  }));
+
+  // Without an explicit difficulty each type follows the learner's recent scores
+  const adaptiveDifficulties = parsedRequest.difficulty
+    ? {}
+    : await resolveAdaptiveDifficulties({
+        userId: job.userId,
+        exerciseTypes: [...new Set(exerciseTypeSequence)],
+      });
+
   const systemPrompt = buildExerciseSystemPrompt();
   let generatedCount = 0;
   let failedCount = 0;
@@ -597,6 +866,8 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
   const usedSubsetKeys = new Set<string>();
 
   for (let index = 0; index < parsedRequest.count; index += 1) {
+    const exerciseType = exerciseTypeSequence[index] ?? exerciseTypeSequence[0]!;
+    const difficulty = parsedRequest.difficulty ?? adaptiveDifficulties[exerciseType];
     let generated = null;
     let generatedCandidates: GenerationCandidate[] | null = null;
     let generatedQuestionKey: string | null = null;
@@ -604,34 +875,55 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
 
     for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt += 1) {
       try {
-        const subset = selectCandidateSubset(
-          candidates,
-          index,
-          EXCERPT_SUBSET_SIZE,
-          attempt,
-          usedSubsetKeys,
-        );
-        const userPrompt = buildExerciseUserPrompt({
-          request: parsedRequest,
-          chunks: subset.map(chunk => ({
-            documentId: chunk.documentId,
-            position: chunk.chunkPosition,
-            content: chunk.content,
-          })),
-          attempt,
-          exerciseNumber: index + 1,
-          previousQuestions,
-        });
-
-        const result = await generateSingleExerciseWithFallback({
-          systemPrompt,
-          userPrompt,
-          jobId: job.id,
-          attempt,
-        });
+        const subset = exerciseType === 'vocabulary'
+          ? vocabularyCandidates
+          : selectCandidateSubset(
+              candidates,
+              index,
+              EXCERPT_SUBSET_SIZE,
+              attempt,
+              usedSubsetKeys,
+            );
+        const result = exerciseType === 'conjugation'
+          ? buildConjugationExercise({
+              chunks: subset,
+              difficulty,
+              exerciseNumber: index + 1,
+              attempt,
+            })
+          : exerciseType === 'vocabulary'
+            ? buildVocabularyExercise({
+                items: starredVocabulary,
+                exerciseNumber: index + 1,
+                attempt,
+              })
+            : await generateSingleExerciseWithFallback({
+                systemPrompt,
+                userPrompt: buildExerciseUserPrompt({
+                  request: { ...parsedRequest, difficulty },
+                  exerciseType,
+                  chunks: subset.map(chunk => ({
+                    documentId: chunk.documentId,
+                    position: chunk.chunkPosition,
+                    content: chunk.content,
+                  })),
+                  attempt,
+                  exerciseNumber: index + 1,
+                  previousQuestions,
+                  mistakeFocus: mistakeFocus ?? undefined,
+                }),
+                jobId: job.id,
+                attempt,
+              });
+
+        if (!result) {
+          throw new Error(exerciseType === 'vocabulary'
+            ? 'No starred vocabulary found in the selected documents'
+            : 'No conjugable verbs found in the selected excerpts');
+        }
 
-        if (result.type !== parsedRequest.exerciseType) {
-          throw new Error(`Generated type "${result.type}" does not match requested "${parsedRequest.exerciseType}"`);
+        if (result.type !== exerciseType) {
+          throw new Error(`Generated type "${result.type}" does not match requested "${exerciseType}"`);
         }
 
         const questionKey = normalizeGeneratedQuestion(result.question);
@@ -671,21 +963,23 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
 
     if (!generated) {
       failedCount += 1;
-      await incrementGenerationJobFailedCount(job.id);
+      recordTypeOutcome(typeProgress, exerciseType, 'failed');
+      await incrementGenerationJobFailedCount(job.id, typeProgress);
       continue;
     }
 
     const chunkIds = await resolveChunkIds(generatedCandidates ?? []);
     if (!generatedCandidates || chunkIds.length !== generatedCandidates.length) {
       failedCount += 1;
-      await incrementGenerationJobFailedCount(job.id);
+      recordTypeOutcome(typeProgress, exerciseType, 'failed');
+      await incrementGenerationJobFailedCount(job.id, typeProgress);
       continue;
     }
 
     const insertedExerciseId = await insertGeneratedExercise({
       userId: job.userId,
       generated,
-      difficulty: parsedRequest.difficulty,
+      difficulty,
       topicFocus: parsedRequest.topicFocus,
       chunkIds,
       documentIds: [...new Set((generatedCandidates ?? []).map(candidate => candidate.documentId))],
@@ -693,11 +987,13 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
 
     if (!insertedExerciseId) {
       failedCount += 1;
-      await incrementGenerationJobFailedCount(job.id);
+      recordTypeOutcome(typeProgress, exerciseType, 'failed');
+      await incrementGenerationJobFailedCount(job.id, typeProgress);
       continue;
     }
 
     generatedCount += 1;
+    recordTypeOutcome(typeProgress, exerciseType, 'generated');
     exerciseIds.push(insertedExerciseId);
     previousQuestions.push(generated.question);
     if (generatedQuestionKey) {
@@ -712,6 +1008,7 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
       .set({
         generatedCount: sql`${generationJobsSchema.generatedCount} + 1`,
         exerciseIds: sql`array_append(${generationJobsSchema.exerciseIds}, ${insertedExerciseId}::uuid)`,
+        typeProgress,
       })
       .where(eq(generationJobsSchema.id, job.id));
 
@@ -730,6 +1027,7 @@ async function runClaimedGenerationJob(job: ClaimedGenerationJob) {
       generatedCount,
       failedCount,
       exerciseIds,
+      typeProgress,
     })
     .where(eq(generationJobsSchema.id, job.id));
 
@@ -903,6 +1201,61 @@ export function kickGenerationWorker(userId?: string) {
   triggerLocalGenerationWorker({ userId });
 }
 
+async function queueGenerationJob(input: {
+  userId: string;
+  documentIds: string[];
+  typeCounts: ExerciseTypeCounts;
+  count: number;
+  difficulty: Difficulty | undefined;
+  topicFocus?: string;
+  passage?: GenerationPassage;
+  mistakeFocus?: MistakeFocus;
+}): Promise<EnqueueGenerationResult> {
+  const requestedTypes = Object.keys(input.typeCounts) as ExerciseType[];
+
+  const [job] = await db
+    .insert(generationJobsSchema)
+    .values({
+      userId: input.userId,
+      status: 'pending',
+      exerciseType: requestedTypes.length === 1 ? requestedTypes[0] : null,
+      documentIds: input.documentIds,
+      requestedCount: input.count,
+      generatedCount: 0,
+      failedCount: 0,
+      typeProgress: createTypeProgress(input.typeCounts),
+      exerciseIds: [],
+      difficulty: input.difficulty ?? null,
+      topicFocus: input.topicFocus ?? null,
+      passage: input.passage ?? null,
+      mistakeFocus: input.mistakeFocus ?? null,
+      errorMessage: null,
+    })
+    .returning({
+      id: generationJobsSchema.id,
+    });
+
+  if (!job?.id) {
+    return {
+      success: false,
+      errorCode: 'GENERATION_FAILED',
+      error: 'Failed to enqueue generation job',
+    };
+  }
+
+  logger.info('generation_job_queued', {
+    jobId: job.id,
+    userId: input.userId,
+    requestedCount: input.count,
+    typeCounts: input.typeCounts,
+  });
+
+  return {
+    success: true,
+    jobId: job.id,
+  };
+}
+
 /**
  * Enqueues an exercise generation job and starts async processing.
  * @param input - User scope and request payload.
@@ -921,6 +1274,7 @@ export async function enqueueExerciseGeneration(input: EnqueueGenerationInput):
   const documentValidation = await validateDocumentsReady({
     userId: input.userId,
     documentIds: parsedRequest.data.documentIds,
+    passage: parsedRequest.data.passage,
   });
   if (!documentValidation.success) {
     return {
@@ -932,44 +1286,116 @@ export async function enqueueExerciseGeneration(input: EnqueueGenerationInput):
 
   await recoverStaleGenerationJobs(input.userId);
 
-  const [job] = await db
-    .insert(generationJobsSchema)
-    .values({
-      userId: input.userId,
-      status: 'pending',
-      exerciseType: parsedRequest.data.exerciseType,
-      documentIds: parsedRequest.data.documentIds,
-      requestedCount: parsedRequest.data.count,
-      generatedCount: 0,
-      failedCount: 0,
-      exerciseIds: [],
-      difficulty: parsedRequest.data.difficulty ?? null,
-      topicFocus: parsedRequest.data.topicFocus ?? null,
-      errorMessage: null,
+  return queueGenerationJob({
+    userId: input.userId,
+    documentIds: parsedRequest.data.documentIds,
+    typeCounts: getRequestedTypeCounts(parsedRequest.data),
+    count: parsedRequest.data.count,
+    difficulty: parsedRequest.data.difficulty,
+    topicFocus: parsedRequest.data.topicFocus,
+    passage: parsedRequest.data.passage,
+  });
+}
+
+function uniqueValues(values: string[]) {
+  return [...new Set(values)];
+}
+
+/**
+ * Gathers the weaknesses behind the learner's recent low-scoring responses.
+ * Only responses whose source documents are still ready are considered.
+ * @param userId - Learner user ID.
+ * @returns Source documents and captured weaknesses, or null when there is nothing to practise.
+ */
+async function collectMistakeFocus(userId: string) {
+  const mistakes = await db
+    .select({
+      suggestedReview: responsesSchema.suggestedReview,
+      corrections: responsesSchema.corrections,
+      sourceChunkIds: exercisesSchema.sourceChunkIds,
+      sourceDocumentIds: exercisesSchema.sourceDocumentIds,
     })
-    .returning({
-      id: generationJobsSchema.id,
-    });
+    .from(responsesSchema)
+    .innerJoin(exercisesSchema, eq(exercisesSchema.id, responsesSchema.exerciseId))
+    .where(and(
+      eq(responsesSchema.userId, userId),
+      eq(exercisesSchema.userId, userId),
+      lt(responsesSchema.score, MISTAKE_SCORE_THRESHOLD),
+    ))
+    .orderBy(desc(responsesSchema.createdAt))
+    .limit(MISTAKE_RESPONSE_LIMIT);
 
-  if (!job?.id) {
+  const sourceDocumentIds = uniqueValues(mistakes.flatMap(mistake => mistake.sourceDocumentIds));
+  if (sourceDocumentIds.length === 0) {
+    return null;
+  }
+
+  const readyDocuments = await db
+    .select({ id: documentsSchema.id })
+    .from(documentsSchema)
+    .where(and(
+      eq(documentsSchema.userId, userId),
+      inArray(documentsSchema.id, sourceDocumentIds),
+      eq(documentsSchema.status, 'ready'),
+    ));
+  const readyDocumentIds = new Set(readyDocuments.map(document => document.id));
+  const documentIds = sourceDocumentIds
+    .filter(documentId => readyDocumentIds.has(documentId))
+    .slice(0, MAX_MISTAKE_DOCUMENTS);
+  const relevantMistakes = mistakes.filter(mistake =>
+    mistake.sourceDocumentIds.some(documentId => documentIds.includes(documentId)),
+  );
+
+  if (relevantMistakes.length === 0) {
+    return null;
+  }
+
+  return {
+    documentIds,
+    mistakeFocus: MistakeFocusSchema.parse({
+      chunkIds: uniqueValues(relevantMistakes.flatMap(mistake => mistake.sourceChunkIds)).slice(0, MAX_MISTAKE_CHUNKS),
+      reviewTopics: uniqueValues(relevantMistakes.flatMap(mistake => mistake.suggestedReview ?? [])).slice(0, MAX_MISTAKE_NOTES),
+      corrections: uniqueValues(relevantMistakes.flatMap(mistake => mistake.corrections ?? [])).slice(0, MAX_MISTAKE_NOTES),
+    }),
+  };
+}
+
+/**
+ * Enqueues a generation job aimed at the learner's recent mistakes.
+ * Retrieval is seeded with the failing exercises' source chunks and their
+ * suggested review topics, and the prompt carries the corrections the learner needed.
+ * @param input - User scope and mistake-practice request payload.
+ * @returns Enqueue result with job ID or error.
+ */
+export async function enqueueMistakePracticeGeneration(input: EnqueueGenerationInput): Promise<EnqueueGenerationResult> {
+  const parsedRequest = PracticeMistakesRequestSchema.safeParse(input.request);
+  if (!parsedRequest.success) {
     return {
       success: false,
-      errorCode: 'GENERATION_FAILED',
-      error: 'Failed to enqueue generation job',
+      errorCode: 'VALIDATION_FAILED',
+      error: 'Invalid generation request',
     };
   }
 
-  logger.info('generation_job_queued', {
-    jobId: job.id,
+  const mistakes = await collectMistakeFocus(input.userId);
+  if (!mistakes) {
+    return {
+      success: false,
+      errorCode: 'NO_MISTAKES',
+      error: 'No low-scoring responses to practise',
+    };
+  }
+
+  await recoverStaleGenerationJobs(input.userId);
+
+  return queueGenerationJob({
     userId: input.userId,
-    requestedCount: parsedRequest.data.count,
-    exerciseType: parsedRequest.data.exerciseType,
+    documentIds: mistakes.documentIds,
+    typeCounts: getRequestedTypeCounts(parsedRequest.data),
+    count: parsedRequest.data.count,
+    difficulty: parsedRequest.data.difficulty,
+    mistakeFocus: mistakes.mistakeFocus,
   });
-
-  return {
-    success: true,
-    jobId: job.id,
-  };
 }
 
 /**
@@ -1014,7 +1440,10 @@ export async function getGenerationJobWithExercises(jobId: string, userId: strin
     : [];
 
   return {
-    job,
+    job: {
+      ...job,
+      typeProgress: resolveGenerationTypeProgress(job),
+    },
     exercises,
   };
 }
@@ -1064,6 +1493,8 @@ export async function listLatestResponsesForExercises(userId: string, exerciseId
       rubric: responsesSchema.rubric,
       overallFeedback: responsesSchema.overallFeedback,
       suggestedReview: responsesSchema.suggestedReview,
+      itemResults: responsesSchema.itemResults,
+      annotatedText: responsesSchema.annotatedText,
       responseTimeMs: responsesSchema.responseTimeMs,
       createdAt: responsesSchema.createdAt,
     })
@@ -1081,6 +1512,58 @@ export async function listLatestResponsesForExercises(userId: string, exerciseId
   return new Map(rows.map(row => [row.exerciseId, row]));
 }
 
+/**
+ * Lists source locations (subtitle scene time ranges, PDF page ranges) for each requested exercise.
+ * Overlapping or adjacent page ranges are merged so "p. 42–43" and "p. 43" read as one range.
+ * @param userId - Authenticated user ID.
+ * @param exerciseIds - Exercise IDs to load.
+ * @returns Source locations in source order, keyed by exercise ID; exercises without any are omitted.
+ */
+export async function listSourceLocationsForExercises(userId: string, exerciseIds: string[]) {
+  const locations = new Map<string, ExerciseSourceLocation[]>();
+  if (exerciseIds.length === 0) {
+    return locations;
+  }
+
+  const rows = await db
+    .select({
+      exerciseId: exercisesSchema.id,
+      startPage: chunksSchema.startPage,
+      endPage: chunksSchema.endPage,
+      startMs: chunksSchema.startMs,
+      endMs: chunksSchema.endMs,
+    })
+    .from(exercisesSchema)
+    .innerJoin(chunksSchema, sql`${chunksSchema.id} = any(${exercisesSchema.sourceChunkIds})`)
+    .where(and(
+      eq(exercisesSchema.userId, userId),
+      inArray(exercisesSchema.id, exerciseIds),
+      or(isNotNull(chunksSchema.startPage), isNotNull(chunksSchema.startMs)),
+    ))
+    .orderBy(exercisesSchema.id, chunksSchema.position);
+
+  for (const row of rows) {
+    const exerciseLocations = locations.get(row.exerciseId) ?? [];
+    const previous = exerciseLocations.at(-1);
+
+    if (row.startPage !== null && row.endPage !== null) {
+      if (previous?.kind === 'pages' && row.startPage <= previous.endPage + 1) {
+        previous.endPage = Math.max(previous.endPage, row.endPage);
+      } else {
+        exerciseLocations.push({ kind: 'pages', startPage: row.startPage, endPage: row.endPage });
+      }
+    } else if (row.startMs !== null && row.endMs !== null) {
+      exerciseLocations.push({ kind: 'timestamp', startMs: row.startMs, endMs: row.endMs });
+    } else {
+      continue;
+    }
+
+    locations.set(row.exerciseId, exerciseLocations);
+  }
+
+  return locations;
+}
+
 /**
  * Lists active generation jobs for a user.
  * @param userId - Authenticated user ID.
@@ -1089,13 +1572,15 @@ export async function listLatestResponsesForExercises(userId: string, exerciseId
 export async function listActiveGenerationJobs(userId: string) {
   await recoverStaleGenerationJobs(userId);
 
-  return db
+  const jobs = await db
     .select({
       id: generationJobsSchema.id,
       status: generationJobsSchema.status,
+      exerciseType: generationJobsSchema.exerciseType,
       requestedCount: generationJobsSchema.requestedCount,
       generatedCount: generationJobsSchema.generatedCount,
       failedCount: generationJobsSchema.failedCount,
+      typeProgress: generationJobsSchema.typeProgress,
       errorMessage: generationJobsSchema.errorMessage,
       createdAt: generationJobsSchema.createdAt,
       startedAt: generationJobsSchema.startedAt,
@@ -1111,4 +1596,9 @@ export async function listActiveGenerationJobs(userId: string) {
     ))
     .orderBy(desc(generationJobsSchema.createdAt))
     .limit(10);
+
+  return jobs.map(job => ({
+    ...job,
+    typeProgress: resolveGenerationTypeProgress(job),
+  }));
 }
@@ -4,14 +4,17 @@ type JobState = {
   id: string;
   userId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
-  exerciseType: 'multiple_choice' | 'fill_gap' | 'single_answer';
+  exerciseType: 'multiple_choice' | 'fill_gap' | 'single_answer' | 'conjugation' | null;
   documentIds: string[];
   requestedCount: number;
   generatedCount: number;
   failedCount: number;
   exerciseIds: string[];
+  typeProgress: Record<string, unknown> | null;
   difficulty: 'beginner' | 'intermediate' | 'advanced' | null;
   topicFocus: string | null;
+  passage: Record<string, unknown> | null;
+  mistakeFocus: Record<string, unknown> | null;
   errorMessage: string | null;
   createdAt: Date;
   startedAt: Date | null;
@@ -22,13 +25,15 @@ type ChunkRow = {
   id: string;
   documentId: string;
   position: number;
+  content?: string;
+  startChar?: number | null;
 };
 
-type PineconeMatch = {
-  metadata?: {
-    document_id?: string;
-    chunk_position?: number;
-    text?: string;
+type VectorMatch = {
+  metadata: {
+    document_id: string;
+    chunk_position: number;
+    text: string;
   };
 };
 
@@ -37,7 +42,7 @@ const state = {
   recoverPhase: 0,
   txSelectedId: null as string | null,
   chunkRows: [] as ChunkRow[],
-  pineconeMatches: [] as PineconeMatch[],
+  vectorMatches: [] as VectorMatch[],
   insertedExercises: [] as Array<{ id: string; values: Record<string, unknown> }>,
   nextExerciseId: 1,
   lastInsertedExerciseId: null as string | null,
@@ -54,7 +59,8 @@ const mockCreateEmbeddings = vi.fn(async () => ({
 }));
 const mockCreateStructuredChatCompletion = vi.fn();
 const mockCreateJsonChatCompletion = vi.fn();
-const mockPineconeQuery = vi.fn(async () => ({ matches: state.pineconeMatches }));
+const mockVectorQuery = vi.fn(async () => state.vectorMatches);
+const mockResolveAdaptiveDifficulties = vi.fn(async () => ({}));
 
 let txLock = Promise.resolve();
 
@@ -134,6 +140,10 @@ function applyJobUpdate(values: Record<string, unknown>) {
     if (Array.isArray(values.exerciseIds)) {
       activeJob.exerciseIds = [...values.exerciseIds];
     }
+
+    if (values.typeProgress) {
+      activeJob.typeProgress = values.typeProgress as Record<string, unknown>;
+    }
   }
 
   return [];
@@ -176,8 +186,13 @@ function createMockTransactionClient() {
               exerciseType: job.exerciseType,
               documentIds: [...job.documentIds],
               requestedCount: job.requestedCount,
+              generatedCount: job.generatedCount,
+              failedCount: job.failedCount,
+              typeProgress: job.typeProgress,
               difficulty: job.difficulty,
               topicFocus: job.topicFocus,
+              passage: job.passage,
+              mistakeFocus: job.mistakeFocus,
             }];
           }),
         })),
@@ -214,11 +229,22 @@ const mockDb = {
   })),
   select: vi.fn(() => ({
     from: vi.fn(() => ({
-      where: vi.fn(async () => state.chunkRows.map(row => ({
-        id: row.id,
-        documentId: row.documentId,
-        position: row.position,
-      }))),
+      where: vi.fn(() => {
+        const rows = Promise.resolve(state.chunkRows.map(row => ({
+          id: row.id,
+          documentId: row.documentId,
+          position: row.position,
+          content: row.content ?? '',
+          startChar: row.startChar ?? null,
+        })));
+
+        return Object.assign(rows, {
+          orderBy: vi.fn(() => ({
+            limit: vi.fn(async () => rows),
+          })),
+          limit: vi.fn(async () => rows),
+        });
+      }),
     })),
   })),
   insert: vi.fn(() => ({
@@ -239,18 +265,22 @@ vi.mock('./DB', () => ({
   db: mockDb,
 }));
 
-vi.mock('./Mistral', () => ({
+vi.mock('./Llm', () => ({
   createEmbeddings: mockCreateEmbeddings,
   createStructuredChatCompletion: mockCreateStructuredChatCompletion,
   createJsonChatCompletion: mockCreateJsonChatCompletion,
 }));
 
-vi.mock('./Pinecone', () => ({
-  getNamespacedIndex: () => ({
-    query: mockPineconeQuery,
+vi.mock('./VectorStore', () => ({
+  getVectorStore: () => ({
+    query: mockVectorQuery,
   }),
 }));
 
+vi.mock('./AdaptiveDifficulty', () => ({
+  resolveAdaptiveDifficulties: mockResolveAdaptiveDifficulties,
+}));
+
 vi.mock('./Logger', () => ({
   logger: {
     info: loggerInfoMock,
@@ -273,14 +303,17 @@ function createJob(input: Partial<JobState> & { id: string; createdAt: Date }):
     id: input.id,
     userId: input.userId ?? '550e8400-e29b-41d4-a716-446655440001',
     status: input.status ?? 'pending',
-    exerciseType: input.exerciseType ?? 'multiple_choice',
+    exerciseType: input.exerciseType === undefined ? 'multiple_choice' : input.exerciseType,
     documentIds: input.documentIds ?? ['550e8400-e29b-41d4-a716-446655440010'],
     requestedCount: input.requestedCount ?? 1,
     generatedCount: input.generatedCount ?? 0,
     failedCount: input.failedCount ?? 0,
     exerciseIds: input.exerciseIds ?? [],
+    typeProgress: input.typeProgress ?? null,
     difficulty: input.difficulty ?? null,
     topicFocus: input.topicFocus ?? null,
+    passage: input.passage ?? null,
+    mistakeFocus: input.mistakeFocus ?? null,
     errorMessage: input.errorMessage ?? null,
     createdAt: input.createdAt,
     startedAt: input.startedAt ?? null,
@@ -300,7 +333,7 @@ function setReadyChunks(input?: {
     documentId,
     position: index,
   }));
-  state.pineconeMatches = texts.map((text, index) => ({
+  state.vectorMatches = texts.map((text, index) => ({
     metadata: {
       document_id: documentId,
       chunk_position: index,
@@ -315,7 +348,7 @@ describe('runGenerationWorkerBatch', () => {
     state.recoverPhase = 0;
     state.txSelectedId = null;
     state.chunkRows = [];
-    state.pineconeMatches = [];
+    state.vectorMatches = [];
     state.insertedExercises = [];
     state.nextExerciseId = 1;
     state.lastInsertedExerciseId = null;
@@ -324,7 +357,7 @@ describe('runGenerationWorkerBatch', () => {
     mockCreateStructuredChatCompletion.mockReset();
     mockCreateJsonChatCompletion.mockReset();
     mockCreateEmbeddings.mockClear();
-    mockPineconeQuery.mockClear();
+    mockVectorQuery.mockClear();
     vi.clearAllMocks();
   });
 
@@ -503,6 +536,32 @@ describe('runGenerationWorkerBatch', () => {
     expect(mockCreateJsonChatCompletion).not.toHaveBeenCalled();
   });
 
+  it('builds conjugation drills from document verbs without calling the llm', async () => {
+    state.jobs = [
+      createJob({
+        id: 'job-conjugation',
+        requestedCount: 2,
+        exerciseType: 'conjugation',
+        difficulty: 'beginner',
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+      }),
+    ];
+    setReadyChunks({ texts: ['Ogni mattina parliamo con i vicini e poi cantiamo insieme.'] });
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.completed).toBe(1);
+    expect(state.jobs[0]?.generatedCount).toBe(2);
+    expect(mockResolveAdaptiveDifficulties).not.toHaveBeenCalled();
+    expect(mockCreateStructuredChatCompletion).not.toHaveBeenCalled();
+    expect(mockCreateJsonChatCompletion).not.toHaveBeenCalled();
+    expect(state.insertedExercises.map(exercise => exercise.values.exerciseData)).toEqual([
+      { infinitive: 'parlare', tense: 'presente', person: 'io', answer: 'parlo' },
+      { infinitive: 'cantare', tense: 'passato_prossimo', person: 'tu', answer: 'hai cantato' },
+    ]);
+  });
+
   it('shuffles multiple-choice options before persisting the exercise', async () => {
     state.jobs = [
       createJob({
@@ -584,6 +643,288 @@ describe('runGenerationWorkerBatch', () => {
     expect(mockCreateJsonChatCompletion).toHaveBeenCalledTimes(6);
   });
 
+  it('alternates exercise types in mixed jobs and tracks progress per type', async () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440010';
+    state.jobs = [
+      createJob({
+        id: 'job-mixed-types',
+        requestedCount: 3,
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        exerciseType: null,
+        typeProgress: {
+          fill_gap: { requested: 1, generated: 0, failed: 0 },
+          multiple_choice: { requested: 2, generated: 0, failed: 0 },
+        },
+      }),
+    ];
+    setReadyChunks({
+      documentId,
+      texts: ['Va subito a casa.', 'Ieri sono andato al mercato.', 'Ho comprato le mele.'],
+    });
+
+    let multipleChoiceCount = 0;
+    mockCreateStructuredChatCompletion.mockImplementation(async (input: { userPrompt: string }) => {
+      const exercise = input.userPrompt.includes('Exercise type: fill_gap')
+        ? {
+            type: 'fill_gap',
+            question: 'Completa: Ieri ___ al mercato.',
+            sourceReferences: [{ documentId, chunkPosition: 1 }],
+            exerciseData: { answer: 'sono andato' },
+          }
+        : {
+            type: 'multiple_choice',
+            question: multipleChoiceCount++ === 0 ? 'Completa: Tu ___ subito a casa.' : 'Completa: Ho ___ le mele.',
+            sourceReferences: [{ documentId, chunkPosition: 0 }],
+            exerciseData: {
+              options: ['va', 'vai', 'vado', 'andiamo'],
+              correctIndex: 0,
+            },
+          };
+
+      return {
+        parsed: { exercises: [exercise] },
+        rawContent: null,
+        usage: { promptTokens: 1, totalTokens: 1 },
+      };
+    });
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.completed).toBe(1);
+    expect(state.insertedExercises.map(exercise => exercise.values.type)).toEqual([
+      'multiple_choice',
+      'fill_gap',
+      'multiple_choice',
+    ]);
+    expect(state.jobs[0]?.generatedCount).toBe(3);
+    expect(state.jobs[0]?.typeProgress).toEqual({
+      multiple_choice: { requested: 2, generated: 2, failed: 0 },
+      fill_gap: { requested: 1, generated: 1, failed: 0 },
+    });
+  });
+
+  it('seeds mistake-practice jobs with the failing chunks and review topics', async () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440010';
+    state.jobs = [
+      createJob({
+        id: 'job-mistakes',
+        requestedCount: 1,
+        exerciseType: 'fill_gap',
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        mistakeFocus: {
+          chunkIds: ['550e8400-e29b-41d4-a716-446655440050'],
+          reviewTopics: ['preposizioni articolate'],
+          corrections: ['a il mercato → al mercato'],
+        },
+      }),
+    ];
+    setReadyChunks({ documentId, texts: ['Va subito a casa.'] });
+    state.chunkRows = [{ id: 'chunk-9', documentId, position: 4, content: 'Ieri sono andato al mercato.' }];
+
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        exercises: [{
+          type: 'fill_gap',
+          question: 'Completa: Domani vado ___ mercato.',
+          sourceReferences: [{ documentId, chunkPosition: 4 }],
+          exerciseData: { answer: 'al' },
+        }],
+      },
+      rawContent: null,
+      usage: { promptTokens: 1, totalTokens: 1 },
+    });
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.completed).toBe(1);
+    expect(mockCreateEmbeddings).toHaveBeenCalledWith(['preposizioni articolate']);
+
+    const [promptInput] = mockCreateStructuredChatCompletion.mock.calls[0] as [{ userPrompt: string }];
+
+    expect(promptInput.userPrompt).toContain('Review topics: preposizioni articolate');
+    expect(promptInput.userPrompt).toContain('- a il mercato → al mercato');
+    expect(promptInput.userPrompt).toContain('Ieri sono andato al mercato.');
+  });
+
+  it('picks a difficulty per exercise type when the job leaves it open', async () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440010';
+    state.jobs = [
+      createJob({
+        id: 'job-adaptive-difficulty',
+        requestedCount: 2,
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        exerciseType: null,
+        typeProgress: {
+          fill_gap: { requested: 1, generated: 0, failed: 0 },
+          multiple_choice: { requested: 1, generated: 0, failed: 0 },
+        },
+      }),
+    ];
+    setReadyChunks({
+      documentId,
+      texts: ['Va subito a casa.', 'Ieri sono andato al mercato.'],
+    });
+    mockResolveAdaptiveDifficulties.mockResolvedValueOnce({ fill_gap: 'advanced' });
+
+    mockCreateStructuredChatCompletion.mockImplementation(async (input: { userPrompt: string }) => {
+      const exercise = input.userPrompt.includes('Exercise type: fill_gap')
+        ? {
+            type: 'fill_gap',
+            question: 'Completa: Ieri ___ al mercato.',
+            sourceReferences: [{ documentId, chunkPosition: 1 }],
+            exerciseData: { answer: 'sono andato' },
+          }
+        : {
+            type: 'multiple_choice',
+            question: 'Completa: Tu ___ subito a casa.',
+            sourceReferences: [{ documentId, chunkPosition: 0 }],
+            exerciseData: {
+              options: ['va', 'vai', 'vado', 'andiamo'],
+              correctIndex: 0,
+            },
+          };
+
+      return {
+        parsed: { exercises: [exercise] },
+        rawContent: null,
+        usage: { promptTokens: 1, totalTokens: 1 },
+      };
+    });
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.completed).toBe(1);
+    expect(mockResolveAdaptiveDifficulties).toHaveBeenCalledWith({
+      userId: '550e8400-e29b-41d4-a716-446655440001',
+      exerciseTypes: ['multiple_choice', 'fill_gap'],
+    });
+    expect(state.insertedExercises.map(exercise => [exercise.values.type, exercise.values.difficulty])).toEqual([
+      ['multiple_choice', null],
+      ['fill_gap', 'advanced'],
+    ]);
+
+    const prompts = mockCreateStructuredChatCompletion.mock.calls.map(([input]) => (input as { userPrompt: string }).userPrompt);
+
+    expect(prompts[0]).not.toContain('Difficulty target:');
+    expect(prompts[1]).toContain('Difficulty target: advanced');
+  });
+
+  it('generates from a selected chunk range without querying the vector store', async () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440010';
+    state.jobs = [
+      createJob({
+        id: 'job-passage-range',
+        requestedCount: 1,
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        exerciseType: 'fill_gap',
+        passage: {
+          kind: 'chunk_range',
+          documentId,
+          startPosition: 2,
+          endPosition: 3,
+        },
+      }),
+    ];
+    state.chunkRows = [
+      { id: 'chunk-3', documentId, position: 2, content: 'Ieri sono andato al mercato.' },
+      { id: 'chunk-4', documentId, position: 3, content: 'Ho comprato le mele.' },
+    ];
+
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        exercises: [{
+          type: 'fill_gap',
+          question: 'Completa: Ieri ___ al mercato.',
+          sourceReferences: [{
+            documentId,
+            chunkPosition: 2,
+          }],
+          exerciseData: {
+            answer: 'sono andato',
+          },
+        }],
+      },
+      rawContent: null,
+      usage: { promptTokens: 1, totalTokens: 1 },
+    });
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.completed).toBe(1);
+    expect(mockCreateEmbeddings).not.toHaveBeenCalled();
+    expect(mockVectorQuery).not.toHaveBeenCalled();
+    expect(state.insertedExercises[0]?.values.sourceChunkIds).toEqual(['chunk-3']);
+
+    const userPrompt = (mockCreateStructuredChatCompletion.mock.calls[0]?.[0] as { userPrompt: string }).userPrompt;
+
+    expect(userPrompt).toContain('Ieri sono andato al mercato.');
+    expect(userPrompt).toContain('Ho comprato le mele.');
+  });
+
+  it('trims chunks to a selected character span', async () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440010';
+    state.jobs = [
+      createJob({
+        id: 'job-passage-span',
+        requestedCount: 1,
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        exerciseType: 'fill_gap',
+        passage: {
+          kind: 'character_span',
+          documentId,
+          startChar: 129,
+          endChar: 157,
+        },
+      }),
+    ];
+    state.chunkRows = [{
+      id: 'chunk-1',
+      documentId,
+      position: 0,
+      content: 'Ho comprato le mele. Ieri sono andato al mercato. Poi sono tornato a casa.',
+      startChar: 108,
+    }];
+
+    mockCreateStructuredChatCompletion.mockRejectedValue(new Error('model unavailable'));
+    mockCreateJsonChatCompletion.mockRejectedValue(new Error('model unavailable'));
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    const userPrompt = (mockCreateStructuredChatCompletion.mock.calls[0]?.[0] as { userPrompt: string }).userPrompt;
+
+    expect(mockVectorQuery).not.toHaveBeenCalled();
+    expect(userPrompt).toContain('Ieri sono andato al mercato.');
+    expect(userPrompt).not.toContain('Ho comprato le mele.');
+    expect(userPrompt).not.toContain('Poi sono tornato a casa.');
+  });
+
+  it('fails passage jobs with no matching chunks as NO_CONTENT', async () => {
+    state.jobs = [
+      createJob({
+        id: 'job-passage-empty',
+        createdAt: new Date('2026-03-05T17:59:00.000Z'),
+        passage: {
+          kind: 'chunk_range',
+          documentId: '550e8400-e29b-41d4-a716-446655440010',
+          startPosition: 40,
+          endPosition: 41,
+        },
+      }),
+    ];
+
+    const { runGenerationWorkerBatch } = await import('./ExerciseGeneration');
+    const result = await runGenerationWorkerBatch({ maxJobs: 1 });
+
+    expect(result.failed).toBe(1);
+    expect(state.jobs[0]?.errorMessage).toBe('NO_CONTENT');
+    expect(mockVectorQuery).not.toHaveBeenCalled();
+  });
+
   it('accepts topic-guided fill-gap exercises supported by multiple references', async () => {
     state.jobs = [
       createJob({
@@ -605,7 +946,7 @@ describe('runGenerationWorkerBatch', () => {
         position: 1,
       },
     ];
-    state.pineconeMatches = [
+    state.vectorMatches = [
       {
         metadata: {
           document_id: '550e8400-e29b-41d4-a716-446655440010',
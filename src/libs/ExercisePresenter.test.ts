@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { parseStoredExercise } from './ExercisePresenter';
+import { parseStoredExercise, safeToExerciseCard } from './ExercisePresenter';
 
 describe('parseStoredExercise', () => {
   it('rejects multiple choice exercises with duplicate options', () => {
@@ -19,3 +19,40 @@ describe('parseStoredExercise', () => {
     })).toThrowError(/options must contain unique values/);
   });
 });
+
+describe('safeToExerciseCard', () => {
+  it('shuffles matching answers so the stored pairing is hidden', () => {
+    const pairs = [
+      { term: 'il mercato', match: 'the market' },
+      { term: 'la piazza', match: 'the square' },
+      { term: 'il ponte', match: 'the bridge' },
+      { term: 'la chiesa', match: 'the church' },
+    ];
+    const exercise = {
+      id: '550e8400-e29b-41d4-a716-446655440010',
+      type: 'matching',
+      difficulty: 'beginner',
+      question: 'Abbina ogni parola alla sua traduzione.',
+      exerciseData: { pairs },
+      grammarFocus: null,
+      timesAttempted: 0,
+      averageScore: null,
+      createdAt: new Date('2026-03-05T10:00:00.000Z'),
+    };
+
+    const first = safeToExerciseCard({ exercise });
+    const second = safeToExerciseCard({ exercise });
+
+    expect(first.success).toBe(true);
+    expect(first.success && first.data.type === 'matching' && first.data.renderData).toEqual({
+      terms: pairs.map(pair => pair.term),
+      matches: expect.arrayContaining(pairs.map(pair => pair.match)),
+    });
+
+    const matches = first.success && first.data.type === 'matching' ? first.data.renderData.matches : [];
+
+    expect(matches).not.toEqual(pairs.map(pair => pair.match));
+    expect(second).toEqual(first);
+    expect(JSON.stringify(first)).not.toContain('"pairs"');
+  });
+});
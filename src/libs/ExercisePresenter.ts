@@ -1,6 +1,6 @@
-import type { ExerciseCard } from '@/validations/ResponseValidation';
+import type { ExerciseCard, ExerciseSourceLocation } from '@/validations/ResponseValidation';
 import * as z from 'zod';
-import { EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { AnnotatedTextSchema, EvaluationItemResultSchema, EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
 import {
 
   ExerciseCardSchema,
@@ -27,6 +27,105 @@ const StoredSingleAnswerDataSchema = z.object({
   gradingCriteria: z.array(z.string().trim().min(1)).min(1).max(8),
 });
 
+const StoredMatchingDataSchema = z.object({
+  pairs: z.array(z.object({
+    term: z.string().trim().min(1),
+    match: z.string().trim().min(1),
+  })).min(4).max(8),
+  explanation: z.string().trim().min(1).optional(),
+}).superRefine((value, context) => {
+  validateUniqueStrings(value.pairs.map(pair => pair.term), context, 'pairs.term');
+  validateUniqueStrings(value.pairs.map(pair => pair.match), context, 'pairs.match');
+});
+
+const StoredWordOrderDataSchema = z.object({
+  tokens: z.array(z.string().trim().min(1)).min(3).max(15),
+  acceptedOrders: z.array(z.array(z.string().trim().min(1)).min(3).max(15)).max(5).optional(),
+  explanation: z.string().trim().min(1).optional(),
+});
+
+const StoredErrorCorrectionDataSchema = z.object({
+  correctedSentence: z.string().trim().min(1),
+  acceptedAnswers: z.array(z.string().trim().min(1)).min(1).max(5).optional(),
+  errors: z.array(z.object({
+    incorrect: z.string().trim().min(1),
+    correction: z.string().trim().min(1),
+    explanation: z.string().trim().min(1).optional(),
+  })).min(1).max(5),
+});
+
+const StoredTranslationDataSchema = z.object({
+  direction: z.enum(['it_to_en', 'en_to_it']),
+  referenceTranslations: z.array(z.string().trim().min(1)).min(1).max(5),
+});
+
+const StoredComprehensionItemSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('true_false'),
+    statement: z.string().trim().min(1),
+    answer: z.boolean(),
+    explanation: z.string().trim().min(1).optional(),
+  }),
+  z.object({
+    kind: z.literal('multiple_choice'),
+    question: z.string().trim().min(1),
+    options: z.array(z.string().trim().min(1)).length(4),
+    correctIndex: z.number().int().min(0).max(3),
+    explanation: z.string().trim().min(1).optional(),
+  }),
+  z.object({
+    kind: z.literal('short_answer'),
+    question: z.string().trim().min(1),
+    sampleAnswer: z.string().trim().min(1),
+    acceptedAnswers: z.array(z.string().trim().min(1)).min(1).max(5).optional(),
+  }),
+]);
+
+const StoredReadingComprehensionDataSchema = z.object({
+  passage: z.string().trim().min(1),
+  items: z.array(StoredComprehensionItemSchema).min(3).max(6),
+});
+
+const StoredClozeDataSchema = z.object({
+  text: z.string().trim().min(1),
+  gaps: z.array(z.object({
+    answer: z.string().trim().min(1),
+    acceptedAnswers: z.array(z.string().trim().min(1)).min(1).max(5).optional(),
+    hint: z.string().trim().min(1).optional(),
+  })).min(2).max(8),
+});
+
+const StoredConjugationDataSchema = z.object({
+  infinitive: z.string().trim().min(1),
+  tense: z.enum(['presente', 'imperfetto', 'passato_prossimo', 'futuro_semplice', 'condizionale_presente', 'congiuntivo_presente', 'congiuntivo_imperfetto']),
+  person: z.enum(['io', 'tu', 'lui/lei', 'noi', 'voi', 'loro']),
+  answer: z.string().trim().min(1),
+  acceptedAnswers: z.array(z.string().trim().min(1)).min(1).max(5).optional(),
+});
+
+const StoredDialogueDataSchema = z.object({
+  character: z.string().trim().min(1),
+  learnerRole: z.string().trim().min(1),
+  openingLine: z.string().trim().min(1),
+  goals: z.array(z.string().trim().min(1)).min(1).max(4),
+  turnCount: z.number().int().min(3).max(6),
+});
+
+const StoredWritingDataSchema = z.object({
+  minWords: z.number().int().min(100).max(400),
+  maxWords: z.number().int().min(100).max(400),
+  register: z.enum(['informal', 'formal']),
+  gradingCriteria: z.array(z.string().trim().min(1)).min(1).max(5),
+});
+
+const StoredVocabularyDataSchema = z.object({
+  vocabularyItemId: z.uuid(),
+  lemma: z.string().trim().min(1),
+  partOfSpeech: z.enum(['noun', 'verb', 'adjective', 'adverb', 'expression', 'other']),
+  gloss: z.string().trim().min(1),
+  exampleSentence: z.string().trim().min(1),
+});
+
 const StoredExerciseSchema = z.discriminatedUnion('type', [
   z.object({
     id: z.uuid(),
@@ -61,6 +160,116 @@ const StoredExerciseSchema = z.discriminatedUnion('type', [
     averageScore: z.number().int().min(0).max(100).nullable().optional(),
     createdAt: z.date(),
   }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('matching'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredMatchingDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('word_order'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredWordOrderDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('error_correction'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredErrorCorrectionDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('translation'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredTranslationDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('reading_comprehension'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredReadingComprehensionDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('cloze'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredClozeDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('conjugation'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredConjugationDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('dialogue'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredDialogueDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('writing'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredWritingDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
+  z.object({
+    id: z.uuid(),
+    type: z.literal('vocabulary'),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']).nullable(),
+    question: z.string().trim().min(1),
+    exerciseData: StoredVocabularyDataSchema,
+    grammarFocus: z.string().trim().min(1).nullable(),
+    timesAttempted: z.number().int().nonnegative().nullable().optional(),
+    averageScore: z.number().int().min(0).max(100).nullable().optional(),
+    createdAt: z.date(),
+  }),
 ]);
 
 const StoredLatestResponseSchema = z.object({
@@ -70,6 +279,8 @@ const StoredLatestResponseSchema = z.object({
   rubric: EvaluationRubricSchema,
   overallFeedback: z.string().trim().min(1),
   suggestedReview: z.array(z.string().trim().min(1)).max(10).nullable().optional(),
+  itemResults: z.array(EvaluationItemResultSchema).max(8).nullable().optional(),
+  annotatedText: AnnotatedTextSchema.nullable().optional(),
   responseTimeMs: z.number().int().nonnegative().nullable().optional(),
   createdAt: z.date(),
   evaluationMethod: z.enum(['deterministic', 'llm']).default('deterministic'),
@@ -80,6 +291,37 @@ export function parseStoredExercise(input: unknown): StoredExercise {
   return StoredExerciseSchema.parse(input);
 }
 
+function hashString(value: string) {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Shuffles stored answer items for display so the solution is not revealed.
+ * The order is derived from the exercise ID, so it stays stable across renders
+ * and never lines up with the stored order.
+ * @param exerciseId - Exercise ID used to seed the order.
+ * @param items - Items in stored (correct) order.
+ * @returns Items in display order.
+ */
+function shuffleForDisplay(exerciseId: string, items: string[]) {
+  const ordered = items
+    .map((item, index) => ({ item, rank: hashString(`${exerciseId}:${index}`) }))
+    .sort((left, right) => left.rank - right.rank)
+    .map(entry => entry.item);
+
+  if (ordered.every((item, index) => item === items[index])) {
+    ordered.push(ordered.shift()!);
+  }
+
+  return ordered;
+}
+
 function toExerciseLatestResponse(input: unknown) {
   const parsed = StoredLatestResponseSchema.safeParse(input);
   if (!parsed.success) {
@@ -93,6 +335,8 @@ function toExerciseLatestResponse(input: unknown) {
     rubric: parsed.data.rubric,
     overallFeedback: parsed.data.overallFeedback,
     suggestedReview: parsed.data.suggestedReview ?? [],
+    itemResults: parsed.data.itemResults,
+    annotatedText: parsed.data.annotatedText,
     responseTimeMs: parsed.data.responseTimeMs ?? null,
     createdAt: parsed.data.createdAt.toISOString(),
     evaluationMethod: parsed.data.evaluationMethod,
@@ -102,6 +346,7 @@ function toExerciseLatestResponse(input: unknown) {
 function toExerciseCard(input: {
   exercise: unknown;
   latestResponse?: unknown;
+  sourceLocations?: ExerciseSourceLocation[];
 }) {
   const exercise = parseStoredExercise(input.exercise);
   const latestResponse = input.latestResponse
@@ -120,6 +365,7 @@ function toExerciseCard(input: {
         timesAttempted: exercise.timesAttempted ?? 0,
         averageScore: exercise.averageScore ?? null,
         latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
         renderData: {
           options: exercise.exerciseData.options,
         },
@@ -135,6 +381,7 @@ function toExerciseCard(input: {
         timesAttempted: exercise.timesAttempted ?? 0,
         averageScore: exercise.averageScore ?? null,
         latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
         renderData: {
           hint: exercise.exerciseData.hint ?? null,
         },
@@ -150,16 +397,193 @@ function toExerciseCard(input: {
         timesAttempted: exercise.timesAttempted ?? 0,
         averageScore: exercise.averageScore ?? null,
         latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
         renderData: {
           gradingCriteria: exercise.exerciseData.gradingCriteria,
         },
       });
+    case 'matching':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          terms: exercise.exerciseData.pairs.map(pair => pair.term),
+          matches: shuffleForDisplay(
+            exercise.id,
+            exercise.exerciseData.pairs.map(pair => pair.match),
+          ),
+        },
+      });
+    case 'word_order':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          tokens: shuffleForDisplay(exercise.id, exercise.exerciseData.tokens),
+        },
+      });
+    case 'error_correction':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          errorCount: exercise.exerciseData.errors.length,
+        },
+      });
+    case 'translation':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          direction: exercise.exerciseData.direction,
+        },
+      });
+    case 'reading_comprehension':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          passage: exercise.exerciseData.passage,
+          items: exercise.exerciseData.items.map((item) => {
+            if (item.kind === 'true_false') {
+              return { kind: item.kind, statement: item.statement };
+            }
+
+            if (item.kind === 'multiple_choice') {
+              return { kind: item.kind, question: item.question, options: item.options };
+            }
+
+            return { kind: item.kind, question: item.question };
+          }),
+        },
+      });
+    case 'cloze':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          text: exercise.exerciseData.text,
+          hints: exercise.exerciseData.gaps.map(gap => gap.hint ?? null),
+        },
+      });
+    case 'conjugation':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          infinitive: exercise.exerciseData.infinitive,
+          tense: exercise.exerciseData.tense,
+          person: exercise.exerciseData.person,
+        },
+      });
+    case 'dialogue':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: exercise.exerciseData,
+      });
+    case 'writing':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: exercise.exerciseData,
+      });
+    case 'vocabulary':
+      return ExerciseCardSchema.parse({
+        id: exercise.id,
+        type: exercise.type,
+        difficulty: exercise.difficulty,
+        question: exercise.question,
+        grammarFocus: exercise.grammarFocus,
+        createdAt: exercise.createdAt.toISOString(),
+        timesAttempted: exercise.timesAttempted ?? 0,
+        averageScore: exercise.averageScore ?? null,
+        latestResponse,
+        sourceLocations: input.sourceLocations ?? [],
+        renderData: {
+          gloss: exercise.exerciseData.gloss,
+          partOfSpeech: exercise.exerciseData.partOfSpeech,
+        },
+      });
   }
 }
 
 export function safeToExerciseCard(input: {
   exercise: unknown;
   latestResponse?: unknown;
+  sourceLocations?: ExerciseSourceLocation[];
 }): {
   success: true;
   data: ExerciseCard;
@@ -21,6 +21,7 @@ describe('buildExerciseUserPrompt', () => {
         count: 1,
         topicFocus: 'passato prossimo',
       },
+      exerciseType: 'fill_gap',
       chunks: [{
         documentId: '550e8400-e29b-41d4-a716-446655440000',
         position: 3,
@@ -49,6 +50,7 @@ describe('buildExerciseUserPrompt', () => {
         exerciseType: 'multiple_choice',
         count: 1,
       },
+      exerciseType: 'multiple_choice',
       chunks: [{
         documentId: '550e8400-e29b-41d4-a716-446655440000',
         position: 0,
@@ -78,6 +80,7 @@ describe('buildExerciseUserPrompt', () => {
         exerciseType: 'fill_gap',
         count: 1,
       },
+      exerciseType: 'fill_gap',
       chunks: [{
         documentId: '550e8400-e29b-41d4-a716-446655440000',
         position: 1,
@@ -94,6 +97,7 @@ describe('buildExerciseUserPrompt', () => {
         exerciseType: 'single_answer',
         count: 1,
       },
+      exerciseType: 'single_answer',
       chunks: [{
         documentId: '550e8400-e29b-41d4-a716-446655440000',
         position: 2,
@@ -112,6 +116,98 @@ describe('buildExerciseUserPrompt', () => {
     expect(singleAnswerPrompt).toContain('"gradingCriteria"');
   });
 
+  it('describes nested matching exerciseData shape', () => {
+    const prompt = buildExerciseUserPrompt({
+      request: {
+        documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+        exerciseType: 'matching',
+        count: 1,
+      },
+      exerciseType: 'matching',
+      chunks: [{
+        documentId: '550e8400-e29b-41d4-a716-446655440000',
+        position: 3,
+        content: 'Al mercato faccio la spesa e chiedo uno sconto al banco.',
+      }],
+      attempt: 1,
+      exerciseNumber: 1,
+      previousQuestions: [],
+    });
+
+    expect(prompt).toContain('Exercise type: matching');
+    expect(prompt).toContain('4 to 8 objects with term and match');
+    expect(prompt).toContain('"exerciseData":{"pairs":[{"term"');
+  });
+
+  it('describes nested word-order exerciseData shape', () => {
+    const prompt = buildExerciseUserPrompt({
+      request: {
+        documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+        exerciseType: 'word_order',
+        count: 1,
+      },
+      exerciseType: 'word_order',
+      chunks: [{
+        documentId: '550e8400-e29b-41d4-a716-446655440000',
+        position: 4,
+        content: 'Non gliel ho ancora detto, ma lo saprà presto.',
+      }],
+      attempt: 1,
+      exerciseNumber: 1,
+      previousQuestions: [],
+    });
+
+    expect(prompt).toContain('Exercise type: word_order');
+    expect(prompt).toContain('3 to 15 words or short chunks');
+    expect(prompt).toContain('"exerciseData":{"tokens":[');
+  });
+
+  it('describes numbered cloze gaps', () => {
+    const prompt = buildExerciseUserPrompt({
+      request: {
+        documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+        exerciseType: 'cloze',
+        count: 1,
+      },
+      exerciseType: 'cloze',
+      chunks: [{
+        documentId: '550e8400-e29b-41d4-a716-446655440000',
+        position: 2,
+        content: 'Ieri Marta è andata al mercato e ha comprato le fragole.',
+      }],
+      attempt: 1,
+      exerciseNumber: 1,
+      previousQuestions: [],
+    });
+
+    expect(prompt).toContain('Exercise type: cloze');
+    expect(prompt).toContain('written as ___1, ___2');
+    expect(prompt).toContain('"exerciseData":{"text":');
+  });
+
+  it('alternates translation direction by exercise number', () => {
+    const buildPrompt = (exerciseNumber: number) => buildExerciseUserPrompt({
+      request: {
+        documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+        exerciseType: 'translation',
+        count: 2,
+      },
+      exerciseType: 'translation',
+      chunks: [{
+        documentId: '550e8400-e29b-41d4-a716-446655440000',
+        position: 6,
+        content: 'Domani andiamo al mare se non piove.',
+      }],
+      attempt: 1,
+      exerciseNumber,
+      previousQuestions: [],
+    });
+
+    expect(buildPrompt(1)).toContain('Translation direction: it_to_en');
+    expect(buildPrompt(2)).toContain('Translation direction: en_to_it');
+    expect(buildPrompt(1)).toContain('"referenceTranslations":[');
+  });
+
   it('includes previously generated questions for diversity', () => {
     const prompt = buildExerciseUserPrompt({
       request: {
@@ -119,6 +215,7 @@ describe('buildExerciseUserPrompt', () => {
         exerciseType: 'multiple_choice',
         count: 3,
       },
+      exerciseType: 'multiple_choice',
       chunks: [{
         documentId: '550e8400-e29b-41d4-a716-446655440000',
         position: 0,
@@ -145,6 +242,7 @@ describe('buildExerciseUserPrompt', () => {
         exerciseType: 'fill_gap',
         count: 2,
       },
+      exerciseType: 'fill_gap',
       chunks: [
         {
           documentId: '550e8400-e29b-41d4-a716-446655440000',
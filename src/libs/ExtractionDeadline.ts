@@ -0,0 +1,31 @@
+/**
+ * Cooperative time budget for synchronous document extractors.
+ * Archive and markup parsing run synchronously, so a Promise.race timeout
+ * cannot interrupt them; extractors instead check the deadline between units
+ * of work (archive entries, chapters, parse steps) and abort once it passes.
+ */
+
+/**
+ * Error thrown when an extraction exceeds its time budget.
+ */
+export class ExtractionTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Extraction timed out after ${timeoutMs}ms`);
+    this.name = 'ExtractionTimeoutError';
+  }
+}
+
+/**
+ * Starts a time budget for one extraction.
+ * @param timeoutMs - Time budget in milliseconds
+ * @returns Check function that throws ExtractionTimeoutError once the budget is spent
+ */
+export function createExtractionDeadline(timeoutMs: number) {
+  const expiresAt = Date.now() + timeoutMs;
+
+  return function checkDeadline() {
+    if (Date.now() > expiresAt) {
+      throw new ExtractionTimeoutError(timeoutMs);
+    }
+  };
+}
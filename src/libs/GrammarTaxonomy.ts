@@ -0,0 +1,73 @@
+import type { ConjugationTense } from '@/validations/ExerciseValidation';
+import type { CefrLevel, GrammarTopic } from '@/validations/GrammarTopicValidation';
+import { grammarTopicValues } from '@/validations/GrammarTopicValidation';
+
+type GrammarTopicDefinition = {
+  label: string;
+  cefrLevel: CefrLevel;
+};
+
+/**
+ * Curated Italian grammar topics, in the order a learner usually meets them.
+ * Labels stay in Italian because they are the terms learners study.
+ */
+export const grammarTaxonomy: Record<GrammarTopic, GrammarTopicDefinition> = {
+  articoli: { label: 'Articoli determinativi e indeterminativi', cefrLevel: 'A1' },
+  genere_e_numero: { label: 'Genere e numero dei nomi', cefrLevel: 'A1' },
+  accordo_aggettivi: { label: 'Accordo degli aggettivi', cefrLevel: 'A1' },
+  presente_indicativo: { label: 'Presente indicativo', cefrLevel: 'A1' },
+  preposizioni_semplici: { label: 'Preposizioni semplici', cefrLevel: 'A1' },
+  possessivi: { label: 'Aggettivi e pronomi possessivi', cefrLevel: 'A1' },
+  preposizioni_articolate: { label: 'Preposizioni articolate', cefrLevel: 'A2' },
+  verbi_riflessivi: { label: 'Verbi riflessivi', cefrLevel: 'A2' },
+  passato_prossimo: { label: 'Passato prossimo', cefrLevel: 'A2' },
+  imperfetto: { label: 'Imperfetto', cefrLevel: 'A2' },
+  futuro_semplice: { label: 'Futuro semplice', cefrLevel: 'A2' },
+  pronomi_diretti: { label: 'Pronomi diretti', cefrLevel: 'A2' },
+  pronomi_indiretti: { label: 'Pronomi indiretti', cefrLevel: 'A2' },
+  comparativi_e_superlativi: { label: 'Comparativi e superlativi', cefrLevel: 'A2' },
+  particelle_ci_e_ne: { label: 'Particelle ci e ne', cefrLevel: 'B1' },
+  imperativo: { label: 'Imperativo', cefrLevel: 'B1' },
+  condizionale_presente: { label: 'Condizionale presente', cefrLevel: 'B1' },
+  congiuntivo_presente: { label: 'Congiuntivo presente', cefrLevel: 'B1' },
+  pronomi_combinati: { label: 'Pronomi combinati', cefrLevel: 'B1' },
+  pronomi_relativi: { label: 'Pronomi relativi', cefrLevel: 'B1' },
+  trapassato_prossimo: { label: 'Trapassato prossimo', cefrLevel: 'B1' },
+  congiuntivo_imperfetto: { label: 'Congiuntivo imperfetto', cefrLevel: 'B2' },
+  congiuntivo_passato: { label: 'Congiuntivo passato', cefrLevel: 'B2' },
+  periodo_ipotetico: { label: 'Periodo ipotetico', cefrLevel: 'B2' },
+  passato_remoto: { label: 'Passato remoto', cefrLevel: 'B2' },
+  forma_passiva: { label: 'Forma passiva', cefrLevel: 'B2' },
+  discorso_indiretto: { label: 'Discorso indiretto', cefrLevel: 'B2' },
+  concordanza_dei_tempi: { label: 'Concordanza dei tempi', cefrLevel: 'C1' },
+  gerundio_e_participio: { label: 'Gerundio e participio', cefrLevel: 'C1' },
+};
+
+const conjugationTenseTopics: Record<ConjugationTense, GrammarTopic> = {
+  presente: 'presente_indicativo',
+  imperfetto: 'imperfetto',
+  passato_prossimo: 'passato_prossimo',
+  futuro_semplice: 'futuro_semplice',
+  condizionale_presente: 'condizionale_presente',
+  congiuntivo_presente: 'congiuntivo_presente',
+  congiuntivo_imperfetto: 'congiuntivo_imperfetto',
+};
+
+/**
+ * Maps a conjugation drill's tense to its grammar topic.
+ * @param tense - Drilled tense.
+ * @returns Grammar topic covering that tense.
+ */
+export function getConjugationGrammarTopic(tense: ConjugationTense) {
+  return conjugationTenseTopics[tense];
+}
+
+/**
+ * Lists the taxonomy for the generation prompt, one topic per line.
+ * @returns Topic IDs with their labels and CEFR levels.
+ */
+export function formatGrammarTopicsForPrompt() {
+  return grammarTopicValues
+    .map(topic => `${topic} (${grammarTaxonomy[topic].label}, ${grammarTaxonomy[topic].cefrLevel})`)
+    .join('\n');
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createInMemoryVectorStore } from './InMemoryVectorStore';
+
+function buildRecord(input: {
+  id: string;
+  userId: string;
+  documentId: string;
+  position: number;
+  values: number[];
+}) {
+  return {
+    id: input.id,
+    values: input.values,
+    metadata: {
+      user_id: input.userId,
+      document_id: input.documentId,
+      chunk_position: input.position,
+      content_type: 'text' as const,
+      created_at: '2026-03-05T10:00:00.000Z',
+      text: `Testo ${input.id}`,
+    },
+  };
+}
+
+describe('createInMemoryVectorStore', () => {
+  it('returns the closest vectors for the user and documents in the filter', async () => {
+    const store = createInMemoryVectorStore();
+    await store.upsert([
+      buildRecord({ id: 'doc-1_chunk_0', userId: 'user-1', documentId: 'doc-1', position: 0, values: [1, 0] }),
+      buildRecord({ id: 'doc-1_chunk_1', userId: 'user-1', documentId: 'doc-1', position: 1, values: [0, 1] }),
+      buildRecord({ id: 'doc-2_chunk_0', userId: 'user-1', documentId: 'doc-2', position: 0, values: [1, 0] }),
+      buildRecord({ id: 'doc-3_chunk_0', userId: 'user-2', documentId: 'doc-3', position: 0, values: [1, 0] }),
+    ]);
+
+    const matches = await store.query({
+      vector: [1, 0.1],
+      topK: 5,
+      filter: { userId: 'user-1', documentIds: ['doc-1'] },
+    });
+
+    expect(matches.map(match => match.id)).toEqual(['doc-1_chunk_0', 'doc-1_chunk_1']);
+    expect(matches[0]?.metadata.text).toBe('Testo doc-1_chunk_0');
+  });
+
+  it('limits results to topK', async () => {
+    const store = createInMemoryVectorStore();
+    await store.upsert([
+      buildRecord({ id: 'doc-1_chunk_0', userId: 'user-1', documentId: 'doc-1', position: 0, values: [1, 0] }),
+      buildRecord({ id: 'doc-1_chunk_1', userId: 'user-1', documentId: 'doc-1', position: 1, values: [0.5, 0.5] }),
+    ]);
+
+    const matches = await store.query({
+      vector: [1, 0],
+      topK: 1,
+      filter: { userId: 'user-1' },
+    });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.id).toBe('doc-1_chunk_0');
+  });
+
+  it('deletes every vector of a document', async () => {
+    const store = createInMemoryVectorStore();
+    await store.upsert([
+      buildRecord({ id: 'doc-1_chunk_0', userId: 'user-1', documentId: 'doc-1', position: 0, values: [1, 0] }),
+      buildRecord({ id: 'doc-2_chunk_0', userId: 'user-1', documentId: 'doc-2', position: 0, values: [1, 0] }),
+    ]);
+
+    await store.deleteByDocument({ documentId: 'doc-1', vectorIds: [] });
+
+    const matches = await store.query({
+      vector: [1, 0],
+      topK: 5,
+      filter: { userId: 'user-1' },
+    });
+
+    expect(matches.map(match => match.id)).toEqual(['doc-2_chunk_0']);
+  });
+});
@@ -0,0 +1,70 @@
+import type { VectorRecord, VectorStore } from './VectorStore';
+
+function cosineSimilarity(left: number[], right: number[]) {
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+
+  for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+    const leftValue = left[index]!;
+    const rightValue = right[index]!;
+    dot += leftValue * rightValue;
+    leftNorm += leftValue * leftValue;
+    rightNorm += rightValue * rightValue;
+  }
+
+  if (leftNorm === 0 || rightNorm === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(leftNorm) * Math.sqrt(rightNorm));
+}
+
+/**
+ * Creates a process-local vector store for development and integration tests.
+ * Records live only as long as the store instance.
+ * @returns In-memory vector store.
+ */
+export function createInMemoryVectorStore(): VectorStore {
+  const records = new Map<string, VectorRecord>();
+
+  return {
+    backend: 'memory',
+    async upsert(incoming) {
+      for (const record of incoming) {
+        records.set(record.id, {
+          id: record.id,
+          values: [...record.values],
+          metadata: { ...record.metadata },
+        });
+      }
+    },
+    async query(query) {
+      const documentIds = query.filter.documentIds
+        ? new Set(query.filter.documentIds)
+        : null;
+
+      return [...records.values()]
+        .filter(record => record.metadata.user_id === query.filter.userId)
+        .filter(record => !documentIds || documentIds.has(record.metadata.document_id))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(query.vector, record.values),
+          metadata: { ...record.metadata },
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, query.topK);
+    },
+    async deleteByDocument(input) {
+      for (const id of input.vectorIds) {
+        records.delete(id);
+      }
+
+      for (const [id, record] of records) {
+        if (record.metadata.document_id === input.documentId) {
+          records.delete(id);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,397 @@
+import { Buffer } from 'node:buffer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type QueuedJob = {
+  id: string;
+  userId: string;
+  documentId: string;
+  contentType: 'pdf' | 'url' | 'text' | 'docx' | 'epub' | 'markdown' | 'html' | 'srt' | 'vtt';
+  title: string | null;
+  sourceUrl: string | null;
+  originalFilename: string | null;
+  stagingKey: string | null;
+  textContent: string | null;
+};
+
+const state = {
+  pendingJobs: [] as QueuedJob[],
+  pendingCount: 0,
+  jobUpdates: [] as Array<Record<string, unknown>>,
+  insertedJobs: [] as Array<Record<string, unknown>>,
+  staleJobs: [] as Array<{ id: string; stagingKey: string | null }>,
+  recoveryUpdates: [] as Array<Record<string, unknown>>,
+};
+
+const mockIngestContent = vi.fn();
+const mockMarkDocumentAsFailed = vi.fn(async () => undefined);
+const mockProcessPdf = vi.fn();
+const mockProcessEpub = vi.fn();
+const mockProcessSubtitles = vi.fn();
+const mockExtractUrlContent = vi.fn();
+const mockEnqueueVocabularyJob = vi.fn(async () => undefined);
+const mockRunVocabularyWorkerBatch = vi.fn(async () => ({ claimed: 0, completed: 0, failed: 0 }));
+const mockStageUpload = vi.fn(async (key: string) => key);
+const mockReadStagedUpload = vi.fn(async () => Buffer.from('%PDF'));
+const mockDeleteStagedUpload = vi.fn(async () => undefined);
+
+function createUpdateChain() {
+  return {
+    set: vi.fn((values: Record<string, unknown>) => ({
+      where: vi.fn(() => {
+        const isStaleRecovery = values.errorMessage === 'WORKER_INTERRUPTED';
+        // Stale recovery updates are tracked apart from the job lifecycle
+        if (isStaleRecovery) {
+          state.recoveryUpdates.push(values);
+        } else if ('completedAt' in values) {
+          state.jobUpdates.push(values);
+        }
+
+        return Object.assign(Promise.resolve(undefined), {
+          returning: vi.fn(async () => isStaleRecovery ? state.staleJobs : []),
+        });
+      }),
+    })),
+  };
+}
+
+const mockDb = {
+  transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => {
+    const next = state.pendingJobs[0];
+
+    return callback({
+      execute: vi.fn(async () => ({ rows: next ? [{ id: next.id }] : [] })),
+      update: vi.fn(() => ({
+        set: vi.fn(() => ({
+          where: vi.fn(() => ({
+            returning: vi.fn(async () => {
+              const job = state.pendingJobs.shift();
+              return job ? [job] : [];
+            }),
+          })),
+        })),
+      })),
+    });
+  }),
+  update: vi.fn(() => createUpdateChain()),
+  select: vi.fn(() => ({
+    from: vi.fn(() => ({
+      where: vi.fn(async () => [{ value: state.pendingCount }]),
+    })),
+  })),
+  insert: vi.fn(() => ({
+    values: vi.fn((values: Record<string, unknown>) => ({
+      returning: vi.fn(async () => {
+        state.insertedJobs.push(values);
+        return [{ id: 'job-1' }];
+      }),
+    })),
+  })),
+};
+
+vi.mock('./DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('./ContentIngestion', () => ({
+  ingestContent: mockIngestContent,
+  markDocumentAsFailed: mockMarkDocumentAsFailed,
+}));
+
+vi.mock('./PdfExtractor', () => ({
+  processPdf: mockProcessPdf,
+}));
+
+vi.mock('./EpubExtractor', () => ({
+  processEpub: mockProcessEpub,
+}));
+
+vi.mock('./SubtitleExtractor', () => ({
+  processSubtitles: mockProcessSubtitles,
+}));
+
+vi.mock('./UrlExtractor', () => ({
+  extractUrlContent: mockExtractUrlContent,
+}));
+
+vi.mock('./UploadStaging', () => ({
+  stageUpload: mockStageUpload,
+  readStagedUpload: mockReadStagedUpload,
+  deleteStagedUpload: mockDeleteStagedUpload,
+}));
+
+vi.mock('./VocabularyJobs', () => ({
+  enqueueVocabularyJob: mockEnqueueVocabularyJob,
+  runVocabularyWorkerBatch: mockRunVocabularyWorkerBatch,
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function buildJob(overrides: Partial<QueuedJob>): QueuedJob {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    documentId: '550e8400-e29b-41d4-a716-446655440001',
+    contentType: 'text',
+    title: 'Appunti',
+    sourceUrl: null,
+    originalFilename: null,
+    stagingKey: null,
+    textContent: 'Testo incollato',
+    ...overrides,
+  };
+}
+
+describe('IngestionJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.pendingJobs = [];
+    state.pendingCount = 0;
+    state.jobUpdates = [];
+    state.insertedJobs = [];
+    state.staleJobs = [];
+    state.recoveryUpdates = [];
+    mockIngestContent.mockImplementation(async (input: { documentId: string }) => ({
+      success: true,
+      documentId: input.documentId,
+      chunkCount: 2,
+      status: 'ready',
+      searchable: true,
+    }));
+  });
+
+  it('extracts staged PDFs, ingests them and removes the staged bytes', async () => {
+    state.pendingJobs = [buildJob({
+      contentType: 'pdf',
+      title: 'Lezione',
+      originalFilename: 'lezione.pdf',
+      stagingKey: '550e8400-e29b-41d4-a716-446655440001',
+      textContent: null,
+    })];
+    mockProcessPdf.mockResolvedValue({
+      success: true,
+      text: 'Testo estratto\n\nSeconda pagina',
+      pages: ['Testo estratto', 'Seconda pagina'],
+    });
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch({ maxJobs: 5 });
+
+    expect(result).toEqual({ claimed: 1, completed: 1, failed: 0 });
+    expect(mockReadStagedUpload).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001');
+    expect(mockIngestContent).toHaveBeenCalledWith({
+      documentId: '550e8400-e29b-41d4-a716-446655440001',
+      userId: 'user-1',
+      title: 'Lezione',
+      contentType: 'pdf',
+      text: 'Testo estratto\n\nSeconda pagina',
+      pages: ['Testo estratto', 'Seconda pagina'],
+      sourceUrl: undefined,
+      originalFilename: 'lezione.pdf',
+    });
+    expect(state.jobUpdates).toEqual([expect.objectContaining({
+      status: 'completed',
+      stagingKey: null,
+      textContent: null,
+    })]);
+    expect(mockDeleteStagedUpload).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001');
+  });
+
+  it('ingests EPUB chapters as separate sections under the book title', async () => {
+    state.pendingJobs = [buildJob({
+      contentType: 'epub',
+      title: null,
+      originalFilename: 'racconti.epub',
+      stagingKey: '550e8400-e29b-41d4-a716-446655440001',
+      textContent: null,
+    })];
+    mockProcessEpub.mockResolvedValue({
+      success: true,
+      text: 'Capitolo primo\n\nCapitolo secondo',
+      title: 'Racconti brevi',
+      chapters: [
+        { title: 'Capitolo primo', text: 'Capitolo primo' },
+        { title: 'Capitolo secondo', text: 'Capitolo secondo' },
+      ],
+    });
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch();
+
+    expect(result).toEqual({ claimed: 1, completed: 1, failed: 0 });
+    expect(mockIngestContent).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Racconti brevi',
+      contentType: 'epub',
+      sections: ['Capitolo primo', 'Capitolo secondo'],
+    }));
+  });
+
+  it('ingests subtitle cues as timed segments', async () => {
+    const cues = [
+      { startMs: 1500, endMs: 3000, text: 'Buongiorno, signora!' },
+      { startMs: 3250, endMs: 5800, text: 'Come sta?' },
+    ];
+    state.pendingJobs = [buildJob({
+      contentType: 'vtt',
+      title: 'Episodio 1',
+      originalFilename: 'episodio-1.vtt',
+      stagingKey: '550e8400-e29b-41d4-a716-446655440001',
+      textContent: null,
+    })];
+    mockProcessSubtitles.mockResolvedValue({
+      success: true,
+      text: 'Buongiorno, signora!\nCome sta?',
+      cues,
+    });
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch();
+
+    expect(result).toEqual({ claimed: 1, completed: 1, failed: 0 });
+    expect(mockProcessSubtitles).toHaveBeenCalledWith(expect.anything(), 'vtt');
+    expect(mockIngestContent).toHaveBeenCalledWith(expect.objectContaining({
+      contentType: 'vtt',
+      segments: cues,
+    }));
+  });
+
+  it('uses the page title for URL imports without an explicit title', async () => {
+    state.pendingJobs = [buildJob({
+      contentType: 'url',
+      title: null,
+      sourceUrl: 'https://example.com/articolo',
+      textContent: null,
+    })];
+    mockExtractUrlContent.mockResolvedValue({
+      success: true,
+      text: 'Contenuto della pagina',
+      title: 'Un articolo',
+    });
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    await runIngestionWorkerBatch();
+
+    expect(mockExtractUrlContent).toHaveBeenCalledWith('https://example.com/articolo');
+    expect(mockIngestContent).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Un articolo',
+      sourceUrl: 'https://example.com/articolo',
+    }));
+  });
+
+  it('queues glossary extraction and runs it after the claimed jobs', async () => {
+    state.pendingJobs = [buildJob({}), buildJob({ id: 'job-2', documentId: '550e8400-e29b-41d4-a716-446655440002' })];
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch({ maxJobs: 5 });
+
+    expect(result).toEqual({ claimed: 2, completed: 2, failed: 0 });
+    expect(mockEnqueueVocabularyJob).toHaveBeenCalledTimes(2);
+    expect(mockEnqueueVocabularyJob).toHaveBeenCalledWith({
+      documentId: '550e8400-e29b-41d4-a716-446655440001',
+      userId: 'user-1',
+    });
+    expect(mockRunVocabularyWorkerBatch).toHaveBeenCalledTimes(1);
+    expect(mockRunVocabularyWorkerBatch.mock.invocationCallOrder[0])
+      .toBeGreaterThan(mockIngestContent.mock.invocationCallOrder[1]!);
+  });
+
+  it('keeps the job completed when its glossary cannot be queued', async () => {
+    state.pendingJobs = [buildJob({})];
+    mockEnqueueVocabularyJob.mockRejectedValueOnce(new Error('connection reset'));
+    mockRunVocabularyWorkerBatch.mockRejectedValueOnce(new Error('connection reset'));
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch({ maxJobs: 5 });
+
+    expect(result).toEqual({ claimed: 1, completed: 1, failed: 0 });
+    expect(state.jobUpdates).toEqual([expect.objectContaining({ status: 'completed' })]);
+  });
+
+  it('fails the job and document when extraction fails', async () => {
+    state.pendingJobs = [buildJob({
+      contentType: 'url',
+      sourceUrl: 'https://example.com/vuota',
+      textContent: null,
+    })];
+    mockExtractUrlContent.mockResolvedValue({
+      success: false,
+      error: 'Page has no readable content.',
+    });
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch();
+
+    expect(result).toEqual({ claimed: 1, completed: 0, failed: 1 });
+    expect(mockIngestContent).not.toHaveBeenCalled();
+    expect(mockMarkDocumentAsFailed).toHaveBeenCalledWith(
+      '550e8400-e29b-41d4-a716-446655440001',
+      'Page has no readable content.',
+    );
+    expect(state.jobUpdates).toEqual([expect.objectContaining({
+      status: 'failed',
+      errorMessage: 'Page has no readable content.',
+    })]);
+  });
+
+  it('deletes the staged bytes of interrupted jobs before clearing their key', async () => {
+    state.staleJobs = [
+      { id: 'job-stale', stagingKey: '550e8400-e29b-41d4-a716-446655440009' },
+      { id: 'job-text', stagingKey: null },
+    ];
+
+    const { runIngestionWorkerBatch } = await import('./IngestionJobs');
+    const result = await runIngestionWorkerBatch({ maxJobs: 5 });
+
+    expect(result).toEqual({ claimed: 0, completed: 0, failed: 0 });
+    expect(state.recoveryUpdates).toEqual([expect.not.objectContaining({ stagingKey: null })]);
+    expect(mockDeleteStagedUpload).toHaveBeenCalledTimes(1);
+    expect(mockDeleteStagedUpload).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440009');
+  });
+
+  it('stages upload bytes when enqueueing a PDF', async () => {
+    const { enqueueIngestionJob } = await import('./IngestionJobs');
+    const result = await enqueueIngestionJob({
+      documentId: '550e8400-e29b-41d4-a716-446655440001',
+      userId: 'user-1',
+      title: 'Lezione',
+      contentType: 'pdf',
+      originalFilename: 'lezione.pdf',
+      file: Buffer.from('%PDF'),
+    });
+
+    expect(result).toEqual({ success: true, jobId: 'job-1' });
+    expect(mockStageUpload).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001', Buffer.from('%PDF'));
+    expect(state.insertedJobs).toEqual([expect.objectContaining({
+      status: 'pending',
+      stagingKey: '550e8400-e29b-41d4-a716-446655440001',
+      textContent: null,
+    })]);
+  });
+
+  it('rejects new jobs when the pending queue is at capacity', async () => {
+    state.pendingCount = 200;
+
+    const { enqueueIngestionJob } = await import('./IngestionJobs');
+    const result = await enqueueIngestionJob({
+      documentId: '550e8400-e29b-41d4-a716-446655440001',
+      userId: 'user-1',
+      title: 'Appunti',
+      contentType: 'text',
+      text: 'Testo incollato',
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errorCode: 'QUEUE_FULL',
+      error: 'Upload queue is at capacity.',
+    });
+    expect(mockStageUpload).not.toHaveBeenCalled();
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * Durable ingestion job queue.
+ * Uploads are reserved and queued by the upload route, then claimed by the
+ * worker (local kick or scheduled dispatch) for extraction and embedding.
+ * Raw file bytes are kept in upload staging storage until the job finishes.
+ * Glossary extraction is queued separately once a document is ready (see VocabularyJobs).
+ */
+
+import type { Buffer } from 'node:buffer';
+import type { ContentType, TimedSegment } from './ContentIngestion';
+import type { DocumentFileContentType } from '@/validations/DocumentValidation';
+import { and, count, eq, inArray, isNotNull, isNull, lt, notExists, or, sql } from 'drizzle-orm';
+import { documentsSchema, ingestionJobsSchema } from '@/models/Schema';
+import { ingestContent, markDocumentAsFailed } from './ContentIngestion';
+import { db } from './DB';
+import { processDocx } from './DocxExtractor';
+import { Env } from './Env';
+import { processEpub } from './EpubExtractor';
+import { logger } from './Logger';
+import { processHtml, processMarkdown } from './MarkupExtractor';
+import { processPdf } from './PdfExtractor';
+import { processSubtitles } from './SubtitleExtractor';
+import { deleteStagedUpload, readStagedUpload, stageUpload } from './UploadStaging';
+import { extractUrlContent } from './UrlExtractor';
+import { enqueueVocabularyJob, runVocabularyWorkerBatch } from './VocabularyJobs';
+
+const DEFAULT_WORKER_BATCH_SIZE = 10;
+const MAX_WORKER_BATCH_SIZE = 100;
+const MAX_PENDING_JOBS = 200;
+const PENDING_STALE_JOB_THRESHOLD_MS = Env.INGESTION_PENDING_STALE_MS ?? 30 * 60 * 1000;
+const PROCESSING_STALE_JOB_THRESHOLD_MS = Env.INGESTION_PROCESSING_STALE_MS ?? 15 * 60 * 1000;
+const INTERRUPTED_DOCUMENT_MESSAGE = 'Processing was interrupted. Please upload the document again.';
+
+type ExtractionResult = {
+  success: true;
+  text: string;
+  sections?: string[];
+  segments?: TimedSegment[];
+  pages?: string[];
+  title?: string;
+} | {
+  success: false;
+  error: string;
+};
+
+type EnqueueIngestionResult = {
+  success: true;
+  jobId: string;
+} | {
+  success: false;
+  errorCode: 'QUEUE_FULL' | 'STORAGE_FAILED';
+  error: string;
+};
+
+type ClaimedIngestionJob = {
+  id: string;
+  userId: string;
+  documentId: string;
+  contentType: ContentType;
+  title: string | null;
+  sourceUrl: string | null;
+  originalFilename: string | null;
+  stagingKey: string | null;
+  textContent: string | null;
+};
+
+type IngestionWorkerBatchResult = {
+  claimed: number;
+  completed: number;
+  failed: number;
+};
+
+const globalForIngestionWorker = globalThis as unknown as {
+  ingestionWorker: Promise<unknown> | null | undefined;
+};
+
+/**
+ * Counts currently pending ingestion jobs.
+ * @returns Number of pending jobs.
+ */
+export async function countPendingIngestionJobs() {
+  const [result] = await db
+    .select({ value: count() })
+    .from(ingestionJobsSchema)
+    .where(eq(ingestionJobsSchema.status, 'pending'));
+
+  return result?.value ?? 0;
+}
+
+/**
+ * Queues a reserved document for extraction and ingestion.
+ * @param input - Reserved document metadata and its raw content.
+ * @param input.documentId - Reserved document ID.
+ * @param input.userId - Owner of the document.
+ * @param input.title - Explicit document title; URL and EPUB imports without one use the extracted title.
+ * @param input.contentType - Source content type.
+ * @param input.sourceUrl - Source URL for URL imports.
+ * @param input.originalFilename - Original filename for file uploads.
+ * @param input.text - Sanitized pasted text for text uploads.
+ * @param input.file - Raw upload bytes, written to staging storage.
+ * @returns Enqueue result with job ID or error.
+ */
+export async function enqueueIngestionJob(input: {
+  documentId: string;
+  userId: string;
+  title?: string;
+  contentType: ContentType;
+  sourceUrl?: string;
+  originalFilename?: string;
+  text?: string;
+  file?: Buffer;
+}): Promise<EnqueueIngestionResult> {
+  const pendingJobs = await countPendingIngestionJobs();
+  if (pendingJobs >= MAX_PENDING_JOBS) {
+    logger.warn('ingestion_queue_full', {
+      documentId: input.documentId,
+      pendingJobs,
+    });
+
+    return {
+      success: false,
+      errorCode: 'QUEUE_FULL',
+      error: 'Upload queue is at capacity.',
+    };
+  }
+
+  let stagingKey: string | null = null;
+
+  try {
+    if (input.file) {
+      stagingKey = await stageUpload(input.documentId, input.file);
+    }
+
+    const [job] = await db
+      .insert(ingestionJobsSchema)
+      .values({
+        userId: input.userId,
+        documentId: input.documentId,
+        status: 'pending',
+        contentType: input.contentType,
+        title: input.title ?? null,
+        sourceUrl: input.sourceUrl ?? null,
+        originalFilename: input.originalFilename ?? null,
+        stagingKey,
+        textContent: input.text ?? null,
+      })
+      .returning({ id: ingestionJobsSchema.id });
+
+    if (!job?.id) {
+      throw new Error('Ingestion job insert returned no row');
+    }
+
+    logger.info('ingestion_job_queued', {
+      jobId: job.id,
+      documentId: input.documentId,
+      contentType: input.contentType,
+      pendingJobs: pendingJobs + 1,
+    });
+
+    return {
+      success: true,
+      jobId: job.id,
+    };
+  } catch (error) {
+    logger.error('ingestion_job_enqueue_failed', {
+      documentId: input.documentId,
+      error,
+    });
+
+    if (stagingKey) {
+      await deleteStagedUpload(stagingKey).catch(() => undefined);
+    }
+
+    return {
+      success: false,
+      errorCode: 'STORAGE_FAILED',
+      error: 'Failed to queue document for processing.',
+    };
+  }
+}
+
+async function claimNextIngestionJob() {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const lockResult = await tx.execute(
+      sql`SELECT ${ingestionJobsSchema.id} FROM ${ingestionJobsSchema} WHERE ${ingestionJobsSchema.status} = 'pending' ORDER BY ${ingestionJobsSchema.createdAt} ASC FOR UPDATE SKIP LOCKED LIMIT 1`,
+    );
+
+    const nextRow = lockResult.rows[0] as { id?: unknown } | undefined;
+    const nextId = typeof nextRow?.id === 'string' ? nextRow.id : null;
+    if (!nextId) {
+      return null;
+    }
+
+    const [job] = await tx
+      .update(ingestionJobsSchema)
+      .set({
+        status: 'processing',
+        startedAt: now,
+        errorMessage: null,
+      })
+      .where(and(
+        eq(ingestionJobsSchema.id, nextId),
+        eq(ingestionJobsSchema.status, 'pending'),
+      ))
+      .returning({
+        id: ingestionJobsSchema.id,
+        userId: ingestionJobsSchema.userId,
+        documentId: ingestionJobsSchema.documentId,
+        contentType: ingestionJobsSchema.contentType,
+        title: ingestionJobsSchema.title,
+        sourceUrl: ingestionJobsSchema.sourceUrl,
+        originalFilename: ingestionJobsSchema.originalFilename,
+        stagingKey: ingestionJobsSchema.stagingKey,
+        textContent: ingestionJobsSchema.textContent,
+      });
+
+    return (job ?? null) as ClaimedIngestionJob | null;
+  });
+}
+
+async function extractFileText(
+  contentType: DocumentFileContentType,
+  buffer: Buffer,
+): Promise<ExtractionResult> {
+  switch (contentType) {
+    case 'pdf': {
+      const extraction = await processPdf(buffer);
+      return extraction.success
+        ? { success: true, text: extraction.text, pages: extraction.pages }
+        : { success: false, error: extraction.error };
+    }
+    case 'docx': {
+      const extraction = await processDocx(buffer);
+      return extraction.success
+        ? { success: true, text: extraction.text }
+        : { success: false, error: extraction.error };
+    }
+    case 'epub': {
+      const extraction = await processEpub(buffer);
+      return extraction.success
+        ? {
+            success: true,
+            text: extraction.text,
+            sections: extraction.chapters.map(chapter => chapter.text),
+            title: extraction.title ?? undefined,
+          }
+        : { success: false, error: extraction.error };
+    }
+    case 'markdown': {
+      const extraction = await processMarkdown(buffer);
+      return extraction.success
+        ? { success: true, text: extraction.text }
+        : { success: false, error: extraction.error };
+    }
+    case 'html': {
+      const extraction = await processHtml(buffer);
+      return extraction.success
+        ? { success: true, text: extraction.text }
+        : { success: false, error: extraction.error };
+    }
+    case 'srt':
+    case 'vtt': {
+      const extraction = await processSubtitles(buffer, contentType);
+      return extraction.success
+        ? { success: true, text: extraction.text, segments: extraction.cues }
+        : { success: false, error: extraction.error };
+    }
+  }
+}
+
+async function extractJobText(job: ClaimedIngestionJob): Promise<ExtractionResult> {
+  switch (job.contentType) {
+    case 'pdf':
+    case 'docx':
+    case 'epub':
+    case 'markdown':
+    case 'html':
+    case 'srt':
+    case 'vtt':
+      if (!job.stagingKey) {
+        return { success: false, error: 'Uploaded file is no longer available.' };
+      }
+
+      return extractFileText(job.contentType, await readStagedUpload(job.stagingKey));
+    case 'url': {
+      if (!job.sourceUrl) {
+        return { success: false, error: 'Source URL is missing.' };
+      }
+
+      const extraction = await extractUrlContent(job.sourceUrl);
+      if (!extraction.success) {
+        return { success: false, error: extraction.error ?? 'Failed to extract URL content.' };
+      }
+
+      return {
+        success: true,
+        text: extraction.text,
+        title: extraction.title || new URL(job.sourceUrl).hostname,
+      };
+    }
+    case 'text':
+      return job.textContent
+        ? { success: true, text: job.textContent }
+        : { success: false, error: 'No content to process.' };
+  }
+}
+
+async function finishIngestionJob(
+  job: ClaimedIngestionJob,
+  status: 'completed' | 'failed',
+  errorMessage: string | null = null,
+) {
+  await db
+    .update(ingestionJobsSchema)
+    .set({
+      status,
+      errorMessage,
+      textContent: null,
+      stagingKey: null,
+      completedAt: new Date(),
+    })
+    .where(eq(ingestionJobsSchema.id, job.id));
+
+  if (job.stagingKey) {
+    try {
+      await deleteStagedUpload(job.stagingKey);
+    } catch (error) {
+      logger.warn('ingestion_staged_upload_cleanup_failed', {
+        jobId: job.id,
+        error,
+      });
+    }
+  }
+}
+
+async function failIngestionJob(job: ClaimedIngestionJob, message: string) {
+  await markDocumentAsFailed(job.documentId, message);
+  await finishIngestionJob(job, 'failed', message);
+
+  logger.error('ingestion_job_failed', {
+    jobId: job.id,
+    documentId: job.documentId,
+    message,
+  });
+}
+
+async function runClaimedIngestionJob(job: ClaimedIngestionJob) {
+  logger.info('ingestion_job_started', {
+    jobId: job.id,
+    documentId: job.documentId,
+    contentType: job.contentType,
+  });
+
+  const extraction = await extractJobText(job);
+  if (!extraction.success) {
+    await failIngestionJob(job, extraction.error);
+    return 'failed' as const;
+  }
+
+  const result = await ingestContent({
+    documentId: job.documentId,
+    userId: job.userId,
+    title: (job.title ?? extraction.title ?? job.originalFilename ?? 'Untitled').slice(0, 200),
+    contentType: job.contentType,
+    text: extraction.text,
+    sections: extraction.sections,
+    segments: extraction.segments,
+    pages: extraction.pages,
+    sourceUrl: job.sourceUrl ?? undefined,
+    originalFilename: job.originalFilename ?? undefined,
+  });
+
+  if (!result.success) {
+    await failIngestionJob(job, result.error ?? 'Content ingestion failed.');
+    return 'failed' as const;
+  }
+
+  await finishIngestionJob(job, 'completed');
+
+  logger.info('ingestion_job_completed', {
+    jobId: job.id,
+    documentId: job.documentId,
+    chunkCount: result.chunkCount,
+  });
+
+  // The document is already usable, so a glossary failure must not fail the job
+  try {
+    await enqueueVocabularyJob({
+      documentId: job.documentId,
+      userId: job.userId,
+    });
+  } catch (error) {
+    logger.warn('vocabulary_job_enqueue_failed', {
+      jobId: job.id,
+      documentId: job.documentId,
+      error,
+    });
+  }
+
+  return 'completed' as const;
+}
+
+/**
+ * Marks stale pending and processing jobs as failed, along with their
+ * documents and any document stuck in `uploading`/`processing` without a live job.
+ * @param userId - Optional user scope for stale recovery.
+ * @returns Number of jobs updated.
+ */
+async function recoverStaleIngestionJobs(userId?: string) {
+  const now = new Date();
+  const stalePendingBefore = new Date(now.getTime() - PENDING_STALE_JOB_THRESHOLD_MS);
+  const staleProcessingBefore = new Date(now.getTime() - PROCESSING_STALE_JOB_THRESHOLD_MS);
+
+  const staleBaseCondition = or(
+    and(
+      eq(ingestionJobsSchema.status, 'pending'),
+      lt(ingestionJobsSchema.createdAt, stalePendingBefore),
+    ),
+    and(
+      eq(ingestionJobsSchema.status, 'processing'),
+      or(
+        and(isNotNull(ingestionJobsSchema.startedAt), lt(ingestionJobsSchema.startedAt, staleProcessingBefore)),
+        and(isNull(ingestionJobsSchema.startedAt), lt(ingestionJobsSchema.createdAt, staleProcessingBefore)),
+      ),
+    ),
+  );
+
+  const staleCondition = userId
+    ? and(staleBaseCondition, eq(ingestionJobsSchema.userId, userId))
+    : staleBaseCondition;
+
+  const staleJobs = await db
+    .update(ingestionJobsSchema)
+    .set({
+      status: 'failed',
+      errorMessage: 'WORKER_INTERRUPTED',
+      textContent: null,
+      completedAt: now,
+    })
+    .where(staleCondition)
+    .returning({
+      id: ingestionJobsSchema.id,
+      stagingKey: ingestionJobsSchema.stagingKey,
+    });
+
+  // Documents without a pending or processing job cannot make progress anymore
+  const stuckDocumentBaseCondition = and(
+    inArray(documentsSchema.status, ['uploading', 'processing']),
+    lt(documentsSchema.createdAt, staleProcessingBefore),
+    notExists(
+      db
+        .select({ id: ingestionJobsSchema.id })
+        .from(ingestionJobsSchema)
+        .where(and(
+          eq(ingestionJobsSchema.documentId, documentsSchema.id),
+          inArray(ingestionJobsSchema.status, ['pending', 'processing']),
+        )),
+    ),
+  );
+
+  const recoveredDocuments = await db
+    .update(documentsSchema)
+    .set({
+      status: 'failed',
+      errorMessage: INTERRUPTED_DOCUMENT_MESSAGE,
+    })
+    .where(userId
+      ? and(stuckDocumentBaseCondition, eq(documentsSchema.userId, userId))
+      : stuckDocumentBaseCondition)
+    .returning({ id: documentsSchema.id });
+
+  // RETURNING yields the updated row, so the staging key is only cleared once its bytes are gone
+  for (const job of staleJobs) {
+    if (!job.stagingKey) {
+      continue;
+    }
+
+    try {
+      await deleteStagedUpload(job.stagingKey);
+      await db
+        .update(ingestionJobsSchema)
+        .set({ stagingKey: null })
+        .where(eq(ingestionJobsSchema.id, job.id));
+    } catch (error) {
+      logger.warn('ingestion_staged_upload_cleanup_failed', {
+        jobId: job.id,
+        error,
+      });
+    }
+  }
+
+  if (staleJobs.length > 0 || recoveredDocuments.length > 0) {
+    logger.warn('ingestion_jobs_recovered', {
+      jobs: staleJobs.length,
+      documents: recoveredDocuments.length,
+    });
+  }
+
+  return staleJobs.length;
+}
+
+function normalizeBatchSize(maxJobs: number | undefined) {
+  const value = maxJobs ?? DEFAULT_WORKER_BATCH_SIZE;
+  return Math.max(1, Math.min(MAX_WORKER_BATCH_SIZE, value));
+}
+
+/**
+ * Processes pending ingestion jobs in a bounded worker batch.
+ * @param input - Batch options for maximum claimed jobs and optional user-scoped stale recovery.
+ * @param input.maxJobs - Maximum number of jobs to claim in this run.
+ * @param input.userId - Optional user scope for stale recovery.
+ * @returns Worker batch counters.
+ */
+export async function runIngestionWorkerBatch(input?: {
+  maxJobs?: number;
+  userId?: string;
+}): Promise<IngestionWorkerBatchResult> {
+  const maxJobs = normalizeBatchSize(input?.maxJobs);
+  await recoverStaleIngestionJobs(input?.userId);
+
+  let claimed = 0;
+  let completed = 0;
+  let failed = 0;
+
+  for (let index = 0; index < maxJobs; index += 1) {
+    const job = await claimNextIngestionJob();
+    if (!job) {
+      break;
+    }
+
+    claimed += 1;
+
+    try {
+      const status = await runClaimedIngestionJob(job);
+      if (status === 'completed') {
+        completed += 1;
+      } else {
+        failed += 1;
+      }
+    } catch (error) {
+      failed += 1;
+      logger.error('ingestion_job_worker_crashed', {
+        jobId: job.id,
+        documentId: job.documentId,
+        error,
+      });
+      await failIngestionJob(job, 'An unexpected error occurred during processing.');
+    }
+  }
+
+  // Glossaries are extracted after the claimed documents, within their own budget
+  try {
+    await runVocabularyWorkerBatch();
+  } catch (error) {
+    logger.error('vocabulary_worker_batch_failed', {
+      error,
+    });
+  }
+
+  logger.info('ingestion_worker_batch_completed', {
+    maxJobs,
+    claimed,
+    completed,
+    failed,
+  });
+
+  return {
+    claimed,
+    completed,
+    failed,
+  };
+}
+
+/**
+ * Triggers best-effort local worker processing when a new job is enqueued.
+ * Production durability comes from the scheduled internal dispatch route, not
+ * from the request process remaining alive after the response is returned.
+ * @param userId - Optional user scope for stale recovery prior to claiming work.
+ */
+export function kickIngestionWorker(userId?: string) {
+  if (globalForIngestionWorker.ingestionWorker) {
+    return;
+  }
+
+  globalForIngestionWorker.ingestionWorker = runIngestionWorkerBatch({
+    maxJobs: DEFAULT_WORKER_BATCH_SIZE,
+    userId,
+  })
+    .catch((error) => {
+      logger.error('ingestion_worker_batch_failed', {
+        error,
+        userId,
+      });
+    })
+    .finally(() => {
+      globalForIngestionWorker.ingestionWorker = null;
+    });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { conjugateVerb, extractVerbInfinitives } from './ItalianConjugation';
+
+describe('conjugateVerb', () => {
+  it('conjugates regular verbs with spelling changes', () => {
+    expect(conjugateVerb({ infinitive: 'cercare', tense: 'presente', person: 'tu' })).toEqual(['cerchi']);
+    expect(conjugateVerb({ infinitive: 'mangiare', tense: 'futuro_semplice', person: 'noi' })).toEqual(['mangeremo']);
+    expect(conjugateVerb({ infinitive: 'studiare', tense: 'presente', person: 'noi' })).toEqual(['studiamo']);
+    expect(conjugateVerb({ infinitive: 'credere', tense: 'congiuntivo_imperfetto', person: 'loro' })).toEqual(['credessero']);
+    expect(conjugateVerb({ infinitive: 'dormire', tense: 'condizionale_presente', person: 'voi' })).toEqual(['dormireste']);
+    expect(conjugateVerb({ infinitive: 'capire', tense: 'congiuntivo_presente', person: 'lui/lei' })).toEqual(['capisca']);
+  });
+
+  it('uses the irregular table', () => {
+    expect(conjugateVerb({ infinitive: 'fare', tense: 'imperfetto', person: 'noi' })).toEqual(['facevamo']);
+    expect(conjugateVerb({ infinitive: 'essere', tense: 'congiuntivo_imperfetto', person: 'io' })).toEqual(['fossi']);
+    expect(conjugateVerb({ infinitive: 'venire', tense: 'futuro_semplice', person: 'lui/lei' })).toEqual(['verrà']);
+    expect(conjugateVerb({ infinitive: 'potere', tense: 'presente', person: 'lui/lei' })).toEqual(['può']);
+  });
+
+  it('picks the auxiliary for the passato prossimo', () => {
+    expect(conjugateVerb({ infinitive: 'scrivere', tense: 'passato_prossimo', person: 'noi' })).toEqual(['abbiamo scritto']);
+    expect(conjugateVerb({ infinitive: 'andare', tense: 'passato_prossimo', person: 'loro' })).toEqual(['sono andati', 'sono andate']);
+  });
+
+  it('returns null for words that are not infinitives', () => {
+    expect(conjugateVerb({ infinitive: 'casa', tense: 'presente', person: 'io' })).toBeNull();
+  });
+});
+
+describe('extractVerbInfinitives', () => {
+  it('finds known verbs in any form and other regular infinitives', () => {
+    expect(extractVerbInfinitives('Ieri sono andata al mercato. È bello passeggiare, ma preferisco nuotare. Siamo stanchi.')).toEqual([
+      'essere',
+      'andare',
+      'passeggiare',
+      'preferire',
+      'nuotare',
+    ]);
+  });
+
+  it('skips adjectives shaped like infinitives', () => {
+    expect(extractVerbInfinitives('Una canzone popolare e particolare.')).toEqual([]);
+  });
+});
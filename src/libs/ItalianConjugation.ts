@@ -0,0 +1,593 @@
+import type { ConjugationPerson, ConjugationTense, GeneratedExercise } from '@/validations/ExerciseValidation';
+import { getConjugationGrammarTopic } from './GrammarTaxonomy';
+
+type PersonForms = [string, string, string, string, string, string];
+
+type VerbClass = 'are' | 'ere' | 'ire' | 'isc';
+
+type IrregularVerb = {
+  presente?: PersonForms;
+  congiuntivoPresente?: PersonForms;
+  imperfetto?: PersonForms;
+  // Base used for the imperfetto and congiuntivo imperfetto (fare -> face-vo, face-ssi)
+  imperfettoBase?: string;
+  congiuntivoImperfettoBase?: string;
+  futureStem?: string;
+  participle?: string;
+};
+
+type ConjugationCandidate = {
+  documentId: string;
+  chunkPosition: number;
+  content: string;
+};
+
+const persons: ConjugationPerson[] = ['io', 'tu', 'lui/lei', 'noi', 'voi', 'loro'];
+
+const tensesByDifficulty: Record<'beginner' | 'intermediate' | 'advanced', ConjugationTense[]> = {
+  beginner: ['presente', 'passato_prossimo', 'futuro_semplice'],
+  intermediate: ['presente', 'passato_prossimo', 'imperfetto', 'futuro_semplice', 'condizionale_presente'],
+  advanced: ['imperfetto', 'condizionale_presente', 'congiuntivo_presente', 'congiuntivo_imperfetto', 'passato_prossimo'],
+};
+
+const tenseLabels: Record<ConjugationTense, string> = {
+  presente: 'al presente indicativo',
+  imperfetto: 'all\'imperfetto indicativo',
+  passato_prossimo: 'al passato prossimo',
+  futuro_semplice: 'al futuro semplice',
+  condizionale_presente: 'al condizionale presente',
+  congiuntivo_presente: 'al congiuntivo presente',
+  congiuntivo_imperfetto: 'al congiuntivo imperfetto',
+};
+
+const regularEndings: Record<VerbClass, { presente: PersonForms; congiuntivoPresente: PersonForms }> = {
+  are: {
+    presente: ['o', 'i', 'a', 'iamo', 'ate', 'ano'],
+    congiuntivoPresente: ['i', 'i', 'i', 'iamo', 'iate', 'ino'],
+  },
+  ere: {
+    presente: ['o', 'i', 'e', 'iamo', 'ete', 'ono'],
+    congiuntivoPresente: ['a', 'a', 'a', 'iamo', 'iate', 'ano'],
+  },
+  ire: {
+    presente: ['o', 'i', 'e', 'iamo', 'ite', 'ono'],
+    congiuntivoPresente: ['a', 'a', 'a', 'iamo', 'iate', 'ano'],
+  },
+  isc: {
+    presente: ['isco', 'isci', 'isce', 'iamo', 'ite', 'iscono'],
+    congiuntivoPresente: ['isca', 'isca', 'isca', 'iamo', 'iate', 'iscano'],
+  },
+};
+
+const imperfettoEndings: PersonForms = ['vo', 'vi', 'va', 'vamo', 'vate', 'vano'];
+const congiuntivoImperfettoEndings: PersonForms = ['ssi', 'ssi', 'sse', 'ssimo', 'ste', 'ssero'];
+const futureEndings: PersonForms = ['ò', 'ai', 'à', 'emo', 'ete', 'anno'];
+const conditionalEndings: PersonForms = ['ei', 'esti', 'ebbe', 'emmo', 'este', 'ebbero'];
+
+function subjunctive(singular: string, noi: string, voi: string, loro: string): PersonForms {
+  return [singular, singular, singular, noi, voi, loro];
+}
+
+const irregularVerbs: Record<string, IrregularVerb> = {
+  essere: {
+    presente: ['sono', 'sei', 'è', 'siamo', 'siete', 'sono'],
+    congiuntivoPresente: subjunctive('sia', 'siamo', 'siate', 'siano'),
+    imperfetto: ['ero', 'eri', 'era', 'eravamo', 'eravate', 'erano'],
+    congiuntivoImperfettoBase: 'fo',
+    futureStem: 'sar',
+    participle: 'stato',
+  },
+  avere: {
+    presente: ['ho', 'hai', 'ha', 'abbiamo', 'avete', 'hanno'],
+    congiuntivoPresente: subjunctive('abbia', 'abbiamo', 'abbiate', 'abbiano'),
+    futureStem: 'avr',
+  },
+  andare: {
+    presente: ['vado', 'vai', 'va', 'andiamo', 'andate', 'vanno'],
+    congiuntivoPresente: subjunctive('vada', 'andiamo', 'andiate', 'vadano'),
+    futureStem: 'andr',
+  },
+  fare: {
+    presente: ['faccio', 'fai', 'fa', 'facciamo', 'fate', 'fanno'],
+    congiuntivoPresente: subjunctive('faccia', 'facciamo', 'facciate', 'facciano'),
+    imperfettoBase: 'face',
+    futureStem: 'far',
+    participle: 'fatto',
+  },
+  dire: {
+    presente: ['dico', 'dici', 'dice', 'diciamo', 'dite', 'dicono'],
+    congiuntivoPresente: subjunctive('dica', 'diciamo', 'diciate', 'dicano'),
+    imperfettoBase: 'dice',
+    futureStem: 'dir',
+    participle: 'detto',
+  },
+  dare: {
+    presente: ['do', 'dai', 'dà', 'diamo', 'date', 'danno'],
+    congiuntivoPresente: subjunctive('dia', 'diamo', 'diate', 'diano'),
+    congiuntivoImperfettoBase: 'de',
+    futureStem: 'dar',
+  },
+  stare: {
+    presente: ['sto', 'stai', 'sta', 'stiamo', 'state', 'stanno'],
+    congiuntivoPresente: subjunctive('stia', 'stiamo', 'stiate', 'stiano'),
+    congiuntivoImperfettoBase: 'ste',
+    futureStem: 'star',
+  },
+  venire: {
+    presente: ['vengo', 'vieni', 'viene', 'veniamo', 'venite', 'vengono'],
+    congiuntivoPresente: subjunctive('venga', 'veniamo', 'veniate', 'vengano'),
+    futureStem: 'verr',
+    participle: 'venuto',
+  },
+  volere: {
+    presente: ['voglio', 'vuoi', 'vuole', 'vogliamo', 'volete', 'vogliono'],
+    congiuntivoPresente: subjunctive('voglia', 'vogliamo', 'vogliate', 'vogliano'),
+    futureStem: 'vorr',
+  },
+  potere: {
+    presente: ['posso', 'puoi', 'può', 'possiamo', 'potete', 'possono'],
+    congiuntivoPresente: subjunctive('possa', 'possiamo', 'possiate', 'possano'),
+    futureStem: 'potr',
+  },
+  dovere: {
+    presente: ['devo', 'devi', 'deve', 'dobbiamo', 'dovete', 'devono'],
+    congiuntivoPresente: subjunctive('debba', 'dobbiamo', 'dobbiate', 'debbano'),
+    futureStem: 'dovr',
+  },
+  sapere: {
+    presente: ['so', 'sai', 'sa', 'sappiamo', 'sapete', 'sanno'],
+    congiuntivoPresente: subjunctive('sappia', 'sappiamo', 'sappiate', 'sappiano'),
+    futureStem: 'sapr',
+  },
+  uscire: {
+    presente: ['esco', 'esci', 'esce', 'usciamo', 'uscite', 'escono'],
+    congiuntivoPresente: subjunctive('esca', 'usciamo', 'usciate', 'escano'),
+  },
+  bere: {
+    presente: ['bevo', 'bevi', 'beve', 'beviamo', 'bevete', 'bevono'],
+    congiuntivoPresente: subjunctive('beva', 'beviamo', 'beviate', 'bevano'),
+    imperfettoBase: 'beve',
+    futureStem: 'berr',
+    participle: 'bevuto',
+  },
+  tenere: {
+    presente: ['tengo', 'tieni', 'tiene', 'teniamo', 'tenete', 'tengono'],
+    congiuntivoPresente: subjunctive('tenga', 'teniamo', 'teniate', 'tengano'),
+    futureStem: 'terr',
+  },
+  rimanere: {
+    presente: ['rimango', 'rimani', 'rimane', 'rimaniamo', 'rimanete', 'rimangono'],
+    congiuntivoPresente: subjunctive('rimanga', 'rimaniamo', 'rimaniate', 'rimangano'),
+    futureStem: 'rimarr',
+    participle: 'rimasto',
+  },
+  piacere: {
+    presente: ['piaccio', 'piaci', 'piace', 'piacciamo', 'piacete', 'piacciono'],
+    congiuntivoPresente: subjunctive('piaccia', 'piacciamo', 'piacciate', 'piacciano'),
+    participle: 'piaciuto',
+  },
+  scegliere: {
+    presente: ['scelgo', 'scegli', 'sceglie', 'scegliamo', 'scegliete', 'scelgono'],
+    congiuntivoPresente: subjunctive('scelga', 'scegliamo', 'scegliate', 'scelgano'),
+    participle: 'scelto',
+  },
+  salire: {
+    presente: ['salgo', 'sali', 'sale', 'saliamo', 'salite', 'salgono'],
+    congiuntivoPresente: subjunctive('salga', 'saliamo', 'saliate', 'salgano'),
+  },
+  morire: {
+    presente: ['muoio', 'muori', 'muore', 'moriamo', 'morite', 'muoiono'],
+    congiuntivoPresente: subjunctive('muoia', 'moriamo', 'moriate', 'muoiano'),
+    participle: 'morto',
+  },
+  vedere: {
+    futureStem: 'vedr',
+    participle: 'visto',
+  },
+  vivere: {
+    futureStem: 'vivr',
+    participle: 'vissuto',
+  },
+  cadere: {
+    futureStem: 'cadr',
+  },
+};
+
+// Regular in every simple tense, irregular only in the past participle
+const irregularParticiples: Record<string, string> = {
+  accendere: 'acceso',
+  aggiungere: 'aggiunto',
+  aprire: 'aperto',
+  chiedere: 'chiesto',
+  chiudere: 'chiuso',
+  conoscere: 'conosciuto',
+  correre: 'corso',
+  crescere: 'cresciuto',
+  decidere: 'deciso',
+  descrivere: 'descritto',
+  discutere: 'discusso',
+  dividere: 'diviso',
+  leggere: 'letto',
+  mettere: 'messo',
+  muovere: 'mosso',
+  nascere: 'nato',
+  offrire: 'offerto',
+  perdere: 'perso',
+  piangere: 'pianto',
+  prendere: 'preso',
+  promettere: 'promesso',
+  raggiungere: 'raggiunto',
+  rendere: 'reso',
+  ridere: 'riso',
+  rispondere: 'risposto',
+  rompere: 'rotto',
+  scendere: 'sceso',
+  scoprire: 'scoperto',
+  scrivere: 'scritto',
+  soffrire: 'sofferto',
+  spendere: 'speso',
+  spegnere: 'spento',
+  succedere: 'successo',
+  vincere: 'vinto',
+};
+
+const iscVerbs = new Set([
+  'capire',
+  'chiarire',
+  'colpire',
+  'costruire',
+  'definire',
+  'finire',
+  'fornire',
+  'gestire',
+  'guarire',
+  'impedire',
+  'inserire',
+  'preferire',
+  'proibire',
+  'pulire',
+  'punire',
+  'restituire',
+  'sostituire',
+  'spedire',
+  'stabilire',
+  'suggerire',
+  'trasferire',
+  'unire',
+]);
+
+// Intransitive verbs that form the passato prossimo with essere
+const essereAuxiliaryVerbs = new Set([
+  'andare',
+  'arrivare',
+  'cadere',
+  'crescere',
+  'diventare',
+  'entrare',
+  'essere',
+  'morire',
+  'nascere',
+  'partire',
+  'piacere',
+  'restare',
+  'rimanere',
+  'ritornare',
+  'riuscire',
+  'sembrare',
+  'stare',
+  'succedere',
+  'tornare',
+  'uscire',
+  'venire',
+]);
+
+// Frequent regular verbs recognized in any conjugated form, not only as infinitives
+const commonRegularVerbs = [
+  'abitare',
+  'aiutare',
+  'amare',
+  'arrivare',
+  'ascoltare',
+  'aspettare',
+  'ballare',
+  'cambiare',
+  'camminare',
+  'cantare',
+  'cenare',
+  'cercare',
+  'chiamare',
+  'comprare',
+  'cominciare',
+  'cucinare',
+  'diventare',
+  'entrare',
+  'guardare',
+  'imparare',
+  'incontrare',
+  'insegnare',
+  'lasciare',
+  'lavorare',
+  'mangiare',
+  'pagare',
+  'parlare',
+  'pensare',
+  'portare',
+  'pranzare',
+  'preparare',
+  'restare',
+  'ricordare',
+  'sembrare',
+  'studiare',
+  'suonare',
+  'tornare',
+  'trovare',
+  'usare',
+  'viaggiare',
+  'visitare',
+  'credere',
+  'perdere',
+  'prendere',
+  'ricevere',
+  'scrivere',
+  'leggere',
+  'mettere',
+  'chiudere',
+  'chiedere',
+  'conoscere',
+  'correre',
+  'decidere',
+  'rispondere',
+  'vendere',
+  'aprire',
+  'dormire',
+  'offrire',
+  'partire',
+  'seguire',
+  'sentire',
+  'servire',
+  'capire',
+  'finire',
+  'preferire',
+  'pulire',
+  'spedire',
+];
+
+// Words shaped like -are/-ire infinitives that are usually nouns, adjectives or English
+const nonVerbWords = new Set([
+  'cellulare',
+  'circolare',
+  'elementare',
+  'esemplare',
+  'familiare',
+  'hardware',
+  'militare',
+  'nucleare',
+  'particolare',
+  'popolare',
+  'regolare',
+  'salutare',
+  'singolare',
+  'software',
+  'spettacolare',
+  'volgare',
+]);
+
+let inflectedFormIndex: Map<string, string> | null = null;
+
+function resolveVerbClass(infinitive: string): VerbClass | null {
+  if (infinitive.endsWith('are')) {
+    return 'are';
+  }
+
+  if (infinitive.endsWith('ere')) {
+    return 'ere';
+  }
+
+  if (infinitive.endsWith('ire')) {
+    return iscVerbs.has(infinitive) ? 'isc' : 'ire';
+  }
+
+  return null;
+}
+
+function attachEnding(stem: string, ending: string, verbClass: VerbClass) {
+  // cercare -> cerchi, pagare -> pagherò
+  if (verbClass === 'are' && /[cg]$/.test(stem) && /^[ei]/.test(ending)) {
+    return `${stem}h${ending}`;
+  }
+
+  // studiare -> studi, mangiare -> mangerò
+  if (stem.endsWith('i') && (ending.startsWith('i') || (/[cg]i$/.test(stem) && ending.startsWith('e')))) {
+    return `${stem.slice(0, -1)}${ending}`;
+  }
+
+  return `${stem}${ending}`;
+}
+
+function buildFutureStem(infinitive: string, verbClass: VerbClass) {
+  const irregularStem = irregularVerbs[infinitive]?.futureStem;
+  if (irregularStem) {
+    return irregularStem;
+  }
+
+  const stem = infinitive.slice(0, -3);
+  return attachEnding(stem, verbClass === 'are' || verbClass === 'ere' ? 'er' : 'ir', verbClass);
+}
+
+function buildParticiple(infinitive: string, verbClass: VerbClass) {
+  const irregularParticiple = irregularVerbs[infinitive]?.participle ?? irregularParticiples[infinitive];
+  if (irregularParticiple) {
+    return irregularParticiple;
+  }
+
+  const stem = infinitive.slice(0, -3);
+  if (verbClass === 'are') {
+    return `${stem}ato`;
+  }
+
+  return verbClass === 'ere' ? `${stem}uto` : `${stem}ito`;
+}
+
+function buildSimpleForms(infinitive: string, tense: Exclude<ConjugationTense, 'passato_prossimo'>, verbClass: VerbClass): PersonForms {
+  const irregular = irregularVerbs[infinitive];
+  const stem = infinitive.slice(0, -3);
+  const imperfettoBase = irregular?.imperfettoBase ?? infinitive.slice(0, -2);
+  const attachAll = (base: string, endings: PersonForms) => endings.map(ending => `${base}${ending}`) as PersonForms;
+
+  switch (tense) {
+    case 'presente':
+      return irregular?.presente
+        ?? regularEndings[verbClass].presente.map(ending => attachEnding(stem, ending, verbClass)) as PersonForms;
+    case 'congiuntivo_presente':
+      return irregular?.congiuntivoPresente
+        ?? regularEndings[verbClass].congiuntivoPresente.map(ending => attachEnding(stem, ending, verbClass)) as PersonForms;
+    case 'imperfetto':
+      return irregular?.imperfetto ?? attachAll(imperfettoBase, imperfettoEndings);
+    case 'congiuntivo_imperfetto':
+      return attachAll(irregular?.congiuntivoImperfettoBase ?? imperfettoBase, congiuntivoImperfettoEndings);
+    case 'futuro_semplice':
+      return attachAll(buildFutureStem(infinitive, verbClass), futureEndings);
+    case 'condizionale_presente':
+      return attachAll(buildFutureStem(infinitive, verbClass), conditionalEndings);
+  }
+}
+
+/**
+ * Conjugates an Italian verb for one tense and person.
+ * Regular -are/-ere/-ire verbs (including -isc- verbs) are derived from their
+ * stem; a curated table covers the common irregular verbs. Passato prossimo
+ * forms with essere accept both masculine and feminine agreement.
+ * @param input - Infinitive, tense and grammatical person.
+ * @param input.infinitive - Verb infinitive, for example "parlare".
+ * @param input.tense - Tense or mood to conjugate.
+ * @param input.person - Grammatical person.
+ * @returns Accepted forms with the canonical form first, or null when the verb is not conjugable.
+ */
+export function conjugateVerb(input: {
+  infinitive: string;
+  tense: ConjugationTense;
+  person: ConjugationPerson;
+}): string[] | null {
+  const infinitive = input.infinitive.normalize('NFC').trim().toLocaleLowerCase('it-IT');
+  const verbClass = resolveVerbClass(infinitive);
+  if (!verbClass || infinitive.length < 4) {
+    return null;
+  }
+
+  const personIndex = persons.indexOf(input.person);
+
+  if (input.tense !== 'passato_prossimo') {
+    return [buildSimpleForms(infinitive, input.tense, verbClass)[personIndex]!];
+  }
+
+  const participle = buildParticiple(infinitive, verbClass);
+  if (!essereAuxiliaryVerbs.has(infinitive)) {
+    return [`${buildSimpleForms('avere', 'presente', 'ere')[personIndex]} ${participle}`];
+  }
+
+  const auxiliary = buildSimpleForms('essere', 'presente', 'ere')[personIndex];
+  const participleStem = participle.slice(0, -1);
+  const agreements = personIndex < 3 ? ['o', 'a'] : ['i', 'e'];
+
+  return agreements.map(agreement => `${auxiliary} ${participleStem}${agreement}`);
+}
+
+function getInflectedFormIndex() {
+  if (inflectedFormIndex) {
+    return inflectedFormIndex;
+  }
+
+  const index = new Map<string, string>();
+  const simpleTenses = ['presente', 'imperfetto', 'futuro_semplice', 'condizionale_presente', 'congiuntivo_presente', 'congiuntivo_imperfetto'] as const;
+
+  for (const infinitive of [...Object.keys(irregularVerbs), ...commonRegularVerbs]) {
+    const verbClass = resolveVerbClass(infinitive)!;
+    const participleStem = buildParticiple(infinitive, verbClass).slice(0, -1);
+    const forms = [
+      infinitive,
+      ...['o', 'a', 'i', 'e'].map(agreement => `${participleStem}${agreement}`),
+      ...simpleTenses.flatMap(tense => buildSimpleForms(infinitive, tense, verbClass)),
+    ];
+
+    for (const form of forms) {
+      if (!index.has(form)) {
+        index.set(form, infinitive);
+      }
+    }
+  }
+
+  inflectedFormIndex = index;
+  return index;
+}
+
+/**
+ * Finds the verbs used in a text, most frequent first.
+ * Known verbs are recognized in any simple-tense form or participle;
+ * other regular verbs are recognized from their -are/-ire infinitive.
+ * @param text - Document text to scan.
+ * @returns Infinitives found in the text, ordered by frequency then first use.
+ */
+export function extractVerbInfinitives(text: string) {
+  const formIndex = getInflectedFormIndex();
+  const counts = new Map<string, number>();
+
+  for (const word of text.normalize('NFC').toLocaleLowerCase('it-IT').split(/\P{L}+/u)) {
+    const infinitive = formIndex.get(word)
+      ?? (word.length >= 6 && /^\p{L}+(?:are|ire)$/u.test(word) && !nonVerbWords.has(word) ? word : null);
+
+    if (infinitive) {
+      counts.set(infinitive, (counts.get(infinitive) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((left, right) => right[1] - left[1])
+    .map(([infinitive]) => infinitive);
+}
+
+/**
+ * Builds a conjugation drill from verbs found in the selected excerpts, without
+ * calling the LLM. The verb, tense and person rotate with the exercise number
+ * and attempt so that retries produce a different drill.
+ * @param input - Excerpts and position of the exercise in the job.
+ * @param input.chunks - Candidate excerpts to extract verbs from.
+ * @param input.difficulty - Requested difficulty, which selects the tenses.
+ * @param input.exerciseNumber - 1-based exercise number within the job.
+ * @param input.attempt - 1-based generation attempt.
+ * @returns Generated conjugation exercise, or null when no verb was found.
+ */
+export function buildConjugationExercise(input: {
+  chunks: ConjugationCandidate[];
+  difficulty: 'beginner' | 'intermediate' | 'advanced' | undefined;
+  exerciseNumber: number;
+  attempt: number;
+}): GeneratedExercise | null {
+  const verbs = input.chunks.flatMap(chunk => extractVerbInfinitives(chunk.content).map(infinitive => ({ infinitive, chunk })));
+  if (verbs.length === 0) {
+    return null;
+  }
+
+  const offset = input.exerciseNumber - 1 + input.attempt - 1;
+  const tenses = tensesByDifficulty[input.difficulty ?? 'intermediate'];
+  const { infinitive, chunk } = verbs[offset % verbs.length]!;
+  const tense = tenses[offset % tenses.length]!;
+  const person = persons[offset % persons.length]!;
+  const [answer, ...acceptedAnswers] = conjugateVerb({ infinitive, tense, person }) ?? [];
+  if (!answer) {
+    return null;
+  }
+
+  return {
+    type: 'conjugation',
+    question: `Coniuga il verbo «${infinitive}» ${tenseLabels[tense]} (${person}).`,
+    sourceReferences: [{ documentId: chunk.documentId, chunkPosition: chunk.chunkPosition }],
+    grammarTopic: getConjugationGrammarTopic(tense),
+    exerciseData: {
+      infinitive,
+      tense,
+      person,
+      answer,
+      ...(acceptedAnswers.length > 0 ? { acceptedAnswers } : {}),
+    },
+  };
+}
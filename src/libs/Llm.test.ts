@@ -0,0 +1,417 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as z from 'zod';
+import { EMBEDDING_DIMENSION } from './EmbeddingConfig';
+
+const originalEnv = { ...process.env };
+
+const embeddingsCreateMock = vi.fn();
+const chatParseMock = vi.fn();
+const fetchMock = vi.fn();
+const loggerDebugMock = vi.fn();
+const loggerErrorMock = vi.fn();
+const loggerWarnMock = vi.fn();
+
+function resetMistralGlobal() {
+  delete (globalThis as { mistral?: unknown }).mistral;
+}
+
+function applyRequiredEnv() {
+  process.env = { ...originalEnv };
+  Object.assign(process.env, {
+    CLERK_SECRET_KEY: 'sk_test',
+    DATABASE_URL: 'postgres://localhost:5432/test',
+    NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY: 'pk_test',
+    MISTRAL_API_KEY: 'mistral_test_key',
+    NODE_ENV: 'test',
+  });
+}
+
+function mockDependencies() {
+  vi.doMock('./Logger', () => ({
+    logger: {
+      debug: loggerDebugMock,
+      error: loggerErrorMock,
+      warn: loggerWarnMock,
+    },
+  }));
+
+  vi.doMock('@mistralai/mistralai', () => ({
+    Mistral: class {
+      embeddings = {
+        create: embeddingsCreateMock,
+      };
+
+      chat = {
+        parse: chatParseMock,
+      };
+    },
+  }));
+}
+
+function buildEmbeddingResponse(inputCount: number) {
+  return {
+    data: Array.from({ length: inputCount }, (_, index) => ({
+      embedding: Array.from<number>({ length: EMBEDDING_DIMENSION }).fill(index + 1),
+    })),
+    usage: {
+      promptTokens: inputCount,
+      totalTokens: inputCount,
+    },
+  };
+}
+
+function buildTexts(count: number) {
+  return Array.from({ length: count }, (_, index) => `text-${index}`);
+}
+
+async function flushAsyncWork() {
+  await Promise.resolve();
+  await Promise.resolve();
+}
+
+async function loadLlmModule(env: Record<string, string> = {}) {
+  applyRequiredEnv();
+  Object.assign(process.env, env);
+
+  vi.resetModules();
+  resetMistralGlobal();
+  mockDependencies();
+
+  return import('./Llm');
+}
+
+async function loadMistralModule(delayMs?: string) {
+  applyRequiredEnv();
+
+  if (delayMs === undefined) {
+    delete process.env.MISTRAL_EMBEDDING_BATCH_DELAY_MS;
+  } else {
+    process.env.MISTRAL_EMBEDDING_BATCH_DELAY_MS = delayMs;
+  }
+
+  embeddingsCreateMock.mockImplementation(async ({ inputs }: { inputs: string[] }) => {
+    return buildEmbeddingResponse(inputs.length);
+  });
+
+  vi.resetModules();
+  resetMistralGlobal();
+  mockDependencies();
+
+  return import('./Llm');
+}
+
+describe('Llm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+    applyRequiredEnv();
+    resetMistralGlobal();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.doUnmock('./Logger');
+    vi.doUnmock('@mistralai/mistralai');
+    vi.unstubAllGlobals();
+    resetMistralGlobal();
+  });
+
+  it('returns embeddings without waiting when delay is unset', async () => {
+    const { createEmbeddingsBatched } = await loadMistralModule();
+
+    const result = await createEmbeddingsBatched(buildTexts(17));
+
+    expect(result).toHaveLength(17);
+    expect(embeddingsCreateMock).toHaveBeenCalledTimes(2);
+    expect(loggerDebugMock).not.toHaveBeenCalled();
+  });
+
+  it('returns embeddings without waiting when delay is 0', async () => {
+    const { createEmbeddingsBatched } = await loadMistralModule('0');
+
+    const result = await createEmbeddingsBatched(buildTexts(17));
+
+    expect(result).toHaveLength(17);
+    expect(embeddingsCreateMock).toHaveBeenCalledTimes(2);
+    expect(loggerDebugMock).not.toHaveBeenCalled();
+  });
+
+  it('waits between batches when delay is configured', async () => {
+    vi.useFakeTimers();
+    const { createEmbeddingsBatched } = await loadMistralModule('50');
+
+    let resolved = false;
+    const resultPromise = createEmbeddingsBatched(buildTexts(17)).then((result) => {
+      resolved = true;
+      return result;
+    });
+
+    await flushAsyncWork();
+
+    expect(resolved).toBe(false);
+    expect(loggerDebugMock).toHaveBeenCalledTimes(1);
+    expect(loggerDebugMock).toHaveBeenCalledWith('Embedding batch throttling enabled', { batchDelayMs: 50 });
+
+    await vi.advanceTimersByTimeAsync(49);
+
+    expect(resolved).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await resultPromise;
+
+    expect(resolved).toBe(true);
+    expect(result).toHaveLength(17);
+    expect(embeddingsCreateMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips wait after the final batch', async () => {
+    vi.useFakeTimers();
+    const { createEmbeddingsBatched } = await loadMistralModule('25');
+
+    const resultPromise = createEmbeddingsBatched(buildTexts(33));
+
+    await flushAsyncWork();
+
+    expect(loggerDebugMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(25);
+
+    expect(loggerDebugMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(25);
+    const result = await resultPromise;
+
+    expect(result).toHaveLength(33);
+    expect(embeddingsCreateMock).toHaveBeenCalledTimes(3);
+    expect(loggerDebugMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('preserves progress callbacks across batches', async () => {
+    const { createEmbeddingsBatched } = await loadMistralModule();
+    const onProgress = vi.fn();
+
+    await createEmbeddingsBatched(buildTexts(33), onProgress);
+
+    expect(onProgress).toHaveBeenNthCalledWith(1, 16, 33);
+    expect(onProgress).toHaveBeenNthCalledWith(2, 32, 33);
+    expect(onProgress).toHaveBeenNthCalledWith(3, 33, 33);
+  });
+
+  it('uses the task-specific chat model when configured', async () => {
+    chatParseMock.mockResolvedValue({
+      choices: [{ message: { parsed: { ok: true }, content: '{"ok":true}' } }],
+      usage: { promptTokens: 10, totalTokens: 12 },
+    });
+    const { createStructuredChatCompletion } = await loadLlmModule({
+      LLM_CHAT_MODEL: 'shared-model',
+      LLM_EVALUATION_MODEL: 'evaluation-model',
+    });
+    const responseFormat = z.object({ ok: z.boolean() });
+
+    await createStructuredChatCompletion({
+      task: 'evaluation',
+      systemPrompt: 'system',
+      userPrompt: 'user',
+      responseFormat,
+    });
+    await createStructuredChatCompletion({
+      task: 'generation',
+      systemPrompt: 'system',
+      userPrompt: 'user',
+      responseFormat,
+    });
+
+    expect(chatParseMock).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      model: 'evaluation-model',
+      temperature: 0.2,
+      maxTokens: 1200,
+    }));
+    expect(chatParseMock).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      model: 'shared-model',
+    }));
+  });
+
+  it('rejects embeddings with an unexpected dimension', async () => {
+    embeddingsCreateMock.mockResolvedValue({
+      data: [{ embedding: [0.1, 0.2] }],
+      usage: { promptTokens: 1, totalTokens: 1 },
+    });
+    const { createEmbeddings } = await loadLlmModule();
+
+    await expect(createEmbeddings(['ciao'])).rejects.toThrow('Embedding dimension mismatch');
+  });
+
+  it('calls OpenAI-compatible endpoints with a JSON schema response format', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      choices: [{ message: { content: '{"ok":true}' } }],
+      usage: { prompt_tokens: 7, total_tokens: 9 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const { createStructuredChatCompletion } = await loadLlmModule({
+      LLM_PROVIDER: 'openai_compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1/',
+      OPENAI_COMPATIBLE_API_KEY: 'local-key',
+      LLM_GENERATION_MODEL: 'qwen2.5:7b',
+    });
+
+    const result = await createStructuredChatCompletion({
+      systemPrompt: 'system',
+      userPrompt: 'user',
+      responseFormat: z.object({ ok: z.boolean() }),
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer local-key' });
+    expect(body.model).toBe('qwen2.5:7b');
+    expect(body.response_format.type).toBe('json_schema');
+    expect(result).toEqual({
+      parsed: { ok: true },
+      rawContent: '{"ok":true}',
+      usage: { promptTokens: 7, totalTokens: 9 },
+    });
+    expect(chatParseMock).not.toHaveBeenCalled();
+  });
+
+  it('orders OpenAI-compatible embeddings by index', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      data: [
+        { index: 1, embedding: Array.from<number>({ length: EMBEDDING_DIMENSION }).fill(2) },
+        { index: 0, embedding: Array.from<number>({ length: EMBEDDING_DIMENSION }).fill(1) },
+      ],
+      usage: { prompt_tokens: 2, total_tokens: 2 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const { createEmbeddings } = await loadLlmModule({
+      EMBEDDING_PROVIDER: 'openai_compatible',
+      EMBEDDING_MODEL: 'bge-m3',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8000/v1',
+    });
+
+    const result = await createEmbeddings(['uno', 'due']);
+
+    expect(JSON.parse((fetchMock.mock.calls[0] as [string, RequestInit])[1].body as string)).toEqual({
+      model: 'bge-m3',
+      input: ['uno', 'due'],
+    });
+    expect(result.embeddings.map(embedding => embedding[0])).toEqual([1, 2]);
+  });
+
+  it('accepts self-hosted embeddings of the configured dimension', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      data: [{ index: 0, embedding: Array.from<number>({ length: 768 }).fill(0.5) }],
+      usage: { prompt_tokens: 1, total_tokens: 1 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const { createEmbeddings } = await loadLlmModule({
+      EMBEDDING_PROVIDER: 'openai_compatible',
+      EMBEDDING_MODEL: 'nomic-embed-text',
+      EMBEDDING_DIMENSION: '768',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    const result = await createEmbeddings(['ciao']);
+
+    expect(result.embeddings[0]).toHaveLength(768);
+  });
+
+  it('surfaces OpenAI-compatible HTTP errors', async () => {
+    fetchMock.mockResolvedValue(new Response('busy', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { createJsonChatCompletion } = await loadLlmModule({
+      LLM_PROVIDER: 'openai_compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8000/v1',
+    });
+
+    await expect(createJsonChatCompletion({
+      systemPrompt: 'system',
+      userPrompt: 'user',
+    })).rejects.toThrow('failed with status 503');
+  });
+
+  describe('fixture provider', () => {
+    let fixtureDir: string;
+
+    beforeEach(() => {
+      fixtureDir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+    });
+
+    afterEach(() => {
+      rmSync(fixtureDir, { recursive: true, force: true });
+    });
+
+    function writeFixtures(chat: unknown[]) {
+      const fixturePath = path.join(fixtureDir, 'fixtures.json');
+      writeFileSync(fixturePath, JSON.stringify({ chat }));
+      return fixturePath;
+    }
+
+    it('returns deterministic normalized embeddings', async () => {
+      const { createEmbeddingsBatched } = await loadLlmModule({ LLM_PROVIDER: 'fixture' });
+
+      const [first, second, other] = await createEmbeddingsBatched([
+        'Io vado a Roma',
+        'Io vado a Roma',
+        'Il gatto dorme',
+      ]);
+      const norm = Math.sqrt(first!.reduce((sum, value) => sum + value * value, 0));
+
+      expect(first).toHaveLength(EMBEDDING_DIMENSION);
+      expect(first).toEqual(second);
+      expect(first).not.toEqual(other);
+      expect(norm).toBeCloseTo(1);
+      expect(embeddingsCreateMock).not.toHaveBeenCalled();
+    });
+
+    it('answers chat requests from the first matching fixture', async () => {
+      const { createJsonChatCompletion, createStructuredChatCompletion } = await loadLlmModule({
+        LLM_PROVIDER: 'fixture',
+        LLM_FIXTURES_PATH: writeFixtures([
+          { task: 'evaluation', response: { score: 80 } },
+          { promptIncludes: 'passato prossimo', response: { exercises: ['pp'] } },
+          { response: { exercises: ['default'] } },
+        ]),
+      });
+
+      const evaluation = await createStructuredChatCompletion({
+        task: 'evaluation',
+        systemPrompt: 'system',
+        userPrompt: 'passato prossimo',
+        responseFormat: z.object({ score: z.number() }),
+      });
+      const generation = await createJsonChatCompletion({
+        systemPrompt: 'system',
+        userPrompt: 'Focus: passato prossimo',
+      });
+      const fallback = await createJsonChatCompletion({
+        systemPrompt: 'system',
+        userPrompt: 'Focus: congiuntivo',
+      });
+
+      expect(evaluation.parsed).toEqual({ score: 80 });
+      expect(JSON.parse(generation)).toEqual({ exercises: ['pp'] });
+      expect(JSON.parse(fallback)).toEqual({ exercises: ['default'] });
+    });
+
+    it('fails when no fixture matches', async () => {
+      const { createJsonChatCompletion } = await loadLlmModule({
+        LLM_PROVIDER: 'fixture',
+        LLM_FIXTURES_PATH: writeFixtures([
+          { task: 'evaluation', response: { score: 80 } },
+        ]),
+      });
+
+      await expect(createJsonChatCompletion({
+        systemPrompt: 'system',
+        userPrompt: 'user',
+      })).rejects.toThrow('No LLM fixture matches the generation prompt');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Entry point for chat completions and embeddings.
+ * Callers stay provider-agnostic: the backend comes from LLM_PROVIDER (chat)
+ * and EMBEDDING_PROVIDER (embeddings), and models are resolved per task.
+ */
+
+import type * as z from 'zod';
+import type {
+  EmbeddingResult,
+  LlmProvider,
+  LlmProviderName,
+  LlmTask,
+  StructuredChatResult,
+} from './LlmProvider';
+import { EMBEDDING_DIMENSION } from './EmbeddingConfig';
+import { Env } from './Env';
+import {
+  DEFAULT_CHAT_MAX_TOKENS,
+  DEFAULT_CHAT_TEMPERATURE,
+  getChatModel,
+  getChatProviderName,
+  getEmbeddingModel,
+  getEmbeddingProviderName,
+} from './LlmConfig';
+import { fixtureProvider } from './LlmFixtures';
+import { logger } from './Logger';
+import { mistralProvider } from './Mistral';
+import { openAiCompatibleProvider } from './OpenAiCompatible';
+
+type JsonChatInput = {
+  systemPrompt: string;
+  userPrompt: string;
+  task?: LlmTask;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+type StructuredChatInput<T extends z.ZodTypeAny> = JsonChatInput & {
+  responseFormat: T;
+};
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function getProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case 'mistral':
+      return mistralProvider;
+    case 'openai_compatible':
+      return openAiCompatibleProvider;
+    case 'fixture':
+      return fixtureProvider;
+  }
+}
+
+function resolveChatInput(input: JsonChatInput) {
+  const task = input.task ?? 'generation';
+
+  return {
+    task,
+    model: input.model ?? getChatModel(task),
+    systemPrompt: input.systemPrompt,
+    userPrompt: input.userPrompt,
+    temperature: input.temperature ?? DEFAULT_CHAT_TEMPERATURE,
+    maxTokens: input.maxTokens ?? DEFAULT_CHAT_MAX_TOKENS,
+  };
+}
+
+/**
+ * Creates structured chat completion parsed by a Zod schema.
+ * @param input - Chat prompts, task, and expected schema.
+ * @returns Parsed result and token usage.
+ */
+export async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
+  input: StructuredChatInput<T>,
+): Promise<StructuredChatResult<T>> {
+  return getProvider(getChatProviderName()).createStructuredChatCompletion({
+    ...resolveChatInput(input),
+    responseFormat: input.responseFormat,
+  });
+}
+
+/**
+ * Creates chat completion in JSON mode.
+ * @param input - Chat prompts, task, and generation options.
+ * @returns Raw JSON message content.
+ */
+export async function createJsonChatCompletion(input: JsonChatInput): Promise<string> {
+  return getProvider(getChatProviderName()).createJsonChatCompletion(resolveChatInput(input));
+}
+
+/**
+ * Create embeddings for an array of texts.
+ * @param texts - Array of text strings to embed, within the provider batch size.
+ * @returns Embeddings and token usage.
+ */
+export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+  const result = await getProvider(getEmbeddingProviderName()).createEmbeddings({
+    texts,
+    model: getEmbeddingModel(),
+  });
+
+  const mismatched = result.embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSION);
+  if (mismatched) {
+    throw new Error(
+      `Embedding dimension mismatch: expected ${EMBEDDING_DIMENSION}, received ${mismatched.length}. Set EMBEDDING_DIMENSION to the size your embedding model returns`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Create embeddings for any number of texts.
+ * Splits into batches sized for the embedding provider.
+ * @param texts - Array of text strings to embed.
+ * @param onProgress - Optional callback for progress updates.
+ */
+export async function createEmbeddingsBatched(
+  texts: string[],
+  onProgress?: (completed: number, total: number) => void,
+): Promise<number[][]> {
+  const allEmbeddings: number[][] = [];
+  const batchSize = getProvider(getEmbeddingProviderName()).maxEmbeddingBatchSize;
+  const batchDelayMs = Env.MISTRAL_EMBEDDING_BATCH_DELAY_MS ?? 0;
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize);
+    const result = await createEmbeddings(batch);
+    allEmbeddings.push(...result.embeddings);
+
+    onProgress?.(Math.min(i + batchSize, texts.length), texts.length);
+
+    const hasMoreBatches = i + batchSize < texts.length;
+    if (hasMoreBatches && batchDelayMs > 0) {
+      logger.debug('Embedding batch throttling enabled', { batchDelayMs });
+      await wait(batchDelayMs);
+    }
+  }
+
+  return allEmbeddings;
+}
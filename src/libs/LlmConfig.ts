@@ -0,0 +1,58 @@
+/**
+ * LLM provider and model configuration.
+ * Chat and embedding backends are configured separately so generation can run
+ * on a self-hosted model while embeddings stay on a hosted one, or vice versa.
+ */
+
+import type { LlmProviderName, LlmTask } from './LlmProvider';
+import { EMBEDDING_MODEL } from './EmbeddingConfig';
+import { Env } from './Env';
+
+/** Default chat model when no task-specific or shared override is set */
+export const DEFAULT_CHAT_MODEL = 'mistral-small-latest';
+
+/** Default sampling temperature for chat completions */
+export const DEFAULT_CHAT_TEMPERATURE = 0.2;
+
+/** Default completion token budget for chat completions */
+export const DEFAULT_CHAT_MAX_TOKENS = 1200;
+
+/** Timeout for requests to OpenAI-compatible endpoints in milliseconds (2 minutes) */
+export const OPENAI_COMPATIBLE_TIMEOUT_MS = 120_000;
+
+/**
+ * Resolves the provider used for chat completions.
+ * @returns Provider name from LLM_PROVIDER, defaulting to Mistral.
+ */
+export function getChatProviderName(): LlmProviderName {
+  return Env.LLM_PROVIDER ?? 'mistral';
+}
+
+/**
+ * Resolves the provider used for embeddings.
+ * @returns Provider name from EMBEDDING_PROVIDER, falling back to the chat provider.
+ */
+export function getEmbeddingProviderName(): LlmProviderName {
+  return Env.EMBEDDING_PROVIDER ?? getChatProviderName();
+}
+
+/**
+ * Resolves the chat model for a task.
+ * @param task - Task the completion is requested for.
+ * @returns Task-specific model, shared chat model, or the default.
+ */
+export function getChatModel(task: LlmTask) {
+  const taskModel = task === 'generation'
+    ? Env.LLM_GENERATION_MODEL
+    : Env.LLM_EVALUATION_MODEL;
+
+  return taskModel ?? Env.LLM_CHAT_MODEL ?? DEFAULT_CHAT_MODEL;
+}
+
+/**
+ * Resolves the embedding model.
+ * @returns Embedding model from EMBEDDING_MODEL, defaulting to Mistral embeddings.
+ */
+export function getEmbeddingModel() {
+  return Env.EMBEDDING_MODEL ?? EMBEDDING_MODEL;
+}
@@ -0,0 +1,172 @@
+/**
+ * Deterministic LLM provider for development and test runs.
+ * Embeddings are hashed bag-of-words vectors, so texts sharing words land close
+ * together without any model. Chat replies come from a JSON fixture file at
+ * LLM_FIXTURES_PATH; the first entry whose task and prompt filters match wins.
+ */
+
+import type {
+  EmbeddingResult,
+  LlmProvider,
+  ProviderChatInput,
+  ProviderStructuredChatInput,
+  StructuredChatResult,
+} from './LlmProvider';
+import { readFileSync } from 'node:fs';
+import * as z from 'zod';
+import { EMBEDDING_DIMENSION } from './EmbeddingConfig';
+import { Env } from './Env';
+
+const MAX_BATCH_SIZE = 64;
+
+const FNV_OFFSET_BASIS = 0x811C9DC5;
+const FNV_PRIME = 0x01000193;
+
+const LlmFixtureSchema = z.object({
+  task: z.enum(['generation', 'evaluation']).optional(),
+  promptIncludes: z.string().min(1).optional(),
+  response: z.unknown(),
+});
+
+const LlmFixtureFileSchema = z.object({
+  chat: z.array(LlmFixtureSchema),
+});
+
+type LlmFixture = z.infer<typeof LlmFixtureSchema>;
+
+const fixtureCache = new Map<string, LlmFixture[]>();
+
+function hashToken(token: string) {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+
+  return hash >>> 0;
+}
+
+function tokenize(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Builds a deterministic, L2-normalized embedding for a text.
+ * @param text - Text to embed.
+ * @returns Vector with EMBEDDING_DIMENSION entries.
+ */
+function createFixtureEmbedding(text: string) {
+  const vector = Array.from<number>({ length: EMBEDDING_DIMENSION }).fill(0);
+
+  for (const token of tokenize(text)) {
+    const hash = hashToken(token);
+    const sign = (hash & 1) === 0 ? 1 : -1;
+    vector[hash % EMBEDDING_DIMENSION]! += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    return vector;
+  }
+
+  return vector.map(value => value / norm);
+}
+
+function loadFixtures() {
+  if (!Env.LLM_FIXTURES_PATH) {
+    throw new Error('LLM fixtures not configured. Check LLM_FIXTURES_PATH.');
+  }
+
+  const cached = fixtureCache.get(Env.LLM_FIXTURES_PATH);
+  if (cached) {
+    return cached;
+  }
+
+  const fixtures = LlmFixtureFileSchema.parse(
+    JSON.parse(readFileSync(Env.LLM_FIXTURES_PATH, 'utf8')),
+  ).chat;
+  fixtureCache.set(Env.LLM_FIXTURES_PATH, fixtures);
+
+  return fixtures;
+}
+
+function findFixtureResponse(input: ProviderChatInput) {
+  const prompt = `${input.systemPrompt}\n${input.userPrompt}`;
+  const fixture = loadFixtures().find(entry =>
+    (!entry.task || entry.task === input.task)
+    && (!entry.promptIncludes || prompt.includes(entry.promptIncludes)),
+  );
+
+  if (!fixture) {
+    throw new Error(`No LLM fixture matches the ${input.task} prompt`);
+  }
+
+  return fixture.response;
+}
+
+function estimateTokens(texts: string[]) {
+  return texts.reduce((sum, text) => sum + tokenize(text).length, 0);
+}
+
+/**
+ * Creates structured chat completion from the matching fixture.
+ * @param input - Chat prompts, model options, and expected schema.
+ * @returns Parsed fixture response and estimated token usage.
+ */
+async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
+  input: ProviderStructuredChatInput<T>,
+): Promise<StructuredChatResult<T>> {
+  const response = findFixtureResponse(input);
+  const promptTokens = estimateTokens([input.systemPrompt, input.userPrompt]);
+
+  return {
+    parsed: input.responseFormat.parse(response) as z.infer<T>,
+    rawContent: JSON.stringify(response),
+    usage: {
+      promptTokens,
+      totalTokens: promptTokens,
+    },
+  };
+}
+
+/**
+ * Creates chat completion in JSON mode from the matching fixture.
+ * @param input - Chat prompts and generation options.
+ * @returns Fixture response serialized as JSON.
+ */
+async function createJsonChatCompletion(input: ProviderChatInput): Promise<string> {
+  const response = findFixtureResponse(input);
+
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Create deterministic embeddings for an array of texts.
+ * @param input - Texts to embed; the model name is ignored.
+ * @param input.texts - Array of text strings to embed.
+ */
+async function createEmbeddings(input: {
+  texts: string[];
+}): Promise<EmbeddingResult> {
+  if (input.texts.length === 0) {
+    throw new Error('At least one text is required');
+  }
+
+  const promptTokens = estimateTokens(input.texts);
+
+  return {
+    embeddings: input.texts.map(text => createFixtureEmbedding(text)),
+    usage: {
+      promptTokens,
+      totalTokens: promptTokens,
+    },
+  };
+}
+
+export const fixtureProvider: LlmProvider = {
+  name: 'fixture',
+  maxEmbeddingBatchSize: MAX_BATCH_SIZE,
+  createStructuredChatCompletion,
+  createJsonChatCompletion,
+  createEmbeddings,
+};
@@ -0,0 +1,48 @@
+import type * as z from 'zod';
+
+export type LlmProviderName = 'mistral' | 'openai_compatible' | 'fixture';
+
+/** Task a chat request belongs to; each task can use its own model. */
+export type LlmTask = 'generation' | 'evaluation';
+
+export type TokenUsage = {
+  promptTokens: number;
+  totalTokens: number;
+};
+
+export type EmbeddingResult = {
+  embeddings: number[][];
+  usage: TokenUsage;
+};
+
+export type ProviderChatInput = {
+  task: LlmTask;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+export type ProviderStructuredChatInput<T extends z.ZodTypeAny> = ProviderChatInput & {
+  responseFormat: T;
+};
+
+export type StructuredChatResult<T extends z.ZodTypeAny> = {
+  parsed: z.infer<T>;
+  rawContent: string | null;
+  usage: TokenUsage;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  maxEmbeddingBatchSize: number;
+  createStructuredChatCompletion: <T extends z.ZodTypeAny>(
+    input: ProviderStructuredChatInput<T>,
+  ) => Promise<StructuredChatResult<T>>;
+  createJsonChatCompletion: (input: ProviderChatInput) => Promise<string>;
+  createEmbeddings: (input: {
+    texts: string[];
+    model: string;
+  }) => Promise<EmbeddingResult>;
+};
@@ -0,0 +1,13 @@
+/**
+ * Markdown and HTML file processing configuration constants.
+ * Centralized limits for security, performance, and resource management.
+ */
+
+/** Maximum Markdown/HTML file size in bytes (2MB) */
+export const MARKUP_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+
+/** Timeout for Markdown/HTML parsing operations in milliseconds (10 seconds) */
+export const MARKUP_PARSING_TIMEOUT_MS = 10_000;
+
+/** Minimum text length to consider extraction successful */
+export const MARKUP_MIN_TEXT_LENGTH = 10;
@@ -0,0 +1,81 @@
+import { Buffer } from 'node:buffer';
+
+import { describe, expect, it } from 'vitest';
+
+import { extractHtmlText, processHtml, processMarkdown } from './MarkupExtractor';
+
+describe('processMarkdown', () => {
+  it('reduces Markdown syntax to plain paragraphs', async () => {
+    const markdown = [
+      '---',
+      'title: Lezione 3',
+      '---',
+      '# Il passato prossimo',
+      '',
+      'Si forma con **avere** o _essere_ e il [participio](https://example.com/participio).',
+      '',
+      '- ho mangiato',
+      '- sono andato',
+      '',
+      '> Ieri `sono uscito` presto.',
+    ].join('\n');
+    const result = await processMarkdown(Buffer.from(markdown));
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe([
+      'Il passato prossimo',
+      'Si forma con avere o essere e il participio.',
+      'ho mangiato\nsono andato',
+      'Ieri sono uscito presto.',
+    ].join('\n\n'));
+  });
+
+  it('returns VALIDATION_FAILED for binary content', async () => {
+    const pdf = Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n1 0 obj\n<<>>\nendobj\n%%EOF', 'latin1');
+    const result = await processMarkdown(pdf);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+  });
+
+  it('returns VALIDATION_FAILED for invalid UTF-8', async () => {
+    const result = await processMarkdown(Buffer.from([0x43, 0x69, 0x61, 0x6F, 0xC3, 0x28]));
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+    expect(result.error).toBe('Markdown file is not valid UTF-8 text');
+  });
+
+  it('returns NO_TEXT for files without readable text', async () => {
+    const result = await processMarkdown(Buffer.from('# \n\n---\n'));
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('NO_TEXT');
+  });
+});
+
+describe('processHtml', () => {
+  it('keeps block structure and drops scripts and styles', async () => {
+    const html = `<!doctype html><html><head><title>Lezione</title><style>p { color: red; }</style></head>
+<body><h1>Le preposizioni</h1><p>Vado   <b>a</b> Roma.</p><script>track()</script><ul><li>di</li><li>da</li></ul></body></html>`;
+    const result = await processHtml(Buffer.from(html));
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('Le preposizioni\n\nVado a Roma.\n\ndi\n\nda');
+  });
+
+  it('accepts XHTML files with an XML declaration', async () => {
+    const xhtml = '<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml"><body><p>Buongiorno a tutti.</p></body></html>';
+    const result = await processHtml(Buffer.from(xhtml));
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('Buongiorno a tutti.');
+  });
+});
+
+describe('extractHtmlText', () => {
+  it('uses the first heading as title, falling back to the document title', () => {
+    expect(extractHtmlText('<html><body><h2>Capitolo 1</h2><p>Testo</p></body></html>').title).toBe('Capitolo 1');
+    expect(extractHtmlText('<html><head><title>Indice</title></head><body><p>Testo</p></body></html>').title).toBe('Indice');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Markdown and HTML file text extraction.
+ * Files are validated as plain UTF-8 text before markup is reduced to
+ * paragraphs of readable text.
+ */
+
+import type { Buffer } from 'node:buffer';
+
+import { parseHTML } from 'linkedom';
+
+import { createExtractionDeadline, ExtractionTimeoutError } from './ExtractionDeadline';
+import {
+  MARKUP_MAX_SIZE_BYTES,
+  MARKUP_MIN_TEXT_LENGTH,
+  MARKUP_PARSING_TIMEOUT_MS,
+} from './MarkupConfig';
+import { decodeTextFile } from './TextFileValidator';
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const SKIPPED_ELEMENTS = new Set([
+  'head',
+  'iframe',
+  'noscript',
+  'object',
+  'script',
+  'style',
+  'svg',
+  'template',
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tr',
+  'ul',
+]);
+
+export type MarkupExtractionResult = {
+  success: true;
+  text: string;
+  error?: undefined;
+  errorCode?: undefined;
+} | {
+  success: false;
+  text?: undefined;
+  error: string;
+  errorCode: 'NO_TEXT' | 'EXTRACTION_FAILED' | 'TIMEOUT' | 'VALIDATION_FAILED';
+};
+
+function collectBlockText(node: Node, parts: string[]) {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === TEXT_NODE) {
+      parts.push((child.textContent ?? '').replace(/\s+/g, ' '));
+      continue;
+    }
+
+    if (child.nodeType !== ELEMENT_NODE) {
+      continue;
+    }
+
+    const tagName = (child as Element).localName.toLowerCase();
+
+    if (SKIPPED_ELEMENTS.has(tagName)) {
+      continue;
+    }
+
+    if (tagName === 'br') {
+      parts.push('\n');
+      continue;
+    }
+
+    const isBlock = BLOCK_ELEMENTS.has(tagName);
+    if (isBlock) {
+      parts.push('\n\n');
+    }
+
+    if (tagName === 'pre') {
+      parts.push(child.textContent ?? '');
+    } else {
+      collectBlockText(child, parts);
+    }
+
+    if (isBlock) {
+      parts.push('\n\n');
+    }
+  }
+}
+
+function normalizeParagraphs(text: string) {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Converts an HTML or XHTML document to paragraph-separated text.
+ * Block elements become paragraph breaks; scripts, styles and embedded media are dropped.
+ * @param html - HTML source
+ * @returns Readable text and the first heading (or document title), if any
+ */
+export function extractHtmlText(html: string): { text: string; title: string | null } {
+  const { document } = parseHTML(html);
+  const root = document.body ?? document.documentElement;
+  const parts: string[] = [];
+
+  if (root) {
+    collectBlockText(root, parts);
+  }
+
+  const heading = document.querySelector('h1, h2, h3')?.textContent?.trim();
+  const documentTitle = document.querySelector('title')?.textContent?.trim();
+
+  return {
+    text: normalizeParagraphs(parts.join('')),
+    title: heading || documentTitle || null,
+  };
+}
+
+/**
+ * Reduces Markdown syntax to plain paragraphs, keeping link and image text.
+ * @param markdown - Markdown source
+ * @returns Plain text
+ */
+function markdownToText(markdown: string) {
+  const text = markdown
+    .replace(/\r\n?/g, '\n')
+    // YAML front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    // Code fence markers (code content is kept)
+    .replace(/^[ \t]*(?:```|~~~).*$/gm, '')
+    // Images and links keep their visible text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S.*$/gm, '')
+    // Inline HTML tags
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    // Horizontal rules, headings, blockquotes and list markers
+    .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/[ \t]+#+[ \t]*$/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')
+    // Emphasis, strikethrough and inline code
+    .replace(/(\*\*|__)(\S[^\n]*?)\1/g, '$2')
+    .replace(/(?<!\w)[*_](\S[^*_\n]*)[*_](?!\w)/g, '$1')
+    .replace(/~~(\S[^\n]*?)~~/g, '$1')
+    .replace(/`([^`\n]+)`/g, '$1');
+
+  return normalizeParagraphs(text);
+}
+
+/**
+ * Validates and converts a markup file with the given converter.
+ * @param buffer - Raw file buffer
+ * @param label - Format name used in error messages
+ * @param convert - Converts decoded source to plain text
+ * @returns Extraction result with text or error details
+ */
+async function processMarkup(
+  buffer: Buffer | Uint8Array,
+  label: string,
+  convert: (source: string) => string,
+): Promise<MarkupExtractionResult> {
+  const checkDeadline = createExtractionDeadline(MARKUP_PARSING_TIMEOUT_MS);
+
+  const decoded = await decodeTextFile(buffer, {
+    label,
+    maxSizeBytes: MARKUP_MAX_SIZE_BYTES,
+  });
+  if (!decoded.valid) {
+    return {
+      success: false,
+      error: decoded.error,
+      errorCode: 'VALIDATION_FAILED',
+    };
+  }
+
+  try {
+    checkDeadline();
+    const text = convert(decoded.text);
+    checkDeadline();
+
+    if (text.length < MARKUP_MIN_TEXT_LENGTH) {
+      return {
+        success: false,
+        error: `No text could be extracted from this ${label} file.`,
+        errorCode: 'NO_TEXT',
+      };
+    }
+
+    return { success: true, text };
+  } catch (error) {
+    if (error instanceof ExtractionTimeoutError) {
+      return {
+        success: false,
+        error: `${label} parsing timed out.`,
+        errorCode: 'TIMEOUT',
+      };
+    }
+
+    return {
+      success: false,
+      error: `Failed to extract text from ${label} file.`,
+      errorCode: 'EXTRACTION_FAILED',
+    };
+  }
+}
+
+/**
+ * Validates and extracts text from a Markdown file.
+ * @param buffer - Raw Markdown file buffer
+ * @returns Extraction result with text or error details
+ */
+export async function processMarkdown(
+  buffer: Buffer | Uint8Array,
+): Promise<MarkupExtractionResult> {
+  return processMarkup(buffer, 'Markdown', markdownToText);
+}
+
+/**
+ * Validates and extracts text from an HTML file.
+ * @param buffer - Raw HTML file buffer
+ * @returns Extraction result with text or error details
+ */
+export async function processHtml(
+  buffer: Buffer | Uint8Array,
+): Promise<MarkupExtractionResult> {
+  return processMarkup(buffer, 'HTML', source => extractHtmlText(source).text);
+}
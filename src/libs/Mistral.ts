@@ -1,11 +1,17 @@
 import type * as z from 'zod';
+import type {
+  EmbeddingResult,
+  LlmProvider,
+  ProviderChatInput,
+  ProviderStructuredChatInput,
+  StructuredChatResult,
+} from './LlmProvider';
 
 import { Mistral } from '@mistralai/mistralai';
 import {
   HTTPValidationError,
   SDKValidationError,
 } from '@mistralai/mistralai/models/errors';
-import { EMBEDDING_DIMENSION, EMBEDDING_MODEL } from './EmbeddingConfig';
 import { Env } from './Env';
 import { logger } from './Logger';
 
@@ -35,54 +41,23 @@ function createMistralClient(): Mistral | null {
   });
 }
 
-export const mistral = globalForMistral.mistral ?? createMistralClient();
+let mistral: Mistral | null | undefined = globalForMistral.mistral;
 
-if (Env.NODE_ENV !== 'production' && mistral) {
-  globalForMistral.mistral = mistral;
-}
+// Created on first use so other providers can run without MISTRAL_API_KEY
+function getMistralClient() {
+  if (mistral === undefined) {
+    mistral = createMistralClient();
 
-// Constants
-const MAX_BATCH_SIZE = 16;
-const CHAT_MODEL = 'mistral-small-latest';
+    if (Env.NODE_ENV !== 'production' && mistral) {
+      globalForMistral.mistral = mistral;
+    }
+  }
 
-function wait(ms: number) {
-  return new Promise(resolve => setTimeout(resolve, ms));
+  return mistral;
 }
 
-// Types
-export type EmbeddingResult = {
-  embeddings: number[][];
-  usage: {
-    promptTokens: number;
-    totalTokens: number;
-  };
-};
-
-type StructuredChatInput<T extends z.ZodTypeAny> = {
-  systemPrompt: string;
-  userPrompt: string;
-  responseFormat: T;
-  model?: string;
-  temperature?: number;
-  maxTokens?: number;
-};
-
-type StructuredChatResult<T extends z.ZodTypeAny> = {
-  parsed: z.infer<T>;
-  rawContent: string | null;
-  usage: {
-    promptTokens: number;
-    totalTokens: number;
-  };
-};
-
-type JsonChatInput = {
-  systemPrompt: string;
-  userPrompt: string;
-  model?: string;
-  temperature?: number;
-  maxTokens?: number;
-};
+// Constants
+const MAX_BATCH_SIZE = 16;
 
 function extractTextContent(content: unknown): string | null {
   if (typeof content === 'string') {
@@ -114,28 +89,40 @@ function extractTextContent(content: unknown): string | null {
   return textParts.join('\n');
 }
 
+function requireMistralClient() {
+  const client = getMistralClient();
+  if (!client) {
+    throw new Error('Mistral client not initialized. Check MISTRAL_API_KEY.');
+  }
+
+  return client;
+}
+
 /**
  * Create embeddings for an array of texts.
  * Batch up to 16 texts per request to maximize throughput.
- * @param texts - Array of text strings to embed (max 16)
+ * @param input - Texts to embed (max 16) and embedding model.
+ * @param input.texts - Array of text strings to embed.
+ * @param input.model - Embedding model name.
  */
-export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult> {
-  if (!mistral) {
-    throw new Error('Mistral client not initialized. Check MISTRAL_API_KEY.');
-  }
+async function createEmbeddings(input: {
+  texts: string[];
+  model: string;
+}): Promise<EmbeddingResult> {
+  const client = requireMistralClient();
 
-  if (texts.length > MAX_BATCH_SIZE) {
+  if (input.texts.length > MAX_BATCH_SIZE) {
     throw new Error(`Maximum ${MAX_BATCH_SIZE} texts per request`);
   }
 
-  if (texts.length === 0) {
+  if (input.texts.length === 0) {
     throw new Error('At least one text is required');
   }
 
   try {
-    const result = await mistral.embeddings.create({
-      model: EMBEDDING_MODEL,
-      inputs: texts,
+    const result = await client.embeddings.create({
+      model: input.model,
+      inputs: input.texts,
     });
 
     return {
@@ -162,20 +149,18 @@ export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult
 
 /**
  * Creates structured chat completion parsed by a Zod schema.
- * @param input - Chat prompts and expected schema.
+ * @param input - Chat prompts, model options, and expected schema.
  * @returns Parsed result and token usage.
  */
-export async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
-  input: StructuredChatInput<T>,
+async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
+  input: ProviderStructuredChatInput<T>,
 ): Promise<StructuredChatResult<T>> {
-  if (!mistral) {
-    throw new Error('Mistral client not initialized. Check MISTRAL_API_KEY.');
-  }
+  const client = requireMistralClient();
 
-  const response = await mistral.chat.parse({
-    model: input.model ?? CHAT_MODEL,
-    temperature: input.temperature ?? 0.2,
-    maxTokens: input.maxTokens ?? 1200,
+  const response = await client.chat.parse({
+    model: input.model,
+    temperature: input.temperature,
+    maxTokens: input.maxTokens,
     messages: [
       { role: 'system', content: input.systemPrompt },
       { role: 'user', content: input.userPrompt },
@@ -204,15 +189,13 @@ export async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
  * @param input - Chat prompts and generation options.
  * @returns Raw JSON message content.
  */
-export async function createJsonChatCompletion(input: JsonChatInput): Promise<string> {
-  if (!mistral) {
-    throw new Error('Mistral client not initialized. Check MISTRAL_API_KEY.');
-  }
+async function createJsonChatCompletion(input: ProviderChatInput): Promise<string> {
+  const client = requireMistralClient();
 
-  const response = await mistral.chat.complete({
-    model: input.model ?? CHAT_MODEL,
-    temperature: input.temperature ?? 0.2,
-    maxTokens: input.maxTokens ?? 1200,
+  const response = await client.chat.complete({
+    model: input.model,
+    temperature: input.temperature,
+    maxTokens: input.maxTokens,
     messages: [
       { role: 'system', content: input.systemPrompt },
       { role: 'user', content: input.userPrompt },
@@ -230,42 +213,10 @@ export async function createJsonChatCompletion(input: JsonChatInput): Promise<st
   return content;
 }
 
-/**
- * Create embeddings for large datasets in multiple batches.
- * Optional inter-batch throttling is controlled via environment config.
- * @param texts - Array of text strings to embed
- * @param onProgress - Optional callback for progress updates
- */
-export async function createEmbeddingsBatched(
-  texts: string[],
-  onProgress?: (completed: number, total: number) => void,
-): Promise<number[][]> {
-  const allEmbeddings: number[][] = [];
-  const batchDelayMs = Env.MISTRAL_EMBEDDING_BATCH_DELAY_MS ?? 0;
-
-  for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
-    const batch = texts.slice(i, i + MAX_BATCH_SIZE);
-    const result = await createEmbeddings(batch);
-    allEmbeddings.push(...result.embeddings);
-
-    onProgress?.(Math.min(i + MAX_BATCH_SIZE, texts.length), texts.length);
-
-    const hasMoreBatches = i + MAX_BATCH_SIZE < texts.length;
-    if (hasMoreBatches && batchDelayMs > 0) {
-      logger.debug('Embedding batch throttling enabled', { batchDelayMs });
-      await wait(batchDelayMs);
-    }
-  }
-
-  return allEmbeddings;
-}
-
-// Verify API connection
-export async function verifyConnection(): Promise<boolean> {
-  try {
-    const result = await createEmbeddings(['test']);
-    return result.embeddings.length === 1 && result.embeddings[0]!.length === EMBEDDING_DIMENSION;
-  } catch {
-    return false;
-  }
-}
+export const mistralProvider: LlmProvider = {
+  name: 'mistral',
+  maxEmbeddingBatchSize: MAX_BATCH_SIZE,
+  createStructuredChatCompletion,
+  createJsonChatCompletion,
+  createEmbeddings,
+};
@@ -0,0 +1,179 @@
+import type * as z from 'zod';
+import type {
+  EmbeddingResult,
+  LlmProvider,
+  ProviderChatInput,
+  ProviderStructuredChatInput,
+  StructuredChatResult,
+} from './LlmProvider';
+import { toJSONSchema } from 'zod';
+import { Env } from './Env';
+import { OPENAI_COMPATIBLE_TIMEOUT_MS } from './LlmConfig';
+
+// Conservative default; llama.cpp and Ollama servers often cap batch sizes
+const MAX_BATCH_SIZE = 16;
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    total_tokens?: number;
+  };
+};
+
+type EmbeddingsResponse = {
+  data?: Array<{
+    index?: number;
+    embedding?: number[];
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    total_tokens?: number;
+  };
+};
+
+function getBaseUrl() {
+  if (!Env.OPENAI_COMPATIBLE_BASE_URL) {
+    throw new Error('OpenAI-compatible endpoint not configured. Check OPENAI_COMPATIBLE_BASE_URL.');
+  }
+
+  return Env.OPENAI_COMPATIBLE_BASE_URL.replace(/\/+$/, '');
+}
+
+async function postJson<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(Env.OPENAI_COMPATIBLE_API_KEY
+        ? { Authorization: `Bearer ${Env.OPENAI_COMPATIBLE_API_KEY}` }
+        : {}),
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(OPENAI_COMPATIBLE_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible request to ${path} failed with status ${response.status}`);
+  }
+
+  return await response.json() as T;
+}
+
+function buildChatBody(input: ProviderChatInput, responseFormat: Record<string, unknown>) {
+  return {
+    model: input.model,
+    temperature: input.temperature,
+    max_tokens: input.maxTokens,
+    messages: [
+      { role: 'system', content: input.systemPrompt },
+      { role: 'user', content: input.userPrompt },
+    ],
+    response_format: responseFormat,
+  };
+}
+
+function toUsage(usage: ChatCompletionResponse['usage']) {
+  return {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? 0,
+  };
+}
+
+/**
+ * Creates structured chat completion using a JSON schema response format.
+ * The schema is derived from the Zod response format and the reply is parsed
+ * with the same schema, so servers that ignore the constraint still fail closed.
+ * @param input - Chat prompts, model options, and expected schema.
+ * @returns Parsed result and token usage.
+ */
+async function createStructuredChatCompletion<T extends z.ZodTypeAny>(
+  input: ProviderStructuredChatInput<T>,
+): Promise<StructuredChatResult<T>> {
+  const response = await postJson<ChatCompletionResponse>('/chat/completions', buildChatBody(input, {
+    type: 'json_schema',
+    json_schema: {
+      name: 'response',
+      schema: toJSONSchema(input.responseFormat, { unrepresentable: 'any' }),
+      strict: true,
+    },
+  }));
+
+  const content = response.choices?.[0]?.message?.content ?? null;
+  if (!content) {
+    throw new Error('OpenAI-compatible structured output returned empty content');
+  }
+
+  return {
+    parsed: input.responseFormat.parse(JSON.parse(content)) as z.infer<T>,
+    rawContent: content,
+    usage: toUsage(response.usage),
+  };
+}
+
+/**
+ * Creates chat completion in JSON mode.
+ * @param input - Chat prompts and generation options.
+ * @returns Raw JSON message content.
+ */
+async function createJsonChatCompletion(input: ProviderChatInput): Promise<string> {
+  const response = await postJson<ChatCompletionResponse>('/chat/completions', buildChatBody(input, {
+    type: 'json_object',
+  }));
+
+  const content = response.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error('OpenAI-compatible JSON mode returned empty content');
+  }
+
+  return content;
+}
+
+/**
+ * Create embeddings for an array of texts.
+ * @param input - Texts to embed and embedding model.
+ * @param input.texts - Array of text strings to embed.
+ * @param input.model - Embedding model name.
+ */
+async function createEmbeddings(input: {
+  texts: string[];
+  model: string;
+}): Promise<EmbeddingResult> {
+  if (input.texts.length > MAX_BATCH_SIZE) {
+    throw new Error(`Maximum ${MAX_BATCH_SIZE} texts per request`);
+  }
+
+  if (input.texts.length === 0) {
+    throw new Error('At least one text is required');
+  }
+
+  const response = await postJson<EmbeddingsResponse>('/embeddings', {
+    model: input.model,
+    input: input.texts,
+  });
+
+  const embeddings = [...response.data ?? []]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map(item => item.embedding ?? []);
+
+  if (embeddings.length !== input.texts.length) {
+    throw new Error('OpenAI-compatible embeddings response is missing vectors');
+  }
+
+  return {
+    embeddings,
+    usage: toUsage(response.usage),
+  };
+}
+
+export const openAiCompatibleProvider: LlmProvider = {
+  name: 'openai_compatible',
+  maxEmbeddingBatchSize: MAX_BATCH_SIZE,
+  createStructuredChatCompletion,
+  createJsonChatCompletion,
+  createEmbeddings,
+};
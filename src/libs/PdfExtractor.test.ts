@@ -75,6 +75,7 @@ describe('extractPdfText', () => {
 
     expect(result.success).toBe(true);
     expect(result.text).toContain('Hello World');
+    expect(result.pages).toEqual(['Hello World']);
     expect(result.pageCount).toBe(1);
     expect(result.error).toBeUndefined();
     expect(result.errorCode).toBeUndefined();
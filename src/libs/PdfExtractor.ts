@@ -54,12 +54,15 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T
 export type PdfExtractionResult = {
   success: true;
   text: string;
+  // Text of each page in page order (index 0 is page 1); empty for pages without text
+  pages: string[];
   pageCount: number;
   error?: undefined;
   errorCode?: undefined;
 } | {
   success: false;
   text?: undefined;
+  pages?: undefined;
   pageCount?: number;
   error: string;
   errorCode: 'PASSWORD_PROTECTED' | 'NO_TEXT' | 'EXTRACTION_FAILED' | 'PAGE_LIMIT_EXCEEDED' | 'TIMEOUT' | 'VALIDATION_FAILED';
@@ -95,14 +98,17 @@ export async function extractPdfText(
       };
     }
 
-    // Extract text from all pages (with timeout)
+    // Extract text page by page (with timeout) so chunks can keep page provenance
     const result = await withTimeout(
-      extractText(proxy, { mergePages: true }),
+      extractText(proxy, { mergePages: false }),
       PDF_PARSING_TIMEOUT_MS,
     );
 
+    // Collapse layout whitespace within each page; page breaks become paragraph breaks
+    const pages = result.text.map(pageText => pageText.replace(/\s+/g, ' ').trim());
+    const text = pages.filter(pageText => pageText.length > 0).join('\n\n');
+
     // Check for image-only PDF (no extractable text)
-    const text = typeof result.text === 'string' ? result.text.trim() : '';
 
     if (text.length < PDF_MIN_TEXT_LENGTH) {
       return {
@@ -116,6 +122,7 @@ export async function extractPdfText(
     return {
       success: true,
       text,
+      pages,
       pageCount: result.totalPages,
     };
   } catch (error) {
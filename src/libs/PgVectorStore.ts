@@ -0,0 +1,139 @@
+import type { VectorStore } from './VectorStore';
+import { and, asc, cosineDistance, eq, inArray, sql } from 'drizzle-orm';
+import { chunkEmbeddingsSchema } from '@/models/VectorStoreSchema';
+import { db } from './DB';
+import { EMBEDDING_DIMENSION } from './EmbeddingConfig';
+
+/**
+ * Creates a vector store backed by the `chunk_embeddings` pgvector table.
+ * Runs retrieval on the application database, so it works with a single
+ * Postgres instance or the local PGlite server started with the vector extension.
+ * @returns pgvector store.
+ */
+export function createPgVectorStore(): VectorStore {
+  return {
+    backend: 'pgvector',
+    async upsert(records) {
+      if (records.length === 0) {
+        return;
+      }
+
+      await db
+        .insert(chunkEmbeddingsSchema)
+        .values(records.map(record => ({
+          id: record.id,
+          userId: record.metadata.user_id,
+          documentId: record.metadata.document_id,
+          chunkPosition: record.metadata.chunk_position,
+          contentType: record.metadata.content_type,
+          text: record.metadata.text,
+          startMs: record.metadata.start_ms,
+          endMs: record.metadata.end_ms,
+          embedding: record.values,
+          createdAt: new Date(record.metadata.created_at),
+        })))
+        .onConflictDoUpdate({
+          target: chunkEmbeddingsSchema.id,
+          set: {
+            chunkPosition: sql`excluded.chunk_position`,
+            contentType: sql`excluded.content_type`,
+            text: sql`excluded.text`,
+            startMs: sql`excluded.start_ms`,
+            endMs: sql`excluded.end_ms`,
+            embedding: sql`excluded.embedding`,
+            createdAt: sql`excluded.created_at`,
+          },
+        });
+    },
+    async query(query) {
+      const distance = cosineDistance(chunkEmbeddingsSchema.embedding, query.vector);
+      const rows = await db
+        .select({
+          id: chunkEmbeddingsSchema.id,
+          userId: chunkEmbeddingsSchema.userId,
+          documentId: chunkEmbeddingsSchema.documentId,
+          chunkPosition: chunkEmbeddingsSchema.chunkPosition,
+          contentType: chunkEmbeddingsSchema.contentType,
+          text: chunkEmbeddingsSchema.text,
+          startMs: chunkEmbeddingsSchema.startMs,
+          endMs: chunkEmbeddingsSchema.endMs,
+          createdAt: chunkEmbeddingsSchema.createdAt,
+          distance: sql<number>`${distance}`,
+        })
+        .from(chunkEmbeddingsSchema)
+        .where(and(
+          eq(chunkEmbeddingsSchema.userId, query.filter.userId),
+          query.filter.documentIds
+            ? inArray(chunkEmbeddingsSchema.documentId, query.filter.documentIds)
+            : undefined,
+        ))
+        .orderBy(asc(distance))
+        .limit(query.topK);
+
+      return rows.map(row => ({
+        id: row.id,
+        score: 1 - Number(row.distance),
+        metadata: {
+          user_id: row.userId,
+          document_id: row.documentId,
+          chunk_position: row.chunkPosition,
+          content_type: row.contentType,
+          created_at: row.createdAt.toISOString(),
+          text: row.text,
+          ...(row.startMs !== null && row.endMs !== null
+            ? { start_ms: row.startMs, end_ms: row.endMs }
+            : {}),
+        },
+      }));
+    },
+    async deleteByDocument(input) {
+      await db
+        .delete(chunkEmbeddingsSchema)
+        .where(eq(chunkEmbeddingsSchema.documentId, input.documentId));
+    },
+  };
+}
+
+/**
+ * Creates the pgvector extension and the `chunk_embeddings` table if they are missing.
+ * Migrations leave them out so Postgres without pgvector can run the app with
+ * another vector store; run this once the regular migrations have been applied.
+ * @throws {Error} When an existing table stores vectors of another dimension
+ */
+export async function ensurePgVectorTable() {
+  const dimension = sql.raw(String(EMBEDDING_DIMENSION));
+
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "chunk_embeddings" (
+      "id" text PRIMARY KEY NOT NULL,
+      "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+      "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE cascade,
+      "chunk_position" integer NOT NULL,
+      "content_type" "content_type" NOT NULL,
+      "text" text NOT NULL,
+      "start_ms" integer,
+      "end_ms" integer,
+      "embedding" vector(${dimension}) NOT NULL,
+      "created_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+  // Tables created by the original migration predate the subtitle timing columns
+  await db.execute(sql`ALTER TABLE "chunk_embeddings" ADD COLUMN IF NOT EXISTS "start_ms" integer`);
+  await db.execute(sql`ALTER TABLE "chunk_embeddings" ADD COLUMN IF NOT EXISTS "end_ms" integer`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "chunk_embeddings_user_document_idx" ON "chunk_embeddings" USING btree ("user_id", "document_id")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "chunk_embeddings_embedding_idx" ON "chunk_embeddings" USING hnsw ("embedding" vector_cosine_ops)`);
+
+  const result = await db.execute(sql`
+    SELECT format_type(atttypid, atttypmod) AS "type"
+    FROM pg_attribute
+    WHERE attrelid = '"chunk_embeddings"'::regclass AND attname = 'embedding'
+  `);
+  const columnType = (result.rows[0] as { type?: unknown } | undefined)?.type;
+
+  if (columnType !== `vector(${EMBEDDING_DIMENSION})`) {
+    throw new Error(
+      `chunk_embeddings.embedding is ${String(columnType)}, expected vector(${EMBEDDING_DIMENSION}); drop the table and run this again to rebuild it, then re-ingest your documents`,
+    );
+  }
+}
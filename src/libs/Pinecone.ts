@@ -1,4 +1,5 @@
 import type { RecordMetadata } from '@pinecone-database/pinecone';
+import type { ChunkMetadata } from './VectorStore';
 import { Pinecone } from '@pinecone-database/pinecone';
 import { EMBEDDING_DIMENSION } from './EmbeddingConfig';
 import { Env } from './Env';
@@ -28,21 +29,14 @@ export const PINECONE_INDEX_NAME = 'italian-learning';
 export const PINECONE_NAMESPACE = 'content';
 
 // Metadata type for vectors
-export type ChunkMetadata = {
-  user_id: string;
-  document_id: string;
-  chunk_position: number;
-  content_type: 'pdf' | 'url' | 'text';
-  created_at: string;
-  text: string;
-} & RecordMetadata;
+type PineconeChunkMetadata = ChunkMetadata & RecordMetadata;
 
 // Get typed index
 export function getIndex() {
   if (!pinecone) {
     throw new Error('Pinecone client not initialized. Check PINECONE_API_KEY.');
   }
-  return pinecone.index<ChunkMetadata>(PINECONE_INDEX_NAME);
+  return pinecone.index<PineconeChunkMetadata>(PINECONE_INDEX_NAME);
 }
 
 // Get namespaced index
@@ -57,9 +51,15 @@ export async function ensureIndexExists(): Promise<void> {
   }
 
   const indexes = await pinecone.listIndexes();
-  const indexExists = indexes.indexes?.some(idx => idx.name === PINECONE_INDEX_NAME);
+  const existingIndex = indexes.indexes?.find(idx => idx.name === PINECONE_INDEX_NAME);
 
-  if (!indexExists) {
+  if (existingIndex && existingIndex.dimension !== EMBEDDING_DIMENSION) {
+    throw new Error(
+      `Pinecone index '${PINECONE_INDEX_NAME}' has dimension ${existingIndex.dimension}, but EMBEDDING_DIMENSION is ${EMBEDDING_DIMENSION}. Use a new PINECONE_INDEX or delete the index, then re-ingest your documents.`,
+    );
+  }
+
+  if (!existingIndex) {
     logger.info('Creating Pinecone index', { name: PINECONE_INDEX_NAME });
     await pinecone.createIndex({
       name: PINECONE_INDEX_NAME,
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockUpsert = vi.fn(async () => undefined);
+const mockQuery = vi.fn();
+const mockDeleteMany = vi.fn(async () => undefined);
+
+vi.mock('./Pinecone', () => ({
+  getNamespacedIndex: () => ({
+    upsert: mockUpsert,
+    query: mockQuery,
+    deleteMany: mockDeleteMany,
+  }),
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function buildRecord(position: number) {
+  return {
+    id: `doc-1_chunk_${position}`,
+    values: [0.1],
+    metadata: {
+      user_id: 'user-1',
+      document_id: 'doc-1',
+      chunk_position: position,
+      content_type: 'text' as const,
+      created_at: '2026-03-05T10:00:00.000Z',
+      text: 'Testo',
+    },
+  };
+}
+
+describe('createPineconeVectorStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('upserts vectors in batches of 100', async () => {
+    const { createPineconeVectorStore } = await import('./PineconeVectorStore');
+
+    await createPineconeVectorStore().upsert(Array.from({ length: 150 }, (_, index) => buildRecord(index)));
+
+    expect(mockUpsert).toHaveBeenCalledTimes(2);
+  });
+
+  it('translates the metadata filter and drops matches without chunk metadata', async () => {
+    mockQuery.mockResolvedValue({
+      matches: [
+        { id: 'doc-1_chunk_0', score: 0.9, metadata: buildRecord(0).metadata },
+        { id: 'orphan', score: 0.8, metadata: undefined },
+      ],
+    });
+    const { createPineconeVectorStore } = await import('./PineconeVectorStore');
+
+    const matches = await createPineconeVectorStore().query({
+      vector: [0.1],
+      topK: 30,
+      filter: { userId: 'user-1', documentIds: ['doc-1'] },
+    });
+
+    expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+      topK: 30,
+      includeMetadata: true,
+      filter: {
+        user_id: { $eq: 'user-1' },
+        document_id: { $in: ['doc-1'] },
+      },
+    }));
+    expect(matches).toEqual([{ id: 'doc-1_chunk_0', score: 0.9, metadata: buildRecord(0).metadata }]);
+  });
+
+  it('deletes document vectors by ID', async () => {
+    const { createPineconeVectorStore } = await import('./PineconeVectorStore');
+
+    await createPineconeVectorStore().deleteByDocument({
+      documentId: 'doc-1',
+      vectorIds: ['doc-1_chunk_0', 'doc-1_chunk_1'],
+    });
+
+    expect(mockDeleteMany).toHaveBeenCalledWith(['doc-1_chunk_0', 'doc-1_chunk_1']);
+  });
+});
@@ -0,0 +1,68 @@
+import type { ChunkMetadata, VectorStore } from './VectorStore';
+import { logger } from './Logger';
+import { getNamespacedIndex } from './Pinecone';
+
+// Pinecone recommends 100 vectors per upsert request
+const PINECONE_BATCH_SIZE = 100;
+
+function isChunkMetadata(metadata: Record<string, unknown> | undefined): metadata is ChunkMetadata {
+  return typeof metadata?.user_id === 'string'
+    && typeof metadata.document_id === 'string'
+    && typeof metadata.chunk_position === 'number'
+    && typeof metadata.text === 'string';
+}
+
+/**
+ * Creates a vector store backed by the Pinecone content namespace.
+ * Serverless indexes cannot delete by metadata filter, so document
+ * deletion removes the stored vector IDs explicitly.
+ * @returns Pinecone vector store.
+ */
+export function createPineconeVectorStore(): VectorStore {
+  return {
+    backend: 'pinecone',
+    async upsert(records) {
+      const index = getNamespacedIndex();
+
+      for (let i = 0; i < records.length; i += PINECONE_BATCH_SIZE) {
+        const batch = records.slice(i, i + PINECONE_BATCH_SIZE);
+        await index.upsert({ records: batch });
+        logger.debug('Upserted batch to Pinecone', { count: batch.length, offset: i });
+      }
+    },
+    async query(query) {
+      const index = getNamespacedIndex();
+      const result = await index.query({
+        vector: query.vector,
+        topK: query.topK,
+        includeMetadata: true,
+        includeValues: false,
+        filter: {
+          user_id: { $eq: query.filter.userId },
+          ...(query.filter.documentIds
+            ? { document_id: { $in: query.filter.documentIds } }
+            : {}),
+        } as never,
+      });
+
+      return (result.matches ?? []).flatMap((match) => {
+        if (!isChunkMetadata(match.metadata)) {
+          return [];
+        }
+
+        return [{
+          id: match.id,
+          score: match.score ?? 0,
+          metadata: match.metadata,
+        }];
+      });
+    },
+    async deleteByDocument(input) {
+      if (input.vectorIds.length === 0) {
+        return;
+      }
+
+      await getNamespacedIndex().deleteMany(input.vectorIds);
+    },
+  };
+}
@@ -0,0 +1,289 @@
+import type { CefrLevel, GrammarTopic } from '@/validations/GrammarTopicValidation';
+
+export type PlacementItem = {
+  id: string;
+  cefrLevel: CefrLevel;
+  topic: GrammarTopic;
+  // Rasch difficulty in logits, anchored to the item's CEFR band
+  difficulty: number;
+  prompt: string;
+  options: [string, string, string, string];
+  answerIndex: number;
+};
+
+/**
+ * Placement items from A1 to C1, ordered by difficulty.
+ * Each prompt has one blank and exactly one grammatical option.
+ */
+export const placementItemBank: PlacementItem[] = [
+  {
+    id: 'a1-articoli',
+    cefrLevel: 'A1',
+    topic: 'articoli',
+    difficulty: -2.3,
+    prompt: '___ ragazza legge un libro.',
+    options: ['Il', 'La', 'Lo', 'Gli'],
+    answerIndex: 1,
+  },
+  {
+    id: 'a1-presente',
+    cefrLevel: 'A1',
+    topic: 'presente_indicativo',
+    difficulty: -2.1,
+    prompt: 'Io ___ italiano da un anno.',
+    options: ['studio', 'studi', 'studia', 'studiamo'],
+    answerIndex: 0,
+  },
+  {
+    id: 'a1-avere',
+    cefrLevel: 'A1',
+    topic: 'presente_indicativo',
+    difficulty: -1.9,
+    prompt: 'Marco ___ vent\'anni.',
+    options: ['è', 'fa', 'ha', 'sta'],
+    answerIndex: 2,
+  },
+  {
+    id: 'a1-accordo',
+    cefrLevel: 'A1',
+    topic: 'accordo_aggettivi',
+    difficulty: -1.8,
+    prompt: 'Le case del paese sono ___.',
+    options: ['bianco', 'bianchi', 'bianca', 'bianche'],
+    answerIndex: 3,
+  },
+  {
+    id: 'a1-preposizioni',
+    cefrLevel: 'A1',
+    topic: 'preposizioni_semplici',
+    difficulty: -1.6,
+    prompt: 'Ogni giorno vado ___ scuola a piedi.',
+    options: ['in', 'a', 'da', 'su'],
+    answerIndex: 1,
+  },
+  {
+    id: 'a1-possessivi',
+    cefrLevel: 'A1',
+    topic: 'possessivi',
+    difficulty: -1.5,
+    prompt: 'Questa è ___ macchina nuova.',
+    options: ['la mia', 'il mio', 'mia la', 'i miei'],
+    answerIndex: 0,
+  },
+  {
+    id: 'a2-passato-prossimo',
+    cefrLevel: 'A2',
+    topic: 'passato_prossimo',
+    difficulty: -1.3,
+    prompt: 'Ieri sera ___ al cinema con Laura.',
+    options: ['abbiamo andato', 'siamo andati', 'andiamo', 'siamo andato'],
+    answerIndex: 1,
+  },
+  {
+    id: 'a2-articolate',
+    cefrLevel: 'A2',
+    topic: 'preposizioni_articolate',
+    difficulty: -1.2,
+    prompt: 'Il libro è ___ tavolo della cucina.',
+    options: ['sulla', 'su il', 'sul', 'sullo'],
+    answerIndex: 2,
+  },
+  {
+    id: 'a2-imperfetto',
+    cefrLevel: 'A2',
+    topic: 'imperfetto',
+    difficulty: -1.0,
+    prompt: 'Da bambino ___ sempre al mare d\'estate.',
+    options: ['andavo', 'andrò', 'vada', 'andrei'],
+    answerIndex: 0,
+  },
+  {
+    id: 'a2-riflessivi',
+    cefrLevel: 'A2',
+    topic: 'verbi_riflessivi',
+    difficulty: -0.9,
+    prompt: 'Ogni mattina Paola ___ alle sette.',
+    options: ['sveglia', 'si svegliano', 'ci sveglia', 'si sveglia'],
+    answerIndex: 3,
+  },
+  {
+    id: 'a2-pronomi-diretti',
+    cefrLevel: 'A2',
+    topic: 'pronomi_diretti',
+    difficulty: -0.8,
+    prompt: 'Conosci Marco? Sì, ___ conosco bene.',
+    options: ['gli', 'lo', 'la', 'ne'],
+    answerIndex: 1,
+  },
+  {
+    id: 'a2-futuro',
+    cefrLevel: 'A2',
+    topic: 'futuro_semplice',
+    difficulty: -0.6,
+    prompt: 'La settimana prossima ___ a Milano per lavoro.',
+    options: ['partivo', 'partissi', 'partirò', 'partii'],
+    answerIndex: 2,
+  },
+  {
+    id: 'b1-congiuntivo-presente',
+    cefrLevel: 'B1',
+    topic: 'congiuntivo_presente',
+    difficulty: -0.3,
+    prompt: 'È necessario che voi ___ subito.',
+    options: ['partite', 'partirete', 'partivate', 'partiate'],
+    answerIndex: 3,
+  },
+  {
+    id: 'b1-pronomi-passato',
+    cefrLevel: 'B1',
+    topic: 'pronomi_diretti',
+    difficulty: -0.2,
+    prompt: 'Hai comprato il pane? Sì, ___ ho comprato stamattina.',
+    options: ['l\'', 'ne', 'gli', 'ci'],
+    answerIndex: 0,
+  },
+  {
+    id: 'b1-condizionale',
+    cefrLevel: 'B1',
+    topic: 'condizionale_presente',
+    difficulty: -0.1,
+    prompt: 'Al tuo posto ___ subito con lui.',
+    options: ['parlerò', 'parlerei', 'parlavo', 'parli'],
+    answerIndex: 1,
+  },
+  {
+    id: 'b1-ne',
+    cefrLevel: 'B1',
+    topic: 'particelle_ci_e_ne',
+    difficulty: 0,
+    prompt: 'Quanti caffè bevi? ___ bevo tre al giorno.',
+    options: ['Li', 'Ci', 'Ne', 'Lo'],
+    answerIndex: 2,
+  },
+  {
+    id: 'b1-pronomi-indiretti',
+    cefrLevel: 'B1',
+    topic: 'pronomi_indiretti',
+    difficulty: 0.2,
+    prompt: 'Hai scritto a Sara? Sì, ___ ho scritto ieri.',
+    options: ['la', 'lei', 'ci', 'le'],
+    answerIndex: 3,
+  },
+  {
+    id: 'b1-relativi',
+    cefrLevel: 'B1',
+    topic: 'pronomi_relativi',
+    difficulty: 0.4,
+    prompt: 'Il ragazzo ___ ti ho parlato è mio cugino.',
+    options: ['di cui', 'che', 'cui', 'il quale'],
+    answerIndex: 0,
+  },
+  {
+    id: 'b2-periodo-ipotetico',
+    cefrLevel: 'B2',
+    topic: 'periodo_ipotetico',
+    difficulty: 0.6,
+    prompt: 'Se avessi più tempo, ___ più spesso.',
+    options: ['leggerò', 'legga', 'leggerei', 'leggevo'],
+    answerIndex: 2,
+  },
+  {
+    id: 'b2-trapassato',
+    cefrLevel: 'B2',
+    topic: 'trapassato_prossimo',
+    difficulty: 0.7,
+    prompt: 'Quando sono arrivato, il film ___ già iniziato.',
+    options: ['era', 'è', 'sarà', 'fosse'],
+    answerIndex: 0,
+  },
+  {
+    id: 'b2-congiuntivo-imperfetto',
+    cefrLevel: 'B2',
+    topic: 'congiuntivo_imperfetto',
+    difficulty: 0.9,
+    prompt: 'Pensavo che Luca ___ già partito.',
+    options: ['sia', 'è', 'sarà', 'fosse'],
+    answerIndex: 3,
+  },
+  {
+    id: 'b2-pronomi-combinati',
+    cefrLevel: 'B2',
+    topic: 'pronomi_combinati',
+    difficulty: 1.0,
+    prompt: 'Il libro? ___ già restituito a Paolo.',
+    options: ['Gli l\'ho', 'Gliel\'ho', 'Lo gli ho', 'Gli ho'],
+    answerIndex: 1,
+  },
+  {
+    id: 'b2-passiva',
+    cefrLevel: 'B2',
+    topic: 'forma_passiva',
+    difficulty: 1.1,
+    prompt: 'La lettera ___ scritta dal direttore.',
+    options: ['ha stata', 'ha', 'è stata', 'è avuta'],
+    answerIndex: 2,
+  },
+  {
+    id: 'b2-concessive',
+    cefrLevel: 'B2',
+    topic: 'congiuntivo_imperfetto',
+    difficulty: 1.3,
+    prompt: 'Benché ___ stanco, ha continuato a lavorare.',
+    options: ['era', 'fosse', 'sarebbe', 'è'],
+    answerIndex: 1,
+  },
+  {
+    id: 'c1-ipotetico-passato',
+    cefrLevel: 'C1',
+    topic: 'periodo_ipotetico',
+    difficulty: 1.5,
+    prompt: 'Se me l\'avessi detto prima, ti ___.',
+    options: ['aiuterei', 'avessi aiutato', 'aiuterò', 'avrei aiutato'],
+    answerIndex: 3,
+  },
+  {
+    id: 'c1-passato-remoto',
+    cefrLevel: 'C1',
+    topic: 'passato_remoto',
+    difficulty: 1.7,
+    prompt: 'Dante ___ la Divina Commedia all\'inizio del Trecento.',
+    options: ['scrisse', 'scrivesse', 'scriverebbe', 'scrivi'],
+    answerIndex: 0,
+  },
+  {
+    id: 'c1-concordanza',
+    cefrLevel: 'C1',
+    topic: 'concordanza_dei_tempi',
+    difficulty: 1.8,
+    prompt: 'Avevo paura che non ___ in tempo.',
+    options: ['arriviamo', 'arrivassimo', 'arriveremo', 'saremo arrivati'],
+    answerIndex: 1,
+  },
+  {
+    id: 'c1-discorso-indiretto',
+    cefrLevel: 'C1',
+    topic: 'discorso_indiretto',
+    difficulty: 1.9,
+    prompt: 'Mi disse che ___ il giorno dopo.',
+    options: ['partirà', 'parta', 'sarebbe partito', 'sia partito'],
+    answerIndex: 2,
+  },
+  {
+    id: 'c1-participio',
+    cefrLevel: 'C1',
+    topic: 'gerundio_e_participio',
+    difficulty: 2.1,
+    prompt: '___ la lettera, uscì di casa.',
+    options: ['Scritto', 'Avendo scrivendo', 'Scrivente', 'Scritta'],
+    answerIndex: 3,
+  },
+  {
+    id: 'c1-qualora',
+    cefrLevel: 'C1',
+    topic: 'concordanza_dei_tempi',
+    difficulty: 2.3,
+    prompt: 'Qualora ___ problemi, contattateci.',
+    options: ['sorgessero', 'sorgono', 'sorgeranno', 'sorgerebbero'],
+    answerIndex: 0,
+  },
+];
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type StoredTest = {
+  id: string;
+  status: 'active' | 'completed';
+  answers: unknown[];
+  ability: number | null;
+  standardError: number | null;
+  cefrLevel: string | null;
+  completedAt: Date | null;
+};
+
+const testId = '550e8400-e29b-41d4-a716-446655440030';
+let storedTest: StoredTest | null = null;
+
+vi.mock('@/libs/DB', () => ({
+  db: {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(async () => storedTest ? [{ ...storedTest }] : []),
+        })),
+      })),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: Partial<StoredTest>) => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(async () => {
+            if (!storedTest) {
+              return [];
+            }
+
+            storedTest = { ...storedTest, ...values };
+            return [{ ...storedTest }];
+          }),
+        })),
+      })),
+    })),
+  },
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('estimatePlacementAbility', () => {
+  it('starts at the prior mean with a wide error', async () => {
+    const { estimatePlacementAbility } = await import('./PlacementTest');
+    const estimate = estimatePlacementAbility([]);
+
+    expect(estimate.ability).toBe(0);
+    expect(estimate.standardError).toBeGreaterThan(1.2);
+  });
+
+  it('stays finite when every answer is correct', async () => {
+    const { estimatePlacementAbility } = await import('./PlacementTest');
+    const estimate = estimatePlacementAbility([
+      { difficulty: 0, correct: true },
+      { difficulty: 1, correct: true },
+      { difficulty: 2, correct: true },
+    ]);
+
+    expect(estimate.ability).toBeGreaterThan(1);
+    expect(estimate.ability).toBeLessThan(4);
+  });
+});
+
+describe('abilityToCefrLevel', () => {
+  it('maps logit bands to CEFR levels', async () => {
+    const { abilityToCefrLevel } = await import('./PlacementTest');
+
+    expect([-2, -1, 0, 1, 2].map(abilityToCefrLevel)).toEqual(['A1', 'A2', 'B1', 'B2', 'C1']);
+  });
+});
+
+describe('submitPlacementAnswer', () => {
+  beforeEach(() => {
+    storedTest = {
+      id: testId,
+      status: 'active',
+      answers: [],
+      ability: null,
+      standardError: null,
+      cefrLevel: null,
+      completedAt: null,
+    };
+  });
+
+  it('rejects an answer to an item that is not the current one', async () => {
+    const { PlacementConflictError, submitPlacementAnswer } = await import('./PlacementTest');
+
+    await expect(submitPlacementAnswer({
+      userId: 'user-1',
+      testId,
+      itemId: 'a1-articoli',
+      selectedIndex: 1,
+    })).rejects.toBeInstanceOf(PlacementConflictError);
+  });
+
+  it('hides the answer key and moves up after a correct answer', async () => {
+    const { submitPlacementAnswer } = await import('./PlacementTest');
+    const { placementItemBank } = await import('./PlacementItemBank');
+    const firstItem = placementItemBank.find(item => item.id === 'b1-ne')!;
+
+    const test = await submitPlacementAnswer({
+      userId: 'user-1',
+      testId,
+      itemId: firstItem.id,
+      selectedIndex: firstItem.answerIndex,
+    });
+
+    expect(test.answeredCount).toBe(1);
+    expect(test.currentItem).not.toHaveProperty('answerIndex');
+
+    const nextItem = placementItemBank.find(item => item.id === test.currentItem?.id)!;
+
+    expect(nextItem.difficulty).toBeGreaterThan(firstItem.difficulty);
+  });
+
+  it('places a learner who knows everything up to B1 at B1', async () => {
+    const { submitPlacementAnswer } = await import('./PlacementTest');
+    const { placementItemBank } = await import('./PlacementItemBank');
+    let test = await submitPlacementAnswer({
+      userId: 'user-1',
+      testId,
+      itemId: 'b1-ne',
+      selectedIndex: 2,
+    });
+
+    while (test.status === 'active') {
+      const item = placementItemBank.find(candidate => candidate.id === test.currentItem?.id)!;
+      const knowsItem = item.difficulty <= 0.5;
+
+      test = await submitPlacementAnswer({
+        userId: 'user-1',
+        testId,
+        itemId: item.id,
+        selectedIndex: knowsItem ? item.answerIndex : (item.answerIndex + 1) % 4,
+      });
+    }
+
+    expect(test.result?.cefrLevel).toBe('B1');
+    expect(test.answeredCount).toBeLessThanOrEqual(test.maxItems);
+    expect(test.currentItem).toBeNull();
+  });
+});
@@ -0,0 +1,366 @@
+import type { PlacementItem } from '@/libs/PlacementItemBank';
+import type { CefrLevel } from '@/validations/GrammarTopicValidation';
+import type { PlacementAnswer, PlacementResult, PlacementTest } from '@/validations/PlacementValidation';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import * as z from 'zod';
+import { db } from '@/libs/DB';
+import { logger } from '@/libs/Logger';
+import { placementItemBank } from '@/libs/PlacementItemBank';
+import { placementTestsSchema } from '@/models/Schema';
+import { PlacementAnswerSchema } from '@/validations/PlacementValidation';
+
+const MIN_PLACEMENT_ITEMS = 8;
+const MAX_PLACEMENT_ITEMS = 15;
+const TARGET_STANDARD_ERROR = 0.55;
+
+// Ability is estimated on a fixed logit grid under a normal prior centred on B1
+const ABILITY_GRID_MIN = -4;
+const ABILITY_GRID_MAX = 4;
+const ABILITY_GRID_STEP = 0.05;
+const ABILITY_PRIOR_SD = 1.5;
+
+// Upper ability bound of each level; anything above the last bound is C1
+const cefrAbilityCutoffs: Array<{ level: CefrLevel; maxAbility: number }> = [
+  { level: 'A1', maxAbility: -1.4 },
+  { level: 'A2', maxAbility: -0.5 },
+  { level: 'B1', maxAbility: 0.5 },
+  { level: 'B2', maxAbility: 1.4 },
+];
+
+const itemsById = new Map(placementItemBank.map(item => [item.id, item]));
+
+const StoredAnswersSchema = z.array(PlacementAnswerSchema);
+
+export class PlacementTestNotFoundError extends Error {
+  constructor() {
+    super('Placement test not found');
+    this.name = 'PlacementTestNotFoundError';
+  }
+}
+
+export class PlacementConflictError extends Error {
+  constructor() {
+    super('Placement test has changed since this item was shown');
+    this.name = 'PlacementConflictError';
+  }
+}
+
+function isUniqueConstraintError(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === '23505';
+}
+
+function roundAbility(value: number) {
+  // Adding zero turns a rounded -0 into 0
+  return Math.round(value * 100) / 100 + 0;
+}
+
+/**
+ * Estimates learner ability from placement answers with a Rasch model.
+ * Uses the expected a posteriori estimate, which stays finite even when every
+ * answer so far is right (or wrong).
+ * @param answers - Answered item difficulties and correctness.
+ * @returns Ability in logits and its posterior standard deviation.
+ */
+export function estimatePlacementAbility(answers: Array<{ difficulty: number; correct: boolean }>) {
+  let weightSum = 0;
+  let meanSum = 0;
+  let squareSum = 0;
+
+  const gridSize = Math.round((ABILITY_GRID_MAX - ABILITY_GRID_MIN) / ABILITY_GRID_STEP);
+  for (let step = 0; step <= gridSize; step += 1) {
+    const ability = ABILITY_GRID_MIN + step * ABILITY_GRID_STEP;
+    let logWeight = -(ability ** 2) / (2 * ABILITY_PRIOR_SD ** 2);
+    for (const answer of answers) {
+      const probability = 1 / (1 + Math.exp(answer.difficulty - ability));
+      logWeight += Math.log(answer.correct ? probability : 1 - probability);
+    }
+
+    const weight = Math.exp(logWeight);
+    weightSum += weight;
+    meanSum += weight * ability;
+    squareSum += weight * ability ** 2;
+  }
+
+  const ability = meanSum / weightSum;
+  const variance = Math.max(squareSum / weightSum - ability ** 2, 0);
+
+  return {
+    ability: roundAbility(ability),
+    standardError: roundAbility(Math.sqrt(variance)),
+  };
+}
+
+/**
+ * Picks the unanswered item closest in difficulty to the current estimate,
+ * which is the most informative item under a Rasch model.
+ * @param answeredItemIds - Items already answered in this test.
+ * @param ability - Current ability estimate.
+ * @returns Next item, or null when the bank is exhausted.
+ */
+export function selectNextPlacementItem(answeredItemIds: string[], ability: number): PlacementItem | null {
+  const answered = new Set(answeredItemIds);
+  let nextItem: PlacementItem | null = null;
+
+  for (const item of placementItemBank) {
+    if (answered.has(item.id)) {
+      continue;
+    }
+
+    if (!nextItem || Math.abs(item.difficulty - ability) < Math.abs(nextItem.difficulty - ability)) {
+      nextItem = item;
+    }
+  }
+
+  return nextItem;
+}
+
+/**
+ * Maps an ability estimate to a CEFR level.
+ * @param ability - Ability in logits.
+ * @returns Estimated CEFR level.
+ */
+export function abilityToCefrLevel(ability: number): CefrLevel {
+  return cefrAbilityCutoffs.find(cutoff => ability <= cutoff.maxAbility)?.level ?? 'C1';
+}
+
+function isPlacementComplete(answerCount: number, standardError: number) {
+  return answerCount >= MAX_PLACEMENT_ITEMS
+    || (answerCount >= MIN_PLACEMENT_ITEMS && standardError <= TARGET_STANDARD_ERROR);
+}
+
+function scoreAnswers(answers: PlacementAnswer[]) {
+  return estimatePlacementAbility(answers.flatMap((answer) => {
+    const item = itemsById.get(answer.itemId);
+    return item ? [{ difficulty: item.difficulty, correct: answer.correct }] : [];
+  }));
+}
+
+function toPlacementResult(row: {
+  ability: number | null;
+  standardError: number | null;
+  cefrLevel: CefrLevel | null;
+  completedAt: Date | null;
+}, itemCount: number): PlacementResult | null {
+  if (row.ability === null || row.standardError === null || !row.cefrLevel || !row.completedAt) {
+    return null;
+  }
+
+  return {
+    cefrLevel: row.cefrLevel,
+    ability: row.ability,
+    standardError: row.standardError,
+    itemCount,
+    completedAt: row.completedAt.toISOString(),
+  };
+}
+
+function toPlacementTest(row: {
+  id: string;
+  status: 'active' | 'completed';
+  answers: unknown;
+  ability: number | null;
+  standardError: number | null;
+  cefrLevel: CefrLevel | null;
+  completedAt: Date | null;
+}): PlacementTest {
+  const answers = StoredAnswersSchema.parse(row.answers);
+  const currentItem = row.status === 'active'
+    ? selectNextPlacementItem(answers.map(answer => answer.itemId), scoreAnswers(answers).ability)
+    : null;
+
+  return {
+    id: row.id,
+    status: row.status,
+    answeredCount: answers.length,
+    maxItems: MAX_PLACEMENT_ITEMS,
+    // The answer key stays on the server
+    currentItem: currentItem
+      ? { id: currentItem.id, prompt: currentItem.prompt, options: currentItem.options }
+      : null,
+    result: row.status === 'completed' ? toPlacementResult(row, answers.length) : null,
+  };
+}
+
+const placementTestColumns = {
+  id: placementTestsSchema.id,
+  status: placementTestsSchema.status,
+  answers: placementTestsSchema.answers,
+  ability: placementTestsSchema.ability,
+  standardError: placementTestsSchema.standardError,
+  cefrLevel: placementTestsSchema.cefrLevel,
+  completedAt: placementTestsSchema.completedAt,
+};
+
+async function getActivePlacementTest(userId: string) {
+  const [test] = await db
+    .select(placementTestColumns)
+    .from(placementTestsSchema)
+    .where(and(
+      eq(placementTestsSchema.userId, userId),
+      eq(placementTestsSchema.status, 'active'),
+    ))
+    .limit(1);
+
+  return test ?? null;
+}
+
+async function getLatestCompletedPlacementTest(userId: string) {
+  const [test] = await db
+    .select(placementTestColumns)
+    .from(placementTestsSchema)
+    .where(and(
+      eq(placementTestsSchema.userId, userId),
+      eq(placementTestsSchema.status, 'completed'),
+    ))
+    .orderBy(desc(placementTestsSchema.completedAt))
+    .limit(1);
+
+  return test ?? null;
+}
+
+/**
+ * Loads the learner's active placement test and most recent result.
+ * @param userId - Authenticated user ID.
+ * @returns Active test, if any, and the latest completed result.
+ */
+export async function getPlacementState(userId: string) {
+  const [activeTest, completedTest] = await Promise.all([
+    getActivePlacementTest(userId),
+    getLatestCompletedPlacementTest(userId),
+  ]);
+
+  return {
+    test: activeTest ? toPlacementTest(activeTest) : null,
+    latestResult: completedTest ? toPlacementTest(completedTest).result : null,
+  };
+}
+
+/**
+ * Returns the CEFR level from the learner's most recent completed placement test.
+ * @param userId - Authenticated user ID.
+ * @returns Latest placement level, or null when the learner was never placed.
+ */
+export async function getLatestPlacementLevel(userId: string) {
+  const completedTest = await getLatestCompletedPlacementTest(userId);
+  return completedTest?.cefrLevel ?? null;
+}
+
+/**
+ * Starts a placement test, or resumes the one already in progress.
+ * @param userId - Authenticated user ID.
+ * @returns Active placement test with its first unanswered item.
+ */
+export async function startPlacementTest(userId: string) {
+  const activeTest = await getActivePlacementTest(userId);
+  if (activeTest) {
+    return toPlacementTest(activeTest);
+  }
+
+  try {
+    const [test] = await db
+      .insert(placementTestsSchema)
+      .values({ userId, answers: [] })
+      .returning(placementTestColumns);
+
+    if (test) {
+      return toPlacementTest(test);
+    }
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) {
+      throw error;
+    }
+  }
+
+  // A concurrent request started the test first
+  const concurrentTest = await getActivePlacementTest(userId);
+  if (!concurrentTest) {
+    throw new PlacementConflictError();
+  }
+
+  return toPlacementTest(concurrentTest);
+}
+
+/**
+ * Records the answer to the current placement item and re-estimates ability.
+ * The test completes once the estimate is precise enough or the item cap is reached.
+ * @param input - Learner, test and answer.
+ * @param input.userId - Authenticated user ID.
+ * @param input.testId - Active placement test ID.
+ * @param input.itemId - Item being answered; must be the test's current item.
+ * @param input.selectedIndex - Chosen option index.
+ * @returns Updated placement test.
+ */
+export async function submitPlacementAnswer(input: {
+  userId: string;
+  testId: string;
+  itemId: string;
+  selectedIndex: number;
+}) {
+  const [storedTest] = await db
+    .select(placementTestColumns)
+    .from(placementTestsSchema)
+    .where(and(
+      eq(placementTestsSchema.id, input.testId),
+      eq(placementTestsSchema.userId, input.userId),
+    ))
+    .limit(1);
+
+  if (!storedTest) {
+    throw new PlacementTestNotFoundError();
+  }
+
+  const test = toPlacementTest(storedTest);
+  if (test.status !== 'active' || test.currentItem?.id !== input.itemId) {
+    throw new PlacementConflictError();
+  }
+
+  const item = itemsById.get(input.itemId)!;
+  const previousAnswers = StoredAnswersSchema.parse(storedTest.answers);
+  const answers: PlacementAnswer[] = [
+    ...previousAnswers,
+    {
+      itemId: item.id,
+      selectedIndex: input.selectedIndex,
+      correct: input.selectedIndex === item.answerIndex,
+    },
+  ];
+  const estimate = scoreAnswers(answers);
+  const isCompleted = isPlacementComplete(answers.length, estimate.standardError)
+    || !selectNextPlacementItem(answers.map(answer => answer.itemId), estimate.ability);
+
+  // Only the request that saw the latest answer may append to the test
+  const [updatedTest] = await db
+    .update(placementTestsSchema)
+    .set({
+      answers,
+      ...(isCompleted
+        ? {
+            status: 'completed' as const,
+            ability: estimate.ability,
+            standardError: estimate.standardError,
+            cefrLevel: abilityToCefrLevel(estimate.ability),
+            completedAt: new Date(),
+          }
+        : {}),
+    })
+    .where(and(
+      eq(placementTestsSchema.id, input.testId),
+      eq(placementTestsSchema.status, 'active'),
+      sql`jsonb_array_length(${placementTestsSchema.answers}) = ${previousAnswers.length}`,
+    ))
+    .returning(placementTestColumns);
+
+  if (!updatedTest) {
+    throw new PlacementConflictError();
+  }
+
+  if (isCompleted) {
+    logger.info('placement_test_completed', {
+      testId: input.testId,
+      itemCount: answers.length,
+      cefrLevel: updatedTest.cefrLevel,
+    });
+  }
+
+  return toPlacementTest(updatedTest);
+}
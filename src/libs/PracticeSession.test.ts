@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type StoredSession = {
+  id: string;
+  status: 'active' | 'completed';
+  exerciseIds: string[];
+  timeLimitSeconds: number | null;
+  startedAt: Date;
+  completedAt: Date | null;
+};
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440060';
+const firstExerciseId = '550e8400-e29b-41d4-a716-446655440061';
+const secondExerciseId = '550e8400-e29b-41d4-a716-446655440062';
+let storedSession: StoredSession | null = null;
+let storedResponses: Array<{ id: string }> = [];
+
+const mockSelect = vi.fn();
+
+vi.mock('@/libs/DB', () => ({
+  db: {
+    select: mockSelect,
+  },
+}));
+
+vi.mock('@/libs/ExerciseGeneration', () => ({
+  listSourceLocationsForExercises: vi.fn(async () => new Map()),
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function mockLimitedSelect(rows: () => unknown[]) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        limit: vi.fn(async () => rows()),
+      })),
+    })),
+  });
+}
+
+describe('summarizePracticeSession', () => {
+  it('scores unanswered items as zero and averages the rubric over answers', async () => {
+    const { summarizePracticeSession } = await import('./PracticeSession');
+    const summary = summarizePracticeSession({
+      startedAt: new Date('2026-03-05T10:00:00.000Z'),
+      completedAt: new Date('2026-03-05T10:04:30.000Z'),
+      items: [
+        {
+          exerciseId: firstExerciseId,
+          exerciseType: 'fill_gap',
+          question: 'Io ___ a Roma.',
+          response: {
+            score: 90,
+            rubric: { accuracy: 36, grammar: 27, fluency: 18, bonus: 9 },
+            responseTimeMs: 20000,
+          },
+        },
+        {
+          exerciseId: secondExerciseId,
+          exerciseType: 'translation',
+          question: 'Translate: I was tired.',
+          response: {
+            score: 60,
+            rubric: { accuracy: 25, grammar: 18, fluency: 12, bonus: 5 },
+            responseTimeMs: null,
+          },
+        },
+        {
+          exerciseId: '550e8400-e29b-41d4-a716-446655440063',
+          exerciseType: 'multiple_choice',
+          question: 'Scegli l\'articolo.',
+          response: null,
+        },
+      ],
+    });
+
+    expect(summary).toEqual({
+      score: 50,
+      answeredCount: 2,
+      itemCount: 3,
+      totalResponseTimeMs: 20000,
+      elapsedMs: 270000,
+      rubric: { accuracy: 31, grammar: 23, fluency: 15, bonus: 7 },
+      items: [
+        expect.objectContaining({ exerciseId: firstExerciseId, score: 90, responseTimeMs: 20000 }),
+        expect.objectContaining({ exerciseId: secondExerciseId, score: 60, responseTimeMs: null }),
+        expect.objectContaining({ score: null, responseTimeMs: null }),
+      ],
+    });
+  });
+
+  it('has no rubric before any answer', async () => {
+    const { summarizePracticeSession } = await import('./PracticeSession');
+    const summary = summarizePracticeSession({
+      startedAt: new Date('2026-03-05T10:00:00.000Z'),
+      completedAt: null,
+      now: new Date('2026-03-05T10:01:00.000Z'),
+      items: [{
+        exerciseId: firstExerciseId,
+        exerciseType: 'fill_gap',
+        question: 'Io ___ a Roma.',
+        response: null,
+      }],
+    });
+
+    expect(summary.score).toBe(0);
+    expect(summary.rubric).toBeNull();
+    expect(summary.elapsedMs).toBe(60000);
+  });
+});
+
+describe('assertPracticeSessionAcceptsResponse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Items rejected before the duplicate check leave queued selects behind
+    mockSelect.mockReset();
+    storedSession = {
+      id: sessionId,
+      status: 'active',
+      exerciseIds: [firstExerciseId, secondExerciseId],
+      timeLimitSeconds: 300,
+      startedAt: new Date('2026-03-05T10:00:00.000Z'),
+      completedAt: null,
+    };
+    storedResponses = [];
+    mockLimitedSelect(() => storedSession ? [{ ...storedSession }] : []);
+    mockLimitedSelect(() => storedResponses);
+  });
+
+  it('accepts an unanswered item before the deadline', async () => {
+    const { assertPracticeSessionAcceptsResponse } = await import('./PracticeSession');
+
+    await expect(assertPracticeSessionAcceptsResponse({
+      userId: 'user-1',
+      sessionId,
+      exerciseId: secondExerciseId,
+      now: new Date('2026-03-05T10:04:00.000Z'),
+    })).resolves.toBeUndefined();
+  });
+
+  it('rejects exercises outside the session', async () => {
+    const { assertPracticeSessionAcceptsResponse, PracticeSessionNotFoundError } = await import('./PracticeSession');
+
+    await expect(assertPracticeSessionAcceptsResponse({
+      userId: 'user-1',
+      sessionId,
+      exerciseId: '550e8400-e29b-41d4-a716-446655440099',
+    })).rejects.toBeInstanceOf(PracticeSessionNotFoundError);
+  });
+
+  it('rejects answers once the time limit and grace period have passed', async () => {
+    const { assertPracticeSessionAcceptsResponse, PracticeSessionClosedError } = await import('./PracticeSession');
+
+    await expect(assertPracticeSessionAcceptsResponse({
+      userId: 'user-1',
+      sessionId,
+      exerciseId: firstExerciseId,
+      now: new Date('2026-03-05T10:05:30.000Z'),
+    })).rejects.toBeInstanceOf(PracticeSessionClosedError);
+  });
+
+  it('rejects answers to completed sessions', async () => {
+    storedSession = { ...storedSession!, status: 'completed', completedAt: new Date('2026-03-05T10:02:00.000Z') };
+    const { assertPracticeSessionAcceptsResponse, PracticeSessionClosedError } = await import('./PracticeSession');
+
+    await expect(assertPracticeSessionAcceptsResponse({
+      userId: 'user-1',
+      sessionId,
+      exerciseId: firstExerciseId,
+      now: new Date('2026-03-05T10:03:00.000Z'),
+    })).rejects.toBeInstanceOf(PracticeSessionClosedError);
+  });
+
+  it('rejects a second answer to the same item', async () => {
+    storedResponses = [{ id: 'response-1' }];
+    const { assertPracticeSessionAcceptsResponse, PracticeSessionItemAnsweredError } = await import('./PracticeSession');
+
+    await expect(assertPracticeSessionAcceptsResponse({
+      userId: 'user-1',
+      sessionId,
+      exerciseId: firstExerciseId,
+      now: new Date('2026-03-05T10:01:00.000Z'),
+    })).rejects.toBeInstanceOf(PracticeSessionItemAnsweredError);
+  });
+});
@@ -0,0 +1,457 @@
+import type { CreatePracticeSessionRequest, PracticeSession, PracticeSessionItemSummary, PracticeSessionSummary } from '@/validations/PracticeSessionValidation';
+import type { ExerciseCard } from '@/validations/ResponseValidation';
+import { and, asc, desc, eq, inArray, isNotNull, ne, sql } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { listSourceLocationsForExercises } from '@/libs/ExerciseGeneration';
+import { safeToExerciseCard } from '@/libs/ExercisePresenter';
+import { logger } from '@/libs/Logger';
+import { exercisesSchema, practiceSessionsSchema, responsesSchema } from '@/models/Schema';
+import { EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { PracticeSessionDetailResponseSchema, PracticeSessionListResponseSchema } from '@/validations/PracticeSessionValidation';
+
+// Answers submitted just before the deadline still need time to reach the server
+const SESSION_DEADLINE_GRACE_SECONDS = 15;
+const PRACTICE_SESSION_LIST_LIMIT = 20;
+
+export class PracticeSessionNotFoundError extends Error {
+  constructor() {
+    super('Practice session not found');
+    this.name = 'PracticeSessionNotFoundError';
+  }
+}
+
+export class PracticeSessionClosedError extends Error {
+  constructor() {
+    super('Practice session is closed');
+    this.name = 'PracticeSessionClosedError';
+  }
+}
+
+export class PracticeSessionItemAnsweredError extends Error {
+  constructor() {
+    super('Exercise already answered in this practice session');
+    this.name = 'PracticeSessionItemAnsweredError';
+  }
+}
+
+export class NoPracticeExercisesError extends Error {
+  constructor() {
+    super('No exercises available for a practice session');
+    this.name = 'NoPracticeExercisesError';
+  }
+}
+
+const practiceSessionColumns = {
+  id: practiceSessionsSchema.id,
+  status: practiceSessionsSchema.status,
+  exerciseIds: practiceSessionsSchema.exerciseIds,
+  timeLimitSeconds: practiceSessionsSchema.timeLimitSeconds,
+  startedAt: practiceSessionsSchema.startedAt,
+  completedAt: practiceSessionsSchema.completedAt,
+};
+
+type PracticeSessionRow = {
+  id: string;
+  status: 'active' | 'completed';
+  exerciseIds: string[];
+  timeLimitSeconds: number | null;
+  startedAt: Date;
+  completedAt: Date | null;
+};
+
+function getPracticeSessionDeadline(row: Pick<PracticeSessionRow, 'startedAt' | 'timeLimitSeconds'>) {
+  return row.timeLimitSeconds === null
+    ? null
+    : new Date(row.startedAt.getTime() + row.timeLimitSeconds * 1000);
+}
+
+function toPracticeSession(row: PracticeSessionRow): PracticeSession {
+  return {
+    id: row.id,
+    status: row.status,
+    timeLimitSeconds: row.timeLimitSeconds,
+    startedAt: row.startedAt.toISOString(),
+    deadlineAt: getPracticeSessionDeadline(row)?.toISOString() ?? null,
+    completedAt: row.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Scores a practice session from the answers given in it.
+ * @param input - Session timing and its items in play order.
+ * @param input.startedAt - When the session started.
+ * @param input.completedAt - When the session ended, or null while it is running.
+ * @param input.now - Reference time for sessions still running.
+ * @param input.items - Session exercises with the response given in the session, if any.
+ * @returns Session score, timing and rubric averages.
+ */
+export function summarizePracticeSession(input: {
+  startedAt: Date;
+  completedAt: Date | null;
+  now?: Date;
+  items: Array<Omit<PracticeSessionItemSummary, 'score' | 'responseTimeMs'> & {
+    response: { score: number; rubric: unknown; responseTimeMs: number | null } | null;
+  }>;
+}): PracticeSessionSummary {
+  const answered = input.items.flatMap(item => item.response ? [item.response] : []);
+  const rubrics = answered.flatMap((response) => {
+    const rubric = EvaluationRubricSchema.safeParse(response.rubric);
+    return rubric.success ? [rubric.data] : [];
+  });
+  const averageRubric = (key: keyof typeof rubrics[number]) =>
+    Math.round(rubrics.reduce((sum, rubric) => sum + rubric[key], 0) / rubrics.length);
+  const endedAt = input.completedAt ?? input.now ?? new Date();
+
+  return {
+    score: input.items.length === 0
+      ? 0
+      : Math.round(answered.reduce((sum, response) => sum + response.score, 0) / input.items.length),
+    answeredCount: answered.length,
+    itemCount: input.items.length,
+    totalResponseTimeMs: answered.reduce((sum, response) => sum + (response.responseTimeMs ?? 0), 0),
+    elapsedMs: Math.max(endedAt.getTime() - input.startedAt.getTime(), 0),
+    rubric: rubrics.length === 0
+      ? null
+      : {
+          accuracy: averageRubric('accuracy'),
+          grammar: averageRubric('grammar'),
+          fluency: averageRubric('fluency'),
+          bonus: averageRubric('bonus'),
+        },
+    items: input.items.map(item => ({
+      exerciseId: item.exerciseId,
+      exerciseType: item.exerciseType,
+      question: item.question,
+      score: item.response?.score ?? null,
+      responseTimeMs: item.response?.responseTimeMs ?? null,
+    })),
+  };
+}
+
+/**
+ * Closes the learner's timed sessions whose time limit has run out.
+ * They are completed as of their deadline, not as of when this runs.
+ * @param userId - Authenticated user ID.
+ */
+async function closeExpiredPracticeSessions(userId: string) {
+  const deadline = sql`${practiceSessionsSchema.startedAt} + make_interval(secs => ${practiceSessionsSchema.timeLimitSeconds})`;
+
+  await db
+    .update(practiceSessionsSchema)
+    .set({
+      status: 'completed',
+      completedAt: sql`${deadline}`,
+    })
+    .where(and(
+      eq(practiceSessionsSchema.userId, userId),
+      eq(practiceSessionsSchema.status, 'active'),
+      isNotNull(practiceSessionsSchema.timeLimitSeconds),
+      sql`${deadline} + make_interval(secs => ${SESSION_DEADLINE_GRACE_SECONDS}) < now()`,
+    ));
+}
+
+async function getPracticeSessionRow(userId: string, sessionId: string) {
+  const [session] = await db
+    .select(practiceSessionColumns)
+    .from(practiceSessionsSchema)
+    .where(and(
+      eq(practiceSessionsSchema.id, sessionId),
+      eq(practiceSessionsSchema.userId, userId),
+    ))
+    .limit(1);
+
+  if (!session) {
+    throw new PracticeSessionNotFoundError();
+  }
+
+  return session;
+}
+
+// Dialogue exercises finish through their own multi-turn flow, so sessions skip them
+async function pickPracticeSessionExercises(userId: string, request: CreatePracticeSessionRequest) {
+  const sessionExercisesWhere = and(
+    eq(exercisesSchema.userId, userId),
+    ne(exercisesSchema.type, 'dialogue'),
+  );
+
+  if (request.exerciseIds) {
+    const rows = await db
+      .select({ id: exercisesSchema.id })
+      .from(exercisesSchema)
+      .where(and(
+        sessionExercisesWhere,
+        inArray(exercisesSchema.id, request.exerciseIds),
+      ));
+    const availableIds = new Set(rows.map(row => row.id));
+
+    return request.exerciseIds.filter(id => availableIds.has(id));
+  }
+
+  // Least-practised exercises first, newest first among equals
+  const rows = await db
+    .select({ id: exercisesSchema.id })
+    .from(exercisesSchema)
+    .where(sessionExercisesWhere)
+    .orderBy(
+      asc(sql`coalesce(${exercisesSchema.timesAttempted}, 0)`),
+      desc(exercisesSchema.createdAt),
+    )
+    .limit(request.count);
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * Starts a practice session over the chosen exercises, or auto-picks the
+ * learner's least-practised ones.
+ * @param input - Learner and session request.
+ * @param input.userId - Authenticated user ID.
+ * @param input.request - Validated session request.
+ * @returns The new session.
+ */
+export async function createPracticeSession(input: {
+  userId: string;
+  request: CreatePracticeSessionRequest;
+}) {
+  const exerciseIds = await pickPracticeSessionExercises(input.userId, input.request);
+  if (exerciseIds.length === 0) {
+    throw new NoPracticeExercisesError();
+  }
+
+  const [session] = await db
+    .insert(practiceSessionsSchema)
+    .values({
+      userId: input.userId,
+      exerciseIds,
+      timeLimitSeconds: input.request.timeLimitSeconds ?? null,
+    })
+    .returning(practiceSessionColumns);
+
+  if (!session) {
+    throw new Error('Failed to create practice session');
+  }
+
+  logger.info('practice_session_started', {
+    sessionId: session.id,
+    itemCount: exerciseIds.length,
+    timeLimitSeconds: session.timeLimitSeconds,
+  });
+
+  return toPracticeSession(session);
+}
+
+/**
+ * Loads a practice session with its exercise cards and running summary.
+ * Timed sessions past their deadline are closed first.
+ * @param input - Learner and session.
+ * @param input.userId - Authenticated user ID.
+ * @param input.sessionId - Practice session ID.
+ * @returns Session, cards in play order and summary.
+ */
+export async function getPracticeSessionDetail(input: {
+  userId: string;
+  sessionId: string;
+}) {
+  await closeExpiredPracticeSessions(input.userId);
+  const session = await getPracticeSessionRow(input.userId, input.sessionId);
+
+  const [exerciseRows, responseRows, sourceLocations] = await Promise.all([
+    db
+      .select({
+        id: exercisesSchema.id,
+        type: exercisesSchema.type,
+        difficulty: exercisesSchema.difficulty,
+        question: exercisesSchema.question,
+        exerciseData: exercisesSchema.exerciseData,
+        grammarFocus: exercisesSchema.grammarFocus,
+        timesAttempted: exercisesSchema.timesAttempted,
+        averageScore: exercisesSchema.averageScore,
+        createdAt: exercisesSchema.createdAt,
+      })
+      .from(exercisesSchema)
+      .where(and(
+        eq(exercisesSchema.userId, input.userId),
+        inArray(exercisesSchema.id, session.exerciseIds),
+      )),
+    db
+      .select({
+        id: responsesSchema.id,
+        exerciseId: responsesSchema.exerciseId,
+        score: responsesSchema.score,
+        evaluationMethod: sql<'deterministic' | 'llm'>`coalesce(${responsesSchema.evaluationMethod}::text, 'deterministic')`,
+        rubric: responsesSchema.rubric,
+        overallFeedback: responsesSchema.overallFeedback,
+        suggestedReview: responsesSchema.suggestedReview,
+        itemResults: responsesSchema.itemResults,
+        annotatedText: responsesSchema.annotatedText,
+        responseTimeMs: responsesSchema.responseTimeMs,
+        createdAt: responsesSchema.createdAt,
+      })
+      .from(responsesSchema)
+      .where(and(
+        eq(responsesSchema.userId, input.userId),
+        eq(responsesSchema.sessionId, session.id),
+      )),
+    listSourceLocationsForExercises(input.userId, session.exerciseIds),
+  ]);
+
+  const exercisesById = new Map(exerciseRows.map(row => [row.id, row]));
+  const responsesByExerciseId = new Map(responseRows.map(row => [row.exerciseId, row]));
+  const exercises: ExerciseCard[] = [];
+
+  // Exercises deleted since the session started drop out of it
+  for (const exerciseId of session.exerciseIds) {
+    const exercise = exercisesById.get(exerciseId);
+    if (!exercise) {
+      continue;
+    }
+
+    const card = safeToExerciseCard({
+      exercise,
+      latestResponse: responsesByExerciseId.get(exerciseId),
+      sourceLocations: sourceLocations.get(exerciseId),
+    });
+
+    if (!card.success) {
+      logger.warn('exercise_card_serialization_failed', {
+        exerciseId,
+        error: card.error,
+      });
+      continue;
+    }
+
+    exercises.push(card.data);
+  }
+
+  return PracticeSessionDetailResponseSchema.parse({
+    session: toPracticeSession(session),
+    exercises,
+    summary: summarizePracticeSession({
+      startedAt: session.startedAt,
+      completedAt: session.completedAt,
+      items: exercises.map(exercise => ({
+        exerciseId: exercise.id,
+        exerciseType: exercise.type,
+        question: exercise.question,
+        response: responsesByExerciseId.get(exercise.id) ?? null,
+      })),
+    }),
+  });
+}
+
+/**
+ * Ends a practice session early. Completing an already completed session is a no-op.
+ * @param input - Learner and session.
+ * @param input.userId - Authenticated user ID.
+ * @param input.sessionId - Practice session ID.
+ * @returns Session detail with its final summary.
+ */
+export async function completePracticeSession(input: {
+  userId: string;
+  sessionId: string;
+}) {
+  await db
+    .update(practiceSessionsSchema)
+    .set({
+      status: 'completed',
+      completedAt: new Date(),
+    })
+    .where(and(
+      eq(practiceSessionsSchema.id, input.sessionId),
+      eq(practiceSessionsSchema.userId, input.userId),
+      eq(practiceSessionsSchema.status, 'active'),
+    ));
+
+  return getPracticeSessionDetail(input);
+}
+
+/**
+ * Lists the learner's recent practice sessions with their scores.
+ * @param userId - Authenticated user ID.
+ * @returns Sessions, newest first.
+ */
+export async function listPracticeSessions(userId: string) {
+  await closeExpiredPracticeSessions(userId);
+
+  const sessions = await db
+    .select(practiceSessionColumns)
+    .from(practiceSessionsSchema)
+    .where(eq(practiceSessionsSchema.userId, userId))
+    .orderBy(desc(practiceSessionsSchema.startedAt))
+    .limit(PRACTICE_SESSION_LIST_LIMIT);
+
+  const sessionIds = sessions.map(session => session.id);
+  const totals = sessionIds.length === 0
+    ? []
+    : await db
+        .select({
+          sessionId: responsesSchema.sessionId,
+          answeredCount: sql<number>`cast(count(*) as integer)`,
+          scoreSum: sql<number>`cast(coalesce(sum(${responsesSchema.score}), 0) as integer)`,
+        })
+        .from(responsesSchema)
+        .where(and(
+          eq(responsesSchema.userId, userId),
+          inArray(responsesSchema.sessionId, sessionIds),
+        ))
+        .groupBy(responsesSchema.sessionId);
+  const totalsBySessionId = new Map(totals.map(total => [total.sessionId, total]));
+
+  return PracticeSessionListResponseSchema.parse({
+    sessions: sessions.map((session) => {
+      const total = totalsBySessionId.get(session.id);
+      const itemCount = session.exerciseIds.length;
+
+      return {
+        ...toPracticeSession(session),
+        itemCount,
+        answeredCount: total?.answeredCount ?? 0,
+        score: total && itemCount > 0 ? Math.round(total.scoreSum / itemCount) : null,
+      };
+    }),
+  });
+}
+
+/**
+ * Checks that an answer may be recorded against a practice session: the
+ * session is open, still within its time limit and includes the exercise,
+ * which has not been answered in it yet.
+ * @param input - Learner, session and exercise being answered.
+ * @param input.userId - Authenticated user ID.
+ * @param input.sessionId - Practice session ID.
+ * @param input.exerciseId - Exercise being answered.
+ * @param input.now - Reference time for the deadline check.
+ */
+export async function assertPracticeSessionAcceptsResponse(input: {
+  userId: string;
+  sessionId: string;
+  exerciseId: string;
+  now?: Date;
+}) {
+  const session = await getPracticeSessionRow(input.userId, input.sessionId);
+  if (!session.exerciseIds.includes(input.exerciseId)) {
+    throw new PracticeSessionNotFoundError();
+  }
+
+  const deadline = getPracticeSessionDeadline(session);
+  const now = input.now ?? new Date();
+  if (
+    session.status !== 'active'
+    || (deadline && now.getTime() > deadline.getTime() + SESSION_DEADLINE_GRACE_SECONDS * 1000)
+  ) {
+    throw new PracticeSessionClosedError();
+  }
+
+  const [existingResponse] = await db
+    .select({ id: responsesSchema.id })
+    .from(responsesSchema)
+    .where(and(
+      eq(responsesSchema.sessionId, input.sessionId),
+      eq(responsesSchema.exerciseId, input.exerciseId),
+    ))
+    .limit(1);
+
+  if (existingResponse) {
+    throw new PracticeSessionItemAnsweredError();
+  }
+}
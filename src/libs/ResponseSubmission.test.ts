@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { reviewStatesSchema } from '@/models/Schema';
 
 type StoredExercise = {
   id: string;
@@ -25,9 +26,19 @@ type StoredResponse = {
   evaluationMethod: 'deterministic' | 'llm';
 };
 
+type StoredReviewState = {
+  exerciseId: string;
+  repetitions: number;
+  intervalDays: number;
+  reviewCount: number;
+  lastScore: number;
+  dueAt: Date;
+};
+
 const state = {
   exercises: new Map<string, StoredExercise>(),
   responses: [] as StoredResponse[],
+  reviewStates: new Map<string, StoredReviewState>(),
   lockOrder: [] as string[],
   insertOrder: [] as string[],
 };
@@ -37,6 +48,7 @@ const exerciseLocks = new Map<string, Promise<void>>();
 function resetState() {
   state.exercises = new Map();
   state.responses = [];
+  state.reviewStates = new Map();
   state.lockOrder = [];
   state.insertOrder = [];
   exerciseLocks.clear();
@@ -92,7 +104,7 @@ function createMockTransactionClient() {
 
       return { rows: [{ id: exercise.id }] };
     }),
-    insert: vi.fn(() => ({
+    insert: vi.fn((table: unknown) => ({
       values: vi.fn((values: {
         userId: string;
         exerciseId: string;
@@ -103,6 +115,21 @@ function createMockTransactionClient() {
         suggestedReview: string[];
         responseTimeMs?: number;
       }) => ({
+        onConflictDoUpdate: vi.fn(async () => {
+          if (table !== reviewStatesSchema) {
+            throw new Error('unexpected_upsert');
+          }
+
+          const reviewState = values as unknown as StoredReviewState;
+          state.reviewStates.set(values.exerciseId, {
+            exerciseId: values.exerciseId,
+            repetitions: reviewState.repetitions,
+            intervalDays: reviewState.intervalDays,
+            reviewCount: reviewState.reviewCount,
+            lastScore: reviewState.lastScore,
+            dueAt: reviewState.dueAt,
+          });
+        }),
         returning: vi.fn(async () => {
           if (lockedExerciseId !== values.exerciseId) {
             throw new Error('insert_without_lock');
@@ -138,9 +165,18 @@ function createMockTransactionClient() {
         }),
       })),
     })),
-    select: vi.fn(() => ({
+    select: vi.fn((fields: Record<string, unknown>) => ({
       from: vi.fn(() => ({
         where: vi.fn(async () => {
+          if ('createdAt' in fields) {
+            return state.responses
+              .filter(response => response.exerciseId === lockedExerciseId)
+              .map(response => ({
+                score: response.score,
+                createdAt: response.createdAt,
+              }));
+          }
+
           const scores = state.responses
             .filter(response => response.exerciseId === lockedExerciseId)
             .map(response => response.score);
@@ -259,6 +295,55 @@ describe('recordExerciseResponse', () => {
     expect(state.lockOrder).toEqual([exerciseId, exerciseId]);
   });
 
+  it('schedules the next review from the response history', async () => {
+    const exerciseId = '550e8400-e29b-41d4-a716-446655440000';
+    state.exercises.set(exerciseId, {
+      id: exerciseId,
+      userId: '550e8400-e29b-41d4-a716-446655440010',
+      timesAttempted: 0,
+      averageScore: null,
+    });
+
+    const { recordExerciseResponse } = await import('./ResponseSubmission');
+
+    await recordExerciseResponse({
+      userId: '550e8400-e29b-41d4-a716-446655440010',
+      exerciseId,
+      clientSubmissionId: '550e8400-e29b-41d4-a716-446655440001',
+      answer: 'uno',
+      evaluation: {
+        score: 100,
+        rubric: { accuracy: 40, grammar: 30, fluency: 20, bonus: 10 },
+        overallFeedback: 'Correct answer.',
+        suggestedReview: [],
+        evaluationMethod: 'deterministic',
+      },
+    });
+
+    await recordExerciseResponse({
+      userId: '550e8400-e29b-41d4-a716-446655440010',
+      exerciseId,
+      clientSubmissionId: '550e8400-e29b-41d4-a716-446655440002',
+      answer: 'due',
+      evaluation: {
+        score: 95,
+        rubric: { accuracy: 40, grammar: 30, fluency: 20, bonus: 5 },
+        overallFeedback: 'Correct answer.',
+        suggestedReview: [],
+        evaluationMethod: 'deterministic',
+      },
+    });
+
+    expect(state.reviewStates.get(exerciseId)).toEqual({
+      exerciseId,
+      repetitions: 2,
+      intervalDays: 6,
+      reviewCount: 2,
+      lastScore: 95,
+      dueAt: new Date('2026-03-12T10:00:01.000Z'),
+    });
+  });
+
   it('locks the exercise row before inserting the response', async () => {
     const exerciseId = '550e8400-e29b-41d4-a716-446655440000';
     state.exercises.set(exerciseId, {
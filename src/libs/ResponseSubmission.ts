@@ -1,8 +1,12 @@
-import type { EvaluationResult } from '@/validations/ResponseValidation';
+import type { DbTransaction } from '@/libs/DB';
+import type { EvaluationResult, SubmittedAnswer } from '@/validations/ResponseValidation';
 import { and, eq, sql } from 'drizzle-orm';
 import { ExerciseNotFoundError } from '@/libs/AnswerEvaluation';
 import { db } from '@/libs/DB';
-import { exercisesSchema, responsesSchema } from '@/models/Schema';
+import { computeReviewState } from '@/libs/ReviewScheduler';
+import { computeTopicMastery } from '@/libs/TopicMastery';
+import { exercisesSchema, responsesSchema, reviewStatesSchema, topicMasterySchema } from '@/models/Schema';
+import { GrammarTopicSchema } from '@/validations/GrammarTopicValidation';
 import {
   SubmitResponseSuccessSchema,
 } from '@/validations/ResponseValidation';
@@ -20,6 +24,8 @@ export async function findDuplicateSubmission(input: {
       rubric: responsesSchema.rubric,
       overallFeedback: responsesSchema.overallFeedback,
       suggestedReview: responsesSchema.suggestedReview,
+      itemResults: responsesSchema.itemResults,
+      annotatedText: responsesSchema.annotatedText,
       responseTimeMs: responsesSchema.responseTimeMs,
       createdAt: responsesSchema.createdAt,
       timesAttempted: exercisesSchema.timesAttempted,
@@ -45,6 +51,8 @@ export async function findDuplicateSubmission(input: {
       rubric: response.rubric,
       overallFeedback: response.overallFeedback,
       suggestedReview: response.suggestedReview ?? [],
+      itemResults: response.itemResults ?? null,
+      annotatedText: response.annotatedText ?? null,
       responseTimeMs: response.responseTimeMs ?? null,
       createdAt: response.createdAt.toISOString(),
       evaluationMethod: response.evaluationMethod ?? 'deterministic',
@@ -56,93 +64,167 @@ export async function findDuplicateSubmission(input: {
   });
 }
 
-export async function recordExerciseResponse(input: {
+type RecordExerciseResponseInput = {
   userId: string;
   exerciseId: string;
   clientSubmissionId: string;
-  answer: string | number;
+  answer: SubmittedAnswer;
   responseTimeMs?: number;
+  sessionId?: string;
   evaluation: EvaluationResult;
-}) {
-  return db.transaction(async (tx) => {
-    const lockResult = await tx.execute(
-      sql`SELECT ${exercisesSchema.id} FROM ${exercisesSchema} WHERE ${exercisesSchema.id} = ${input.exerciseId} AND ${exercisesSchema.userId} = ${input.userId} FOR UPDATE`,
-    );
+};
+
+/**
+ * Records an evaluated response inside a caller-owned transaction, so related
+ * writes commit or roll back together with the response.
+ * @param tx - Open database transaction.
+ * @param input - Response to record.
+ * @returns Recorded response with updated exercise stats.
+ */
+export async function recordExerciseResponseInTransaction(tx: DbTransaction, input: RecordExerciseResponseInput) {
+  const lockResult = await tx.execute(
+    sql`SELECT ${exercisesSchema.id}, ${exercisesSchema.grammarTopic} FROM ${exercisesSchema} WHERE ${exercisesSchema.id} = ${input.exerciseId} AND ${exercisesSchema.userId} = ${input.userId} FOR UPDATE`,
+  );
+
+  const lockedExerciseRow = lockResult.rows[0] as { id?: unknown; grammar_topic?: unknown } | undefined;
+  if (typeof lockedExerciseRow?.id !== 'string') {
+    throw new ExerciseNotFoundError();
+  }
 
-    const lockedExerciseRow = lockResult.rows[0] as { id?: unknown } | undefined;
-    if (typeof lockedExerciseRow?.id !== 'string') {
-      throw new ExerciseNotFoundError();
-    }
+  const [response] = await tx
+    .insert(responsesSchema)
+    .values({
+      userId: input.userId,
+      exerciseId: input.exerciseId,
+      clientSubmissionId: input.clientSubmissionId,
+      answer: typeof input.answer === 'object' ? JSON.stringify(input.answer) : String(input.answer),
+      score: input.evaluation.score,
+      evaluationMethod: input.evaluation.evaluationMethod,
+      rubric: input.evaluation.rubric,
+      overallFeedback: input.evaluation.overallFeedback,
+      suggestedReview: input.evaluation.suggestedReview,
+      corrections: input.evaluation.corrections ?? null,
+      itemResults: input.evaluation.itemResults ?? null,
+      annotatedText: input.evaluation.annotatedText ?? null,
+      responseTimeMs: input.responseTimeMs,
+      sessionId: input.sessionId ?? null,
+    })
+    .returning({
+      id: responsesSchema.id,
+      exerciseId: responsesSchema.exerciseId,
+      score: responsesSchema.score,
+      evaluationMethod: responsesSchema.evaluationMethod,
+      rubric: responsesSchema.rubric,
+      overallFeedback: responsesSchema.overallFeedback,
+      suggestedReview: responsesSchema.suggestedReview,
+      itemResults: responsesSchema.itemResults,
+      annotatedText: responsesSchema.annotatedText,
+      responseTimeMs: responsesSchema.responseTimeMs,
+      createdAt: responsesSchema.createdAt,
+    });
+
+  const [aggregate] = await tx
+    .select({
+      timesAttempted: sql<number>`cast(count(*) as integer)`,
+      averageScore: sql<number | null>`cast(round(avg(${responsesSchema.score})) as integer)`,
+    })
+    .from(responsesSchema)
+    .where(eq(responsesSchema.exerciseId, input.exerciseId));
+
+  const [exerciseStats] = await tx
+    .update(exercisesSchema)
+    .set({
+      timesAttempted: aggregate?.timesAttempted ?? 0,
+      averageScore: aggregate?.averageScore ?? null,
+    })
+    .where(and(
+      eq(exercisesSchema.id, input.exerciseId),
+      eq(exercisesSchema.userId, input.userId),
+    ))
+    .returning({
+      timesAttempted: exercisesSchema.timesAttempted,
+      averageScore: exercisesSchema.averageScore,
+    });
+
+  if (!response || !exerciseStats) {
+    throw new Error('Failed to persist evaluated response');
+  }
+
+  const reviewHistory = await tx
+    .select({
+      score: responsesSchema.score,
+      createdAt: responsesSchema.createdAt,
+    })
+    .from(responsesSchema)
+    .where(and(
+      eq(responsesSchema.exerciseId, input.exerciseId),
+      eq(responsesSchema.userId, input.userId),
+    ));
 
-    const [response] = await tx
-      .insert(responsesSchema)
+  const reviewState = computeReviewState(reviewHistory);
+  if (reviewState) {
+    await tx
+      .insert(reviewStatesSchema)
       .values({
         userId: input.userId,
         exerciseId: input.exerciseId,
-        clientSubmissionId: input.clientSubmissionId,
-        answer: String(input.answer),
-        score: input.evaluation.score,
-        evaluationMethod: input.evaluation.evaluationMethod,
-        rubric: input.evaluation.rubric,
-        overallFeedback: input.evaluation.overallFeedback,
-        suggestedReview: input.evaluation.suggestedReview,
-        responseTimeMs: input.responseTimeMs,
+        ...reviewState,
       })
-      .returning({
-        id: responsesSchema.id,
-        exerciseId: responsesSchema.exerciseId,
-        score: responsesSchema.score,
-        evaluationMethod: responsesSchema.evaluationMethod,
-        rubric: responsesSchema.rubric,
-        overallFeedback: responsesSchema.overallFeedback,
-        suggestedReview: responsesSchema.suggestedReview,
-        responseTimeMs: responsesSchema.responseTimeMs,
-        createdAt: responsesSchema.createdAt,
+      .onConflictDoUpdate({
+        target: [reviewStatesSchema.userId, reviewStatesSchema.exerciseId],
+        set: reviewState,
       });
+  }
 
-    const [aggregate] = await tx
-      .select({
-        timesAttempted: sql<number>`cast(count(*) as integer)`,
-        averageScore: sql<number | null>`cast(round(avg(${responsesSchema.score})) as integer)`,
-      })
-      .from(responsesSchema)
-      .where(eq(responsesSchema.exerciseId, input.exerciseId));
-
-    const [exerciseStats] = await tx
-      .update(exercisesSchema)
-      .set({
-        timesAttempted: aggregate?.timesAttempted ?? 0,
-        averageScore: aggregate?.averageScore ?? null,
+  const grammarTopic = GrammarTopicSchema.safeParse(lockedExerciseRow.grammar_topic);
+  if (grammarTopic.success) {
+    // Lock the topic row too: responses to other exercises can share the topic
+    const masteryResult = await tx.execute(
+      sql`SELECT ${topicMasterySchema.mastery}, ${topicMasterySchema.attemptCount} FROM ${topicMasterySchema} WHERE ${topicMasterySchema.userId} = ${input.userId} AND ${topicMasterySchema.topic} = ${grammarTopic.data} FOR UPDATE`,
+    );
+    const previousMastery = masteryResult.rows[0] as { mastery?: unknown; attempt_count?: unknown } | undefined;
+    const topicMastery = computeTopicMastery(
+      typeof previousMastery?.mastery === 'number' && typeof previousMastery.attempt_count === 'number'
+        ? { mastery: previousMastery.mastery, attemptCount: previousMastery.attempt_count }
+        : null,
+      response.score,
+      response.createdAt,
+    );
+
+    await tx
+      .insert(topicMasterySchema)
+      .values({
+        userId: input.userId,
+        topic: grammarTopic.data,
+        ...topicMastery,
       })
-      .where(and(
-        eq(exercisesSchema.id, input.exerciseId),
-        eq(exercisesSchema.userId, input.userId),
-      ))
-      .returning({
-        timesAttempted: exercisesSchema.timesAttempted,
-        averageScore: exercisesSchema.averageScore,
+      .onConflictDoUpdate({
+        target: [topicMasterySchema.userId, topicMasterySchema.topic],
+        set: topicMastery,
       });
+  }
 
-    if (!response || !exerciseStats) {
-      throw new Error('Failed to persist evaluated response');
-    }
-
-    return SubmitResponseSuccessSchema.parse({
-      response: {
-        id: response.id,
-        exerciseId: response.exerciseId,
-        score: response.score,
-        rubric: response.rubric,
-        overallFeedback: response.overallFeedback,
-        suggestedReview: response.suggestedReview ?? [],
-        responseTimeMs: response.responseTimeMs ?? null,
-        createdAt: response.createdAt.toISOString(),
-        evaluationMethod: response.evaluationMethod,
-      },
-      exerciseStats: {
-        timesAttempted: exerciseStats.timesAttempted ?? 0,
-        averageScore: exerciseStats.averageScore ?? null,
-      },
-    });
+  return SubmitResponseSuccessSchema.parse({
+    response: {
+      id: response.id,
+      exerciseId: response.exerciseId,
+      score: response.score,
+      rubric: response.rubric,
+      overallFeedback: response.overallFeedback,
+      suggestedReview: response.suggestedReview ?? [],
+      itemResults: response.itemResults ?? null,
+      annotatedText: response.annotatedText ?? null,
+      responseTimeMs: response.responseTimeMs ?? null,
+      createdAt: response.createdAt.toISOString(),
+      evaluationMethod: response.evaluationMethod,
+    },
+    exerciseStats: {
+      timesAttempted: exerciseStats.timesAttempted ?? 0,
+      averageScore: exerciseStats.averageScore ?? null,
+    },
   });
 }
+
+export async function recordExerciseResponse(input: RecordExerciseResponseInput) {
+  return db.transaction(tx => recordExerciseResponseInTransaction(tx, input));
+}
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type ReviewPair = {
+  userId: string;
+  exerciseId: string;
+};
+
+const state = {
+  pairBatches: [] as ReviewPair[][],
+  history: [] as Array<ReviewPair & { score: number; createdAt: Date }>,
+  inserted: [] as Array<Record<string, unknown>>,
+};
+
+const mockDb = {
+  selectDistinct: vi.fn(() => ({
+    from: vi.fn(() => ({
+      leftJoin: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(async () => state.pairBatches.shift() ?? []),
+        })),
+      })),
+    })),
+  })),
+  select: vi.fn(() => ({
+    from: vi.fn(() => ({
+      where: vi.fn(async () => state.history),
+    })),
+  })),
+  insert: vi.fn(() => ({
+    values: vi.fn((values: Array<Record<string, unknown>>) => ({
+      onConflictDoNothing: vi.fn(() => ({
+        returning: vi.fn(async () => {
+          state.inserted.push(...values);
+          return values.map((_, index) => ({ id: `state-${index}` }));
+        }),
+      })),
+    })),
+  })),
+};
+
+vi.mock('./DB', () => ({
+  db: mockDb,
+}));
+
+describe('scoreToReviewQuality', () => {
+  it('maps score bands to SM-2 quality grades', async () => {
+    const { scoreToReviewQuality } = await import('./ReviewScheduler');
+
+    expect(scoreToReviewQuality(100)).toBe(5);
+    expect(scoreToReviewQuality(80)).toBe(4);
+    expect(scoreToReviewQuality(60)).toBe(3);
+    expect(scoreToReviewQuality(59)).toBe(2);
+    expect(scoreToReviewQuality(25)).toBe(1);
+    expect(scoreToReviewQuality(0)).toBe(0);
+  });
+});
+
+describe('computeReviewState', () => {
+  it('returns null without history', async () => {
+    const { computeReviewState } = await import('./ReviewScheduler');
+
+    expect(computeReviewState([])).toBeNull();
+  });
+
+  it('grows the interval across successful reviews', async () => {
+    const { computeReviewState } = await import('./ReviewScheduler');
+
+    const result = computeReviewState([
+      { score: 100, createdAt: new Date('2026-03-01T09:00:00.000Z') },
+      { score: 100, createdAt: new Date('2026-03-02T09:00:00.000Z') },
+      { score: 100, createdAt: new Date('2026-03-08T09:00:00.000Z') },
+    ]);
+
+    expect(result).toMatchObject({
+      repetitions: 3,
+      intervalDays: 16,
+      easeFactor: 2.8,
+      reviewCount: 3,
+      lastScore: 100,
+      lastReviewedAt: new Date('2026-03-08T09:00:00.000Z'),
+      dueAt: new Date('2026-03-24T09:00:00.000Z'),
+    });
+  });
+
+  it('resets the streak after a failed review', async () => {
+    const { computeReviewState } = await import('./ReviewScheduler');
+
+    const result = computeReviewState([
+      { score: 30, createdAt: new Date('2026-03-08T09:00:00.000Z') },
+      { score: 100, createdAt: new Date('2026-03-01T09:00:00.000Z') },
+      { score: 90, createdAt: new Date('2026-03-02T09:00:00.000Z') },
+    ]);
+
+    expect(result?.repetitions).toBe(0);
+    expect(result?.intervalDays).toBe(1);
+    expect(result?.lastScore).toBe(30);
+    expect(result?.dueAt).toEqual(new Date('2026-03-09T09:00:00.000Z'));
+  });
+
+  it('never lowers the ease factor below the minimum', async () => {
+    const { computeReviewState, MIN_EASE_FACTOR } = await import('./ReviewScheduler');
+
+    const result = computeReviewState(Array.from({ length: 10 }, (_, index) => ({
+      score: 0,
+      createdAt: new Date(Date.UTC(2026, 2, index + 1)),
+    })));
+
+    expect(result?.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+describe('backfillReviewStates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.pairBatches = [];
+    state.history = [];
+    state.inserted = [];
+  });
+
+  it('replays each user and exercise history into a review state', async () => {
+    state.pairBatches = [[
+      { userId: 'user-1', exerciseId: 'exercise-1' },
+      { userId: 'user-2', exerciseId: 'exercise-1' },
+    ]];
+    state.history = [
+      { userId: 'user-1', exerciseId: 'exercise-1', score: 100, createdAt: new Date('2026-03-02T09:00:00.000Z') },
+      { userId: 'user-2', exerciseId: 'exercise-1', score: 30, createdAt: new Date('2026-03-05T09:00:00.000Z') },
+      { userId: 'user-1', exerciseId: 'exercise-1', score: 100, createdAt: new Date('2026-03-01T09:00:00.000Z') },
+    ];
+
+    const { backfillReviewStates } = await import('./ReviewScheduler');
+    const created = await backfillReviewStates();
+
+    expect(created).toBe(2);
+    expect(state.inserted).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        exerciseId: 'exercise-1',
+        repetitions: 2,
+        reviewCount: 2,
+        lastReviewedAt: new Date('2026-03-02T09:00:00.000Z'),
+        dueAt: new Date('2026-03-08T09:00:00.000Z'),
+      }),
+      expect.objectContaining({
+        userId: 'user-2',
+        exerciseId: 'exercise-1',
+        repetitions: 0,
+        reviewCount: 1,
+        lastScore: 30,
+        dueAt: new Date('2026-03-06T09:00:00.000Z'),
+      }),
+    ]);
+  });
+
+  it('does nothing when every answered exercise already has a review state', async () => {
+    const { backfillReviewStates } = await import('./ReviewScheduler');
+
+    await expect(backfillReviewStates()).resolves.toBe(0);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+});
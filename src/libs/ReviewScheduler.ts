@@ -0,0 +1,254 @@
+import { and, asc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { exercisesSchema, responsesSchema, reviewStatesSchema } from '@/models/Schema';
+
+/**
+ * SM-2 style scheduling for exercise reviews.
+ * Scores (0–100) are mapped to SM-2 quality grades (0–5). Grades of 3 or
+ * more count as a successful recall and grow the interval; lower grades
+ * reset the repetition streak and bring the exercise back the next day.
+ */
+const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+const PASSING_QUALITY = 3;
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 6;
+const MAX_INTERVAL_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BACKFILL_BATCH_SIZE = 200;
+
+type ReviewHistoryEntry = {
+  score: number;
+  createdAt: Date;
+};
+
+type ComputedReviewState = {
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  reviewCount: number;
+  lastScore: number;
+  lastReviewedAt: Date;
+  dueAt: Date;
+};
+
+/**
+ * Maps a 0–100 response score to an SM-2 quality grade.
+ * @param score - Evaluated response score.
+ * @returns Quality grade between 0 and 5.
+ */
+export function scoreToReviewQuality(score: number) {
+  if (score >= 90) {
+    return 5;
+  }
+
+  if (score >= 75) {
+    return 4;
+  }
+
+  if (score >= 60) {
+    return 3;
+  }
+
+  if (score >= 40) {
+    return 2;
+  }
+
+  if (score >= 20) {
+    return 1;
+  }
+
+  return 0;
+}
+
+function roundEaseFactor(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function applyReview(
+  state: Pick<ComputedReviewState, 'repetitions' | 'intervalDays' | 'easeFactor'>,
+  quality: number,
+) {
+  const qualityGap = 5 - quality;
+  const easeFactor = roundEaseFactor(Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - qualityGap * (0.08 + qualityGap * 0.02)),
+  ));
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      repetitions: 0,
+      intervalDays: FIRST_INTERVAL_DAYS,
+      easeFactor,
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const intervalDays = repetitions === 1
+    ? FIRST_INTERVAL_DAYS
+    : repetitions === 2
+      ? SECOND_INTERVAL_DAYS
+      : Math.min(MAX_INTERVAL_DAYS, Math.round(state.intervalDays * state.easeFactor));
+
+  return {
+    repetitions,
+    intervalDays,
+    easeFactor,
+  };
+}
+
+/**
+ * Replays an exercise response history to compute its current review state.
+ * @param history - Scored responses for one user and exercise, in any order.
+ * @returns Review state after the latest response, or null when there is no history.
+ */
+export function computeReviewState(history: ReviewHistoryEntry[]): ComputedReviewState | null {
+  const ordered = [...history].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const lastEntry = ordered.at(-1);
+
+  if (!lastEntry) {
+    return null;
+  }
+
+  let state = {
+    repetitions: 0,
+    intervalDays: 0,
+    easeFactor: INITIAL_EASE_FACTOR,
+  };
+
+  for (const entry of ordered) {
+    state = applyReview(state, scoreToReviewQuality(entry.score));
+  }
+
+  return {
+    ...state,
+    reviewCount: ordered.length,
+    lastScore: lastEntry.score,
+    lastReviewedAt: lastEntry.createdAt,
+    dueAt: new Date(lastEntry.createdAt.getTime() + state.intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * Lists exercises whose next review is due for the given user.
+ * @param input - User scope, cutoff timestamp, and page size.
+ * @param input.userId - Authenticated user ID.
+ * @param input.now - Reviews due at or before this timestamp are returned.
+ * @param input.limit - Maximum number of reviews to return.
+ * @returns Due reviews ordered by due date, with the total due count.
+ */
+export async function listDueReviews(input: {
+  userId: string;
+  now?: Date;
+  limit: number;
+}) {
+  const now = input.now ?? new Date();
+  const dueWhere = and(
+    eq(reviewStatesSchema.userId, input.userId),
+    eq(exercisesSchema.userId, input.userId),
+    lte(reviewStatesSchema.dueAt, now),
+  );
+
+  const [rows, [countRow]] = await Promise.all([
+    db
+      .select({
+        exercise: {
+          id: exercisesSchema.id,
+          type: exercisesSchema.type,
+          difficulty: exercisesSchema.difficulty,
+          question: exercisesSchema.question,
+          exerciseData: exercisesSchema.exerciseData,
+          grammarFocus: exercisesSchema.grammarFocus,
+          timesAttempted: exercisesSchema.timesAttempted,
+          averageScore: exercisesSchema.averageScore,
+          createdAt: exercisesSchema.createdAt,
+        },
+        review: {
+          dueAt: reviewStatesSchema.dueAt,
+          intervalDays: reviewStatesSchema.intervalDays,
+          repetitions: reviewStatesSchema.repetitions,
+          lastScore: reviewStatesSchema.lastScore,
+          lastReviewedAt: reviewStatesSchema.lastReviewedAt,
+        },
+      })
+      .from(reviewStatesSchema)
+      .innerJoin(exercisesSchema, eq(exercisesSchema.id, reviewStatesSchema.exerciseId))
+      .where(dueWhere)
+      .orderBy(asc(reviewStatesSchema.dueAt), asc(reviewStatesSchema.id))
+      .limit(input.limit),
+    db
+      .select({
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(reviewStatesSchema)
+      .innerJoin(exercisesSchema, eq(exercisesSchema.id, reviewStatesSchema.exerciseId))
+      .where(dueWhere),
+  ]);
+
+  return {
+    rows,
+    totalDue: countRow?.count ?? 0,
+  };
+}
+
+/**
+ * Creates review states for exercises answered before review scheduling
+ * existed, replaying each user/exercise history through computeReviewState.
+ * Pairs that already have a review state are left untouched, so the backfill
+ * can run after every migration.
+ * @param input - Backfill options.
+ * @param input.batchSize - User/exercise pairs replayed per batch.
+ * @returns Number of review states created.
+ */
+export async function backfillReviewStates(input?: {
+  batchSize?: number;
+}) {
+  const batchSize = input?.batchSize ?? DEFAULT_BACKFILL_BATCH_SIZE;
+  let created = 0;
+
+  while (true) {
+    const pairs = await db
+      .selectDistinct({
+        userId: responsesSchema.userId,
+        exerciseId: responsesSchema.exerciseId,
+      })
+      .from(responsesSchema)
+      .leftJoin(reviewStatesSchema, and(
+        eq(reviewStatesSchema.userId, responsesSchema.userId),
+        eq(reviewStatesSchema.exerciseId, responsesSchema.exerciseId),
+      ))
+      .where(isNull(reviewStatesSchema.id))
+      .limit(batchSize);
+
+    if (pairs.length === 0) {
+      return created;
+    }
+
+    const history = await db
+      .select({
+        userId: responsesSchema.userId,
+        exerciseId: responsesSchema.exerciseId,
+        score: responsesSchema.score,
+        createdAt: responsesSchema.createdAt,
+      })
+      .from(responsesSchema)
+      .where(inArray(responsesSchema.exerciseId, [...new Set(pairs.map(pair => pair.exerciseId))]));
+
+    const values = pairs.flatMap((pair) => {
+      const reviewState = computeReviewState(history.filter(entry =>
+        entry.userId === pair.userId && entry.exerciseId === pair.exerciseId,
+      ));
+
+      return reviewState ? [{ ...pair, ...reviewState }] : [];
+    });
+
+    // A response recorded meanwhile has already written the current state
+    const inserted = await db
+      .insert(reviewStatesSchema)
+      .values(values)
+      .onConflictDoNothing()
+      .returning({ id: reviewStatesSchema.id });
+
+    created += inserted.length;
+  }
+}
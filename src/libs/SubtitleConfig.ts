@@ -0,0 +1,16 @@
+/**
+ * Subtitle (SRT/WebVTT) processing configuration constants.
+ * Centralized limits for security, performance, and resource management.
+ */
+
+/** Maximum subtitle file size in bytes (2MB) */
+export const SUBTITLE_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+
+/** Maximum number of cues allowed for extraction */
+export const SUBTITLE_MAX_CUE_COUNT = 5000;
+
+/** Timeout for subtitle parsing operations in milliseconds (10 seconds) */
+export const SUBTITLE_PARSING_TIMEOUT_MS = 10_000;
+
+/** Minimum text length to consider extraction successful */
+export const SUBTITLE_MIN_TEXT_LENGTH = 10;
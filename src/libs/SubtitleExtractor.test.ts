@@ -0,0 +1,80 @@
+import { Buffer } from 'node:buffer';
+
+import { describe, expect, it } from 'vitest';
+
+import { processSubtitles } from './SubtitleExtractor';
+
+describe('processSubtitles', () => {
+  it('parses SRT cues and strips formatting tags', async () => {
+    const srt = [
+      '1',
+      '00:00:01,500 --> 00:00:03,000',
+      '<i>Buongiorno,</i> signora!',
+      '',
+      '2',
+      '00:00:03,250 --> 00:00:05,800',
+      '{\\an8}Come sta?',
+      '<font color="#ffff00">Bene, grazie.</font>',
+      '',
+      '3',
+      '01:02:03,400 --> 01:02:05,000',
+      '<b></b>',
+      '',
+    ].join('\r\n');
+    const result = await processSubtitles(Buffer.from(srt), 'srt');
+
+    expect(result.success).toBe(true);
+    expect(result.cues).toEqual([
+      { startMs: 1500, endMs: 3000, text: 'Buongiorno, signora!' },
+      { startMs: 3250, endMs: 5800, text: 'Come sta? Bene, grazie.' },
+    ]);
+    expect(result.text).toBe('Buongiorno, signora!\nCome sta? Bene, grazie.');
+  });
+
+  it('parses WebVTT cues and skips NOTE and STYLE blocks', async () => {
+    const vtt = [
+      'WEBVTT - Episodio 1',
+      '',
+      'STYLE',
+      '::cue { color: yellow; }',
+      '',
+      'NOTE Tradotto da Luca',
+      '',
+      'scena-1',
+      '01:02.000 --> 01:04.500 line:90% align:center',
+      '<v Marco>Andiamo al <c.yellow>mercato</c>?</v>',
+      '',
+      '01:05.000 --> 01:07.000',
+      'Sì, &amp; poi al bar.',
+    ].join('\n');
+    const result = await processSubtitles(Buffer.from(vtt), 'vtt');
+
+    expect(result.success).toBe(true);
+    expect(result.cues).toEqual([
+      { startMs: 62000, endMs: 64500, text: 'Andiamo al mercato?' },
+      { startMs: 65000, endMs: 67000, text: 'Sì, & poi al bar.' },
+    ]);
+  });
+
+  it('falls back to Windows-1252 for legacy SRT files', async () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nPerché non è venuto?\n';
+    const result = await processSubtitles(Buffer.from(srt, 'latin1'), 'srt');
+
+    expect(result.success).toBe(true);
+    expect(result.cues?.[0]?.text).toBe('Perché non è venuto?');
+  });
+
+  it('returns VALIDATION_FAILED for WebVTT files without a header', async () => {
+    const result = await processSubtitles(Buffer.from('00:01.000 --> 00:02.000\nCiao a tutti!\n'), 'vtt');
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('VALIDATION_FAILED');
+  });
+
+  it('returns NO_TEXT when no cue has dialogue', async () => {
+    const result = await processSubtitles(Buffer.from('Sottotitoli di prova senza tempi.\n'), 'srt');
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('NO_TEXT');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Subtitle (SRT/WebVTT) text extraction.
+ * Parses timed cues and strips formatting so dialogue can be chunked while
+ * keeping the time range each chunk covers.
+ */
+
+import type { Buffer } from 'node:buffer';
+
+import { createExtractionDeadline, ExtractionTimeoutError } from './ExtractionDeadline';
+import {
+  SUBTITLE_MAX_CUE_COUNT,
+  SUBTITLE_MAX_SIZE_BYTES,
+  SUBTITLE_MIN_TEXT_LENGTH,
+  SUBTITLE_PARSING_TIMEOUT_MS,
+} from './SubtitleConfig';
+import { decodeTextFile } from './TextFileValidator';
+
+// 00:01:02,500 --> 00:01:05,000 (SRT) or 01:02.500 --> 01:05.000 line:90% (WebVTT)
+const TIMING_LINE_REGEX = /^\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+const WEBVTT_HEADER_REGEX = /^WEBVTT(?:[ \t].*)?$/;
+
+// Cues checked between deadline checks
+const CUES_PER_DEADLINE_CHECK = 500;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': '\'',
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export type SubtitleCue = {
+  startMs: number;
+  endMs: number;
+  text: string;
+};
+
+export type SubtitleExtractionResult = {
+  success: true;
+  text: string;
+  cues: SubtitleCue[];
+  error?: undefined;
+  errorCode?: undefined;
+} | {
+  success: false;
+  text?: undefined;
+  cues?: undefined;
+  error: string;
+  errorCode: 'NO_TEXT' | 'EXTRACTION_FAILED' | 'CUE_LIMIT_EXCEEDED' | 'TIMEOUT' | 'VALIDATION_FAILED';
+};
+
+/**
+ * Parses an SRT or WebVTT timestamp.
+ * @param value - Timestamp such as `01:02:03,450` or `02:03.450`
+ * @returns Time in milliseconds
+ */
+function parseTimestamp(value: string) {
+  const [clock = '', fraction = '0'] = value.split(/[,.]/);
+  const units = clock.split(':').map(Number);
+  const seconds = units.reduce((total, unit) => total * 60 + unit, 0);
+
+  return seconds * 1000 + Number(fraction.padEnd(3, '0'));
+}
+
+/**
+ * Removes cue formatting: HTML-like tags (`<i>`, `<v Speaker>`, `<c.yellow>`,
+ * inline timestamps), SSA override blocks (`{\an8}`) and entities.
+ * @param text - Raw cue payload
+ * @returns Plain cue text on a single line
+ */
+function cleanCueText(text: string) {
+  return text
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, entity => HTML_ENTITIES[entity] ?? entity)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join(' ');
+}
+
+/**
+ * Parses subtitle cues from decoded file contents.
+ * Blocks without a timing line (cue numbers only, NOTE, STYLE, REGION) are skipped.
+ * @param source - Decoded subtitle file
+ * @param checkDeadline - Throws once the parsing budget is spent
+ * @returns Cues with non-empty text in file order
+ */
+function parseCues(source: string, checkDeadline: () => void) {
+  const blocks = source.replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    if (index % CUES_PER_DEADLINE_CHECK === 0) {
+      checkDeadline();
+    }
+
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE_REGEX.test(line));
+    const timing = timingIndex >= 0 ? TIMING_LINE_REGEX.exec(lines[timingIndex]!) : null;
+
+    if (!timing?.[1] || !timing[2]) {
+      continue;
+    }
+
+    const text = cleanCueText(lines.slice(timingIndex + 1).join('\n'));
+    if (text.length === 0) {
+      continue;
+    }
+
+    cues.push({
+      startMs: parseTimestamp(timing[1]),
+      endMs: parseTimestamp(timing[2]),
+      text,
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Validates and extracts timed dialogue from an SRT or WebVTT file.
+ * Legacy Windows-1252 subtitle files are accepted alongside UTF-8.
+ * @param buffer - Raw subtitle file buffer
+ * @param format - Subtitle format selected by file extension
+ * @returns Extraction result with cues or error details
+ */
+export async function processSubtitles(
+  buffer: Buffer | Uint8Array,
+  format: SubtitleFormat,
+): Promise<SubtitleExtractionResult> {
+  const checkDeadline = createExtractionDeadline(SUBTITLE_PARSING_TIMEOUT_MS);
+  const label = format === 'vtt' ? 'WebVTT' : 'SRT';
+
+  const decoded = await decodeTextFile(buffer, {
+    label,
+    maxSizeBytes: SUBTITLE_MAX_SIZE_BYTES,
+    fallbackEncoding: 'windows-1252',
+  });
+
+  if (!decoded.valid) {
+    return {
+      success: false,
+      error: decoded.error,
+      errorCode: 'VALIDATION_FAILED',
+    };
+  }
+
+  if (format === 'vtt' && !WEBVTT_HEADER_REGEX.test(decoded.text.split(/\r?\n/, 1)[0] ?? '')) {
+    return {
+      success: false,
+      error: 'Missing WEBVTT header',
+      errorCode: 'VALIDATION_FAILED',
+    };
+  }
+
+  try {
+    const cues = parseCues(decoded.text, checkDeadline);
+
+    if (cues.length > SUBTITLE_MAX_CUE_COUNT) {
+      return {
+        success: false,
+        error: `Subtitles exceed ${SUBTITLE_MAX_CUE_COUNT} cue limit.`,
+        errorCode: 'CUE_LIMIT_EXCEEDED',
+      };
+    }
+
+    const text = cues.map(cue => cue.text).join('\n');
+
+    if (text.length < SUBTITLE_MIN_TEXT_LENGTH) {
+      return {
+        success: false,
+        error: `No dialogue could be extracted from this ${label} file.`,
+        errorCode: 'NO_TEXT',
+      };
+    }
+
+    return {
+      success: true,
+      text,
+      cues,
+    };
+  } catch (error) {
+    if (error instanceof ExtractionTimeoutError) {
+      return {
+        success: false,
+        error: `${label} parsing timed out.`,
+        errorCode: 'TIMEOUT',
+      };
+    }
+
+    return {
+      success: false,
+      error: `Failed to extract dialogue from ${label} file.`,
+      errorCode: 'EXTRACTION_FAILED',
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { chunkText, estimateChunkCount } from './TextChunker';
+import { chunkSections, chunkSegments, chunkText, estimateChunkCount } from './TextChunker';
 
 describe('chunkText', () => {
   describe('basic chunking', () => {
@@ -246,6 +246,62 @@ describe('chunkText', () => {
   });
 });
 
+describe('chunkSections', () => {
+  it('never merges text from different sections into one chunk', () => {
+    const chunks = chunkSections(['Capitolo uno. Breve.', 'Capitolo due. Breve.']);
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(['Capitolo uno. Breve.', 'Capitolo due. Breve.']);
+    expect(chunks.map(chunk => chunk.position)).toEqual([0, 1]);
+  });
+
+  it('numbers positions and offsets continuously across sections', () => {
+    const first = 'This is a complete sentence for testing. '.repeat(30).trim();
+    const second = 'Seconda sezione.';
+    const chunks = chunkSections([first, '   ', second], { maxChunkSize: 500, chunkOverlap: 100 });
+    const lastChunk = chunks.at(-1)!;
+
+    chunks.forEach((chunk, index) => {
+      expect(chunk.position).toBe(index);
+    });
+
+    expect(lastChunk.text).toBe(second);
+    expect(lastChunk.startChar).toBe(first.length + 2);
+    expect(lastChunk.endChar).toBe(first.length + 2 + second.length);
+  });
+});
+
+describe('chunkSegments', () => {
+  it('keeps short segment runs in one chunk covering every segment', () => {
+    const chunks = chunkSegments(['Ciao!', '', 'Come stai?', 'Bene, grazie.']);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.text).toBe('Ciao!\nCome stai?\nBene, grazie.');
+    expect(chunks[0]!.firstSegment).toBe(0);
+    expect(chunks[0]!.lastSegment).toBe(3);
+  });
+
+  it('maps each chunk to the segments its text overlaps', () => {
+    const segments = Array.from({ length: 40 }, (_, index) => `Battuta numero ${index} della scena.`);
+    const chunks = chunkSegments(segments, { maxChunkSize: 300, chunkOverlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0]!.firstSegment).toBe(0);
+    expect(chunks.at(-1)!.lastSegment).toBe(39);
+
+    for (const chunk of chunks) {
+      expect(chunk.text).toContain(`Battuta numero ${chunk.firstSegment} `);
+      expect(chunk.text).toContain(`Battuta numero ${chunk.lastSegment} `);
+    }
+  });
+
+  it('joins segments with the requested separator', () => {
+    const chunks = chunkSegments(['Pagina uno.', 'Pagina due.'], { segmentSeparator: '\n\n' });
+
+    expect(chunks[0]!.text).toBe('Pagina uno.\n\nPagina due.');
+    expect(chunks[0]!.endChar).toBe('Pagina uno.\n\nPagina due.'.length);
+  });
+});
+
 describe('estimateChunkCount', () => {
   it('returns 0 for empty text', () => {
     expect(estimateChunkCount(0)).toBe(0);
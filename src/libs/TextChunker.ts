@@ -284,6 +284,83 @@ export function chunkText(text: string, options?: ChunkingOptions): Chunk[] {
   return addOverlap(validChunks, normalizedText, resolvedOptions.chunkOverlap);
 }
 
+/**
+ * Chunks text made of independent sections (e.g. book chapters).
+ * Each section is chunked on its own so no chunk or overlap spans two sections.
+ * Positions run sequentially across sections, and character offsets refer to
+ * the normalized sections joined by blank lines.
+ * @param sections - Section texts in reading order
+ * @param options - Chunking configuration
+ * @returns Array of chunks with position metadata
+ */
+export function chunkSections(sections: string[], options?: ChunkingOptions): Chunk[] {
+  const chunks: Chunk[] = [];
+  let sectionOffset = 0;
+
+  for (const section of sections) {
+    const normalizedSection = sanitizeText(section);
+
+    if (normalizedSection.length === 0) {
+      continue;
+    }
+
+    for (const chunk of chunkText(normalizedSection, options)) {
+      chunks.push({
+        ...chunk,
+        position: chunks.length,
+        startChar: sectionOffset + chunk.startChar,
+        endChar: sectionOffset + chunk.endChar,
+      });
+    }
+
+    sectionOffset += normalizedSection.length + 2;
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks text made of ordered segments (e.g. subtitle cues, PDF pages) and
+ * records which segments each chunk covers, so chunks can be traced back to
+ * their source (a time range, a page). Segments are joined by the segment
+ * separator and chunked as one text, so a chunk may span several segments.
+ * @param segments - Segment texts in reading order
+ * @param options - Chunking configuration
+ * @param options.segmentSeparator - Text placed between segments (default: line break)
+ * @returns Chunks with the indices of the first and last segment they overlap
+ */
+export function chunkSegments(
+  segments: string[],
+  options?: ChunkingOptions & { segmentSeparator?: '\n' | '\n\n' },
+): Array<Chunk & { firstSegment: number; lastSegment: number }> {
+  const { segmentSeparator = '\n', ...chunkingOptions } = options ?? {};
+  const spans: Array<{ index: number; start: number; end: number }> = [];
+  const parts: string[] = [];
+  let offset = 0;
+
+  for (const [index, segment] of segments.entries()) {
+    const normalizedSegment = sanitizeText(segment);
+
+    if (normalizedSegment.length === 0) {
+      continue;
+    }
+
+    spans.push({ index, start: offset, end: offset + normalizedSegment.length });
+    parts.push(normalizedSegment);
+    offset += normalizedSegment.length + segmentSeparator.length;
+  }
+
+  return chunkText(parts.join(segmentSeparator), chunkingOptions).flatMap((chunk) => {
+    const covered = spans.filter(span => span.start < chunk.endChar && span.end > chunk.startChar);
+    const first = covered[0];
+    const last = covered.at(-1);
+
+    return first && last
+      ? [{ ...chunk, firstSegment: first.index, lastSegment: last.index }]
+      : [];
+  });
+}
+
 /**
  * Estimates the number of chunks for a given text length.
  * Useful for quota checking before processing.
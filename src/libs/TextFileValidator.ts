@@ -0,0 +1,65 @@
+/**
+ * Validation utilities for plain-text uploads (Markdown, HTML, subtitles).
+ * Text formats have no magic bytes, so files are checked for binary
+ * signatures with file-type and decoded strictly.
+ */
+
+import { Buffer } from 'node:buffer';
+
+import { fileTypeFromBuffer } from 'file-type';
+
+// Text formats file-type recognizes by signature (XHTML as XML, WebVTT)
+const ALLOWED_DETECTED_MIMES = new Set(['application/xml', 'text/xml', 'text/vtt']);
+
+export type TextFileDecodeResult = {
+  valid: true;
+  text: string;
+} | {
+  valid: false;
+  error: string;
+};
+
+/**
+ * Validates a text upload and decodes it.
+ * Rejects files carrying a binary signature, NUL bytes, or undecodable bytes.
+ * @param buffer - Raw file buffer
+ * @param input - Format limits
+ * @param input.label - Format name used in error messages
+ * @param input.maxSizeBytes - Maximum allowed file size in bytes
+ * @param input.fallbackEncoding - Legacy encoding tried when the file is not valid UTF-8
+ * @returns Decoded text or validation error
+ */
+export async function decodeTextFile(
+  buffer: Buffer | Uint8Array,
+  input: {
+    label: string;
+    maxSizeBytes: number;
+    fallbackEncoding?: 'windows-1252';
+  },
+): Promise<TextFileDecodeResult> {
+  if (buffer.length > input.maxSizeBytes) {
+    return { valid: false, error: `${input.label} file exceeds size limit` };
+  }
+
+  const buf = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer);
+
+  const fileType = await fileTypeFromBuffer(buf);
+  if (fileType && !ALLOWED_DETECTED_MIMES.has(fileType.mime)) {
+    return { valid: false, error: 'File type detection failed' };
+  }
+
+  if (buf.includes(0x00)) {
+    return { valid: false, error: `Invalid ${input.label} file` };
+  }
+
+  try {
+    // TextDecoder drops a leading byte order mark
+    return { valid: true, text: new TextDecoder('utf-8', { fatal: true }).decode(buf) };
+  } catch {
+    if (input.fallbackEncoding) {
+      return { valid: true, text: new TextDecoder(input.fallbackEncoding).decode(buf) };
+    }
+
+    return { valid: false, error: `${input.label} file is not valid UTF-8 text` };
+  }
+}
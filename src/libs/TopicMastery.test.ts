@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+
+vi.mock('@/libs/DB', () => ({
+  db: {
+    select: mockSelect,
+  },
+}));
+
+describe('computeTopicMastery', () => {
+  const practicedAt = new Date('2026-03-06T10:00:00.000Z');
+
+  it('starts from the first score', async () => {
+    const { computeTopicMastery } = await import('./TopicMastery');
+
+    expect(computeTopicMastery(null, 70, practicedAt)).toEqual({
+      mastery: 70,
+      attemptCount: 1,
+      lastScore: 70,
+      lastPracticedAt: practicedAt,
+    });
+  });
+
+  it('averages early attempts evenly', async () => {
+    const { computeTopicMastery } = await import('./TopicMastery');
+
+    expect(computeTopicMastery({ mastery: 70, attemptCount: 1 }, 100, practicedAt).mastery).toBe(85);
+    expect(computeTopicMastery({ mastery: 85, attemptCount: 2 }, 40, practicedAt).mastery).toBe(70);
+  });
+
+  it('gives each later response a fixed share', async () => {
+    const { computeTopicMastery } = await import('./TopicMastery');
+    const result = computeTopicMastery({ mastery: 90, attemptCount: 20 }, 10, practicedAt);
+
+    expect(result.mastery).toBe(70);
+    expect(result.attemptCount).toBe(21);
+  });
+});
+
+describe('listTopicMastery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists every taxonomy topic and fills in practised ones', async () => {
+    mockSelect.mockReturnValueOnce({
+      from: vi.fn(() => ({
+        where: vi.fn(async () => [{
+          topic: 'congiuntivo_presente',
+          mastery: 64,
+          attemptCount: 3,
+          lastPracticedAt: new Date('2026-03-06T10:00:00.000Z'),
+        }]),
+      })),
+    });
+
+    const { listTopicMastery } = await import('./TopicMastery');
+    const { grammarTopicValues } = await import('@/validations/GrammarTopicValidation');
+    const topics = await listTopicMastery('user-1');
+
+    expect(topics).toHaveLength(grammarTopicValues.length);
+    expect(topics.find(topic => topic.topic === 'congiuntivo_presente')).toEqual({
+      topic: 'congiuntivo_presente',
+      label: 'Congiuntivo presente',
+      cefrLevel: 'B1',
+      mastery: 64,
+      attemptCount: 3,
+      lastPracticedAt: '2026-03-06T10:00:00.000Z',
+    });
+    expect(topics[0]).toMatchObject({ topic: 'articoli', mastery: null, attemptCount: 0, lastPracticedAt: null });
+  });
+});
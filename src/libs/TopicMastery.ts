@@ -0,0 +1,82 @@
+import type { GrammarTopic, TopicMasteryItem } from '@/validations/GrammarTopicValidation';
+import { eq } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { grammarTaxonomy } from '@/libs/GrammarTaxonomy';
+import { topicMasterySchema } from '@/models/Schema';
+import { grammarTopicValues } from '@/validations/GrammarTopicValidation';
+
+/**
+ * Mastery is a running average of response scores per grammar topic.
+ * Early responses move it quickly; once a topic has been practised a few
+ * times each new score carries a fixed share, so recent work keeps counting
+ * without one bad answer erasing a long record.
+ */
+const MIN_RESPONSE_WEIGHT = 0.25;
+
+type TopicMasteryState = {
+  mastery: number;
+  attemptCount: number;
+};
+
+type ComputedTopicMastery = TopicMasteryState & {
+  lastScore: number;
+  lastPracticedAt: Date;
+};
+
+/**
+ * Folds one scored response into a topic's mastery.
+ * @param previous - Current mastery for the topic, or null on first practice.
+ * @param score - Evaluated response score.
+ * @param practicedAt - When the response was recorded.
+ * @returns Updated mastery state.
+ */
+export function computeTopicMastery(
+  previous: TopicMasteryState | null,
+  score: number,
+  practicedAt: Date,
+): ComputedTopicMastery {
+  const attemptCount = (previous?.attemptCount ?? 0) + 1;
+  const weight = Math.max(1 / attemptCount, MIN_RESPONSE_WEIGHT);
+  const mastery = previous
+    ? Math.round(previous.mastery + weight * (score - previous.mastery))
+    : score;
+
+  return {
+    mastery,
+    attemptCount,
+    lastScore: score,
+    lastPracticedAt: practicedAt,
+  };
+}
+
+/**
+ * Lists mastery for every topic in the taxonomy, including unpractised ones.
+ * @param userId - Authenticated user ID.
+ * @returns One entry per grammar topic, in taxonomy order.
+ */
+export async function listTopicMastery(userId: string): Promise<TopicMasteryItem[]> {
+  const rows = await db
+    .select({
+      topic: topicMasterySchema.topic,
+      mastery: topicMasterySchema.mastery,
+      attemptCount: topicMasterySchema.attemptCount,
+      lastPracticedAt: topicMasterySchema.lastPracticedAt,
+    })
+    .from(topicMasterySchema)
+    .where(eq(topicMasterySchema.userId, userId));
+
+  const rowsByTopic = new Map<GrammarTopic, (typeof rows)[number]>(rows.map(row => [row.topic, row]));
+
+  return grammarTopicValues.map((topic) => {
+    const row = rowsByTopic.get(topic);
+
+    return {
+      topic,
+      label: grammarTaxonomy[topic].label,
+      cefrLevel: grammarTaxonomy[topic].cefrLevel,
+      mastery: row?.mastery ?? null,
+      attemptCount: row?.attemptCount ?? 0,
+      lastPracticedAt: row?.lastPracticedAt.toISOString() ?? null,
+    };
+  });
+}
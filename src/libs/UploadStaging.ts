@@ -0,0 +1,59 @@
+/**
+ * Staging storage for raw upload bytes awaiting ingestion.
+ * Bytes are kept in the `upload_staging` table until the ingestion worker has
+ * extracted them, so any instance running the worker can read them and nothing
+ * depends on a writable or shared local disk.
+ */
+
+import type { Buffer } from 'node:buffer';
+import { eq } from 'drizzle-orm';
+import { uploadStagingSchema } from '@/models/Schema';
+import { db } from './DB';
+
+/**
+ * Writes upload bytes to staging storage.
+ * @param key - Staging key, typically the document ID.
+ * @param data - Raw upload bytes.
+ * @returns Staging key to persist with the ingestion job.
+ */
+export async function stageUpload(key: string, data: Buffer) {
+  await db
+    .insert(uploadStagingSchema)
+    .values({ key, data })
+    .onConflictDoUpdate({
+      target: uploadStagingSchema.key,
+      set: { data, createdAt: new Date() },
+    });
+
+  return key;
+}
+
+/**
+ * Reads staged upload bytes.
+ * @param key - Staging key returned by stageUpload.
+ * @returns Raw upload bytes.
+ * @throws {Error} When nothing is staged under the key.
+ */
+export async function readStagedUpload(key: string): Promise<Buffer> {
+  const [staged] = await db
+    .select({ data: uploadStagingSchema.data })
+    .from(uploadStagingSchema)
+    .where(eq(uploadStagingSchema.key, key))
+    .limit(1);
+
+  if (!staged) {
+    throw new Error(`Staged upload not found: ${key}`);
+  }
+
+  return staged.data;
+}
+
+/**
+ * Removes staged upload bytes; missing keys are ignored.
+ * @param key - Staging key returned by stageUpload.
+ */
+export async function deleteStagedUpload(key: string) {
+  await db
+    .delete(uploadStagingSchema)
+    .where(eq(uploadStagingSchema.key, key));
+}
@@ -0,0 +1,101 @@
+/**
+ * Vector store abstraction for chunk embeddings.
+ * The backend is selected with VECTOR_STORE: `pinecone` (default), `pgvector`
+ * for running retrieval on the application Postgres/PGlite database, or
+ * `memory` for local runs and integration tests without external services.
+ */
+
+import { Env } from './Env';
+import { createInMemoryVectorStore } from './InMemoryVectorStore';
+import { createPgVectorStore } from './PgVectorStore';
+import { createPineconeVectorStore } from './PineconeVectorStore';
+
+export type VectorStoreBackend = 'pinecone' | 'pgvector' | 'memory';
+
+// Metadata stored alongside each chunk vector
+export type ChunkMetadata = {
+  user_id: string;
+  document_id: string;
+  chunk_position: number;
+  content_type: 'pdf' | 'url' | 'text' | 'docx' | 'epub' | 'markdown' | 'html' | 'srt' | 'vtt';
+  created_at: string;
+  text: string;
+  // Media time range covered by the chunk (subtitle documents only)
+  start_ms?: number;
+  end_ms?: number;
+};
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata: ChunkMetadata;
+};
+
+export type VectorMetadataFilter = {
+  userId: string;
+  documentIds?: string[];
+};
+
+export type VectorQuery = {
+  vector: number[];
+  topK: number;
+  filter: VectorMetadataFilter;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;
+  metadata: ChunkMetadata;
+};
+
+export type VectorStore = {
+  backend: VectorStoreBackend;
+  upsert: (records: VectorRecord[]) => Promise<void>;
+  query: (query: VectorQuery) => Promise<VectorMatch[]>;
+  deleteByDocument: (input: {
+    documentId: string;
+    vectorIds: string[];
+  }) => Promise<void>;
+};
+
+const globalForVectorStore = globalThis as unknown as {
+  vectorStore: VectorStore | undefined;
+};
+
+/**
+ * Resolves the configured vector store backend.
+ * @returns Backend name from VECTOR_STORE, defaulting to Pinecone.
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+  return Env.VECTOR_STORE ?? 'pinecone';
+}
+
+/**
+ * Creates a vector store for the given backend.
+ * @param backend - Vector store backend to instantiate.
+ * @returns Vector store implementation.
+ */
+export function createVectorStore(backend: VectorStoreBackend): VectorStore {
+  switch (backend) {
+    case 'pinecone':
+      return createPineconeVectorStore();
+    case 'pgvector':
+      return createPgVectorStore();
+    case 'memory':
+      return createInMemoryVectorStore();
+  }
+}
+
+/**
+ * Returns the process-wide vector store for the configured backend.
+ * @returns Shared vector store instance.
+ */
+export function getVectorStore(): VectorStore {
+  const backend = getVectorStoreBackend();
+
+  if (globalForVectorStore.vectorStore?.backend !== backend) {
+    globalForVectorStore.vectorStore = createVectorStore(backend);
+  }
+
+  return globalForVectorStore.vectorStore;
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSelect = vi.fn();
+const mockInsertValues = vi.fn();
+const mockCreateStructuredChatCompletion = vi.fn();
+
+vi.mock('@/libs/DB', () => ({
+  db: {
+    select: mockSelect,
+    insert: vi.fn(() => ({
+      values: mockInsertValues,
+    })),
+  },
+}));
+
+vi.mock('@/libs/Llm', () => ({
+  createStructuredChatCompletion: mockCreateStructuredChatCompletion,
+}));
+
+vi.mock('@/libs/Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function mockChunkRows(rows: Array<Record<string, unknown>>) {
+  mockSelect.mockReturnValueOnce({
+    from: vi.fn(() => ({
+      where: vi.fn(() => ({
+        orderBy: vi.fn(() => ({
+          limit: vi.fn(async () => rows),
+        })),
+      })),
+    })),
+  });
+}
+
+function mockInsertedRows(count: number) {
+  mockInsertValues.mockReturnValueOnce({
+    onConflictDoNothing: vi.fn(() => ({
+      returning: vi.fn(async () => Array.from({ length: count }, (_, index) => ({ id: `item-${index}` }))),
+    })),
+  });
+}
+
+const documentId = '550e8400-e29b-41d4-a716-446655440001';
+const starredItem = {
+  id: '550e8400-e29b-41d4-a716-446655440020',
+  lemma: 'mescolare',
+  partOfSpeech: 'verb' as const,
+  gloss: 'to mix',
+  exampleSentence: 'Mescolare la farina con le uova.',
+  documentId,
+  chunkPosition: 3,
+  content: 'Mescolare la farina con le uova. Lasciare riposare.',
+};
+
+describe('extractVocabularyBatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('keeps only terms whose example sentence appears in the cited chunk', async () => {
+    mockChunkRows([
+      { id: 'chunk-0', position: 0, content: 'Ieri ho  assaggiato una\nsfogliatella squisita.' },
+      { id: 'chunk-1', position: 1, content: 'Il forno era già caldo.' },
+    ]);
+    mockCreateStructuredChatCompletion.mockResolvedValue({
+      parsed: {
+        items: [
+          { chunkPosition: 0, lemma: 'Assaggiare', partOfSpeech: 'verb', exampleSentence: 'Ieri ho assaggiato una sfogliatella squisita.', gloss: 'to taste' },
+          { chunkPosition: 1, lemma: 'forno', partOfSpeech: 'noun', exampleSentence: 'Il forno era acceso.', gloss: 'oven' },
+          { chunkPosition: 7, lemma: 'caldo', partOfSpeech: 'adjective', exampleSentence: 'Il forno era già caldo.', gloss: 'hot' },
+        ],
+      },
+    });
+    mockInsertedRows(1);
+
+    const { extractVocabularyBatch } = await import('./Vocabulary');
+    const result = await extractVocabularyBatch({ documentId, userId: 'user-1', fromPosition: 0 });
+
+    expect(result).toEqual({ storedCount: 1, nextPosition: null });
+    expect(mockInsertValues).toHaveBeenCalledWith([{
+      userId: 'user-1',
+      documentId,
+      chunkId: 'chunk-0',
+      lemma: 'assaggiare',
+      partOfSpeech: 'verb',
+      exampleSentence: 'Ieri ho assaggiato una sfogliatella squisita.',
+      gloss: 'to taste',
+    }]);
+  });
+
+  it('skips a failed batch and points at the next one', async () => {
+    mockChunkRows(Array.from({ length: 5 }, (_, index) => ({
+      id: `chunk-${index + 4}`,
+      position: index + 4,
+      content: `Frase numero ${index + 4}.`,
+    })));
+    mockCreateStructuredChatCompletion.mockRejectedValueOnce(new Error('provider down'));
+
+    const { extractVocabularyBatch } = await import('./Vocabulary');
+    const result = await extractVocabularyBatch({ documentId, userId: 'user-1', fromPosition: 4 });
+
+    expect(mockCreateStructuredChatCompletion).toHaveBeenCalledTimes(1);
+    expect(mockCreateStructuredChatCompletion.mock.calls[0]![0].userPrompt).not.toContain('Frase numero 8.');
+    expect(result).toEqual({ storedCount: 0, nextPosition: 8 });
+  });
+});
+
+describe('buildVocabularyExercise', () => {
+  it('asks for the Italian word behind the gloss and cites its chunk', async () => {
+    const { buildVocabularyExercise } = await import('./Vocabulary');
+
+    expect(buildVocabularyExercise({ items: [starredItem], exerciseNumber: 1, attempt: 1 })).toEqual({
+      type: 'vocabulary',
+      question: 'Come si dice in italiano «to mix»?',
+      sourceReferences: [{ documentId, chunkPosition: 3 }],
+      exerciseData: {
+        vocabularyItemId: starredItem.id,
+        lemma: 'mescolare',
+        partOfSpeech: 'verb',
+        gloss: 'to mix',
+        exampleSentence: 'Mescolare la farina con le uova.',
+      },
+    });
+  });
+
+  it('returns null when nothing is starred', async () => {
+    const { buildVocabularyExercise } = await import('./Vocabulary');
+
+    expect(buildVocabularyExercise({ items: [], exerciseNumber: 1, attempt: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+import type { GeneratedExercise } from '@/validations/ExerciseValidation';
+import type { PartOfSpeech, VocabularyItemStatus, VocabularyListQuery } from '@/validations/VocabularyValidation';
+import { and, asc, count, eq, gte, ilike, inArray, ne, or } from 'drizzle-orm';
+import { db } from '@/libs/DB';
+import { createStructuredChatCompletion } from '@/libs/Llm';
+import { logger } from '@/libs/Logger';
+import { chunksSchema, documentsSchema, vocabularyItemsSchema } from '@/models/Schema';
+import { ExtractedVocabularyResponseSchema, VocabularyItemSchema } from '@/validations/VocabularyValidation';
+import { buildVocabularySystemPrompt, buildVocabularyUserPrompt } from './VocabularyPrompts';
+
+const VOCABULARY_BATCH_SIZE = 4;
+const MAX_ITEMS_PER_CHUNK = 8;
+
+type StarredVocabularyCandidate = {
+  id: string;
+  lemma: string;
+  partOfSpeech: PartOfSpeech;
+  gloss: string;
+  exampleSentence: string;
+  documentId: string;
+  chunkPosition: number;
+  content: string;
+};
+
+function collapseWhitespace(value: string) {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+const vocabularyItemColumns = {
+  id: vocabularyItemsSchema.id,
+  documentId: vocabularyItemsSchema.documentId,
+  documentTitle: documentsSchema.title,
+  lemma: vocabularyItemsSchema.lemma,
+  partOfSpeech: vocabularyItemsSchema.partOfSpeech,
+  exampleSentence: vocabularyItemsSchema.exampleSentence,
+  gloss: vocabularyItemsSchema.gloss,
+  status: vocabularyItemsSchema.status,
+  createdAt: vocabularyItemsSchema.createdAt,
+};
+
+function toVocabularyListItem(row: {
+  createdAt: Date;
+} & Record<string, unknown>) {
+  return VocabularyItemSchema.parse({
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+  });
+}
+
+/**
+ * Extracts glossary candidates from the next batch of a document's chunks.
+ * A failed model reply is logged and the batch skipped, so one bad reply does
+ * not stall the rest of the document. Terms the learner already has (same
+ * lemma and part of speech) are left untouched.
+ * @param input - Document and position to extract vocabulary from.
+ * @param input.documentId - Ingested document ID.
+ * @param input.userId - Owner of the document.
+ * @param input.fromPosition - First chunk position of the batch.
+ * @returns New glossary terms stored and the position the next batch starts at, or null when the document is done.
+ */
+export async function extractVocabularyBatch(input: {
+  documentId: string;
+  userId: string;
+  fromPosition: number;
+}) {
+  // One extra row tells whether another batch follows
+  const chunks = await db
+    .select({
+      id: chunksSchema.id,
+      position: chunksSchema.position,
+      content: chunksSchema.content,
+    })
+    .from(chunksSchema)
+    .where(and(
+      eq(chunksSchema.documentId, input.documentId),
+      gte(chunksSchema.position, input.fromPosition),
+    ))
+    .orderBy(asc(chunksSchema.position))
+    .limit(VOCABULARY_BATCH_SIZE + 1);
+
+  const batch = chunks.slice(0, VOCABULARY_BATCH_SIZE);
+  const nextPosition = chunks[VOCABULARY_BATCH_SIZE]?.position ?? null;
+  if (batch.length === 0) {
+    return { storedCount: 0, nextPosition };
+  }
+
+  let storedCount = 0;
+  try {
+    const result = await createStructuredChatCompletion({
+      task: 'generation',
+      systemPrompt: buildVocabularySystemPrompt(),
+      userPrompt: buildVocabularyUserPrompt({
+        chunks: batch,
+        maxItemsPerChunk: MAX_ITEMS_PER_CHUNK,
+      }),
+      responseFormat: ExtractedVocabularyResponseSchema,
+      temperature: 0,
+      maxTokens: 3000,
+    });
+
+    const chunksByPosition = new Map(batch.map(chunk => [chunk.position, chunk]));
+    const rows = result.parsed.items.flatMap((item) => {
+      const chunk = chunksByPosition.get(item.chunkPosition);
+      // Example sentences must come from the learner's own material
+      if (!chunk || !collapseWhitespace(chunk.content).includes(collapseWhitespace(item.exampleSentence))) {
+        return [];
+      }
+
+      return [{
+        userId: input.userId,
+        documentId: input.documentId,
+        chunkId: chunk.id,
+        lemma: item.lemma.toLocaleLowerCase('it-IT'),
+        partOfSpeech: item.partOfSpeech,
+        exampleSentence: collapseWhitespace(item.exampleSentence),
+        gloss: item.gloss,
+      }];
+    });
+
+    if (rows.length > 0) {
+      const inserted = await db
+        .insert(vocabularyItemsSchema)
+        .values(rows)
+        .onConflictDoNothing()
+        .returning({ id: vocabularyItemsSchema.id });
+      storedCount = inserted.length;
+    }
+  } catch (error) {
+    logger.warn('vocabulary_extraction_batch_failed', {
+      documentId: input.documentId,
+      firstChunkPosition: batch[0]?.position,
+      error,
+    });
+  }
+
+  return { storedCount, nextPosition };
+}
+
+/**
+ * Lists a learner's glossary terms, alphabetically.
+ * Suppressed terms are hidden unless explicitly requested.
+ * @param input - Learner ID and list filters.
+ * @returns One page of terms and the total matching the filters.
+ */
+export async function listVocabularyItems(input: VocabularyListQuery & { userId: string }) {
+  const conditions = and(
+    eq(vocabularyItemsSchema.userId, input.userId),
+    input.status
+      ? eq(vocabularyItemsSchema.status, input.status)
+      : ne(vocabularyItemsSchema.status, 'suppressed'),
+    input.documentId ? eq(vocabularyItemsSchema.documentId, input.documentId) : undefined,
+    input.search
+      ? or(
+          ilike(vocabularyItemsSchema.lemma, `%${input.search}%`),
+          ilike(vocabularyItemsSchema.gloss, `%${input.search}%`),
+        )
+      : undefined,
+  );
+
+  const [rows, [totals]] = await Promise.all([
+    db
+      .select(vocabularyItemColumns)
+      .from(vocabularyItemsSchema)
+      .innerJoin(documentsSchema, eq(documentsSchema.id, vocabularyItemsSchema.documentId))
+      .where(conditions)
+      .orderBy(asc(vocabularyItemsSchema.lemma), asc(vocabularyItemsSchema.id))
+      .limit(input.limit)
+      .offset(input.offset),
+    db
+      .select({ total: count() })
+      .from(vocabularyItemsSchema)
+      .where(conditions),
+  ]);
+
+  return {
+    items: rows.map(toVocabularyListItem),
+    total: totals?.total ?? 0,
+  };
+}
+
+/**
+ * Stars, suppresses or restores a glossary term.
+ * @param input - Learner, term and new status.
+ * @param input.userId - Owner of the term.
+ * @param input.itemId - Vocabulary item ID.
+ * @param input.status - New status.
+ * @returns Updated term, or null when it does not belong to the learner.
+ */
+export async function updateVocabularyItemStatus(input: {
+  userId: string;
+  itemId: string;
+  status: VocabularyItemStatus;
+}) {
+  const [updated] = await db
+    .update(vocabularyItemsSchema)
+    .set({ status: input.status })
+    .where(and(
+      eq(vocabularyItemsSchema.id, input.itemId),
+      eq(vocabularyItemsSchema.userId, input.userId),
+    ))
+    .returning({ id: vocabularyItemsSchema.id });
+
+  if (!updated) {
+    return null;
+  }
+
+  const [row] = await db
+    .select(vocabularyItemColumns)
+    .from(vocabularyItemsSchema)
+    .innerJoin(documentsSchema, eq(documentsSchema.id, vocabularyItemsSchema.documentId))
+    .where(eq(vocabularyItemsSchema.id, updated.id));
+
+  return row ? toVocabularyListItem(row) : null;
+}
+
+/**
+ * Lists starred terms found in the given documents, with the chunk each one
+ * came from so generated flashcards can cite it.
+ * @param input - Learner and documents to draw terms from.
+ * @param input.userId - Learner user ID.
+ * @param input.documentIds - Documents selected for generation.
+ * @returns Starred terms, oldest first.
+ */
+export async function listStarredVocabulary(input: {
+  userId: string;
+  documentIds: string[];
+}): Promise<StarredVocabularyCandidate[]> {
+  if (input.documentIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({
+      id: vocabularyItemsSchema.id,
+      lemma: vocabularyItemsSchema.lemma,
+      partOfSpeech: vocabularyItemsSchema.partOfSpeech,
+      gloss: vocabularyItemsSchema.gloss,
+      exampleSentence: vocabularyItemsSchema.exampleSentence,
+      documentId: chunksSchema.documentId,
+      chunkPosition: chunksSchema.position,
+      content: chunksSchema.content,
+    })
+    .from(vocabularyItemsSchema)
+    .innerJoin(chunksSchema, eq(chunksSchema.id, vocabularyItemsSchema.chunkId))
+    .where(and(
+      eq(vocabularyItemsSchema.userId, input.userId),
+      eq(vocabularyItemsSchema.status, 'starred'),
+      inArray(vocabularyItemsSchema.documentId, input.documentIds),
+    ))
+    .orderBy(asc(vocabularyItemsSchema.updatedAt), asc(vocabularyItemsSchema.id));
+}
+
+/**
+ * Builds a flashcard for one starred term without calling the model: the
+ * learner sees the English gloss and types the Italian word.
+ * @param input - Starred terms and the position of this exercise in the job.
+ * @param input.items - Starred terms available for the job.
+ * @param input.exerciseNumber - 1-based exercise number within the job.
+ * @param input.attempt - 1-based generation attempt, so retries pick another term.
+ * @returns Generated exercise, or null when no term is starred.
+ */
+export function buildVocabularyExercise(input: {
+  items: StarredVocabularyCandidate[];
+  exerciseNumber: number;
+  attempt: number;
+}): GeneratedExercise | null {
+  const item = input.items[(input.exerciseNumber - 1 + input.attempt - 1) % Math.max(input.items.length, 1)];
+  if (!item) {
+    return null;
+  }
+
+  return {
+    type: 'vocabulary',
+    question: `Come si dice in italiano «${item.gloss}»?`,
+    sourceReferences: [{ documentId: item.documentId, chunkPosition: item.chunkPosition }],
+    exerciseData: {
+      vocabularyItemId: item.id,
+      lemma: item.lemma,
+      partOfSpeech: item.partOfSpeech,
+      gloss: item.gloss,
+      exampleSentence: item.exampleSentence,
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type QueuedJob = {
+  id: string;
+  userId: string;
+  documentId: string;
+  nextChunkPosition: number;
+  storedCount: number;
+};
+
+const state = {
+  pendingJobs: [] as QueuedJob[],
+  jobUpdates: [] as Array<Record<string, unknown>>,
+};
+
+const mockExtractVocabularyBatch = vi.fn();
+
+const mockDb = {
+  transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => {
+    const next = state.pendingJobs[0];
+
+    return callback({
+      execute: vi.fn(async () => ({ rows: next ? [{ id: next.id }] : [] })),
+      update: vi.fn(() => ({
+        set: vi.fn(() => ({
+          where: vi.fn(() => ({
+            returning: vi.fn(async () => {
+              const job = state.pendingJobs.shift();
+              return job ? [job] : [];
+            }),
+          })),
+        })),
+      })),
+    });
+  }),
+  update: vi.fn(() => ({
+    set: vi.fn((values: Record<string, unknown>) => ({
+      where: vi.fn(() => {
+        state.jobUpdates.push(values);
+
+        return Object.assign(Promise.resolve(undefined), {
+          returning: vi.fn(async () => []),
+        });
+      }),
+    })),
+  })),
+};
+
+vi.mock('./DB', () => ({
+  db: mockDb,
+}));
+
+vi.mock('./Vocabulary', () => ({
+  extractVocabularyBatch: mockExtractVocabularyBatch,
+}));
+
+vi.mock('./Logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function buildJob(overrides: Partial<QueuedJob>): QueuedJob {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    documentId: '550e8400-e29b-41d4-a716-446655440001',
+    nextChunkPosition: 0,
+    storedCount: 0,
+    ...overrides,
+  };
+}
+
+describe('runVocabularyWorkerBatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.pendingJobs = [];
+    state.jobUpdates = [];
+  });
+
+  it('resumes from the recorded position and requeues the job when the budget runs out', async () => {
+    state.pendingJobs = [buildJob({ nextChunkPosition: 8, storedCount: 3 })];
+    mockExtractVocabularyBatch
+      .mockResolvedValueOnce({ storedCount: 2, nextPosition: 12 })
+      .mockResolvedValueOnce({ storedCount: 1, nextPosition: 16 });
+
+    const { runVocabularyWorkerBatch } = await import('./VocabularyJobs');
+    const result = await runVocabularyWorkerBatch({ maxBatches: 2 });
+
+    expect(result).toEqual({ claimed: 1, completed: 0, failed: 0 });
+    expect(mockExtractVocabularyBatch.mock.calls.map(([input]) => input.fromPosition)).toEqual([8, 12]);
+    // The first update is stale recovery, which runs before any claim
+    expect(state.jobUpdates.slice(1)).toEqual([
+      { nextChunkPosition: 12, storedCount: 5 },
+      { nextChunkPosition: 16, storedCount: 6 },
+      { status: 'pending', startedAt: null },
+    ]);
+  });
+
+  it('completes finished documents and moves on to the next job', async () => {
+    state.pendingJobs = [
+      buildJob({}),
+      buildJob({ id: 'job-2', documentId: '550e8400-e29b-41d4-a716-446655440002' }),
+    ];
+    mockExtractVocabularyBatch
+      .mockResolvedValueOnce({ storedCount: 4, nextPosition: null })
+      .mockResolvedValueOnce({ storedCount: 1, nextPosition: null });
+
+    const { runVocabularyWorkerBatch } = await import('./VocabularyJobs');
+    const result = await runVocabularyWorkerBatch();
+
+    expect(result).toEqual({ claimed: 2, completed: 2, failed: 0 });
+    expect(state.jobUpdates.slice(1)).toEqual([
+      expect.objectContaining({ status: 'completed', storedCount: 4 }),
+      expect.objectContaining({ status: 'completed', storedCount: 1 }),
+    ]);
+  });
+
+  it('marks a job failed when extraction throws', async () => {
+    state.pendingJobs = [buildJob({})];
+    mockExtractVocabularyBatch.mockRejectedValueOnce(new Error('connection reset'));
+
+    const { runVocabularyWorkerBatch } = await import('./VocabularyJobs');
+    const result = await runVocabularyWorkerBatch();
+
+    expect(result).toEqual({ claimed: 1, completed: 0, failed: 1 });
+    expect(state.jobUpdates.at(-1)).toEqual(expect.objectContaining({ status: 'failed' }));
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Durable glossary extraction queue.
+ * Ingestion queues one job per ready document. The ingestion worker then works
+ * through a bounded number of chunk batches per run, recording the next chunk
+ * position after each one so a capped or interrupted job resumes where it stopped.
+ */
+
+import { and, eq, isNotNull, lt, sql } from 'drizzle-orm';
+import { vocabularyJobsSchema } from '@/models/Schema';
+import { db } from './DB';
+import { Env } from './Env';
+import { logger } from './Logger';
+import { extractVocabularyBatch } from './Vocabulary';
+
+const DEFAULT_WORKER_BATCH_BUDGET = 8;
+const PROCESSING_STALE_JOB_THRESHOLD_MS = Env.INGESTION_PROCESSING_STALE_MS ?? 15 * 60 * 1000;
+
+type ClaimedVocabularyJob = {
+  id: string;
+  userId: string;
+  documentId: string;
+  nextChunkPosition: number;
+  storedCount: number;
+};
+
+type VocabularyWorkerBatchResult = {
+  claimed: number;
+  completed: number;
+  failed: number;
+};
+
+/**
+ * Queues glossary extraction for a freshly ingested document.
+ * @param input - Document to extract vocabulary from.
+ * @param input.documentId - Ingested document ID.
+ * @param input.userId - Owner of the document.
+ */
+export async function enqueueVocabularyJob(input: {
+  documentId: string;
+  userId: string;
+}) {
+  await db
+    .insert(vocabularyJobsSchema)
+    .values({
+      userId: input.userId,
+      documentId: input.documentId,
+      status: 'pending',
+    })
+    .onConflictDoNothing();
+}
+
+async function claimNextVocabularyJob() {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const lockResult = await tx.execute(
+      sql`SELECT ${vocabularyJobsSchema.id} FROM ${vocabularyJobsSchema} WHERE ${vocabularyJobsSchema.status} = 'pending' ORDER BY ${vocabularyJobsSchema.createdAt} ASC FOR UPDATE SKIP LOCKED LIMIT 1`,
+    );
+
+    const nextRow = lockResult.rows[0] as { id?: unknown } | undefined;
+    const nextId = typeof nextRow?.id === 'string' ? nextRow.id : null;
+    if (!nextId) {
+      return null;
+    }
+
+    const [job] = await tx
+      .update(vocabularyJobsSchema)
+      .set({
+        status: 'processing',
+        startedAt: now,
+      })
+      .where(and(
+        eq(vocabularyJobsSchema.id, nextId),
+        eq(vocabularyJobsSchema.status, 'pending'),
+      ))
+      .returning({
+        id: vocabularyJobsSchema.id,
+        userId: vocabularyJobsSchema.userId,
+        documentId: vocabularyJobsSchema.documentId,
+        nextChunkPosition: vocabularyJobsSchema.nextChunkPosition,
+        storedCount: vocabularyJobsSchema.storedCount,
+      });
+
+    return (job ?? null) as ClaimedVocabularyJob | null;
+  });
+}
+
+/**
+ * Returns jobs whose worker stopped mid-run to the queue. Progress is stored
+ * per batch, so they continue from their recorded chunk position.
+ * @returns Number of jobs requeued.
+ */
+async function recoverStaleVocabularyJobs() {
+  const staleProcessingBefore = new Date(Date.now() - PROCESSING_STALE_JOB_THRESHOLD_MS);
+
+  const staleJobs = await db
+    .update(vocabularyJobsSchema)
+    .set({
+      status: 'pending',
+      startedAt: null,
+    })
+    .where(and(
+      eq(vocabularyJobsSchema.status, 'processing'),
+      isNotNull(vocabularyJobsSchema.startedAt),
+      lt(vocabularyJobsSchema.startedAt, staleProcessingBefore),
+    ))
+    .returning({ id: vocabularyJobsSchema.id });
+
+  if (staleJobs.length > 0) {
+    logger.warn('vocabulary_jobs_recovered', {
+      jobs: staleJobs.length,
+    });
+  }
+
+  return staleJobs.length;
+}
+
+async function runClaimedVocabularyJob(job: ClaimedVocabularyJob, maxBatches: number) {
+  let nextPosition: number | null = job.nextChunkPosition;
+  let storedCount = job.storedCount;
+  let batches = 0;
+
+  while (nextPosition !== null && batches < maxBatches) {
+    const result = await extractVocabularyBatch({
+      documentId: job.documentId,
+      userId: job.userId,
+      fromPosition: nextPosition,
+    });
+    batches += 1;
+    nextPosition = result.nextPosition;
+    storedCount += result.storedCount;
+
+    await db
+      .update(vocabularyJobsSchema)
+      .set(nextPosition === null
+        ? { status: 'completed', storedCount, completedAt: new Date() }
+        : { nextChunkPosition: nextPosition, storedCount })
+      .where(eq(vocabularyJobsSchema.id, job.id));
+  }
+
+  if (nextPosition === null) {
+    logger.info('vocabulary_job_completed', {
+      jobId: job.id,
+      documentId: job.documentId,
+      storedCount,
+    });
+
+    return { batches, completed: true };
+  }
+
+  // Out of budget for this run; the recorded position lets the next run carry on
+  await db
+    .update(vocabularyJobsSchema)
+    .set({
+      status: 'pending',
+      startedAt: null,
+    })
+    .where(eq(vocabularyJobsSchema.id, job.id));
+
+  return { batches, completed: false };
+}
+
+/**
+ * Extracts glossary terms for queued documents within a bounded number of
+ * model calls, so a long document cannot hold up the worker run.
+ * @param input - Batch options.
+ * @param input.maxBatches - Maximum chunk batches sent to the model in this run.
+ * @returns Worker batch counters.
+ */
+export async function runVocabularyWorkerBatch(input?: {
+  maxBatches?: number;
+}): Promise<VocabularyWorkerBatchResult> {
+  await recoverStaleVocabularyJobs();
+
+  let remainingBatches = input?.maxBatches ?? DEFAULT_WORKER_BATCH_BUDGET;
+  let claimed = 0;
+  let completed = 0;
+  let failed = 0;
+
+  while (remainingBatches > 0) {
+    const job = await claimNextVocabularyJob();
+    if (!job) {
+      break;
+    }
+
+    claimed += 1;
+
+    try {
+      const result = await runClaimedVocabularyJob(job, remainingBatches);
+      remainingBatches -= result.batches;
+      if (result.completed) {
+        completed += 1;
+      }
+    } catch (error) {
+      // Count the failed attempt against the budget so a failing queue still ends the run
+      remainingBatches -= 1;
+      failed += 1;
+      logger.error('vocabulary_job_failed', {
+        jobId: job.id,
+        documentId: job.documentId,
+        error,
+      });
+      await db
+        .update(vocabularyJobsSchema)
+        .set({
+          status: 'failed',
+          errorMessage: 'An unexpected error occurred during extraction.',
+          completedAt: new Date(),
+        })
+        .where(eq(vocabularyJobsSchema.id, job.id));
+    }
+  }
+
+  logger.info('vocabulary_worker_batch_completed', {
+    claimed,
+    completed,
+    failed,
+  });
+
+  return {
+    claimed,
+    completed,
+    failed,
+  };
+}
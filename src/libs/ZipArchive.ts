@@ -0,0 +1,110 @@
+/**
+ * ZIP container utilities for DOCX and EPUB ingestion.
+ * Validates packages using magic bytes and file-type detection, and unpacks
+ * only the entries an extractor needs within an uncompressed size budget.
+ */
+
+import { Buffer } from 'node:buffer';
+
+import { strFromU8, unzipSync } from 'fflate';
+import { fileTypeFromBuffer } from 'file-type';
+
+// ZIP local file header magic bytes: PK\x03\x04
+const ZIP_MAGIC_BYTES = [0x50, 0x4B, 0x03, 0x04] as const;
+
+export type ZipValidationResult = {
+  valid: boolean;
+  error?: string;
+};
+
+/**
+ * Error thrown when the requested entries exceed the uncompressed size budget.
+ */
+export class ZipSizeLimitError extends Error {
+  constructor(maxUncompressedBytes: number) {
+    super(`Archive entries exceed ${maxUncompressedBytes} uncompressed bytes`);
+    this.name = 'ZipSizeLimitError';
+  }
+}
+
+/**
+ * Validates a ZIP-based document package (DOCX, EPUB).
+ * Performs size limit, magic bytes, and file-type MIME checks.
+ * @param buffer - Raw file buffer
+ * @param input - Expected package format
+ * @param input.mime - MIME type file-type must detect for this format
+ * @param input.label - Format name used in error messages
+ * @param input.maxSizeBytes - Maximum allowed file size in bytes
+ * @returns Validation result with error message if invalid
+ */
+export async function validateZipPackage(
+  buffer: Buffer | Uint8Array,
+  input: {
+    mime: string;
+    label: string;
+    maxSizeBytes: number;
+  },
+): Promise<ZipValidationResult> {
+  if (buffer.length > input.maxSizeBytes) {
+    return { valid: false, error: `${input.label} exceeds size limit` };
+  }
+
+  const buf = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer);
+
+  if (buf.length < ZIP_MAGIC_BYTES.length) {
+    return { valid: false, error: `File too small to be a valid ${input.label}` };
+  }
+
+  const isZipHeader = ZIP_MAGIC_BYTES.every((byte, i) => buf[i] === byte);
+  if (!isZipHeader) {
+    return { valid: false, error: `Invalid ${input.label} header` };
+  }
+
+  // file-type inspects the package entries ([Content_Types].xml, mimetype)
+  const fileType = await fileTypeFromBuffer(buf);
+  if (!fileType || fileType.mime !== input.mime) {
+    return { valid: false, error: 'File type detection failed' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Unpacks the selected archive entries as UTF-8 text.
+ * Entry sizes are taken from the archive directory, which also bounds how
+ * many bytes are inflated, so the budget is enforced before decompression.
+ * @param buffer - Raw ZIP buffer
+ * @param input - Entry selection and limits
+ * @param input.include - Predicate selecting entry paths to unpack
+ * @param input.maxUncompressedBytes - Maximum total uncompressed size of the selected entries
+ * @returns Map of entry path to text content
+ * @throws {ZipSizeLimitError} When the selected entries exceed the budget
+ */
+export function readZipTextEntries(
+  buffer: Buffer | Uint8Array,
+  input: {
+    include: (path: string) => boolean;
+    maxUncompressedBytes: number;
+  },
+): Map<string, string> {
+  let uncompressedBytes = 0;
+
+  const entries = unzipSync(buffer, {
+    filter: (file) => {
+      if (!input.include(file.name)) {
+        return false;
+      }
+
+      uncompressedBytes += file.originalSize;
+      if (uncompressedBytes > input.maxUncompressedBytes) {
+        throw new ZipSizeLimitError(input.maxUncompressedBytes);
+      }
+
+      return true;
+    },
+  });
+
+  return new Map(
+    Object.entries(entries).map(([path, data]) => [path, strFromU8(data)]),
+  );
+}
@@ -1,10 +1,13 @@
+import { Buffer } from 'node:buffer';
 import { sql } from 'drizzle-orm';
 import {
+  customType,
   index,
   integer,
   jsonb,
   pgEnum,
   pgTable,
+  real,
   serial,
   text,
   timestamp,
@@ -25,6 +28,16 @@ import {
 // Need a database for production? Check out https://www.prisma.io/?via=nextjsboilerplate
 // Tested and compatible with Next.js Boilerplate
 
+// Raw binary column; node-postgres returns a Buffer and PGlite a Uint8Array
+const bytea = customType<{ data: Buffer; driverData: Uint8Array }>({
+  dataType() {
+    return 'bytea';
+  },
+  fromDriver(value) {
+    return Buffer.from(value);
+  },
+});
+
 export const counterSchema = pgTable('counter', {
   id: serial('id').primaryKey(),
   count: integer('count').default(0),
@@ -51,12 +64,28 @@ export const contentTypeEnum = pgEnum('content_type', [
   'pdf',
   'url',
   'text',
+  'docx',
+  'epub',
+  'markdown',
+  'html',
+  'srt',
+  'vtt',
 ]);
 
 export const exerciseTypeEnum = pgEnum('exercise_type', [
   'multiple_choice',
   'fill_gap',
   'single_answer',
+  'matching',
+  'word_order',
+  'error_correction',
+  'translation',
+  'reading_comprehension',
+  'cloze',
+  'conjugation',
+  'dialogue',
+  'writing',
+  'vocabulary',
 ]);
 
 export const difficultyEnum = pgEnum('difficulty', [
@@ -72,11 +101,100 @@ export const generationJobStatusEnum = pgEnum('generation_job_status', [
   'failed',
 ]);
 
+export const ingestionJobStatusEnum = pgEnum('ingestion_job_status', [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+]);
+
 export const evaluationMethodEnum = pgEnum('evaluation_method', [
   'deterministic',
   'llm',
 ]);
 
+export const dialogueSessionStatusEnum = pgEnum('dialogue_session_status', [
+  'active',
+  'completed',
+]);
+
+export const partOfSpeechEnum = pgEnum('part_of_speech', [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'expression',
+  'other',
+]);
+
+export const grammarTopicEnum = pgEnum('grammar_topic', [
+  'articoli',
+  'genere_e_numero',
+  'accordo_aggettivi',
+  'presente_indicativo',
+  'preposizioni_semplici',
+  'possessivi',
+  'preposizioni_articolate',
+  'verbi_riflessivi',
+  'passato_prossimo',
+  'imperfetto',
+  'futuro_semplice',
+  'pronomi_diretti',
+  'pronomi_indiretti',
+  'comparativi_e_superlativi',
+  'particelle_ci_e_ne',
+  'imperativo',
+  'condizionale_presente',
+  'congiuntivo_presente',
+  'pronomi_combinati',
+  'pronomi_relativi',
+  'trapassato_prossimo',
+  'congiuntivo_imperfetto',
+  'congiuntivo_passato',
+  'periodo_ipotetico',
+  'passato_remoto',
+  'forma_passiva',
+  'discorso_indiretto',
+  'concordanza_dei_tempi',
+  'gerundio_e_participio',
+]);
+
+export const cefrLevelEnum = pgEnum('cefr_level', [
+  'A1',
+  'A2',
+  'B1',
+  'B2',
+  'C1',
+]);
+
+export const placementTestStatusEnum = pgEnum('placement_test_status', [
+  'active',
+  'completed',
+]);
+
+export const practiceSessionStatusEnum = pgEnum('practice_session_status', [
+  'active',
+  'completed',
+]);
+
+export const dailyGoalMetricEnum = pgEnum('daily_goal_metric', [
+  'exercises',
+  'minutes',
+]);
+
+export const vocabularyJobStatusEnum = pgEnum('vocabulary_job_status', [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+]);
+
+export const vocabularyItemStatusEnum = pgEnum('vocabulary_item_status', [
+  'listed',
+  'starred',
+  'suppressed',
+]);
+
 // Users table (synced from Clerk via webhook)
 export const usersSchema = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -115,6 +233,15 @@ export const chunksSchema = pgTable('chunks', {
   content: text('content').notNull(),
   position: integer('position').notNull(),
   tokenCount: integer('token_count').notNull(),
+  // Character range of the chunk within the normalized extracted text
+  startChar: integer('start_char'),
+  endChar: integer('end_char'),
+  // Source page range covered by the chunk, 1-based (PDF documents only)
+  startPage: integer('start_page'),
+  endPage: integer('end_page'),
+  // Media time range covered by the chunk (subtitle documents only)
+  startMs: integer('start_ms'),
+  endMs: integer('end_ms'),
   pineconeId: text('pinecone_id').notNull().unique(),
   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
 }, table => ({
@@ -132,6 +259,7 @@ export const exercisesSchema = pgTable('exercises', {
   sourceChunkIds: uuid('source_chunk_ids').array().notNull(),
   sourceDocumentIds: uuid('source_document_ids').array().notNull(),
   grammarFocus: text('grammar_focus'),
+  grammarTopic: grammarTopicEnum('grammar_topic'),
   timesAttempted: integer('times_attempted').default(0),
   averageScore: integer('average_score'),
   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
@@ -142,6 +270,27 @@ export const exercisesSchema = pgTable('exercises', {
   ),
 }));
 
+// Practice sessions table (a fixed set of exercises answered one at a time, optionally timed)
+export const practiceSessionsSchema = pgTable('practice_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  status: practiceSessionStatusEnum('status').default('active').notNull(),
+  // Exercises in the order the player shows them
+  exerciseIds: uuid('exercise_ids').array().notNull(),
+  timeLimitSeconds: integer('time_limit_seconds'),
+  startedAt: timestamp('started_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+  completedAt: timestamp('completed_at', { mode: 'date' }),
+}, table => ({
+  practiceSessionsUserStartedIdx: index('practice_sessions_user_started_idx').on(
+    table.userId,
+    table.startedAt.desc(),
+  ),
+}));
+
 // Responses table (user answers and evaluations)
 export const responsesSchema = pgTable('responses', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -154,7 +303,12 @@ export const responsesSchema = pgTable('responses', {
   rubric: jsonb('rubric').notNull(),
   overallFeedback: text('overall_feedback').notNull(),
   suggestedReview: text('suggested_review').array(),
+  corrections: text('corrections').array(),
+  itemResults: jsonb('item_results'),
+  annotatedText: jsonb('annotated_text'),
   responseTimeMs: integer('response_time_ms'),
+  // Set when the answer was given inside a timed practice session
+  sessionId: uuid('session_id').references(() => practiceSessionsSchema.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
 }, table => ({
   userSubmissionIdx: uniqueIndex('responses_user_submission_unique_idx').on(
@@ -171,6 +325,11 @@ export const responsesSchema = pgTable('responses', {
     table.createdAt.desc(),
     table.id.desc(),
   ),
+  // One answer per exercise in a practice session
+  sessionExerciseIdx: uniqueIndex('responses_session_exercise_unique_idx').on(
+    table.sessionId,
+    table.exerciseId,
+  ).where(sql`${table.sessionId} is not null`),
 }));
 
 // Generation jobs table (async exercise generation lifecycle)
@@ -178,20 +337,223 @@ export const generationJobsSchema = pgTable('generation_jobs', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
   status: generationJobStatusEnum('status').default('pending').notNull(),
-  exerciseType: exerciseTypeEnum('exercise_type').notNull(),
+  // Null for mixed-type jobs; the per-type breakdown lives in typeProgress
+  exerciseType: exerciseTypeEnum('exercise_type'),
   documentIds: uuid('document_ids').array().notNull(),
   requestedCount: integer('requested_count').notNull(),
   generatedCount: integer('generated_count').default(0).notNull(),
   failedCount: integer('failed_count').default(0).notNull(),
+  // Requested, generated and failed counts per exercise type
+  typeProgress: jsonb('type_progress'),
   exerciseIds: uuid('exercise_ids').array().default(sql`'{}'::uuid[]`).notNull(),
   difficulty: difficultyEnum('difficulty'),
   topicFocus: text('topic_focus'),
+  // Learner-selected passage; when set, generation skips vector retrieval
+  passage: jsonb('passage'),
+  // Set for mistake-practice jobs; see MistakeFocusSchema
+  mistakeFocus: jsonb('mistake_focus'),
+  errorMessage: text('error_message'),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  startedAt: timestamp('started_at', { mode: 'date' }),
+  completedAt: timestamp('completed_at', { mode: 'date' }),
+});
+
+// Ingestion jobs table (durable queue for document extraction and embedding)
+export const ingestionJobsSchema = pgTable('ingestion_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  documentId: uuid('document_id').references(() => documentsSchema.id, { onDelete: 'cascade' }).notNull().unique(),
+  status: ingestionJobStatusEnum('status').default('pending').notNull(),
+  contentType: contentTypeEnum('content_type').notNull(),
+  title: text('title'),
+  sourceUrl: text('source_url'),
+  originalFilename: text('original_filename'),
+  stagingKey: text('staging_key'),
+  textContent: text('text_content'),
   errorMessage: text('error_message'),
   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   startedAt: timestamp('started_at', { mode: 'date' }),
   completedAt: timestamp('completed_at', { mode: 'date' }),
+}, table => ({
+  ingestionJobsPendingCreatedIdx: index('ingestion_jobs_pending_created_idx')
+    .on(table.createdAt)
+    .where(sql`${table.status} = 'pending'`),
+  ingestionJobsProcessingStartedIdx: index('ingestion_jobs_processing_started_idx')
+    .on(table.startedAt)
+    .where(sql`${table.status} = 'processing'`),
+}));
+
+// Upload staging table (raw upload bytes kept until the ingestion worker has extracted them)
+export const uploadStagingSchema = pgTable('upload_staging', {
+  key: text('key').primaryKey(),
+  data: bytea('data').notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
 });
 
+// Review states table (spaced-repetition schedule per user and exercise)
+export const reviewStatesSchema = pgTable('review_states', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  exerciseId: uuid('exercise_id').references(() => exercisesSchema.id, { onDelete: 'cascade' }).notNull(),
+  repetitions: integer('repetitions').default(0).notNull(),
+  intervalDays: integer('interval_days').default(0).notNull(),
+  easeFactor: real('ease_factor').default(2.5).notNull(),
+  reviewCount: integer('review_count').default(0).notNull(),
+  lastScore: integer('last_score'),
+  lastReviewedAt: timestamp('last_reviewed_at', { mode: 'date' }),
+  dueAt: timestamp('due_at', { mode: 'date' }).notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+}, table => ({
+  reviewStatesUserExerciseIdx: uniqueIndex('review_states_user_exercise_unique_idx').on(
+    table.userId,
+    table.exerciseId,
+  ),
+  reviewStatesUserDueIdx: index('review_states_user_due_idx').on(
+    table.userId,
+    table.dueAt,
+  ),
+}));
+
+// Dialogue sessions table (conversation state for role-play exercises)
+export const dialogueSessionsSchema = pgTable('dialogue_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  exerciseId: uuid('exercise_id').references(() => exercisesSchema.id, { onDelete: 'cascade' }).notNull(),
+  status: dialogueSessionStatusEnum('status').default('active').notNull(),
+  // Ordered character and learner turns; learner turns carry their evaluation
+  turns: jsonb('turns').notNull(),
+  // Response recorded with the overall rubric once the session completes
+  responseId: uuid('response_id').references(() => responsesSchema.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+  completedAt: timestamp('completed_at', { mode: 'date' }),
+}, table => ({
+  dialogueSessionsActiveIdx: uniqueIndex('dialogue_sessions_active_unique_idx')
+    .on(table.userId, table.exerciseId)
+    .where(sql`${table.status} = 'active'`),
+}));
+
+// Vocabulary items table (glossary terms extracted from document chunks)
+export const vocabularyItemsSchema = pgTable('vocabulary_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  documentId: uuid('document_id').references(() => documentsSchema.id, { onDelete: 'cascade' }).notNull(),
+  // Chunk the term was first found in; the example sentence is taken from it
+  chunkId: uuid('chunk_id').references(() => chunksSchema.id, { onDelete: 'cascade' }).notNull(),
+  lemma: text('lemma').notNull(),
+  partOfSpeech: partOfSpeechEnum('part_of_speech').notNull(),
+  exampleSentence: text('example_sentence').notNull(),
+  gloss: text('gloss').notNull(),
+  status: vocabularyItemStatusEnum('status').default('listed').notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+}, table => ({
+  // One glossary entry per term, so starring a word applies across documents
+  vocabularyItemsUserLemmaIdx: uniqueIndex('vocabulary_items_user_lemma_unique_idx').on(
+    table.userId,
+    table.lemma,
+    table.partOfSpeech,
+  ),
+  vocabularyItemsDocumentIdx: index('vocabulary_items_document_id_idx').on(table.documentId),
+}));
+
+// Vocabulary jobs table (durable queue for glossary extraction after ingestion)
+export const vocabularyJobsSchema = pgTable('vocabulary_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  documentId: uuid('document_id').references(() => documentsSchema.id, { onDelete: 'cascade' }).notNull().unique(),
+  status: vocabularyJobStatusEnum('status').default('pending').notNull(),
+  // First chunk position not yet sent to the model; an interrupted job resumes here
+  nextChunkPosition: integer('next_chunk_position').default(0).notNull(),
+  storedCount: integer('stored_count').default(0).notNull(),
+  errorMessage: text('error_message'),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  startedAt: timestamp('started_at', { mode: 'date' }),
+  completedAt: timestamp('completed_at', { mode: 'date' }),
+}, table => ({
+  vocabularyJobsPendingCreatedIdx: index('vocabulary_jobs_pending_created_idx')
+    .on(table.createdAt)
+    .where(sql`${table.status} = 'pending'`),
+  vocabularyJobsProcessingStartedIdx: index('vocabulary_jobs_processing_started_idx')
+    .on(table.startedAt)
+    .where(sql`${table.status} = 'processing'`),
+}));
+
+// Topic mastery table (per-user running score for each grammar topic)
+export const topicMasterySchema = pgTable('topic_mastery', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  topic: grammarTopicEnum('topic').notNull(),
+  mastery: integer('mastery').notNull(),
+  attemptCount: integer('attempt_count').default(0).notNull(),
+  lastScore: integer('last_score').notNull(),
+  lastPracticedAt: timestamp('last_practiced_at', { mode: 'date' }).notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+}, table => ({
+  topicMasteryUserTopicIdx: uniqueIndex('topic_mastery_user_topic_unique_idx').on(
+    table.userId,
+    table.topic,
+  ),
+}));
+
+// Placement tests table (adaptive CEFR placement answers and the resulting estimate)
+export const placementTestsSchema = pgTable('placement_tests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  status: placementTestStatusEnum('status').default('active').notNull(),
+  // Ordered answers to item bank entries, each marked correct or not
+  answers: jsonb('answers').default([]).notNull(),
+  // Rasch ability estimate in logits, set once the test completes
+  ability: real('ability'),
+  standardError: real('standard_error'),
+  cefrLevel: cefrLevelEnum('cefr_level'),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+  completedAt: timestamp('completed_at', { mode: 'date' }),
+}, table => ({
+  placementTestsActiveIdx: uniqueIndex('placement_tests_active_unique_idx')
+    .on(table.userId)
+    .where(sql`${table.status} = 'active'`),
+  placementTestsUserCompletedIdx: index('placement_tests_user_completed_idx').on(
+    table.userId,
+    table.completedAt,
+  ),
+}));
+
+// Daily goals table (one goal per learner, with the time zone their days are counted in)
+export const dailyGoalsSchema = pgTable('daily_goals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  metric: dailyGoalMetricEnum('metric').default('exercises').notNull(),
+  target: integer('target').notNull(),
+  // IANA time zone name, e.g. Europe/Rome
+  timeZone: text('time_zone').default('UTC').notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date' })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+}, table => ({
+  dailyGoalsUserIdx: uniqueIndex('daily_goals_user_unique_idx').on(table.userId),
+}));
+
 // Type exports
 export type User = typeof usersSchema.$inferSelect;
 export type NewUser = typeof usersSchema.$inferInsert;
@@ -205,3 +567,21 @@ export type Response = typeof responsesSchema.$inferSelect;
 export type NewResponse = typeof responsesSchema.$inferInsert;
 export type GenerationJob = typeof generationJobsSchema.$inferSelect;
 export type NewGenerationJob = typeof generationJobsSchema.$inferInsert;
+export type IngestionJob = typeof ingestionJobsSchema.$inferSelect;
+export type NewIngestionJob = typeof ingestionJobsSchema.$inferInsert;
+export type StagedUpload = typeof uploadStagingSchema.$inferSelect;
+export type NewStagedUpload = typeof uploadStagingSchema.$inferInsert;
+export type ReviewState = typeof reviewStatesSchema.$inferSelect;
+export type NewReviewState = typeof reviewStatesSchema.$inferInsert;
+export type VocabularyItem = typeof vocabularyItemsSchema.$inferSelect;
+export type NewVocabularyItem = typeof vocabularyItemsSchema.$inferInsert;
+export type VocabularyJob = typeof vocabularyJobsSchema.$inferSelect;
+export type NewVocabularyJob = typeof vocabularyJobsSchema.$inferInsert;
+export type TopicMastery = typeof topicMasterySchema.$inferSelect;
+export type NewTopicMastery = typeof topicMasterySchema.$inferInsert;
+export type PlacementTest = typeof placementTestsSchema.$inferSelect;
+export type NewPlacementTest = typeof placementTestsSchema.$inferInsert;
+export type PracticeSession = typeof practiceSessionsSchema.$inferSelect;
+export type NewPracticeSession = typeof practiceSessionsSchema.$inferInsert;
+export type DailyGoal = typeof dailyGoalsSchema.$inferSelect;
+export type NewDailyGoal = typeof dailyGoalsSchema.$inferInsert;
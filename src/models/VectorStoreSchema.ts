@@ -0,0 +1,34 @@
+import { index, integer, pgTable, text, timestamp, uuid, vector } from 'drizzle-orm/pg-core';
+import { EMBEDDING_DIMENSION } from '../libs/EmbeddingConfig';
+import { contentTypeEnum, documentsSchema, usersSchema } from './Schema';
+
+// The pgvector table lives outside Schema.ts on purpose: migrations must run on
+// Postgres without the vector extension, so this table is created by
+// `npm run pgvector:init` (see ensurePgVectorTable) only when VECTOR_STORE=pgvector.
+// Keep ensurePgVectorTable in sync when changing it; `npm run db:generate` ignores this file.
+
+// Chunk embeddings table (pgvector store, used when VECTOR_STORE=pgvector)
+export const chunkEmbeddingsSchema = pgTable('chunk_embeddings', {
+  id: text('id').primaryKey(),
+  userId: uuid('user_id').references(() => usersSchema.id, { onDelete: 'cascade' }).notNull(),
+  documentId: uuid('document_id').references(() => documentsSchema.id, { onDelete: 'cascade' }).notNull(),
+  chunkPosition: integer('chunk_position').notNull(),
+  contentType: contentTypeEnum('content_type').notNull(),
+  text: text('text').notNull(),
+  startMs: integer('start_ms'),
+  endMs: integer('end_ms'),
+  embedding: vector('embedding', { dimensions: EMBEDDING_DIMENSION }).notNull(),
+  createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+}, table => ({
+  chunkEmbeddingsUserDocumentIdx: index('chunk_embeddings_user_document_idx').on(
+    table.userId,
+    table.documentId,
+  ),
+  chunkEmbeddingsEmbeddingIdx: index('chunk_embeddings_embedding_idx').using(
+    'hnsw',
+    table.embedding.op('vector_cosine_ops'),
+  ),
+}));
+
+export type ChunkEmbedding = typeof chunkEmbeddingsSchema.$inferSelect;
+export type NewChunkEmbedding = typeof chunkEmbeddingsSchema.$inferInsert;
@@ -0,0 +1,15 @@
+/**
+ * Normalizes Italian answer text for comparison while keeping accents and
+ * apostrophes, so "e"/"è" or "perche"/"perché" stay different words.
+ * @param value - Text typed by the learner or generated by the model.
+ * @returns Lowercased text with unified apostrophes, punctuation removed and whitespace collapsed.
+ */
+export function normalizeAccentedText(value: string) {
+  return value
+    .normalize('NFC')
+    .replace(/[’`´]/g, '\'')
+    .replace(/[.,!?;:()[\]{}"]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLocaleLowerCase('it-IT');
+}
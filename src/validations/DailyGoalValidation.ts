@@ -0,0 +1,50 @@
+import * as z from 'zod';
+
+export const MAX_DAILY_GOAL_TARGET = 240;
+
+function isSupportedTimeZone(value: string) {
+  try {
+    return Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export const DailyGoalMetricSchema = z.enum(['exercises', 'minutes']);
+
+export const TimeZoneSchema = z.string().min(1).max(64).refine(isSupportedTimeZone, {
+  message: 'Unknown time zone',
+});
+
+export const UpdateDailyGoalRequestSchema = z.object({
+  metric: DailyGoalMetricSchema,
+  target: z.number().int().min(1).max(MAX_DAILY_GOAL_TARGET),
+  timeZone: TimeZoneSchema,
+});
+
+export const DailyGoalSchema = UpdateDailyGoalRequestSchema.extend({
+  // False while the learner still runs on the default goal
+  isCustom: z.boolean(),
+});
+
+export const DailyGoalProgressSchema = DailyGoalSchema.extend({
+  // Exercises answered or minutes practised today, in the goal's time zone
+  progress: z.number().int().nonnegative(),
+  isMet: z.boolean(),
+});
+
+export const ActivityDaySchema = z.object({
+  date: z.iso.date(),
+  exerciseCount: z.number().int().nonnegative(),
+  minutes: z.number().int().nonnegative(),
+});
+
+export const DailyGoalResponseSchema = z.object({
+  goal: DailyGoalSchema,
+});
+
+export type DailyGoalMetric = z.infer<typeof DailyGoalMetricSchema>;
+export type UpdateDailyGoalRequest = z.infer<typeof UpdateDailyGoalRequestSchema>;
+export type DailyGoal = z.infer<typeof DailyGoalSchema>;
+export type DailyGoalProgress = z.infer<typeof DailyGoalProgressSchema>;
+export type ActivityDay = z.infer<typeof ActivityDaySchema>;
@@ -0,0 +1,47 @@
+import * as z from 'zod';
+import { EvaluationItemResultSchema } from '@/validations/EvaluationSchemas';
+import { SubmitResponseSuccessSchema } from '@/validations/ResponseValidation';
+
+export const DialogueTurnSchema = z.discriminatedUnion('role', [
+  z.object({
+    role: z.literal('character'),
+    text: z.string().trim().min(1).max(500),
+  }),
+  z.object({
+    role: z.literal('learner'),
+    text: z.string().trim().min(1).max(1000),
+    result: EvaluationItemResultSchema,
+  }),
+]);
+
+export const DialogueSessionSchema = z.object({
+  id: z.uuid(),
+  exerciseId: z.uuid(),
+  status: z.enum(['active', 'completed']),
+  turns: z.array(DialogueTurnSchema).min(1),
+});
+
+export const DialogueTurnRequestSchema = z.object({
+  exerciseId: z.uuid(),
+  message: z.string().trim().min(1).max(1000),
+  // Number of turns the learner is replying to, so replies from a stale view are rejected
+  turnIndex: z.number().int().min(1),
+});
+
+export const DialogueSessionQuerySchema = z.object({
+  exerciseId: z.uuid(),
+});
+
+export const DialogueSessionResponseSchema = z.object({
+  session: DialogueSessionSchema.nullable(),
+});
+
+export const DialogueTurnSuccessSchema = z.object({
+  session: DialogueSessionSchema,
+  // Present once the final learner turn completes the session
+  completion: SubmitResponseSuccessSchema.nullable(),
+});
+
+export type DialogueTurn = z.infer<typeof DialogueTurnSchema>;
+export type DialogueSession = z.infer<typeof DialogueSessionSchema>;
+export type DialogueTurnSuccess = z.infer<typeof DialogueTurnSuccessSchema>;
@@ -1,4 +1,6 @@
 import * as z from 'zod';
+import { ActivityDaySchema, DailyGoalProgressSchema } from '@/validations/DailyGoalValidation';
+import { ExerciseTypeSchema } from '@/validations/ExerciseValidation';
 
 export const DocumentStatusSchema = z.enum([
   'uploading',
@@ -11,8 +13,53 @@ export const DocumentContentTypeSchema = z.enum([
   'pdf',
   'url',
   'text',
+  'docx',
+  'epub',
+  'markdown',
+  'html',
+  'srt',
+  'vtt',
 ]);
 
+export const DocumentFileContentTypeSchema = z.enum([
+  'pdf',
+  'docx',
+  'epub',
+  'markdown',
+  'html',
+  'srt',
+  'vtt',
+]);
+
+// Filename extensions accepted for each uploadable file type
+export const DOCUMENT_FILE_EXTENSIONS = {
+  pdf: ['.pdf'],
+  docx: ['.docx'],
+  epub: ['.epub'],
+  markdown: ['.md', '.markdown'],
+  html: ['.html', '.htm'],
+  srt: ['.srt'],
+  vtt: ['.vtt'],
+} as const satisfies Record<DocumentFileContentType, readonly string[]>;
+
+/**
+ * Resolves the document content type of an uploaded file from its extension.
+ * File contents are validated separately by each format's extractor.
+ * @param filename - Original upload filename
+ * @returns Matching file content type, or null when the extension is not supported
+ */
+export function getDocumentFileContentType(filename: string): DocumentFileContentType | null {
+  const normalizedName = filename.toLowerCase();
+
+  for (const contentType of DocumentFileContentTypeSchema.options) {
+    if (DOCUMENT_FILE_EXTENSIONS[contentType].some(extension => normalizedName.endsWith(extension))) {
+      return contentType;
+    }
+  }
+
+  return null;
+}
+
 export const UrlUploadSchema = z.object({
   type: z.literal('url'),
   url: z
@@ -49,6 +96,33 @@ export const DocumentListItemSchema = z.object({
   processedAt: z.iso.datetime().nullable(),
 });
 
+export const DocumentPassageExerciseSchema = z.object({
+  id: z.uuid(),
+  type: ExerciseTypeSchema,
+  question: z.string().trim().min(1),
+  timesAttempted: z.number().int().nonnegative(),
+  averageScore: z.number().int().min(0).max(100).nullable(),
+  latestScore: z.number().int().min(0).max(100).nullable(),
+});
+
+export const DocumentPassageSchema = z.object({
+  id: z.uuid(),
+  position: z.number().int().nonnegative(),
+  content: z.string(),
+  startPage: z.number().int().positive().nullable(),
+  endPage: z.number().int().positive().nullable(),
+  startMs: z.number().int().nonnegative().nullable(),
+  endMs: z.number().int().nonnegative().nullable(),
+  // Offsets into the extracted document text; null for chunks stored before they were recorded
+  startChar: z.number().int().nonnegative().nullable(),
+  endChar: z.number().int().nonnegative().nullable(),
+  exercises: z.array(DocumentPassageExerciseSchema),
+});
+
+export const DocumentDetailSchema = DocumentListItemSchema.extend({
+  passages: z.array(DocumentPassageSchema),
+});
+
 export const DashboardSummarySchema = z.object({
   documentCounts: z.object({
     total: z.number().int().nonnegative(),
@@ -59,10 +133,18 @@ export const DashboardSummarySchema = z.object({
   }),
   activeGenerationJobsCount: z.number().int().nonnegative(),
   recentAverageScore: z.number().int().min(0).max(100).nullable(),
+  dailyGoal: DailyGoalProgressSchema,
+  // Consecutive days the daily goal was met, through yesterday if today's goal is still open
+  currentStreak: z.number().int().nonnegative(),
+  // Last 365 days in the goal's time zone, oldest first
+  activityCalendar: z.array(ActivityDaySchema),
 });
 
+export type DocumentFileContentType = z.infer<typeof DocumentFileContentTypeSchema>;
 export type UrlUpload = z.infer<typeof UrlUploadSchema>;
 export type TextUpload = z.infer<typeof TextUploadSchema>;
 export type DocumentUpload = z.infer<typeof DocumentUploadSchema>;
 export type DocumentListItem = z.infer<typeof DocumentListItemSchema>;
+export type DocumentPassage = z.infer<typeof DocumentPassageSchema>;
+export type DocumentDetail = z.infer<typeof DocumentDetailSchema>;
 export type DashboardSummary = z.infer<typeof DashboardSummarySchema>;
@@ -6,3 +6,57 @@ export const EvaluationRubricSchema = z.object({
   fluency: z.number().int().min(0).max(20),
   bonus: z.number().int().min(0).max(10),
 });
+
+// Result for one sub-question of a multi-question exercise
+export const EvaluationItemResultSchema = z.object({
+  score: z.number().int().min(0).max(100),
+  rubric: EvaluationRubricSchema,
+  feedback: z.string().trim().min(1).max(500),
+  evaluationMethod: z.enum(['deterministic', 'llm']),
+});
+
+export type EvaluationItemResult = z.infer<typeof EvaluationItemResultSchema>;
+
+export const writingAnnotationCategoryValues = ['agreement', 'tense', 'preposition', 'spelling', 'register'] as const;
+
+// One problem in a written composition, anchored to [start, end) of the submitted text
+export const WritingAnnotationSchema = z.object({
+  start: z.number().int().min(0),
+  end: z.number().int().min(1),
+  category: z.enum(writingAnnotationCategoryValues),
+  original: z.string().min(1).max(200),
+  suggestion: z.string().trim().min(1).max(200),
+  explanation: z.string().trim().min(1).max(300),
+});
+
+export const AnnotatedTextSchema = z.object({
+  text: z.string().min(1).max(4000),
+  annotations: z.array(WritingAnnotationSchema).max(30),
+}).superRefine((value, context) => {
+  let previousEnd = 0;
+
+  value.annotations.forEach((annotation, index) => {
+    if (
+      annotation.end <= annotation.start
+      || annotation.end > value.text.length
+      || value.text.slice(annotation.start, annotation.end) !== annotation.original
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Annotation offsets must match the submitted text',
+        path: ['annotations', index],
+      });
+    } else if (annotation.start < previousEnd) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Annotations must be sorted and must not overlap',
+        path: ['annotations', index],
+      });
+    }
+
+    previousEnd = Math.max(previousEnd, annotation.end);
+  });
+});
+
+export type WritingAnnotation = z.infer<typeof WritingAnnotationSchema>;
+export type AnnotatedText = z.infer<typeof AnnotatedTextSchema>;
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   GeneratedExercisesResponseSchema,
   GenerateExercisesRequestSchema,
+  getRequestedTypeCounts,
 } from './ExerciseValidation';
 
 describe('GenerateExercisesRequestSchema', () => {
@@ -27,6 +28,138 @@ describe('GenerateExercisesRequestSchema', () => {
 
     expect(result.success).toBe(false);
   });
+
+  it('parses a mixed-type request whose counts add up', () => {
+    const result = GenerateExercisesRequestSchema.safeParse({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      typeCounts: {
+        multiple_choice: 4,
+        fill_gap: 3,
+        single_answer: 1,
+      },
+      count: 8,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects mixed-type counts that do not add up to count', () => {
+    const result = GenerateExercisesRequestSchema.safeParse({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      typeCounts: {
+        multiple_choice: 4,
+        fill_gap: 3,
+      },
+      count: 8,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['typeCounts'],
+        }),
+      ]),
+    );
+  });
+
+  it('requires exactly one of exerciseType and typeCounts', () => {
+    const neither = GenerateExercisesRequestSchema.safeParse({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      count: 2,
+    });
+    const both = GenerateExercisesRequestSchema.safeParse({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      exerciseType: 'fill_gap',
+      typeCounts: { fill_gap: 2 },
+      count: 2,
+    });
+
+    expect(neither.success).toBe(false);
+    expect(both.success).toBe(false);
+  });
+
+  it('parses a chunk range passage for its document', () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440000';
+    const result = GenerateExercisesRequestSchema.safeParse({
+      documentIds: [documentId],
+      exerciseType: 'fill_gap',
+      count: 2,
+      passage: {
+        kind: 'chunk_range',
+        documentId,
+        startPosition: 3,
+        endPosition: 5,
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a passage outside the requested documents', () => {
+    const result = GenerateExercisesRequestSchema.safeParse({
+      documentIds: ['550e8400-e29b-41d4-a716-446655440000'],
+      exerciseType: 'fill_gap',
+      count: 2,
+      passage: {
+        kind: 'character_span',
+        documentId: '550e8400-e29b-41d4-a716-446655440001',
+        startChar: 0,
+        endChar: 120,
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['passage', 'documentId'],
+        }),
+      ]),
+    );
+  });
+
+  it('rejects inverted and oversized passage ranges', () => {
+    const documentId = '550e8400-e29b-41d4-a716-446655440000';
+    const inverted = GenerateExercisesRequestSchema.safeParse({
+      documentIds: [documentId],
+      exerciseType: 'fill_gap',
+      count: 1,
+      passage: {
+        kind: 'character_span',
+        documentId,
+        startChar: 50,
+        endChar: 50,
+      },
+    });
+    const oversized = GenerateExercisesRequestSchema.safeParse({
+      documentIds: [documentId],
+      exerciseType: 'fill_gap',
+      count: 1,
+      passage: {
+        kind: 'chunk_range',
+        documentId,
+        startPosition: 0,
+        endPosition: 30,
+      },
+    });
+
+    expect(inverted.success).toBe(false);
+    expect(oversized.success).toBe(false);
+  });
+});
+
+describe('getRequestedTypeCounts', () => {
+  it('maps a single-type request to its count', () => {
+    expect(getRequestedTypeCounts({ exerciseType: 'fill_gap', count: 5 })).toEqual({ fill_gap: 5 });
+  });
+
+  it('drops empty types from a mixed request', () => {
+    expect(getRequestedTypeCounts({
+      typeCounts: { single_answer: 1, multiple_choice: 2, fill_gap: 0 },
+      count: 3,
+    })).toEqual({ multiple_choice: 2, single_answer: 1 });
+  });
 });
 
 describe('GeneratedExercisesResponseSchema', () => {
@@ -197,4 +330,161 @@ describe('GeneratedExercisesResponseSchema', () => {
       ]),
     );
   });
+
+  it('parses matching payload', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'matching',
+        question: 'Abbina ogni parola alla sua traduzione.',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          pairs: [
+            { term: 'il mercato', match: 'the market' },
+            { term: 'la piazza', match: 'the square' },
+            { term: 'il ponte', match: 'the bridge' },
+            { term: 'la chiesa', match: 'the church' },
+          ],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects matching payload with duplicate matches', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'matching',
+        question: 'Abbina ogni parola alla sua traduzione.',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          pairs: [
+            { term: 'il mercato', match: 'the market' },
+            { term: 'la piazza', match: 'the square' },
+            { term: 'il ponte', match: 'the bridge' },
+            { term: 'la chiesa', match: 'the market' },
+          ],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['exercises', 0, 'exerciseData.pairs.match'],
+        }),
+      ]),
+    );
+  });
+
+  it('rejects word-order payload whose accepted orders use other tokens', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'word_order',
+        question: 'Metti le parole nell ordine corretto.',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          tokens: ['Non', 'glielo', 'ho', 'ancora', 'detto'],
+          acceptedOrders: [['Non', 'gliel', 'ho', 'ancora', 'detto']],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['exercises', 0, 'exerciseData', 'acceptedOrders', 0],
+        }),
+      ]),
+    );
+  });
+
+  it('rejects error-correction payload whose error span is not in the question', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'error_correction',
+        question: 'Ieri ho andato al mercato.',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          correctedSentence: 'Ieri sono andato al mercato.',
+          errors: [{ incorrect: 'sono andato', correction: 'sono andato' }],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['exercises', 0, 'exerciseData', 'errors', 0, 'incorrect'],
+        }),
+      ]),
+    );
+  });
+
+  it('rejects error-correction payload whose error only differs in punctuation', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'error_correction',
+        question: 'Ciao Marco come stai?',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          correctedSentence: 'Ciao Marco, come stai?',
+          errors: [{ incorrect: 'Marco come', correction: 'Marco, come' }],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['exercises', 0, 'exerciseData', 'errors', 0, 'correction'],
+        }),
+      ]),
+    );
+  });
+
+  it('rejects cloze payload whose placeholders do not match the gaps', () => {
+    const result = GeneratedExercisesResponseSchema.safeParse({
+      exercises: [{
+        type: 'cloze',
+        question: 'Completa il testo.',
+        sourceReferences: [{
+          documentId: '550e8400-e29b-41d4-a716-446655440000',
+          chunkPosition: 0,
+        }],
+        exerciseData: {
+          text: 'Ieri Marta ___2 al mercato e ___1 comprato le fragole.',
+          gaps: [{ answer: 'è andata' }, { answer: 'ha' }],
+        },
+      }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['exercises', 0, 'exerciseData', 'text'],
+        }),
+      ]),
+    );
+  });
 });
@@ -1,11 +1,20 @@
 import * as z from 'zod';
+import { normalizeAccentedText } from '@/validations/AnswerTextNormalization';
+import { GrammarTopicSchema } from '@/validations/GrammarTopicValidation';
 import { validateUniqueStrings } from '@/validations/UniqueStringValidation';
+import { PartOfSpeechSchema } from '@/validations/VocabularyValidation';
 
-const exerciseTypeValues = ['multiple_choice', 'fill_gap', 'single_answer'] as const;
+const exerciseTypeValues = ['multiple_choice', 'fill_gap', 'single_answer', 'matching', 'word_order', 'error_correction', 'translation', 'reading_comprehension', 'cloze', 'conjugation', 'dialogue', 'writing', 'vocabulary'] as const;
+const translationDirectionValues = ['it_to_en', 'en_to_it'] as const;
 const difficultyValues = ['beginner', 'intermediate', 'advanced'] as const;
+const conjugationTenseValues = ['presente', 'imperfetto', 'passato_prossimo', 'futuro_semplice', 'condizionale_presente', 'congiuntivo_presente', 'congiuntivo_imperfetto'] as const;
+const conjugationPersonValues = ['io', 'tu', 'lui/lei', 'noi', 'voi', 'loro'] as const;
 
-const ExerciseTypeSchema = z.enum(exerciseTypeValues);
+export const ExerciseTypeSchema = z.enum(exerciseTypeValues);
 const DifficultySchema = z.enum(difficultyValues);
+const TranslationDirectionSchema = z.enum(translationDirectionValues);
+const ConjugationTenseSchema = z.enum(conjugationTenseValues);
+const ConjugationPersonSchema = z.enum(conjugationPersonValues);
 const SourceReferenceSchema = z.object({
   documentId: z.uuid(),
   chunkPosition: z.number().int().min(0),
@@ -29,12 +38,98 @@ const SourceReferencesSchema = z.array(SourceReferenceSchema).min(1).max(3).supe
   }
 });
 
+export const MAX_PASSAGE_CHUNKS = 30;
+
+const ChunkRangePassageSchema = z.object({
+  kind: z.literal('chunk_range'),
+  documentId: z.uuid(),
+  startPosition: z.number().int().min(0),
+  endPosition: z.number().int().min(0),
+}).superRefine((value, context) => {
+  if (value.endPosition < value.startPosition) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'endPosition must not be before startPosition',
+      path: ['endPosition'],
+    });
+    return;
+  }
+
+  if (value.endPosition - value.startPosition + 1 > MAX_PASSAGE_CHUNKS) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `passage must span at most ${MAX_PASSAGE_CHUNKS} chunks`,
+      path: ['endPosition'],
+    });
+  }
+});
+
+const CharacterSpanPassageSchema = z.object({
+  kind: z.literal('character_span'),
+  documentId: z.uuid(),
+  startChar: z.number().int().min(0),
+  endChar: z.number().int().min(1),
+}).superRefine((value, context) => {
+  if (value.endChar <= value.startChar) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'endChar must be after startChar',
+      path: ['endChar'],
+    });
+  }
+});
+
+export const GenerationPassageSchema = z.discriminatedUnion('kind', [
+  ChunkRangePassageSchema,
+  CharacterSpanPassageSchema,
+]);
+
+export const ExerciseTypeCountsSchema = z.partialRecord(
+  ExerciseTypeSchema,
+  z.number().int().min(0).max(20),
+);
+
+export const GenerationTypeProgressSchema = z.partialRecord(
+  ExerciseTypeSchema,
+  z.object({
+    requested: z.number().int().min(1).max(20),
+    generated: z.number().int().min(0),
+    failed: z.number().int().min(0),
+  }),
+);
+
+function refineRequestedTypes(
+  value: { exerciseType?: ExerciseType; typeCounts?: ExerciseTypeCounts; count: number },
+  context: z.RefinementCtx,
+) {
+  if (Boolean(value.exerciseType) === Boolean(value.typeCounts)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide either exerciseType or typeCounts',
+      path: ['exerciseType'],
+    });
+  }
+
+  if (value.typeCounts) {
+    const total = Object.values(value.typeCounts).reduce((sum, typeCount) => sum + typeCount, 0);
+    if (total !== value.count) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'typeCounts must add up to count',
+        path: ['typeCounts'],
+      });
+    }
+  }
+}
+
 export const GenerateExercisesRequestSchema = z.object({
   documentIds: z.array(z.uuid()).min(1).max(10),
-  exerciseType: ExerciseTypeSchema,
+  exerciseType: ExerciseTypeSchema.optional(),
+  typeCounts: ExerciseTypeCountsSchema.optional(),
   count: z.number().int().min(1).max(20),
   difficulty: DifficultySchema.optional(),
   topicFocus: z.string().min(1).max(120).optional(),
+  passage: GenerationPassageSchema.optional(),
 }).superRefine((value, context) => {
   if (new Set(value.documentIds).size !== value.documentIds.length) {
     context.addIssue({
@@ -43,12 +138,40 @@ export const GenerateExercisesRequestSchema = z.object({
       path: ['documentIds'],
     });
   }
+
+  refineRequestedTypes(value, context);
+
+  if (value.passage && (value.documentIds.length !== 1 || value.documentIds[0] !== value.passage.documentId)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'documentIds must contain only the passage document',
+      path: ['passage', 'documentId'],
+    });
+  }
+});
+
+// Targets the learner's recent low-scoring answers instead of selected documents
+export const PracticeMistakesRequestSchema = z.object({
+  mode: z.literal('mistakes'),
+  exerciseType: ExerciseTypeSchema.optional(),
+  typeCounts: ExerciseTypeCountsSchema.optional(),
+  count: z.number().int().min(1).max(20),
+  difficulty: DifficultySchema.optional(),
+}).superRefine(refineRequestedTypes);
+
+// Weaknesses a mistake-practice job targets, captured when the job is queued
+export const MistakeFocusSchema = z.object({
+  // Source chunks of the low-scoring exercises, used to seed retrieval
+  chunkIds: z.array(z.uuid()).max(50),
+  reviewTopics: z.array(z.string().trim().min(1).max(120)).max(20),
+  corrections: z.array(z.string().trim().min(1).max(200)).max(20),
 });
 
 const BaseGeneratedExerciseSchema = z.object({
   type: ExerciseTypeSchema,
   question: z.string().min(1).max(1000),
   sourceReferences: SourceReferencesSchema,
+  grammarTopic: GrammarTopicSchema.optional(),
 });
 
 const GeneratedMultipleChoiceExerciseSchema = BaseGeneratedExerciseSchema.extend({
@@ -95,15 +218,259 @@ const GeneratedSingleAnswerExerciseSchema = BaseGeneratedExerciseSchema.extend({
   }),
 });
 
+const GeneratedMatchingExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('matching'),
+  exerciseData: z.object({
+    pairs: z.array(z.object({
+      term: z.string().min(1).max(200),
+      match: z.string().min(1).max(200),
+    })).min(4).max(8),
+    explanation: z.string().min(1).optional(),
+  }),
+}).superRefine((value, context) => {
+  validateUniqueStrings(value.exerciseData.pairs.map(pair => pair.term), context, 'exerciseData.pairs.term');
+  validateUniqueStrings(value.exerciseData.pairs.map(pair => pair.match), context, 'exerciseData.pairs.match');
+});
+
+const GeneratedWordOrderExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('word_order'),
+  exerciseData: z.object({
+    tokens: z.array(z.string().trim().min(1).max(60)).min(3).max(15),
+    acceptedOrders: z.array(z.array(z.string().trim().min(1).max(60)).min(3).max(15)).max(5).optional(),
+    explanation: z.string().min(1).optional(),
+  }),
+}).superRefine((value, context) => {
+  const sortedTokens = [...value.exerciseData.tokens].sort();
+
+  value.exerciseData.acceptedOrders?.forEach((order, index) => {
+    const sortedOrder = [...order].sort();
+    if (
+      sortedOrder.length !== sortedTokens.length
+      || sortedOrder.some((token, tokenIndex) => token !== sortedTokens[tokenIndex])
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'acceptedOrders must rearrange exactly the same tokens',
+        path: ['exerciseData', 'acceptedOrders', index],
+      });
+    }
+  });
+});
+
+const GeneratedErrorCorrectionExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('error_correction'),
+  exerciseData: z.object({
+    correctedSentence: z.string().trim().min(1).max(1000),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(1000)).min(1).max(5).optional(),
+    errors: z.array(z.object({
+      incorrect: z.string().trim().min(1).max(200),
+      correction: z.string().trim().min(1).max(200),
+      explanation: z.string().min(1).max(300).optional(),
+    })).min(1).max(5),
+  }),
+}).superRefine((value, context) => {
+  if (value.question.trim() === value.exerciseData.correctedSentence) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'correctedSentence must differ from the question',
+      path: ['exerciseData', 'correctedSentence'],
+    });
+  }
+
+  value.exerciseData.errors.forEach((error, index) => {
+    if (!value.question.includes(error.incorrect)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'incorrect must quote a span of the question',
+        path: ['exerciseData', 'errors', index, 'incorrect'],
+      });
+    }
+
+    if (!value.exerciseData.correctedSentence.includes(error.correction)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'correction must quote a span of correctedSentence',
+        path: ['exerciseData', 'errors', index, 'correction'],
+      });
+    }
+
+    // The grader compares normalized text, so such an error could never be seen as fixed
+    if (normalizeAccentedText(error.incorrect) === normalizeAccentedText(error.correction)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'correction must differ from incorrect after normalization',
+        path: ['exerciseData', 'errors', index, 'correction'],
+      });
+    }
+  });
+});
+
+const GeneratedTranslationExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('translation'),
+  exerciseData: z.object({
+    direction: TranslationDirectionSchema,
+    referenceTranslations: z.array(z.string().trim().min(1).max(1000)).min(1).max(5),
+  }),
+}).superRefine((value, context) => {
+  validateUniqueStrings(value.exerciseData.referenceTranslations, context, 'exerciseData.referenceTranslations');
+});
+
+const GeneratedComprehensionItemSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('true_false'),
+    statement: z.string().trim().min(1).max(500),
+    answer: z.boolean(),
+    explanation: z.string().min(1).max(300).optional(),
+  }),
+  z.object({
+    kind: z.literal('multiple_choice'),
+    question: z.string().trim().min(1).max(500),
+    options: z.array(z.string().trim().min(1).max(200)).length(4),
+    correctIndex: z.number().int().min(0).max(3),
+    explanation: z.string().min(1).max(300).optional(),
+  }).superRefine((value, context) => {
+    validateUniqueStrings(value.options, context, 'options');
+  }),
+  z.object({
+    kind: z.literal('short_answer'),
+    question: z.string().trim().min(1).max(500),
+    sampleAnswer: z.string().trim().min(1).max(500),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(500)).min(1).max(5).optional(),
+  }),
+]);
+
+const GeneratedReadingComprehensionExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('reading_comprehension'),
+  exerciseData: z.object({
+    passage: z.string().trim().min(1).max(4000),
+    items: z.array(GeneratedComprehensionItemSchema).min(3).max(6),
+  }),
+});
+
+const GeneratedClozeExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('cloze'),
+  exerciseData: z.object({
+    text: z.string().trim().min(1).max(3000),
+    gaps: z.array(z.object({
+      answer: z.string().trim().min(1).max(200),
+      acceptedAnswers: z.array(z.string().trim().min(1).max(200)).min(1).max(5).optional(),
+      hint: z.string().trim().min(1).max(200).optional(),
+    })).min(2).max(8),
+  }),
+}).superRefine((value, context) => {
+  const gapNumbers = [...value.exerciseData.text.matchAll(/___(\d+)/g)].map(match => Number(match[1]));
+  const isNumberedInOrder = gapNumbers.length === value.exerciseData.gaps.length
+    && gapNumbers.every((gapNumber, index) => gapNumber === index + 1);
+
+  if (!isNumberedInOrder) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'text must contain placeholders ___1 to ___N once each, in order, one per gap',
+      path: ['exerciseData', 'text'],
+    });
+  }
+});
+
+const GeneratedConjugationExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('conjugation'),
+  exerciseData: z.object({
+    infinitive: z.string().trim().min(2).max(40),
+    tense: ConjugationTenseSchema,
+    person: ConjugationPersonSchema,
+    answer: z.string().trim().min(1).max(80),
+    acceptedAnswers: z.array(z.string().trim().min(1).max(80)).min(1).max(5).optional(),
+  }),
+});
+
+const GeneratedDialogueExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('dialogue'),
+  exerciseData: z.object({
+    character: z.string().trim().min(1).max(80),
+    learnerRole: z.string().trim().min(1).max(80),
+    openingLine: z.string().trim().min(1).max(500),
+    goals: z.array(z.string().trim().min(1).max(200)).min(1).max(4),
+    turnCount: z.number().int().min(3).max(6),
+  }),
+});
+
+const GeneratedWritingExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('writing'),
+  exerciseData: z.object({
+    minWords: z.number().int().min(100).max(400),
+    maxWords: z.number().int().min(100).max(400),
+    register: z.enum(['informal', 'formal']),
+    gradingCriteria: z.array(z.string().trim().min(1).max(200)).min(1).max(5),
+  }),
+}).superRefine((value, context) => {
+  if (value.exerciseData.minWords > value.exerciseData.maxWords) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'exerciseData.minWords must not exceed exerciseData.maxWords',
+      path: ['exerciseData.minWords'],
+    });
+  }
+});
+
+const GeneratedVocabularyExerciseSchema = BaseGeneratedExerciseSchema.extend({
+  type: z.literal('vocabulary'),
+  exerciseData: z.object({
+    vocabularyItemId: z.uuid(),
+    lemma: z.string().trim().min(1).max(60),
+    partOfSpeech: PartOfSpeechSchema,
+    gloss: z.string().trim().min(1).max(120),
+    exampleSentence: z.string().trim().min(1).max(300),
+  }),
+});
+
 export const GeneratedExerciseSchema = z.discriminatedUnion('type', [
   GeneratedMultipleChoiceExerciseSchema,
   GeneratedFillGapExerciseSchema,
   GeneratedSingleAnswerExerciseSchema,
+  GeneratedMatchingExerciseSchema,
+  GeneratedWordOrderExerciseSchema,
+  GeneratedErrorCorrectionExerciseSchema,
+  GeneratedTranslationExerciseSchema,
+  GeneratedReadingComprehensionExerciseSchema,
+  GeneratedClozeExerciseSchema,
+  GeneratedConjugationExerciseSchema,
+  GeneratedDialogueExerciseSchema,
+  GeneratedWritingExerciseSchema,
+  GeneratedVocabularyExerciseSchema,
 ]);
 
 export const GeneratedExercisesResponseSchema = z.object({
   exercises: z.array(GeneratedExerciseSchema).min(1).max(20),
 });
 
+/**
+ * Resolves the per-type exercise counts requested by a generation request.
+ * @param request - Single-type or mixed-type generation request.
+ * @returns Requested count per exercise type, omitting types with no exercises.
+ */
+export function getRequestedTypeCounts(
+  request: Pick<GenerateExercisesRequest, 'exerciseType' | 'typeCounts' | 'count'>,
+): ExerciseTypeCounts {
+  if (request.exerciseType) {
+    return { [request.exerciseType]: request.count };
+  }
+
+  return Object.fromEntries(
+    exerciseTypeValues.flatMap((type) => {
+      const typeCount = request.typeCounts?.[type] ?? 0;
+      return typeCount > 0 ? [[type, typeCount]] : [];
+    }),
+  );
+}
+
+export type ExerciseType = z.infer<typeof ExerciseTypeSchema>;
+export type Difficulty = z.infer<typeof DifficultySchema>;
+export type TranslationDirection = z.infer<typeof TranslationDirectionSchema>;
+export type ConjugationTense = z.infer<typeof ConjugationTenseSchema>;
+export type ConjugationPerson = z.infer<typeof ConjugationPersonSchema>;
+export type ExerciseTypeCounts = z.infer<typeof ExerciseTypeCountsSchema>;
+export type GenerationTypeProgress = z.infer<typeof GenerationTypeProgressSchema>;
 export type GenerateExercisesRequest = z.infer<typeof GenerateExercisesRequestSchema>;
+export type PracticeMistakesRequest = z.infer<typeof PracticeMistakesRequestSchema>;
+export type MistakeFocus = z.infer<typeof MistakeFocusSchema>;
+export type GenerationPassage = z.infer<typeof GenerationPassageSchema>;
 export type GeneratedExercise = z.infer<typeof GeneratedExerciseSchema>;
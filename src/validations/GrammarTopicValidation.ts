@@ -0,0 +1,54 @@
+import * as z from 'zod';
+
+export const grammarTopicValues = [
+  'articoli',
+  'genere_e_numero',
+  'accordo_aggettivi',
+  'presente_indicativo',
+  'preposizioni_semplici',
+  'possessivi',
+  'preposizioni_articolate',
+  'verbi_riflessivi',
+  'passato_prossimo',
+  'imperfetto',
+  'futuro_semplice',
+  'pronomi_diretti',
+  'pronomi_indiretti',
+  'comparativi_e_superlativi',
+  'particelle_ci_e_ne',
+  'imperativo',
+  'condizionale_presente',
+  'congiuntivo_presente',
+  'pronomi_combinati',
+  'pronomi_relativi',
+  'trapassato_prossimo',
+  'congiuntivo_imperfetto',
+  'congiuntivo_passato',
+  'periodo_ipotetico',
+  'passato_remoto',
+  'forma_passiva',
+  'discorso_indiretto',
+  'concordanza_dei_tempi',
+  'gerundio_e_participio',
+] as const;
+const cefrLevelValues = ['A1', 'A2', 'B1', 'B2', 'C1'] as const;
+
+export const GrammarTopicSchema = z.enum(grammarTopicValues);
+export const CefrLevelSchema = z.enum(cefrLevelValues);
+
+const TopicMasteryItemSchema = z.object({
+  topic: GrammarTopicSchema,
+  label: z.string().min(1),
+  cefrLevel: CefrLevelSchema,
+  mastery: z.number().int().min(0).max(100).nullable(),
+  attemptCount: z.number().int().nonnegative(),
+  lastPracticedAt: z.iso.datetime().nullable(),
+});
+
+export const TopicMasteryResponseSchema = z.object({
+  topics: z.array(TopicMasteryItemSchema).length(grammarTopicValues.length),
+});
+
+export type GrammarTopic = z.infer<typeof GrammarTopicSchema>;
+export type CefrLevel = z.infer<typeof CefrLevelSchema>;
+export type TopicMasteryItem = z.infer<typeof TopicMasteryItemSchema>;
@@ -0,0 +1,54 @@
+import * as z from 'zod';
+import { CefrLevelSchema } from '@/validations/GrammarTopicValidation';
+
+export const PlacementAnswerSchema = z.object({
+  itemId: z.string().min(1),
+  selectedIndex: z.number().int().min(0).max(3),
+  correct: z.boolean(),
+});
+
+const PlacementItemViewSchema = z.object({
+  id: z.string().min(1),
+  prompt: z.string().min(1),
+  options: z.array(z.string().min(1)).length(4),
+});
+
+const PlacementResultSchema = z.object({
+  cefrLevel: CefrLevelSchema,
+  // Rasch ability estimate in logits and its posterior standard deviation
+  ability: z.number(),
+  standardError: z.number().nonnegative(),
+  itemCount: z.number().int().positive(),
+  completedAt: z.iso.datetime(),
+});
+
+const PlacementTestSchema = z.object({
+  id: z.uuid(),
+  status: z.enum(['active', 'completed']),
+  answeredCount: z.number().int().nonnegative(),
+  maxItems: z.number().int().positive(),
+  // Next item to answer while the test is active
+  currentItem: PlacementItemViewSchema.nullable(),
+  result: PlacementResultSchema.nullable(),
+});
+
+export const PlacementAnswerRequestSchema = z.object({
+  testId: z.uuid(),
+  // Item the learner is answering, so answers from a stale view are rejected
+  itemId: z.string().min(1),
+  selectedIndex: z.number().int().min(0).max(3),
+});
+
+export const PlacementStateResponseSchema = z.object({
+  test: PlacementTestSchema.nullable(),
+  latestResult: PlacementResultSchema.nullable(),
+});
+
+export const PlacementTestResponseSchema = z.object({
+  test: PlacementTestSchema,
+});
+
+export type PlacementAnswer = z.infer<typeof PlacementAnswerSchema>;
+export type PlacementItemView = z.infer<typeof PlacementItemViewSchema>;
+export type PlacementResult = z.infer<typeof PlacementResultSchema>;
+export type PlacementTest = z.infer<typeof PlacementTestSchema>;
@@ -0,0 +1,80 @@
+import * as z from 'zod';
+import { EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { ExerciseTypeSchema } from '@/validations/ExerciseValidation';
+import { ExerciseCardSchema } from '@/validations/ResponseValidation';
+
+export const MAX_PRACTICE_SESSION_EXERCISES = 20;
+
+export const CreatePracticeSessionRequestSchema = z.object({
+  // Exercises to practise in this order; when omitted the session is auto-picked
+  exerciseIds: z.array(z.uuid()).min(1).max(MAX_PRACTICE_SESSION_EXERCISES).optional(),
+  count: z.number().int().min(1).max(MAX_PRACTICE_SESSION_EXERCISES).default(10),
+  timeLimitSeconds: z.number().int().min(60).max(3600).optional(),
+}).superRefine((value, context) => {
+  if (value.exerciseIds && new Set(value.exerciseIds).size !== value.exerciseIds.length) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'exerciseIds must be unique',
+      path: ['exerciseIds'],
+    });
+  }
+});
+
+const PracticeSessionItemSummarySchema = z.object({
+  exerciseId: z.uuid(),
+  exerciseType: ExerciseTypeSchema,
+  question: z.string().min(1),
+  // Null when the item was left unanswered
+  score: z.number().int().min(0).max(100).nullable(),
+  responseTimeMs: z.number().int().nonnegative().nullable(),
+});
+
+const PracticeSessionSummarySchema = z.object({
+  // Unanswered items count as zero
+  score: z.number().int().min(0).max(100),
+  answeredCount: z.number().int().nonnegative(),
+  itemCount: z.number().int().nonnegative(),
+  totalResponseTimeMs: z.number().int().nonnegative(),
+  elapsedMs: z.number().int().nonnegative(),
+  // Average of each rubric dimension over answered items
+  rubric: EvaluationRubricSchema.nullable(),
+  items: z.array(PracticeSessionItemSummarySchema).max(MAX_PRACTICE_SESSION_EXERCISES),
+});
+
+const PracticeSessionSchema = z.object({
+  id: z.uuid(),
+  status: z.enum(['active', 'completed']),
+  timeLimitSeconds: z.number().int().positive().nullable(),
+  startedAt: z.iso.datetime(),
+  // Moment the time limit runs out, when the session is timed
+  deadlineAt: z.iso.datetime().nullable(),
+  completedAt: z.iso.datetime().nullable(),
+});
+
+const PracticeSessionListItemSchema = PracticeSessionSchema.extend({
+  itemCount: z.number().int().nonnegative(),
+  answeredCount: z.number().int().nonnegative(),
+  score: z.number().int().min(0).max(100).nullable(),
+});
+
+export const PracticeSessionDetailResponseSchema = z.object({
+  session: PracticeSessionSchema,
+  // Each card's latest response is the one given in this session, if any
+  exercises: z.array(ExerciseCardSchema).max(MAX_PRACTICE_SESSION_EXERCISES),
+  summary: PracticeSessionSummarySchema,
+});
+
+export const PracticeSessionCreatedResponseSchema = z.object({
+  session: PracticeSessionSchema,
+});
+
+export const PracticeSessionListResponseSchema = z.object({
+  sessions: z.array(PracticeSessionListItemSchema).max(50),
+});
+
+export type CreatePracticeSessionRequest = z.infer<typeof CreatePracticeSessionRequestSchema>;
+export type PracticeSessionItemSummary = z.infer<typeof PracticeSessionItemSummarySchema>;
+export type PracticeSessionSummary = z.infer<typeof PracticeSessionSummarySchema>;
+export type PracticeSession = z.infer<typeof PracticeSessionSchema>;
+export type PracticeSessionListItem = z.infer<typeof PracticeSessionListItemSchema>;
+export type PracticeSessionDetail = z.infer<typeof PracticeSessionDetailResponseSchema>;
@@ -26,6 +26,18 @@ describe('SubmitResponseRequestSchema', () => {
 
     expect(result.success).toBe(false);
   });
+
+  it('parses reading-comprehension sub-answers', () => {
+    const result = SubmitResponseRequestSchema.safeParse({
+      exerciseId: '550e8400-e29b-41d4-a716-446655440000',
+      answer: {
+        subAnswers: [false, 0, 'Al bar della piazza'],
+      },
+      clientSubmissionId: '550e8400-e29b-41d4-a716-446655440001',
+    });
+
+    expect(result.success).toBe(true);
+  });
 });
 
 describe('EvaluationResultSchema', () => {
@@ -45,6 +57,41 @@ describe('EvaluationResultSchema', () => {
 
     expect(result.success).toBe(true);
   });
+
+  it('rejects writing annotations whose offsets do not match the text', () => {
+    const result = EvaluationResultSchema.safeParse({
+      score: 70,
+      rubric: {
+        accuracy: 30,
+        grammar: 18,
+        fluency: 14,
+        bonus: 8,
+      },
+      overallFeedback: 'Good structure, some agreement errors.',
+      suggestedReview: ['agreement'],
+      annotatedText: {
+        text: 'Le ragazze sono andato al mare.',
+        annotations: [{
+          start: 0,
+          end: 6,
+          category: 'agreement',
+          original: 'andato',
+          suggestion: 'andate',
+          explanation: 'The participle agrees with a feminine plural subject.',
+        }],
+      },
+      evaluationMethod: 'llm',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          path: ['annotatedText', 'annotations', 0],
+        }),
+      ]),
+    );
+  });
 });
 
 describe('ExerciseCardSchema', () => {
@@ -1,5 +1,6 @@
 import * as z from 'zod';
-import { EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { AnnotatedTextSchema, EvaluationItemResultSchema, EvaluationRubricSchema } from '@/validations/EvaluationSchemas';
+import { ExerciseTypeSchema } from '@/validations/ExerciseValidation';
 import { validateUniqueStrings } from '@/validations/UniqueStringValidation';
 
 const difficultyValues = ['beginner', 'intermediate', 'advanced'] as const;
@@ -10,9 +11,29 @@ const EvaluationMethodSchema = z.enum(evaluationMethodValues);
 
 const TextAnswerSchema = z.string().trim().min(1).max(2000);
 const MultipleChoiceAnswerSchema = z.number().int().min(0).max(3);
+// Chosen match for each term, in the card's term order
+const MatchingAnswerSchema = z.array(z.string().trim().min(1).max(200)).min(4).max(8);
+// Tokens in the order the learner arranged them
+const WordOrderAnswerSchema = z.array(z.string().trim().min(1).max(60)).min(3).max(15);
+// One answer per reading-comprehension item, in item order
+const ReadingComprehensionAnswerSchema = z.object({
+  subAnswers: z.array(z.union([
+    z.boolean(),
+    MultipleChoiceAnswerSchema,
+    z.string().trim().min(1).max(500),
+  ])).min(3).max(6),
+});
+// One answer per cloze gap, in gap order
+const ClozeAnswerSchema = z.object({
+  gapAnswers: z.array(z.string().trim().min(1).max(200)).min(2).max(8),
+});
+// Compositions run longer than other text answers, so they are submitted separately
+const WritingAnswerSchema = z.object({
+  composition: z.string().trim().min(1).max(4000),
+});
 
 const SubmissionDraftSchema = z.object({
-  answerKey: z.string().min(1).max(2100),
+  answerKey: z.string().min(1).max(4100),
   clientSubmissionId: z.uuid(),
 });
 
@@ -23,9 +44,19 @@ export const SubmissionDraftsSchema = z.record(
 
 export const SubmitResponseRequestSchema = z.object({
   exerciseId: z.uuid(),
-  answer: z.union([TextAnswerSchema, MultipleChoiceAnswerSchema]),
+  answer: z.union([
+    TextAnswerSchema,
+    MultipleChoiceAnswerSchema,
+    MatchingAnswerSchema,
+    WordOrderAnswerSchema,
+    ReadingComprehensionAnswerSchema,
+    ClozeAnswerSchema,
+    WritingAnswerSchema,
+  ]),
   responseTimeMs: z.number().int().nonnegative().optional(),
   clientSubmissionId: z.uuid(),
+  // Practice session the answer belongs to, if any
+  sessionId: z.uuid().optional(),
 });
 
 export const EvaluationResultSchema = z.object({
@@ -34,6 +65,8 @@ export const EvaluationResultSchema = z.object({
   overallFeedback: z.string().trim().min(1).max(1000),
   suggestedReview: z.array(z.string().trim().min(1).max(120)).max(10),
   corrections: z.array(z.string().trim().min(1).max(200)).max(10).optional(),
+  itemResults: z.array(EvaluationItemResultSchema).min(2).max(8).optional(),
+  annotatedText: AnnotatedTextSchema.optional(),
   evaluationMethod: EvaluationMethodSchema,
 });
 
@@ -44,11 +77,27 @@ export const ExerciseLatestResponseSchema = z.object({
   rubric: EvaluationRubricSchema,
   overallFeedback: z.string().trim().min(1),
   suggestedReview: z.array(z.string().trim().min(1).max(120)).max(10),
+  itemResults: z.array(EvaluationItemResultSchema).max(8).nullable().optional(),
+  annotatedText: AnnotatedTextSchema.nullable().optional(),
   responseTimeMs: z.number().int().nonnegative().nullable(),
   createdAt: z.iso.datetime(),
   evaluationMethod: EvaluationMethodSchema,
 });
 
+// Where in the source media or document an exercise's excerpts come from
+export const ExerciseSourceLocationSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('timestamp'),
+    startMs: z.number().int().nonnegative(),
+    endMs: z.number().int().nonnegative(),
+  }),
+  z.object({
+    kind: z.literal('pages'),
+    startPage: z.number().int().positive(),
+    endPage: z.number().int().positive(),
+  }),
+]);
+
 const BaseExerciseCardSchema = z.object({
   id: z.uuid(),
   difficulty: DifficultySchema.nullable(),
@@ -58,6 +107,7 @@ const BaseExerciseCardSchema = z.object({
   timesAttempted: z.number().int().nonnegative(),
   averageScore: z.number().int().min(0).max(100).nullable(),
   latestResponse: ExerciseLatestResponseSchema.nullable(),
+  sourceLocations: z.array(ExerciseSourceLocationSchema).max(10).default([]),
 });
 
 const MultipleChoiceExerciseCardSchema = BaseExerciseCardSchema.extend({
@@ -83,10 +133,128 @@ const SingleAnswerExerciseCardSchema = BaseExerciseCardSchema.extend({
   }),
 });
 
+const MatchingExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('matching'),
+  renderData: z.object({
+    terms: z.array(z.string().trim().min(1)).min(4).max(8),
+    matches: z.array(z.string().trim().min(1)).min(4).max(8),
+  }),
+}).superRefine((value, context) => {
+  validateUniqueStrings(value.renderData.terms, context, 'renderData.terms');
+  validateUniqueStrings(value.renderData.matches, context, 'renderData.matches');
+
+  if (value.renderData.terms.length !== value.renderData.matches.length) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'renderData.matches must have one entry per term',
+      path: ['renderData.matches'],
+    });
+  }
+});
+
+const WordOrderExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('word_order'),
+  renderData: z.object({
+    tokens: z.array(z.string().trim().min(1)).min(3).max(15),
+  }),
+});
+
+const ErrorCorrectionExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('error_correction'),
+  renderData: z.object({
+    errorCount: z.number().int().min(1).max(5),
+  }),
+});
+
+const TranslationExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('translation'),
+  renderData: z.object({
+    direction: z.enum(['it_to_en', 'en_to_it']),
+  }),
+});
+
+const ReadingComprehensionExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('reading_comprehension'),
+  renderData: z.object({
+    passage: z.string().trim().min(1),
+    items: z.array(z.discriminatedUnion('kind', [
+      z.object({
+        kind: z.literal('true_false'),
+        statement: z.string().trim().min(1),
+      }),
+      z.object({
+        kind: z.literal('multiple_choice'),
+        question: z.string().trim().min(1),
+        options: z.array(z.string().trim().min(1)).length(4),
+      }),
+      z.object({
+        kind: z.literal('short_answer'),
+        question: z.string().trim().min(1),
+      }),
+    ])).min(3).max(6),
+  }),
+});
+
+const ClozeExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('cloze'),
+  renderData: z.object({
+    text: z.string().trim().min(1),
+    hints: z.array(z.string().trim().min(1).nullable()).min(2).max(8),
+  }),
+});
+
+const ConjugationExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('conjugation'),
+  renderData: z.object({
+    infinitive: z.string().trim().min(1),
+    tense: z.enum(['presente', 'imperfetto', 'passato_prossimo', 'futuro_semplice', 'condizionale_presente', 'congiuntivo_presente', 'congiuntivo_imperfetto']),
+    person: z.enum(['io', 'tu', 'lui/lei', 'noi', 'voi', 'loro']),
+  }),
+});
+
+const DialogueExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('dialogue'),
+  renderData: z.object({
+    character: z.string().trim().min(1),
+    learnerRole: z.string().trim().min(1),
+    openingLine: z.string().trim().min(1),
+    goals: z.array(z.string().trim().min(1)).min(1).max(4),
+    turnCount: z.number().int().min(3).max(6),
+  }),
+});
+
+const WritingExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('writing'),
+  renderData: z.object({
+    minWords: z.number().int().min(100).max(400),
+    maxWords: z.number().int().min(100).max(400),
+    register: z.enum(['informal', 'formal']),
+    gradingCriteria: z.array(z.string().trim().min(1)).min(1).max(5),
+  }),
+});
+
+const VocabularyExerciseCardSchema = BaseExerciseCardSchema.extend({
+  type: z.literal('vocabulary'),
+  renderData: z.object({
+    gloss: z.string().trim().min(1),
+    partOfSpeech: z.enum(['noun', 'verb', 'adjective', 'adverb', 'expression', 'other']),
+  }),
+});
+
 export const ExerciseCardSchema = z.discriminatedUnion('type', [
   MultipleChoiceExerciseCardSchema,
   FillGapExerciseCardSchema,
   SingleAnswerExerciseCardSchema,
+  MatchingExerciseCardSchema,
+  WordOrderExerciseCardSchema,
+  ErrorCorrectionExerciseCardSchema,
+  TranslationExerciseCardSchema,
+  ReadingComprehensionExerciseCardSchema,
+  ClozeExerciseCardSchema,
+  ConjugationExerciseCardSchema,
+  DialogueExerciseCardSchema,
+  WritingExerciseCardSchema,
+  VocabularyExerciseCardSchema,
 ]);
 
 export const SubmitResponseSuccessSchema = z.object({
@@ -111,11 +279,12 @@ export const ProgressSourceDocumentSchema = z.object({
 export const ProgressHistoryItemSchema = z.object({
   id: z.uuid(),
   exerciseId: z.uuid(),
-  exerciseType: z.enum(['multiple_choice', 'fill_gap', 'single_answer']),
+  exerciseType: ExerciseTypeSchema,
   score: z.number().int().min(0).max(100),
   overallFeedback: z.string().trim().min(1).max(1000),
   createdAt: z.iso.datetime(),
   documents: z.array(ProgressSourceDocumentSchema).max(20),
+  sessionId: z.uuid().nullable(),
 });
 
 export const ScoreTrendPointSchema = z.object({
@@ -135,9 +304,11 @@ export const ResponsesHistoryResponseSchema = z.object({
   }),
 });
 
+export type SubmittedAnswer = z.infer<typeof SubmitResponseRequestSchema>['answer'];
 export type EvaluationResult = z.infer<typeof EvaluationResultSchema>;
 export type ExerciseLatestResponse = z.infer<typeof ExerciseLatestResponseSchema>;
 export type ExerciseCard = z.infer<typeof ExerciseCardSchema>;
+export type ExerciseSourceLocation = z.infer<typeof ExerciseSourceLocationSchema>;
 export type SubmitResponseSuccess = z.infer<typeof SubmitResponseSuccessSchema>;
 export type ProgressSourceDocument = z.infer<typeof ProgressSourceDocumentSchema>;
 export type ProgressHistoryItem = z.infer<typeof ProgressHistoryItemSchema>;
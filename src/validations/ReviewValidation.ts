@@ -0,0 +1,26 @@
+import * as z from 'zod';
+import { ExerciseCardSchema } from '@/validations/ResponseValidation';
+
+export const DueReviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const ReviewScheduleSchema = z.object({
+  dueAt: z.iso.datetime(),
+  intervalDays: z.number().int().nonnegative(),
+  repetitions: z.number().int().nonnegative(),
+  lastScore: z.number().int().min(0).max(100).nullable(),
+  lastReviewedAt: z.iso.datetime().nullable(),
+});
+
+const DueReviewItemSchema = z.object({
+  exercise: ExerciseCardSchema,
+  review: ReviewScheduleSchema,
+});
+
+export const DueReviewsResponseSchema = z.object({
+  reviews: z.array(DueReviewItemSchema).max(50),
+  totalDue: z.number().int().nonnegative(),
+});
+
+export type DueReviewItem = z.infer<typeof DueReviewItemSchema>;
@@ -0,0 +1,52 @@
+import * as z from 'zod';
+
+export const partOfSpeechValues = ['noun', 'verb', 'adjective', 'adverb', 'expression', 'other'] as const;
+const vocabularyItemStatusValues = ['listed', 'starred', 'suppressed'] as const;
+
+export const PartOfSpeechSchema = z.enum(partOfSpeechValues);
+const VocabularyItemStatusSchema = z.enum(vocabularyItemStatusValues);
+
+// Model output for one batch of chunks; chunkPosition ties each term to its chunk
+export const ExtractedVocabularyResponseSchema = z.object({
+  items: z.array(z.object({
+    chunkPosition: z.number().int().nonnegative(),
+    lemma: z.string().trim().min(1).max(60),
+    partOfSpeech: PartOfSpeechSchema,
+    exampleSentence: z.string().trim().min(1).max(300),
+    gloss: z.string().trim().min(1).max(120),
+  })).max(60),
+});
+
+export const VocabularyListQuerySchema = z.object({
+  documentId: z.uuid().optional(),
+  status: VocabularyItemStatusSchema.optional(),
+  search: z.string().trim().min(1).max(60).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export const VocabularyItemSchema = z.object({
+  id: z.uuid(),
+  documentId: z.uuid(),
+  documentTitle: z.string().min(1),
+  lemma: z.string().min(1),
+  partOfSpeech: PartOfSpeechSchema,
+  exampleSentence: z.string().min(1),
+  gloss: z.string().min(1),
+  status: VocabularyItemStatusSchema,
+  createdAt: z.iso.datetime(),
+});
+
+export const VocabularyListResponseSchema = z.object({
+  items: z.array(VocabularyItemSchema).max(100),
+  total: z.number().int().nonnegative(),
+});
+
+export const VocabularyItemUpdateRequestSchema = z.object({
+  status: VocabularyItemStatusSchema,
+});
+
+export type PartOfSpeech = z.infer<typeof PartOfSpeechSchema>;
+export type VocabularyItemStatus = z.infer<typeof VocabularyItemStatusSchema>;
+export type VocabularyListQuery = z.infer<typeof VocabularyListQuerySchema>;
+export type VocabularyListItem = z.infer<typeof VocabularyItemSchema>;